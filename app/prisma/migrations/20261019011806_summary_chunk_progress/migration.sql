@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "chunksProcessed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "chunksTotal" INTEGER;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN     "summaryTemplate" TEXT;
+
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "content" JSONB,
+ADD COLUMN     "templateId" TEXT NOT NULL DEFAULT 'general';
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ActionItem" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "task" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "assigneeName" TEXT,
+    "assigneeId" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "completedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ActionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ActionItem_summaryId_idx" ON "ActionItem"("summaryId");
+
+-- CreateIndex
+CREATE INDEX "ActionItem_meetingId_idx" ON "ActionItem"("meetingId");
+
+-- CreateIndex
+CREATE INDEX "ActionItem_assigneeId_completed_idx" ON "ActionItem"("assigneeId", "completed");
+
+-- AddForeignKey
+ALTER TABLE "ActionItem" ADD CONSTRAINT "ActionItem_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ActionItem" ADD CONSTRAINT "ActionItem_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "Meeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ActionItem" ADD CONSTRAINT "ActionItem_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "SummaryRevisionSource" AS ENUM ('GENERATED', 'MANUAL_EDIT');
+
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "currentRevision" INTEGER;
+
+-- CreateTable
+CREATE TABLE "SummaryRevision" (
+    "id" TEXT NOT NULL,
+    "summaryId" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "overview" TEXT NOT NULL,
+    "keyPoints" JSONB NOT NULL,
+    "actionItems" JSONB NOT NULL,
+    "decisions" JSONB NOT NULL,
+    "nextSteps" JSONB,
+    "content" JSONB,
+    "model" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "promptVersion" TEXT,
+    "tokensUsed" INTEGER,
+    "source" "SummaryRevisionSource" NOT NULL DEFAULT 'GENERATED',
+    "editedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SummaryRevision_meetingId_idx" ON "SummaryRevision"("meetingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryRevision_summaryId_revision_key" ON "SummaryRevision"("summaryId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "SummaryRevision" ADD CONSTRAINT "SummaryRevision_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "Summary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryRevision" ADD CONSTRAINT "SummaryRevision_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "editedById" TEXT,
+ADD COLUMN     "humanEdited" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "SummaryRevision" ADD COLUMN     "editedFields" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AddForeignKey
+ALTER TABLE "Summary" ADD CONSTRAINT "Summary_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
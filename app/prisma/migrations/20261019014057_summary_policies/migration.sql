@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "SummaryPolicy" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "autoSummarize" BOOLEAN NOT NULL DEFAULT false,
+    "minTranscriptWords" INTEGER NOT NULL DEFAULT 150,
+    "templateId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SummaryPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryPolicy_userId_key" ON "SummaryPolicy"("userId");
+
+-- AddForeignKey
+ALTER TABLE "SummaryPolicy" ADD CONSTRAINT "SummaryPolicy_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TranscriptSegment" ALTER COLUMN "startTime" DROP NOT NULL,
+ALTER COLUMN "endTime" DROP NOT NULL;
@@ -0,0 +1,42 @@
+-- Full-text search (see searchService)
+--
+-- Prisma cannot declare expression indexes, so the GIN indexes below exist only
+-- in this migration and are intentionally absent from the schema. Keep them when
+-- editing a migration generated by `prisma migrate dev --create-only`.
+
+-- Vietnamese: whole words like "simple", matched with or without diacritics
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE TEXT SEARCH CONFIGURATION vietnamese (COPY = simple);
+ALTER TEXT SEARCH CONFIGURATION vietnamese
+    ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+
+-- CreateIndex (vietnamese)
+CREATE INDEX "TranscriptSegment_text_vi_fts_idx" ON "TranscriptSegment" USING GIN (to_tsvector('vietnamese'::regconfig, "text"));
+CREATE INDEX "Transcript_fullText_vi_fts_idx" ON "Transcript" USING GIN (to_tsvector('vietnamese'::regconfig, "fullText"));
+CREATE INDEX "Summary_vi_fts_idx" ON "Summary" USING GIN ((
+    setweight(to_tsvector('vietnamese'::regconfig, "title"), 'A') ||
+    setweight(to_tsvector('vietnamese'::regconfig, "overview"), 'B') ||
+    setweight(to_tsvector('vietnamese'::regconfig, "keyPoints"::text || ' ' || "decisions"::text || ' ' ||
+              "actionItems"::text || ' ' || coalesce("content"::text, '')), 'C')
+));
+
+-- CreateIndex (english)
+CREATE INDEX "TranscriptSegment_text_en_fts_idx" ON "TranscriptSegment" USING GIN (to_tsvector('english'::regconfig, "text"));
+CREATE INDEX "Transcript_fullText_en_fts_idx" ON "Transcript" USING GIN (to_tsvector('english'::regconfig, "fullText"));
+CREATE INDEX "Summary_en_fts_idx" ON "Summary" USING GIN ((
+    setweight(to_tsvector('english'::regconfig, "title"), 'A') ||
+    setweight(to_tsvector('english'::regconfig, "overview"), 'B') ||
+    setweight(to_tsvector('english'::regconfig, "keyPoints"::text || ' ' || "decisions"::text || ' ' ||
+              "actionItems"::text || ' ' || coalesce("content"::text, '')), 'C')
+));
+
+-- CreateIndex (simple)
+CREATE INDEX "TranscriptSegment_text_simple_fts_idx" ON "TranscriptSegment" USING GIN (to_tsvector('simple'::regconfig, "text"));
+CREATE INDEX "Transcript_fullText_simple_fts_idx" ON "Transcript" USING GIN (to_tsvector('simple'::regconfig, "fullText"));
+CREATE INDEX "Summary_simple_fts_idx" ON "Summary" USING GIN ((
+    setweight(to_tsvector('simple'::regconfig, "title"), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, "overview"), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, "keyPoints"::text || ' ' || "decisions"::text || ' ' ||
+              "actionItems"::text || ' ' || coalesce("content"::text, '')), 'C')
+));
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TranscriptEmbedding" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "segmentIds" TEXT[],
+    "text" TEXT NOT NULL,
+    "startTime" DOUBLE PRECISION,
+    "endTime" DOUBLE PRECISION,
+    "model" TEXT NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranscriptEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TranscriptEmbedding_meetingId_model_idx" ON "TranscriptEmbedding"("meetingId", "model");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptEmbedding" ADD CONSTRAINT "TranscriptEmbedding_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "Meeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "SpeakerMapping" (
+    "id" TEXT NOT NULL,
+    "transcriptId" TEXT NOT NULL,
+    "jitsiParticipantId" TEXT NOT NULL,
+    "participantId" TEXT,
+    "displayName" TEXT NOT NULL,
+    "originalName" TEXT,
+    "originalUserId" TEXT,
+    "mappedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpeakerMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpeakerMapping_transcriptId_jitsiParticipantId_key" ON "SpeakerMapping"("transcriptId", "jitsiParticipantId");
+
+-- AddForeignKey
+ALTER TABLE "SpeakerMapping" ADD CONSTRAINT "SpeakerMapping_transcriptId_fkey" FOREIGN KEY ("transcriptId") REFERENCES "Transcript"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SpeakerMapping" ADD CONSTRAINT "SpeakerMapping_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "MeetingParticipant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Summary" ADD COLUMN     "transcriptStale" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "TranscriptSegment" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "editedById" TEXT,
+ADD COLUMN     "originalText" TEXT;
+
+-- CreateTable
+CREATE TABLE "TranscriptSegmentEdit" (
+    "id" TEXT NOT NULL,
+    "segmentId" TEXT NOT NULL,
+    "previousText" TEXT NOT NULL,
+    "newText" TEXT NOT NULL,
+    "editedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranscriptSegmentEdit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TranscriptSegmentEdit_segmentId_createdAt_idx" ON "TranscriptSegmentEdit"("segmentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptSegmentEdit" ADD CONSTRAINT "TranscriptSegmentEdit_segmentId_fkey" FOREIGN KEY ("segmentId") REFERENCES "TranscriptSegment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TranscriptSegmentEdit" ADD CONSTRAINT "TranscriptSegmentEdit_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ChatMessage" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "senderJitsiId" TEXT NOT NULL,
+    "senderName" TEXT NOT NULL,
+    "senderUserId" TEXT,
+    "isPrivate" BOOLEAN NOT NULL DEFAULT false,
+    "recipientJitsiId" TEXT,
+    "recipientName" TEXT,
+    "text" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_meetingId_sentAt_idx" ON "ChatMessage"("meetingId", "sentAt");
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_senderUserId_idx" ON "ChatMessage"("senderUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatMessage_meetingId_messageId_key" ON "ChatMessage"("meetingId", "messageId");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "Meeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_senderUserId_fkey" FOREIGN KEY ("senderUserId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN     "plannedDuration" INTEGER;
+
+-- CreateTable
+CREATE TABLE "MeetingInvitee" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MeetingInvitee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MeetingInvitee_userId_idx" ON "MeetingInvitee"("userId");
+
+-- CreateIndex
+CREATE INDEX "MeetingInvitee_email_idx" ON "MeetingInvitee"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeetingInvitee_meetingId_email_key" ON "MeetingInvitee"("meetingId", "email");
+
+-- AddForeignKey
+ALTER TABLE "MeetingInvitee" ADD CONSTRAINT "MeetingInvitee_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "Meeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MeetingInvitee" ADD CONSTRAINT "MeetingInvitee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN     "occurrenceAt" TIMESTAMP(3),
+ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "MeetingSeries" (
+    "id" TEXT NOT NULL,
+    "roomName" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "hostId" TEXT,
+    "rrule" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "timeZone" TEXT NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "exdates" TIMESTAMP(3)[],
+    "invitees" JSONB,
+    "summaryTemplate" TEXT,
+    "generatedUntil" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MeetingSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MeetingSeries_hostId_idx" ON "MeetingSeries"("hostId");
+
+-- CreateIndex
+CREATE INDEX "MeetingSeries_roomName_idx" ON "MeetingSeries"("roomName");
+
+-- CreateIndex
+CREATE INDEX "MeetingSeries_generatedUntil_idx" ON "MeetingSeries"("generatedUntil");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Meeting_seriesId_occurrenceAt_key" ON "Meeting"("seriesId", "occurrenceAt");
+
+-- AddForeignKey
+ALTER TABLE "Meeting" ADD CONSTRAINT "Meeting_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "MeetingSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MeetingSeries" ADD CONSTRAINT "MeetingSeries_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "MeetingAccessPolicy" AS ENUM ('OPEN', 'AUTHENTICATED', 'INVITEES', 'PASSWORD');
+
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN     "accessPolicy" "MeetingAccessPolicy" NOT NULL DEFAULT 'OPEN',
+ADD COLUMN     "lobbyEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "passwordHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "MeetingSeries" ADD COLUMN     "accessPolicy" "MeetingAccessPolicy" NOT NULL DEFAULT 'OPEN',
+ADD COLUMN     "lobbyEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "passwordHash" TEXT;
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { actionItemService } from '@/domains/meeting/services/meeting-database/actionItemService'
+
+const { prisma } = vi.hoisted(() => ({
+    prisma: {
+        actionItem: {
+            findMany: vi.fn(),
+            deleteMany: vi.fn(),
+            update: vi.fn(),
+            create: vi.fn(),
+        },
+        meetingParticipant: { findMany: vi.fn() },
+        $transaction: vi.fn(),
+    },
+}))
+
+vi.mock('@/lib/prisma', () => ({ default: prisma }))
+
+const completedAt = new Date('2026-10-01T10:00:00Z')
+
+const row = (id: string, task: string, changes: object = {}) => ({
+    id,
+    summaryId: 's1',
+    meetingId: 'm1',
+    task,
+    position: 0,
+    assigneeName: null,
+    assigneeId: null,
+    dueDate: null,
+    completed: false,
+    completedAt: null,
+    completedById: null,
+    ...changes,
+})
+
+beforeEach(() => {
+    vi.resetAllMocks()
+    prisma.meetingParticipant.findMany.mockResolvedValue([
+        { userId: 'u-bob', displayName: 'Bob Smith', email: null },
+    ])
+})
+
+describe('actionItemService.syncFromSummary', () => {
+    it('updates matched rows in place and removes unmatched ones', async () => {
+        prisma.actionItem.findMany.mockResolvedValue([
+            // Assigned to a user by hand, whose name the summary does not use
+            row('a1', 'Send the deck', {
+                assigneeName: 'Bob',
+                assigneeId: 'u-alice',
+                dueDate: new Date('2026-10-20T00:00:00Z'),
+                completed: true,
+                completedAt,
+                completedById: 'u-alice',
+            }),
+            row('a2', 'Book the room'),
+            row('a3', 'Dropped item'),
+        ])
+
+        await actionItemService.syncFromSummary('s1', 'm1', [
+            { task: 'send the  deck', assignee: 'Bob', completed: false },
+            { id: 'a2', task: 'Book the large room', completed: false },
+            { task: 'New item', assignee: 'Bob Smith', completed: false },
+        ])
+
+        expect(prisma.actionItem.deleteMany).toHaveBeenCalledWith({
+            where: { summaryId: 's1', id: { notIn: ['a1', 'a2'] } },
+        })
+        expect(prisma.actionItem.update).toHaveBeenCalledWith({
+            where: { id: 'a1' },
+            data: expect.objectContaining({
+                assigneeId: 'u-alice',
+                dueDate: new Date('2026-10-20T00:00:00Z'),
+                completed: true,
+                completedAt,
+                completedById: 'u-alice',
+            }),
+        })
+        expect(prisma.actionItem.update).toHaveBeenCalledWith({
+            where: { id: 'a2' },
+            data: expect.objectContaining({
+                task: 'Book the large room',
+                position: 1,
+            }),
+        })
+        expect(prisma.actionItem.create).toHaveBeenCalledTimes(1)
+        expect(prisma.actionItem.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({
+                summaryId: 's1',
+                meetingId: 'm1',
+                task: 'New item',
+                assigneeId: 'u-bob',
+            }),
+        })
+    })
+
+    it('takes completion and due dates from hand edits', async () => {
+        prisma.actionItem.findMany.mockResolvedValue([
+            row('a1', 'Send the deck', {
+                dueDate: new Date('2026-10-20T00:00:00Z'),
+                completed: true,
+                completedAt,
+            }),
+        ])
+
+        await actionItemService.syncFromSummary(
+            's1',
+            'm1',
+            [{ id: 'a1', task: 'Send the deck', completed: false }],
+            { editedById: 'u-host' }
+        )
+
+        expect(prisma.actionItem.update).toHaveBeenCalledWith({
+            where: { id: 'a1' },
+            data: expect.objectContaining({
+                dueDate: null,
+                completed: false,
+                completedAt: null,
+            }),
+        })
+    })
+})
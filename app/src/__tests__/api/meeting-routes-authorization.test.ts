@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as getTranscript } from '@/app/api/meetings/[meetingId]/transcript/route'
+import {
+    PATCH as patchSummary,
+    POST as generateSummary,
+} from '@/app/api/meetings/[meetingId]/summary/route'
+import { PUT as mapSpeaker } from '@/app/api/meetings/[meetingId]/speakers/[speakerId]/route'
+import { POST as askMeeting } from '@/app/api/meetings/[meetingId]/ask/route'
+import { PATCH as patchActionItem } from '@/app/api/meetings/[meetingId]/action-items/[actionItemId]/route'
+
+const { getSession, getUserMeetingRole, prisma, ask, getActionItemById } =
+    vi.hoisted(() => ({
+        getSession: vi.fn(),
+        getUserMeetingRole: vi.fn(),
+        ask: vi.fn(),
+        getActionItemById: vi.fn(),
+        // Any query reaching the database fails the test
+        prisma: new Proxy(
+            {},
+            {
+                get: (_, model) => {
+                    throw new Error(
+                        `Unexpected database access: ${String(model)}`
+                    )
+                },
+            }
+        ),
+    }))
+
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('@/lib/auth', () => ({ auth: { api: { getSession } } }))
+vi.mock('@/lib/prisma', () => ({ default: prisma }))
+vi.mock(
+    '@/domains/meeting/services/meeting-database',
+    async (importOriginal) => ({
+        ...(await importOriginal<object>()),
+        participantRecordService: { getUserMeetingRole },
+        actionItemService: { getActionItemById },
+    })
+)
+vi.mock(
+    '@/domains/meeting/services/meeting-database/meetingQaService',
+    async (importOriginal) => ({
+        ...(await importOriginal<object>()),
+        meetingQaService: { ask },
+    })
+)
+
+function request(method: string, body?: unknown) {
+    return new NextRequest('http://localhost/api/meetings/m1', {
+        method,
+        ...(body !== undefined && {
+            body: JSON.stringify(body),
+            headers: { 'Content-Type': 'application/json' },
+        }),
+    })
+}
+
+const meetingParams = { params: Promise.resolve({ meetingId: 'm1' }) }
+const speakerParams = {
+    params: Promise.resolve({ meetingId: 'm1', speakerId: 's1' }),
+}
+const actionItemParams = {
+    params: Promise.resolve({ meetingId: 'm1', actionItemId: 'a1' }),
+}
+
+function signedInAs(role: 'HOST' | 'CO_HOST' | 'PARTICIPANT' | null) {
+    getSession.mockResolvedValue({ user: { id: 'u1' } })
+    getUserMeetingRole.mockResolvedValue(role)
+}
+
+beforeEach(() => {
+    getSession.mockReset()
+    getUserMeetingRole.mockReset()
+    ask.mockReset()
+    getActionItemById.mockReset()
+})
+
+describe('meeting routes without a session', () => {
+    beforeEach(() => getSession.mockResolvedValue(null))
+
+    it('GET transcript returns 401', async () => {
+        const res = await getTranscript(request('GET'), meetingParams)
+        expect(res.status).toBe(401)
+    })
+
+    it('PATCH summary returns 401', async () => {
+        const res = await patchSummary(
+            request('PATCH', { title: 'New title' }),
+            meetingParams
+        )
+        expect(res.status).toBe(401)
+    })
+
+    it('POST ask returns 401', async () => {
+        const res = await askMeeting(
+            request('POST', { question: 'What was decided?' }),
+            meetingParams
+        )
+        expect(res.status).toBe(401)
+        expect(ask).not.toHaveBeenCalled()
+    })
+})
+
+describe('meeting routes for non-members', () => {
+    beforeEach(() => signedInAs(null))
+
+    it('GET transcript returns 403 without touching the meeting', async () => {
+        const res = await getTranscript(request('GET'), meetingParams)
+        expect(res.status).toBe(403)
+    })
+
+    it('PATCH action item returns 404 whether or not the item exists', async () => {
+        getActionItemById.mockResolvedValue({
+            id: 'a1',
+            meetingId: 'm1',
+            assigneeId: 'u2',
+        })
+        const existing = await patchActionItem(
+            request('PATCH', { completed: true }),
+            actionItemParams
+        )
+
+        getActionItemById.mockResolvedValue(null)
+        const missing = await patchActionItem(
+            request('PATCH', { completed: true }),
+            actionItemParams
+        )
+
+        expect(existing.status).toBe(404)
+        expect(missing.status).toBe(404)
+        expect(await existing.json()).toEqual(await missing.json())
+    })
+
+    it('POST ask returns 403 before the question is answered', async () => {
+        const res = await askMeeting(
+            request('POST', { question: 'What was decided?' }),
+            meetingParams
+        )
+        expect(res.status).toBe(403)
+        expect(ask).not.toHaveBeenCalled()
+    })
+})
+
+describe('meeting routes for participants', () => {
+    beforeEach(() => signedInAs('PARTICIPANT'))
+
+    it('PATCH summary returns 403', async () => {
+        const res = await patchSummary(
+            request('PATCH', { title: 'New title' }),
+            meetingParams
+        )
+        expect(res.status).toBe(403)
+        expect(await res.json()).toEqual({
+            error: 'Only the host or a co-host can edit the summary',
+        })
+    })
+
+    it('PUT speaker mapping returns 403', async () => {
+        const res = await mapSpeaker(
+            request('PUT', { displayName: 'Alice' }),
+            speakerParams
+        )
+        expect(res.status).toBe(403)
+    })
+
+    it('POST ask is answered for the caller', async () => {
+        ask.mockResolvedValue({ success: true, answer: 'Ship it', sources: [] })
+
+        const res = await askMeeting(
+            request('POST', { question: 'What was decided?' }),
+            meetingParams
+        )
+        expect(res.status).toBe(200)
+        expect(ask).toHaveBeenCalledWith('u1', 'What was decided?', {
+            meetingId: 'm1',
+            history: [],
+        })
+    })
+})
+
+describe('meeting routes for hosts', () => {
+    beforeEach(() => signedInAs('HOST'))
+
+    it('POST and PATCH summary return 400 for a null JSON body', async () => {
+        const generated = await generateSummary(
+            request('POST', null),
+            meetingParams
+        )
+        expect(generated.status).toBe(400)
+
+        const edited = await patchSummary(request('PATCH', null), meetingParams)
+        expect(edited.status).toBe(400)
+    })
+})
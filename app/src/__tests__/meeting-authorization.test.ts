@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextResponse } from 'next/server'
+import {
+    authorizeMeeting,
+    getMeetingCaller,
+    hasMeetingPermission,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+const { getSession, getUserMeetingRole } = vi.hoisted(() => ({
+    getSession: vi.fn(),
+    getUserMeetingRole: vi.fn(),
+}))
+
+vi.mock('next/headers', () => ({ headers: async () => new Headers() }))
+vi.mock('@/lib/auth', () => ({ auth: { api: { getSession } } }))
+vi.mock('@/domains/meeting/services/meeting-database', () => ({
+    participantRecordService: { getUserMeetingRole },
+}))
+
+beforeEach(() => {
+    getSession.mockReset()
+    getUserMeetingRole.mockReset()
+})
+
+describe('hasMeetingPermission', () => {
+    it('grants hosts and co-hosts every permission', () => {
+        for (const permission of Object.values(MeetingPermissions)) {
+            expect(hasMeetingPermission('HOST', permission)).toBe(true)
+            expect(hasMeetingPermission('CO_HOST', permission)).toBe(true)
+        }
+    })
+
+    it('keeps summary edits, speaker mapping and meeting control from participants', () => {
+        expect(
+            hasMeetingPermission('PARTICIPANT', MeetingPermissions.VIEW)
+        ).toBe(true)
+        expect(
+            hasMeetingPermission(
+                'PARTICIPANT',
+                MeetingPermissions.GENERATE_SUMMARY
+            )
+        ).toBe(true)
+        expect(
+            hasMeetingPermission('PARTICIPANT', MeetingPermissions.EDIT_SUMMARY)
+        ).toBe(false)
+        expect(
+            hasMeetingPermission('PARTICIPANT', MeetingPermissions.MAP_SPEAKERS)
+        ).toBe(false)
+        expect(
+            hasMeetingPermission(
+                'PARTICIPANT',
+                MeetingPermissions.CONTROL_MEETING
+            )
+        ).toBe(false)
+    })
+
+    it('grants non-members nothing', () => {
+        for (const permission of Object.values(MeetingPermissions)) {
+            expect(hasMeetingPermission(null, permission)).toBe(false)
+        }
+    })
+})
+
+describe('authorizeMeeting', () => {
+    it('returns 401 without a session, before looking up the role', async () => {
+        getSession.mockResolvedValue(null)
+
+        const result = await authorizeMeeting('m1', MeetingPermissions.VIEW)
+
+        expect(result).toBeInstanceOf(NextResponse)
+        expect((result as NextResponse).status).toBe(401)
+        expect(getUserMeetingRole).not.toHaveBeenCalled()
+    })
+
+    it('returns 403 for signed-in non-members', async () => {
+        getSession.mockResolvedValue({ user: { id: 'u1' } })
+        getUserMeetingRole.mockResolvedValue(null)
+
+        const result = await authorizeMeeting('m1', MeetingPermissions.VIEW)
+
+        expect((result as NextResponse).status).toBe(403)
+        expect(getUserMeetingRole).toHaveBeenCalledWith('m1', 'u1')
+    })
+
+    it('returns 403 with the given message when the role falls short', async () => {
+        getSession.mockResolvedValue({ user: { id: 'u1' } })
+        getUserMeetingRole.mockResolvedValue('PARTICIPANT')
+
+        const result = await authorizeMeeting(
+            'm1',
+            MeetingPermissions.MAP_SPEAKERS,
+            'Hosts only'
+        )
+
+        expect((result as NextResponse).status).toBe(403)
+        expect(await (result as NextResponse).json()).toEqual({
+            error: 'Hosts only',
+        })
+    })
+
+    it('returns the caller when the role grants the permission', async () => {
+        getSession.mockResolvedValue({ user: { id: 'u1' } })
+        getUserMeetingRole.mockResolvedValue('CO_HOST')
+
+        const result = await authorizeMeeting(
+            'm1',
+            MeetingPermissions.EDIT_SUMMARY
+        )
+
+        expect(result).toEqual({ userId: 'u1', role: 'CO_HOST' })
+    })
+})
+
+describe('getMeetingCaller', () => {
+    it('returns non-members with a null role for routes with exceptions', async () => {
+        getSession.mockResolvedValue({ user: { id: 'u1' } })
+        getUserMeetingRole.mockResolvedValue(null)
+
+        expect(await getMeetingCaller('m1')).toEqual({
+            userId: 'u1',
+            role: null,
+        })
+    })
+})
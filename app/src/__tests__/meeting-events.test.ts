@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+    EVENT_PERMISSIONS,
+    eventIngestionService,
+    type MeetingEventType,
+    type ValidatedMeetingEvent,
+} from '@/domains/meeting/services/meeting-database/eventIngestionService'
+import {
+    accessPolicyService,
+    type EventSession,
+} from '@/domains/meeting/services/meeting-database/accessPolicyService'
+import { meetingRecordService } from '@/domains/meeting/services/meeting-database/meetingRecordService'
+
+const { prisma } = vi.hoisted(() => ({
+    prisma: {
+        meeting: {
+            findFirst: vi.fn(),
+            update: vi.fn(),
+            upsert: vi.fn(),
+        },
+    },
+}))
+
+vi.mock('@/lib/prisma', () => ({ default: prisma }))
+
+const ROOM = 'team-sync'
+
+const participant: EventSession = {
+    roomName: ROOM,
+    userId: 'u1',
+    isModerator: false,
+}
+const moderator: EventSession = { ...participant, isModerator: true }
+
+/**
+ * An event of the given type for ROOM; authorizeEvent only reads the fields
+ * the payload overrides
+ */
+function event(
+    type: MeetingEventType,
+    payload: Record<string, unknown> = {}
+): ValidatedMeetingEvent {
+    return {
+        eventId: `e-${type}`,
+        type,
+        timestamp: 0,
+        meetingId: ROOM,
+        payload: {
+            meetingId: ROOM,
+            participant: { id: 'p1', displayName: 'Ana' },
+            sender: { id: 'p1', displayName: 'Ana' },
+            ...payload,
+        },
+    } as unknown as ValidatedMeetingEvent
+}
+
+const eventTypes = Object.keys(EVENT_PERMISSIONS) as MeetingEventType[]
+
+beforeEach(() => {
+    vi.restoreAllMocks()
+    prisma.meeting.findFirst.mockReset()
+    prisma.meeting.update.mockReset()
+    prisma.meeting.upsert.mockReset()
+})
+
+describe('eventIngestionService.authorizeEvent', () => {
+    it('keeps moderator events from participants', () => {
+        for (const type of eventTypes) {
+            const result = eventIngestionService.authorizeEvent(
+                event(type),
+                participant
+            )
+            if (EVENT_PERMISSIONS[type] === 'moderator') {
+                expect(result, type).toMatchObject({
+                    success: false,
+                    errorCode: 'FORBIDDEN_EVENT',
+                })
+            } else {
+                expect(result.success, type).toBe(true)
+            }
+        }
+    })
+
+    it('accepts every event type from moderators', () => {
+        for (const type of eventTypes) {
+            expect(
+                eventIngestionService.authorizeEvent(event(type), moderator)
+                    .success,
+                type
+            ).toBe(true)
+        }
+    })
+
+    it('rejects events for another room in the envelope or payload', () => {
+        const otherEnvelope = { ...event('meeting.ended'), meetingId: 'other' }
+        const otherPayload = event('meeting.ended', { meetingId: 'other' })
+
+        for (const sent of [otherEnvelope, otherPayload]) {
+            expect(
+                eventIngestionService.authorizeEvent(sent, moderator)
+            ).toMatchObject({ success: false, errorCode: 'WRONG_MEETING' })
+        }
+    })
+
+    it('rejects account ids other than the sender’s', () => {
+        const sent = [
+            event('participant.joined', { userId: 'u2' }),
+            event('participant.left', { userId: 'u2' }),
+            event('transcription.chunk.received', {
+                participant: { id: 'p1', displayName: 'Ana', userId: 'u2' },
+            }),
+            event('chat.message.sent', {
+                sender: { id: 'p1', displayName: 'Ana', userId: 'u2' },
+            }),
+        ]
+
+        for (const e of sent) {
+            expect(
+                eventIngestionService.authorizeEvent(e, moderator),
+                e.type
+            ).toMatchObject({ success: false, errorCode: 'IDENTITY_MISMATCH' })
+        }
+    })
+
+    it('takes roles and the host from the sender', () => {
+        const joined = eventIngestionService.authorizeEvent(
+            event('participant.joined', { userId: 'u1', role: 'HOST' }),
+            participant
+        )
+        expect(joined).toMatchObject({
+            success: true,
+            event: { payload: { role: 'PARTICIPANT' } },
+        })
+
+        const updated = eventIngestionService.authorizeEvent(
+            event('participant.updated', { role: 'CO_HOST' }),
+            participant
+        )
+        expect(updated).toMatchObject({
+            success: true,
+            event: { payload: { role: undefined } },
+        })
+
+        const started = eventIngestionService.authorizeEvent(
+            event('meeting.started', { roomName: 'other', hostUserId: 'u2' }),
+            participant
+        )
+        expect(started).toMatchObject({
+            success: true,
+            event: { payload: { roomName: ROOM, hostUserId: '' } },
+        })
+    })
+})
+
+describe('meetingRecordService room events', () => {
+    it('ends only the active meeting of the room, never a meeting by id', async () => {
+        prisma.meeting.findFirst.mockResolvedValue(null)
+
+        const result = await meetingRecordService.handleEvent(
+            event('meeting.ended', {
+                meetingId: 'victim-meeting-id',
+                endedAt: new Date().toISOString(),
+            })
+        )
+
+        expect(result.success).toBe(true)
+        expect(prisma.meeting.findFirst).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: { roomName: 'victim-meeting-id', status: 'ACTIVE' },
+            })
+        )
+        expect(prisma.meeting.update).not.toHaveBeenCalled()
+        expect(prisma.meeting.upsert).not.toHaveBeenCalled()
+    })
+
+    it('cancels the meeting the room resolves to, never a meeting by id', async () => {
+        const findRoomMeeting = vi
+            .spyOn(accessPolicyService, 'findRoomMeeting')
+            .mockResolvedValue(null)
+
+        await meetingRecordService.handleEvent(
+            event('meeting.cancelled', { meetingId: 'victim-meeting-id' })
+        )
+
+        expect(findRoomMeeting).toHaveBeenCalledWith('victim-meeting-id')
+        expect(prisma.meeting.upsert).not.toHaveBeenCalled()
+
+        findRoomMeeting.mockResolvedValue({
+            id: 'm1',
+        } as Awaited<ReturnType<typeof accessPolicyService.findRoomMeeting>>)
+
+        await meetingRecordService.handleEvent(
+            event('meeting.cancelled', { meetingId: ROOM })
+        )
+
+        expect(prisma.meeting.upsert).toHaveBeenCalledWith(
+            expect.objectContaining({ where: { id: 'm1' } })
+        )
+    })
+})
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getClientIp, getLimitFromEnv } from '@/lib/rate-limit'
+
+const request = (headers: Record<string, string>) =>
+    new NextRequest('http://localhost/api/meetings/events', { headers })
+
+afterEach(() => {
+    vi.unstubAllEnvs()
+})
+
+describe('getClientIp', () => {
+    it('ignores forwarding headers without trusted proxies', () => {
+        expect(
+            getClientIp(
+                request({
+                    'x-forwarded-for': '203.0.113.7',
+                    'x-real-ip': '203.0.113.8',
+                })
+            )
+        ).toBe('unknown')
+    })
+
+    it('takes the entry appended by the trusted proxy, not spoofed ones', () => {
+        vi.stubEnv('TRUSTED_PROXY_COUNT', '1')
+
+        expect(
+            getClientIp(
+                request({ 'x-forwarded-for': '10.0.0.1, 198.51.100.4' })
+            )
+        ).toBe('198.51.100.4')
+    })
+
+    it('counts hops from the right for several proxies', () => {
+        vi.stubEnv('TRUSTED_PROXY_COUNT', '2')
+
+        expect(
+            getClientIp(
+                request({
+                    'x-forwarded-for': '10.0.0.1, 198.51.100.4, 192.0.2.1',
+                })
+            )
+        ).toBe('198.51.100.4')
+    })
+
+    it('falls back to X-Real-IP behind a trusted proxy', () => {
+        vi.stubEnv('TRUSTED_PROXY_COUNT', '1')
+
+        expect(getClientIp(request({ 'x-real-ip': '198.51.100.4' }))).toBe(
+            '198.51.100.4'
+        )
+    })
+})
+
+describe('getLimitFromEnv', () => {
+    it('uses the fallback for missing, non-numeric and non-positive values', () => {
+        for (const value of ['', 'abc', '0', '-5']) {
+            vi.stubEnv('EVENT_RATE_LIMIT_PER_MINUTE', value)
+            expect(getLimitFromEnv('EVENT_RATE_LIMIT_PER_MINUTE', 1200)).toBe(
+                1200
+            )
+        }
+    })
+
+    it('reads positive integers', () => {
+        vi.stubEnv('EVENT_RATE_LIMIT_PER_MINUTE', '300')
+
+        expect(getLimitFromEnv('EVENT_RATE_LIMIT_PER_MINUTE', 1200)).toBe(300)
+    })
+})
@@ -0,0 +1,46 @@
+/**
+ * GET /api/calendar/[token]
+ *
+ * Per-user iCalendar feed of upcoming meetings, for subscribing from calendar
+ * apps. The secret token in the URL is the only credential (no session);
+ * a trailing ".ics" is accepted since some clients expect it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { calendarService } from '@/domains/meeting/services/meeting-database'
+
+interface Params {
+  params: Promise<{
+    token: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { token } = await params
+
+    const ics = await calendarService.getFeedCalendar(
+      token.replace(/\.ics$/, ''),
+      request.nextUrl.origin
+    )
+
+    if (ics === null) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[API] Error building calendar feed:', error)
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
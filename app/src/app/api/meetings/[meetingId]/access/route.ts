@@ -0,0 +1,122 @@
+/**
+ * GET /api/meetings/[meetingId]/access
+ * PUT /api/meetings/[meetingId]/access
+ *
+ * Who may join the meeting (host only). For an occurrence of a recurring
+ * meeting the settings apply to the whole series.
+ *
+ * PUT body (all optional):
+ * - accessPolicy: 'OPEN' | 'AUTHENTICATED' | 'INVITEES' | 'PASSWORD'
+ * - password: string (sets a new password; required for PASSWORD without one)
+ * - lobbyEnabled: boolean
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+    accessPolicyService,
+    AccessErrorCodes,
+    type AccessErrorCode,
+    type AccessSettingsResult,
+} from '@/domains/meeting/services/meeting-database'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+    }>
+}
+
+const ERROR_STATUS: Record<AccessErrorCode, number> = {
+    [AccessErrorCodes.MEETING_NOT_FOUND]: 404,
+    [AccessErrorCodes.NOT_HOST]: 403,
+    [AccessErrorCodes.INVALID_POLICY]: 400,
+    [AccessErrorCodes.INVALID_PASSWORD]: 400,
+}
+
+function toResponse(result: AccessSettingsResult) {
+    if (!result.success || !result.settings) {
+        return NextResponse.json(
+            { error: result.error, errorCode: result.errorCode },
+            { status: result.errorCode ? ERROR_STATUS[result.errorCode] : 500 }
+        )
+    }
+
+    return NextResponse.json({ settings: result.settings })
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const result = await accessPolicyService.getAccessSettings(
+            meetingId,
+            session.user.id
+        )
+
+        return toResponse(result)
+    } catch (error) {
+        console.error('[API] Error fetching meeting access settings:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json().catch(() => ({}))
+
+        if (body.password !== undefined && typeof body.password !== 'string') {
+            return NextResponse.json(
+                { error: 'Password must be a string' },
+                { status: 400 }
+            )
+        }
+
+        if (
+            body.lobbyEnabled !== undefined &&
+            typeof body.lobbyEnabled !== 'boolean'
+        ) {
+            return NextResponse.json(
+                { error: 'lobbyEnabled must be a boolean' },
+                { status: 400 }
+            )
+        }
+
+        const result = await accessPolicyService.updateAccessSettings(
+            meetingId,
+            session.user.id,
+            {
+                accessPolicy: body.accessPolicy,
+                password: body.password,
+                lobbyEnabled: body.lobbyEnabled,
+            }
+        )
+
+        return toResponse(result)
+    } catch (error) {
+        console.error('[API] Error updating meeting access settings:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
@@ -0,0 +1,168 @@
+/**
+ * PATCH /api/meetings/[meetingId]/action-items/[actionItemId]
+ *
+ * Update or complete a tracked action item (meeting members; the assignee
+ * may complete or reopen it)
+ *
+ * Body (JSON, all optional):
+ * - task: string
+ * - assigneeId: user id of a meeting member, or null to unassign
+ * - assigneeName: string or null
+ * - dueDate: ISO date string or null
+ * - completed: boolean (true completes, false reopens)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    forbiddenResponse,
+    getMeetingCaller,
+    hasMeetingPermission,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+import {
+    actionItemService,
+    participantRecordService,
+    type UpdateActionItemDTO,
+} from '@/domains/meeting/services/meeting-database'
+
+/**
+ * Type for action item update request body
+ */
+interface UpdateActionItemRequest {
+    task?: unknown
+    assigneeId?: unknown
+    assigneeName?: unknown
+    dueDate?: unknown
+    completed?: unknown
+}
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+        actionItemId: string
+    }>
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId, actionItemId } = await params
+
+        const caller = await getMeetingCaller(meetingId)
+        if (caller instanceof NextResponse) return caller
+
+        const body: UpdateActionItemRequest = await request
+            .json()
+            .catch(() => ({}))
+
+        const dto: UpdateActionItemDTO = {}
+
+        if (body.task !== undefined) {
+            if (typeof body.task !== 'string' || !body.task.trim()) {
+                return NextResponse.json(
+                    { error: 'Invalid task parameter' },
+                    { status: 400 }
+                )
+            }
+            dto.task = body.task.trim()
+        }
+
+        if (body.assigneeId !== undefined) {
+            if (body.assigneeId !== null && typeof body.assigneeId !== 'string') {
+                return NextResponse.json(
+                    { error: 'Invalid assigneeId parameter' },
+                    { status: 400 }
+                )
+            }
+            dto.assigneeId = body.assigneeId
+        }
+
+        if (body.assigneeName !== undefined) {
+            if (
+                body.assigneeName !== null &&
+                typeof body.assigneeName !== 'string'
+            ) {
+                return NextResponse.json(
+                    { error: 'Invalid assigneeName parameter' },
+                    { status: 400 }
+                )
+            }
+            dto.assigneeName = body.assigneeName
+        }
+
+        if (body.dueDate !== undefined) {
+            const dueDate =
+                typeof body.dueDate === 'string' ? new Date(body.dueDate) : null
+            if (body.dueDate !== null && (!dueDate || isNaN(dueDate.getTime()))) {
+                return NextResponse.json(
+                    { error: 'Invalid dueDate parameter' },
+                    { status: 400 }
+                )
+            }
+            dto.dueDate = dueDate
+        }
+
+        if (body.completed !== undefined) {
+            if (typeof body.completed !== 'boolean') {
+                return NextResponse.json(
+                    { error: 'Invalid completed parameter' },
+                    { status: 400 }
+                )
+            }
+            dto.completed = body.completed
+        }
+
+        const existing = await actionItemService.getActionItemById(actionItemId)
+
+        // Non-members other than the assignee get the same 404 as for a
+        // missing item, so item ids cannot be probed
+        if (
+            !existing ||
+            existing.meetingId !== meetingId ||
+            (!caller.role && existing.assigneeId !== caller.userId)
+        ) {
+            return NextResponse.json(
+                { error: 'Action item not found' },
+                { status: 404 }
+            )
+        }
+
+        // Assignees outside the meeting may only complete or reopen their items
+        const canEdit = hasMeetingPermission(
+            caller.role,
+            MeetingPermissions.EDIT_ACTION_ITEMS
+        )
+        const isAssigneeCompletion =
+            existing.assigneeId === caller.userId &&
+            Object.keys(dto).every((field) => field === 'completed')
+
+        if (!canEdit && !isAssigneeCompletion) {
+            return forbiddenResponse()
+        }
+
+        // Members only - also keeps unknown user ids from reaching the foreign key
+        if (
+            dto.assigneeId &&
+            !(await participantRecordService.getUserMeetingRole(
+                meetingId,
+                dto.assigneeId
+            ))
+        ) {
+            return NextResponse.json(
+                { error: 'Assignee must be a member of this meeting' },
+                { status: 400 }
+            )
+        }
+
+        const actionItem = await actionItemService.updateActionItem(
+            actionItemId,
+            dto,
+            caller.userId
+        )
+
+        return NextResponse.json({ actionItem })
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        console.error('[API] Error updating action item:', error)
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
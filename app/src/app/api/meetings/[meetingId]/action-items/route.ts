@@ -0,0 +1,48 @@
+/**
+ * GET /api/meetings/[meetingId]/action-items
+ *
+ * Fetch the tracked action items of a meeting's summary, in summary order
+ * (members only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { actionItemService } from '@/domains/meeting/services/meeting-database'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+    }>
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        if (!meetingId) {
+            return NextResponse.json(
+                { error: 'Meeting ID is required' },
+                { status: 400 }
+            )
+        }
+
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
+        const actionItems =
+            await actionItemService.getActionItemsByMeeting(meetingId)
+
+        return NextResponse.json({
+            meetingId,
+            count: actionItems.length,
+            actionItems,
+        })
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        console.error('[API] Error fetching action items:', error)
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
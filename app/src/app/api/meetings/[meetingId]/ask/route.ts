@@ -0,0 +1,85 @@
+/**
+ * POST /api/meetings/[meetingId]/ask
+ *
+ * Ask a question about a meeting; answered from its transcript with
+ * citations back to transcript segments
+ *
+ * Body:
+ * - question: string
+ * - history: earlier { role: 'user' | 'assistant', content } turns (optional)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+import {
+    meetingQaService,
+    parseQaHistory,
+    QaErrorCodes,
+    MAX_QUESTION_LENGTH,
+    type QaErrorCode,
+} from '@/domains/meeting/services/meeting-database/meetingQaService'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+    }>
+}
+
+const ERROR_STATUS: Record<QaErrorCode, number> = {
+    [QaErrorCodes.MEETING_NOT_FOUND]: 404,
+    [QaErrorCodes.FORBIDDEN]: 403,
+    [QaErrorCodes.NO_TRANSCRIPT]: 404,
+    [QaErrorCodes.EMBEDDINGS_NOT_CONFIGURED]: 400,
+    [QaErrorCodes.LLM_NOT_CONFIGURED]: 400,
+    [QaErrorCodes.GENERATION_FAILED]: 500,
+}
+
+export async function POST(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        // Members only: others get 403 before the meeting is looked up or the LLM called
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
+        const body = await request.json().catch(() => ({}))
+        const question = typeof body.question === 'string' ? body.question.trim() : ''
+        const history = parseQaHistory(body.history)
+
+        if (!question || question.length > MAX_QUESTION_LENGTH) {
+            return NextResponse.json(
+                { error: `question must be 1-${MAX_QUESTION_LENGTH} characters` },
+                { status: 400 }
+            )
+        }
+
+        if (!history) {
+            return NextResponse.json(
+                { error: 'Invalid history' },
+                { status: 400 }
+            )
+        }
+
+        const result = await meetingQaService.ask(caller.userId, question, {
+            meetingId,
+            history,
+        })
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error, errorCode: result.errorCode },
+                { status: result.errorCode ? ERROR_STATUS[result.errorCode] : 500 }
+            )
+        }
+
+        return NextResponse.json(result)
+    } catch (error) {
+        console.error('[API] Error answering meeting question:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /api/meetings/[meetingId]/chat
+ *
+ * Chat messages of a meeting, oldest first (meeting members only)
+ * Private messages are included only for their sender
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { chatRecordService } from '@/domains/meeting/services/meeting-database'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+    }>
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
+        const messages = await chatRecordService.getMessages(
+            meetingId,
+            caller.userId
+        )
+
+        return NextResponse.json({ meetingId, messages })
+    } catch (error) {
+        console.error('[API] Error fetching chat messages:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
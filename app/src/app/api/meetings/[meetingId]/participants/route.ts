@@ -1,11 +1,15 @@
 /**
  * GET /api/meetings/[meetingId]/participants
  *
- * Fetch all participants for a specific meeting
+ * Fetch all participants for a specific meeting (members only)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { participantRecordService } from '@/domains/meeting/services/meeting-database'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
 
 interface Params {
     params: Promise<{
@@ -21,6 +25,9 @@ export async function GET(request: NextRequest, { params }: Params) {
             return NextResponse.json({ error: 'Meeting ID is required' }, { status: 400 })
         }
 
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
         const participants = await participantRecordService.getParticipantsByMeeting(meetingId)
 
         return NextResponse.json({
@@ -4,13 +4,15 @@
  * Upload a local recording for a meeting.
  * Supports multipart form data with file upload.
  *
- * Authorization: User must be authenticated
+ * Authorization: Members of the meeting
  * Body: FormData with 'file' field
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { auth } from '@/lib/auth'
-import { headers } from 'next/headers'
+import {
+  authorizeMeeting,
+  MeetingPermissions,
+} from '@/lib/meeting-authorization'
 import { recordingService } from '@/domains/meeting/services/meeting-database/recordingService'
 
 export async function POST(
@@ -18,20 +20,14 @@ export async function POST(
   { params }: { params: Promise<{ meetingId: string }> }
 ) {
   try {
-    // Get session
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    })
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { meetingId } = await params
 
+    const caller = await authorizeMeeting(
+      meetingId,
+      MeetingPermissions.UPLOAD_RECORDING
+    )
+    if (caller instanceof NextResponse) return caller
+
     // Parse multipart form data
     const formData = await request.formData()
     const file = formData.get('file') as File | null
@@ -58,7 +54,7 @@ export async function POST(
     // Upload recording
     const result = await recordingService.uploadRecording({
       meetingId,
-      userId: session.user.id,
+      userId: caller.userId,
       filename,
       format,
       data,
@@ -92,7 +88,7 @@ export async function POST(
 /**
  * GET /api/meetings/[meetingId]/recording
  *
- * Get all recordings for a meeting.
+ * Get all recordings for a meeting (members only).
  */
 export async function GET(
   request: NextRequest,
@@ -101,6 +97,9 @@ export async function GET(
   try {
     const { meetingId } = await params
 
+    const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+    if (caller instanceof NextResponse) return caller
+
     const recordings = await recordingService.getRecordingsForMeeting(meetingId)
 
     return NextResponse.json({
@@ -2,11 +2,15 @@
  * GET /api/meetings/[meetingId]
  *
  * Fetch meeting details for a specific meeting ID
- * Returns full meeting info including participants and metadata
+ * Returns full meeting info including participants and metadata (members only)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { meetingRecordService } from '@/domains/meeting/services/meeting-database'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
 
 interface Params {
     params: Promise<{
@@ -25,6 +29,9 @@ export async function GET(request: NextRequest, { params }: Params) {
             )
         }
 
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
         const meeting = await meetingRecordService.getMeetingById(meetingId)
 
         if (!meeting) {
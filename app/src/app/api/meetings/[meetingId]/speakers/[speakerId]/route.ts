@@ -0,0 +1,140 @@
+/**
+ * PUT /api/meetings/[meetingId]/speakers/[speakerId]
+ * DELETE /api/meetings/[meetingId]/speakers/[speakerId]
+ *
+ * Remap a transcript speaker (identified by their Jitsi participant id) to
+ * a meeting participant or a named person across all their segments, or
+ * reset it to the original speaker. Host and co-hosts only.
+ *
+ * PUT body (JSON, at least one):
+ * - participantId: MeetingParticipant id
+ * - displayName: name to show (defaults to the participant's display name)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    speakerMappingService,
+    SpeakerMappingErrorCodes,
+    MAX_SPEAKER_NAME_LENGTH,
+    type SpeakerMappingErrorCode,
+    type SpeakerMappingResult,
+} from '@/domains/meeting/services/meeting-database'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+/**
+ * Type for speaker mapping request body
+ */
+interface MapSpeakerRequest {
+    participantId?: unknown
+    displayName?: unknown
+}
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+        speakerId: string // TranscriptSegment.jitsiParticipantId
+    }>
+}
+
+const ERROR_STATUS: Record<SpeakerMappingErrorCode, number> = {
+    [SpeakerMappingErrorCodes.TRANSCRIPT_NOT_FOUND]: 404,
+    [SpeakerMappingErrorCodes.SPEAKER_NOT_FOUND]: 404,
+    [SpeakerMappingErrorCodes.PARTICIPANT_NOT_FOUND]: 400,
+    [SpeakerMappingErrorCodes.INVALID_TARGET]: 400,
+}
+
+function toResponse(result: SpeakerMappingResult) {
+    if (!result.success) {
+        return NextResponse.json(
+            { error: result.error, errorCode: result.errorCode },
+            { status: result.errorCode ? ERROR_STATUS[result.errorCode] : 500 }
+        )
+    }
+
+    return NextResponse.json({
+        speaker: result.speaker,
+        updatedSegments: result.updatedSegments,
+    })
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId, speakerId } = await params
+
+        const caller = await authorizeMeeting(
+            meetingId,
+            MeetingPermissions.MAP_SPEAKERS,
+            'Only the host or a co-host can correct speakers'
+        )
+        if (caller instanceof NextResponse) return caller
+
+        const body: MapSpeakerRequest = await request.json().catch(() => ({}))
+
+        if (
+            body.participantId !== undefined &&
+            body.participantId !== null &&
+            typeof body.participantId !== 'string'
+        ) {
+            return NextResponse.json(
+                { error: 'Invalid participantId parameter' },
+                { status: 400 }
+            )
+        }
+
+        if (
+            body.displayName !== undefined &&
+            body.displayName !== null &&
+            (typeof body.displayName !== 'string' ||
+                body.displayName.trim().length > MAX_SPEAKER_NAME_LENGTH)
+        ) {
+            return NextResponse.json(
+                {
+                    error: `displayName must be at most ${MAX_SPEAKER_NAME_LENGTH} characters`,
+                },
+                { status: 400 }
+            )
+        }
+
+        const result = await speakerMappingService.mapSpeaker(
+            meetingId,
+            speakerId,
+            {
+                participantId: body.participantId,
+                displayName: body.displayName,
+            },
+            caller.userId
+        )
+
+        return toResponse(result)
+    } catch (error) {
+        console.error('[API] Error mapping speaker:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId, speakerId } = await params
+
+        const caller = await authorizeMeeting(
+            meetingId,
+            MeetingPermissions.MAP_SPEAKERS,
+            'Only the host or a co-host can correct speakers'
+        )
+        if (caller instanceof NextResponse) return caller
+
+        const result = await speakerMappingService.resetSpeaker(meetingId, speakerId)
+
+        return toResponse(result)
+    } catch (error) {
+        console.error('[API] Error resetting speaker:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * GET /api/meetings/[meetingId]/speakers
+ *
+ * List the speakers of a meeting's transcript with any manual mapping,
+ * plus the participants a speaker can be mapped to
+ * Response includes canEdit (host or co-host)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { speakerMappingService } from '@/domains/meeting/services/meeting-database'
+import {
+    authorizeMeeting,
+    hasMeetingPermission,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+    }>
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
+        const speakers = await speakerMappingService.listSpeakers(meetingId)
+
+        if (!speakers) {
+            return NextResponse.json(
+                { error: 'Transcript not found' },
+                { status: 404 }
+            )
+        }
+
+        const participants = await prisma.meetingParticipant.findMany({
+            where: { meetingId },
+            select: { id: true, displayName: true, userId: true },
+            orderBy: { joinedAt: 'asc' },
+        })
+
+        return NextResponse.json({
+            meetingId,
+            canEdit: hasMeetingPermission(
+                caller.role,
+                MeetingPermissions.MAP_SPEAKERS
+            ),
+            speakers,
+            participants,
+        })
+    } catch (error) {
+        console.error('[API] Error fetching transcript speakers:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
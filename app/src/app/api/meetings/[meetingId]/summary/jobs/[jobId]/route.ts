@@ -0,0 +1,63 @@
+/**
+ * GET /api/meetings/[meetingId]/summary/jobs/[jobId]
+ *
+ * Fetch the status of a summary generation job (members only)
+ * Use "latest" as jobId for the meeting's most recent summary job
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { jobQueueService } from '@/domains/meeting/services/meeting-database/jobQueueService'
+import { summaryService } from '@/domains/meeting/services/meeting-database/summaryService'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+        jobId: string
+    }>
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId, jobId } = await params
+
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
+        const job =
+            jobId === 'latest'
+                ? await jobQueueService.getLatestJob(
+                      summaryService.getJobKey(meetingId)
+                  )
+                : await jobQueueService.getJob(jobId)
+
+        if (!job || job.meetingId !== meetingId) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json({
+            job: {
+                id: job.id,
+                type: job.type,
+                status: job.status,
+                attempts: job.attempts,
+                maxAttempts: job.maxAttempts,
+                runAt: job.runAt,
+                lastError: job.lastError,
+                createdAt: job.createdAt,
+                completedAt: job.completedAt,
+            },
+        })
+    } catch (error) {
+        console.error('[API] Error fetching summary job:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * GET /api/meetings/[meetingId]/summary/revisions/[revisionId]
+ * POST /api/meetings/[meetingId]/summary/revisions/[revisionId]
+ *
+ * GET: Fetch a single summary revision with its full content (members only)
+ * POST: Accept the revision - it becomes the meeting's current summary (host/co-host only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { summaryRevisionService } from '@/domains/meeting/services/meeting-database/summaryRevisionService'
+import { summaryService } from '@/domains/meeting/services/meeting-database/summaryService'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+        revisionId: string
+    }>
+}
+
+/**
+ * GET handler - Fetch a revision
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId, revisionId } = await params
+
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
+        const revision = await summaryRevisionService.getRevision(
+            meetingId,
+            revisionId
+        )
+
+        if (!revision) {
+            return NextResponse.json(
+                { error: 'Revision not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json({ revision })
+    } catch (error) {
+        console.error('[API] Error fetching summary revision:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
+
+/**
+ * POST handler - Accept a revision as the current summary
+ */
+export async function POST(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId, revisionId } = await params
+
+        const caller = await authorizeMeeting(
+            meetingId,
+            MeetingPermissions.EDIT_SUMMARY,
+            'Only the host or a co-host can accept a revision'
+        )
+        if (caller instanceof NextResponse) return caller
+
+        const accepted = await summaryRevisionService.acceptRevision(
+            meetingId,
+            revisionId
+        )
+
+        if (!accepted) {
+            return NextResponse.json(
+                { error: 'Revision not found' },
+                { status: 404 }
+            )
+        }
+
+        const summary = await summaryService.getSummary(meetingId)
+
+        return NextResponse.json({
+            success: true,
+            summary,
+        })
+    } catch (error) {
+        console.error('[API] Error accepting summary revision:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
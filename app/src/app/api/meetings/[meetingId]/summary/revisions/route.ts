@@ -0,0 +1,62 @@
+/**
+ * GET /api/meetings/[meetingId]/summary/revisions
+ *
+ * List the revisions of a meeting's summary (metadata only), newest first (members only)
+ * Response includes currentRevision, the revision number shown as the summary
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { summaryRevisionService } from '@/domains/meeting/services/meeting-database/summaryRevisionService'
+import prisma from '@/lib/prisma'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+    }>
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        if (!meetingId) {
+            return NextResponse.json(
+                { error: 'Meeting ID is required' },
+                { status: 400 }
+            )
+        }
+
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
+        const summary = await prisma.summary.findUnique({
+            where: { meetingId },
+            select: { currentRevision: true },
+        })
+
+        if (!summary) {
+            return NextResponse.json(
+                { error: 'Summary not found' },
+                { status: 404 }
+            )
+        }
+
+        const revisions = await summaryRevisionService.listRevisions(meetingId)
+
+        return NextResponse.json({
+            meetingId,
+            currentRevision: summary.currentRevision,
+            count: revisions.length,
+            revisions,
+        })
+    } catch (error) {
+        console.error('[API] Error fetching summary revisions:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
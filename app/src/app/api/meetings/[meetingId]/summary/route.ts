@@ -1,15 +1,63 @@
 /**
  * GET /api/meetings/[meetingId]/summary
  * POST /api/meetings/[meetingId]/summary
+ * PATCH /api/meetings/[meetingId]/summary
  *
- * GET: Fetch existing summary for a meeting
- * POST: Generate a new summary using AI
+ * GET: Fetch existing summary for a meeting (members only)
+ * POST: Queue generation of a new summary using AI (members only; 202 with
+ *       a jobId, poll GET /api/meetings/[meetingId]/summary/jobs/[jobId]);
+ *       an existing summary is kept and the result stored as a pending
+ *       revision until accepted via summary/revisions/[revisionId]
+ * PATCH: Manually edit the summary (host/co-host only)
+ *
+ * POST body (optional JSON):
+ * - provider: gemini | openai-compatible | anthropic | stub (stub only in
+ *   test setups, see llmProviderService)
+ * - model: provider-specific model id, from the provider's allowlist
+ * - template: general | standup | retrospective | one-on-one | customer-call
+ * provider/model default to SUMMARY_LLM_PROVIDER / SUMMARY_LLM_MODEL,
+ * template defaults to the meeting's summaryTemplate.
+ *
+ * PATCH body (JSON, all optional):
+ * - title, overview: string
+ * - keyPoints, decisions: string[]
+ * - actionItems: {id?, task, assignee?, dueDate?, completed}[] (id: the
+ *   tracked action item an item was edited from, keeps that item)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { summaryService } from '@/domains/meeting/services/meeting-database/summaryService'
+import { llmProviderService } from '@/domains/meeting/services/meeting-database/llmProviderService'
+import { isSummaryTemplateId } from '@/domains/meeting/services/meeting-database/summaryTemplates'
+import type { ActionItemInput } from '@/domains/meeting/services/meeting-database/actionItemService'
+import { jobWorker } from '@/domains/meeting/services/meeting-database/jobWorker'
+import type { SummaryEditDTO } from '@/domains/meeting/services/meeting-database/summaryService'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
 import prisma from '@/lib/prisma'
 
+/**
+ * Type for summary generation request body
+ */
+interface GenerateSummaryRequest {
+    provider?: string
+    model?: string
+    template?: string
+}
+
+/**
+ * Type for summary edit request body
+ */
+interface EditSummaryRequest {
+    title?: unknown
+    overview?: unknown
+    keyPoints?: unknown
+    decisions?: unknown
+    actionItems?: unknown
+}
+
 interface Params {
     params: Promise<{
         meetingId: string
@@ -30,6 +78,9 @@ export async function GET(request: NextRequest, { params }: Params) {
             )
         }
 
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
         // Fetch the summary
         const summary = await summaryService.getSummary(meetingId)
 
@@ -50,7 +101,7 @@ export async function GET(request: NextRequest, { params }: Params) {
 }
 
 /**
- * POST handler - Generate a new summary
+ * POST handler - Queue a new summary generation
  */
 export async function POST(request: NextRequest, { params }: Params) {
     try {
@@ -63,6 +114,61 @@ export async function POST(request: NextRequest, { params }: Params) {
             )
         }
 
+        const caller = await authorizeMeeting(
+            meetingId,
+            MeetingPermissions.GENERATE_SUMMARY
+        )
+        if (caller instanceof NextResponse) return caller
+
+        // Body is optional - an empty POST uses the deployment defaults
+        const body: GenerateSummaryRequest = await request
+            .json()
+            .catch(() => ({}))
+
+        if (!isJsonObject(body)) {
+            return NextResponse.json(
+                { error: 'Request body must be a JSON object' },
+                { status: 400 }
+            )
+        }
+
+        if (body.provider && !llmProviderService.isProviderId(body.provider)) {
+            return NextResponse.json(
+                { error: `Unknown LLM provider: ${body.provider}` },
+                { status: 400 }
+            )
+        }
+
+        if (body.model !== undefined && typeof body.model !== 'string') {
+            return NextResponse.json(
+                { error: 'Invalid model parameter' },
+                { status: 400 }
+            )
+        }
+
+        // Only allowlisted models; the stub provider is refused outside test setups by resolve()
+        if (
+            body.model !== undefined &&
+            !llmProviderService.isModelAllowed(
+                llmProviderService.isProviderId(body.provider)
+                    ? body.provider
+                    : llmProviderService.getDefaultProvider(),
+                body.model
+            )
+        ) {
+            return NextResponse.json(
+                { error: `Model '${body.model}' is not available` },
+                { status: 400 }
+            )
+        }
+
+        if (body.template && !isSummaryTemplateId(body.template)) {
+            return NextResponse.json(
+                { error: `Unknown summary template: ${body.template}` },
+                { status: 400 }
+            )
+        }
+
         // Check if meeting exists
         const meeting = await prisma.meeting.findUnique({
             where: { id: meetingId },
@@ -75,22 +181,170 @@ export async function POST(request: NextRequest, { params }: Params) {
             )
         }
 
-        // Generate the summary
-        const result = await summaryService.generateSummary(meetingId)
+        const options = {
+            provider: llmProviderService.isProviderId(body.provider)
+                ? body.provider
+                : undefined,
+            model: body.model,
+            template: isSummaryTemplateId(body.template)
+                ? body.template
+                : undefined,
+        }
+
+        // Fail fast on misconfiguration instead of queueing a job that cannot run
+        try {
+            llmProviderService.resolve(options)
+        } catch (error) {
+            return NextResponse.json(
+                { error: error instanceof Error ? error.message : 'Unknown error' },
+                { status: 400 }
+            )
+        }
+
+        // Queue generation - the UI polls the job until it finishes
+        const { job, created } = await summaryService.enqueueGeneration(
+            meetingId,
+            options
+        )
+        jobWorker.poke()
+
+        return NextResponse.json(
+            {
+                success: true,
+                jobId: job.id,
+                status: job.status,
+                alreadyQueued: !created,
+            },
+            { status: 202 }
+        )
+    } catch (error) {
+        console.error('[API] Error generating summary:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isActionItemArray(value: unknown): value is ActionItemInput[] {
+    return (
+        Array.isArray(value) &&
+        value.every(
+            (item) =>
+                item &&
+                typeof item === 'object' &&
+                (item.id === undefined || typeof item.id === 'string') &&
+                typeof item.task === 'string' &&
+                item.task.trim() !== '' &&
+                (item.assignee === undefined || typeof item.assignee === 'string') &&
+                (item.dueDate === undefined || typeof item.dueDate === 'string') &&
+                typeof item.completed === 'boolean'
+        )
+    )
+}
+
+/**
+ * PATCH handler - Manually edit the summary
+ */
+export async function PATCH(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        if (!meetingId) {
+            return NextResponse.json(
+                { error: 'Meeting ID is required' },
+                { status: 400 }
+            )
+        }
+
+        // Only the host and co-hosts may edit the summary
+        const caller = await authorizeMeeting(
+            meetingId,
+            MeetingPermissions.EDIT_SUMMARY,
+            'Only the host or a co-host can edit the summary'
+        )
+        if (caller instanceof NextResponse) return caller
+
+        const body: EditSummaryRequest = await request
+            .json()
+            .catch(() => ({}))
+
+        if (!isJsonObject(body)) {
+            return NextResponse.json(
+                { error: 'Request body must be a JSON object' },
+                { status: 400 }
+            )
+        }
+
+        const edits: SummaryEditDTO = {}
+
+        for (const field of ['title', 'overview'] as const) {
+            if (body[field] === undefined) continue
+            const value = body[field]
+            if (typeof value !== 'string' || !value.trim()) {
+                return NextResponse.json(
+                    { error: `Invalid ${field} parameter` },
+                    { status: 400 }
+                )
+            }
+            edits[field] = value.trim()
+        }
+
+        for (const field of ['keyPoints', 'decisions'] as const) {
+            if (body[field] === undefined) continue
+            const value = body[field]
+            if (!isStringArray(value)) {
+                return NextResponse.json(
+                    { error: `Invalid ${field} parameter (string array expected)` },
+                    { status: 400 }
+                )
+            }
+            edits[field] = value.map((item) => item.trim()).filter(Boolean)
+        }
+
+        if (body.actionItems !== undefined) {
+            if (!isActionItemArray(body.actionItems)) {
+                return NextResponse.json(
+                    { error: 'Invalid actionItems parameter' },
+                    { status: 400 }
+                )
+            }
+            edits.actionItems = body.actionItems.map((item) => ({
+                ...(item.id && { id: item.id }),
+                task: item.task.trim(),
+                ...(item.assignee?.trim() && { assignee: item.assignee.trim() }),
+                ...(item.dueDate && { dueDate: item.dueDate }),
+                completed: item.completed,
+            }))
+        }
+
+        const result = await summaryService.updateSummary(
+            meetingId,
+            edits,
+            caller.userId
+        )
 
         if (!result.success) {
-            return NextResponse.json({ error: result.error }, { status: 400 })
+            const status = result.error === 'Summary not found' ? 404 : 400
+            return NextResponse.json({ error: result.error }, { status })
         }
 
-        // Fetch the generated summary
         const summary = await summaryService.getSummary(meetingId)
 
         return NextResponse.json({
             success: true,
+            editedFields: result.editedFields,
             summary,
         })
     } catch (error) {
-        console.error('[API] Error generating summary:', error)
+        console.error('[API] Error editing summary:', error)
         const errorMessage =
             error instanceof Error ? error.message : 'Unknown error'
         return NextResponse.json({ error: errorMessage }, { status: 500 })
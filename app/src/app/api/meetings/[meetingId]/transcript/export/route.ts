@@ -0,0 +1,101 @@
+/**
+ * GET /api/meetings/[meetingId]/transcript/export
+ *
+ * Download the meeting transcript (final segments only, members only)
+ *
+ * Query params:
+ * - format: srt | vtt | md | txt | json (default txt)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import {
+  authorizeMeeting,
+  MeetingPermissions,
+} from '@/lib/meeting-authorization'
+import {
+  buildTranscriptExport,
+  getTranscriptExportFilename,
+  isTranscriptExportFormat,
+  renderTranscriptExport,
+  TRANSCRIPT_EXPORT_FORMATS,
+} from '@/domains/meeting/services/meeting-database/transcriptExport'
+
+interface Params {
+  params: Promise<{
+    meetingId: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { meetingId } = await params
+    const format = request.nextUrl.searchParams.get('format') || 'txt'
+
+    const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+    if (caller instanceof NextResponse) return caller
+
+    if (!isTranscriptExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid format (${TRANSCRIPT_EXPORT_FORMATS.join(', ')})` },
+        { status: 400 }
+      )
+    }
+
+    const meeting = await prisma.meeting.findUnique({
+      where: { id: meetingId },
+      select: {
+        id: true,
+        title: true,
+        roomName: true,
+        startedAt: true,
+        endedAt: true,
+        duration: true,
+        transcript: {
+          include: {
+            segments: {
+              where: { isFinal: true },
+              orderBy: { receivedAt: 'asc' },
+            },
+          },
+        },
+      },
+    })
+
+    if (!meeting) {
+      return NextResponse.json(
+        { error: 'Meeting not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!meeting.transcript || meeting.transcript.segments.length === 0) {
+      return NextResponse.json(
+        { error: 'No transcript available for this meeting' },
+        { status: 404 }
+      )
+    }
+
+    const { transcript, ...meetingInfo } = meeting
+    const data = buildTranscriptExport({
+      meeting: meetingInfo,
+      transcript,
+      segments: transcript.segments,
+    })
+    const rendered = renderTranscriptExport(data, format)
+    const filename = getTranscriptExportFilename(data, format)
+
+    return new NextResponse(rendered.body, {
+      headers: {
+        'Content-Type': `${rendered.contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[API] Error exporting meeting transcript:', error)
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
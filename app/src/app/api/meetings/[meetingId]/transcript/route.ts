@@ -3,10 +3,15 @@
  *
  * Fetch meeting details with transcript segments
  * Returns meeting info + transcript with all segments ordered by receivedAt
+ * (members only)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
+import {
+  authorizeMeeting,
+  MeetingPermissions,
+} from '@/lib/meeting-authorization'
 
 interface Params {
   params: Promise<{
@@ -25,6 +30,9 @@ export async function GET(request: NextRequest, { params }: Params) {
       )
     }
 
+    const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+    if (caller instanceof NextResponse) return caller
+
     // Fetch meeting with participants
     const meeting = await prisma.meeting.findUnique({
       where: { id: meetingId },
@@ -76,6 +84,9 @@ export async function GET(request: NextRequest, { params }: Params) {
             text: true,
             confidence: true,
             isFinal: true,
+            originalText: true,
+            editedAt: true,
+            editedById: true,
             receivedAt: true,
             createdAt: true,
           },
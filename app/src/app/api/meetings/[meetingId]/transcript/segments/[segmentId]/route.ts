@@ -0,0 +1,110 @@
+/**
+ * GET /api/meetings/[meetingId]/transcript/segments/[segmentId]
+ * PATCH /api/meetings/[meetingId]/transcript/segments/[segmentId]
+ *
+ * GET: A segment's original machine text and edit history (newest first, members only)
+ * PATCH: Correct a final segment's text (meeting members only)
+ *
+ * PATCH body:
+ * - text: string
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  transcriptEditService,
+  SegmentEditErrorCodes,
+  type SegmentEditErrorCode,
+} from '@/domains/meeting/services/meeting-database'
+import {
+  authorizeMeeting,
+  MeetingPermissions,
+} from '@/lib/meeting-authorization'
+
+interface Params {
+  params: Promise<{
+    meetingId: string
+    segmentId: string
+  }>
+}
+
+const ERROR_STATUS: Record<SegmentEditErrorCode, number> = {
+  [SegmentEditErrorCodes.SEGMENT_NOT_FOUND]: 404,
+  [SegmentEditErrorCodes.SEGMENT_NOT_FINAL]: 409,
+  [SegmentEditErrorCodes.INVALID_TEXT]: 400,
+  [SegmentEditErrorCodes.UNCHANGED]: 400,
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { meetingId, segmentId } = await params
+
+    const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+    if (caller instanceof NextResponse) return caller
+
+    const segment = await transcriptEditService.getSegment(meetingId, segmentId)
+
+    if (!segment) {
+      return NextResponse.json(
+        { error: 'Segment not found' },
+        { status: 404 }
+      )
+    }
+
+    const edits = await transcriptEditService.getHistory(segmentId)
+
+    return NextResponse.json({
+      segmentId,
+      text: segment.text,
+      originalText: segment.originalText,
+      edits,
+    })
+  } catch (error) {
+    console.error('[API] Error fetching segment history:', error)
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { meetingId, segmentId } = await params
+
+    const caller = await authorizeMeeting(
+      meetingId,
+      MeetingPermissions.EDIT_TRANSCRIPT,
+      'Only members of this meeting can edit its transcript'
+    )
+    if (caller instanceof NextResponse) return caller
+
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body.text !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid text parameter' },
+        { status: 400 }
+      )
+    }
+
+    const result = await transcriptEditService.editSegment(
+      meetingId,
+      segmentId,
+      body.text,
+      caller.userId
+    )
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.errorCode ? ERROR_STATUS[result.errorCode] : 500 }
+      )
+    }
+
+    return NextResponse.json({ segment: result.segment })
+  } catch (error) {
+    console.error('[API] Error editing segment:', error)
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
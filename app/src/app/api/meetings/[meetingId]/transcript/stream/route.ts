@@ -0,0 +1,140 @@
+/**
+ * GET /api/meetings/[meetingId]/transcript/stream
+ *
+ * Server-sent events stream of a meeting's live transcript, for people
+ * following along without joining the call. Restricted to members of the
+ * meeting and its invitees (by account or email).
+ *
+ * Segments are published in-process (see transcriptStreamService), so with
+ * several app instances a stream only receives segments ingested by the
+ * instance serving it.
+ *
+ * Events:
+ * - snapshot: { status, segments } - current transcript, sent first (and on every reconnect)
+ * - segment: a segment as it is persisted; replaces any earlier version with the same id
+ * - status: { status } - transcript status changes (PROCESSING, COMPLETED)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  forbiddenResponse,
+  getMeetingCaller,
+  hasMeetingPermission,
+  MeetingPermissions,
+} from '@/lib/meeting-authorization'
+import { accessPolicyService } from '@/domains/meeting/services/meeting-database/accessPolicyService'
+import {
+  transcriptStreamService,
+  type TranscriptStreamEvent,
+} from '@/domains/meeting/services/meeting-database/transcriptStreamService'
+
+export const dynamic = 'force-dynamic'
+
+interface Params {
+  params: Promise<{
+    meetingId: string
+  }>
+}
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25_000
+
+/**
+ * Format one server-sent event
+ */
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+function formatStreamEvent(event: TranscriptStreamEvent): string {
+  return event.type === 'segment'
+    ? formatEvent('segment', event.segment)
+    : formatEvent('status', { status: event.status })
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { meetingId } = await params
+
+    const caller = await getMeetingCaller(meetingId)
+    if (caller instanceof NextResponse) return caller
+
+    // Invitees may follow along before (or instead of) joining
+    const canFollow =
+      hasMeetingPermission(caller.role, MeetingPermissions.VIEW) ||
+      (await accessPolicyService.isInvited(meetingId, caller.userId))
+    if (!canFollow) {
+      return forbiddenResponse(
+        'Only members and invitees of this meeting can follow its transcript'
+      )
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false
+        const send = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+
+        // Subscribe before reading the snapshot so nothing persisted in
+        // between is lost; hold live events until the snapshot is out
+        let pending: TranscriptStreamEvent[] | null = []
+        const unsubscribe = transcriptStreamService.subscribe(meetingId, (event) => {
+          if (pending) pending.push(event)
+          else send(formatStreamEvent(event))
+        })
+
+        const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS)
+
+        cleanup = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribe()
+          request.signal.removeEventListener('abort', cleanup)
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+        request.signal.addEventListener('abort', cleanup)
+
+        try {
+          const snapshot = await transcriptStreamService.getSnapshot(meetingId)
+          send(formatEvent('snapshot', snapshot))
+          for (const event of pending) send(formatStreamEvent(event))
+          pending = null
+        } catch (error) {
+          console.error('[API] Error reading transcript snapshot:', error)
+          cleanup()
+        }
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('[API] Error opening transcript stream:', error)
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
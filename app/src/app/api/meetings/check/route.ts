@@ -2,11 +2,20 @@
  * GET /api/meetings/check?roomName=xxx
  *
  * Check if a meeting room exists by room name or meeting ID
- * Returns { exists: boolean, meetingId?: string }
+ * Returns { exists: boolean, meetingId?: string, access?: JoinAccess }
+ *
+ * The room's access policy decides what is revealed: callers that may not join
+ * get no meeting ID, and lookups by meeting ID only resolve for callers that
+ * may join, so an ID cannot be used to discover a protected room's name.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { meetingRecordService } from '@/domains/meeting/services/meeting-database'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+  meetingRecordService,
+  accessPolicyService,
+} from '@/domains/meeting/services/meeting-database'
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,12 +29,19 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const session = await auth.api.getSession({
+      headers: await headers()
+    })
+    const userId = session?.user?.id
+
     // Try to find meeting by room name first
     let meeting = await meetingRecordService.getMeetingByRoomName(roomName)
+    let foundById = false
 
     // If not found by room name, try by ID
     if (!meeting) {
       meeting = await meetingRecordService.getMeetingById(roomName)
+      foundById = !!meeting
     }
 
     if (!meeting) {
@@ -35,11 +51,40 @@ export async function GET(request: NextRequest) {
       })
     }
 
+    const decision = await accessPolicyService.checkJoinAccess({
+      roomName: meeting.roomName,
+      userId
+    })
+
+    if (!decision.allowed) {
+      if (foundById) {
+        return NextResponse.json({
+          exists: false,
+          roomName
+        })
+      }
+
+      return NextResponse.json({
+        exists: true,
+        roomName: meeting.roomName,
+        status: meeting.status,
+        access: {
+          allowed: false,
+          accessPolicy: decision.accessPolicy,
+          reason: decision.reason
+        }
+      })
+    }
+
     return NextResponse.json({
       exists: true,
       meetingId: meeting.id,
       roomName: meeting.roomName,
-      status: meeting.status
+      status: meeting.status,
+      access: {
+        allowed: true,
+        accessPolicy: decision.accessPolicy
+      }
     })
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -4,24 +4,51 @@
  * Server-side event processor
  * Receives serializable events from the client and persists them via meeting-database services.
  *
+ * Body: one SerializableEvent, or { events: SerializableEvent[] } (at most 100)
+ *
  * Flow:
  * 1. Client emits event via meetingEventEmitter
  * 2. Client sends to this endpoint
- * 3. Server processes with meetingLogService (handles deduplication + routing)
- * 4. Database updated via Prisma
- * 5. Response sent back to client
+ * 3. The sender is rate limited (per account, or per address for guests)
+ * 4. Each event is validated and authorized by eventIngestionService against
+ *    the sender's event session, the cookie /api/meetings/join sets for the
+ *    room (401 when the batch has none)
+ * 5. Server processes with meetingLogService (handles deduplication + routing)
+ * 6. Database updated via Prisma
+ * 7. Response sent back to client, with a result per event (207 if some failed)
+ *
+ * Configuration: EVENT_RATE_LIMIT_PER_MINUTE (default 1200 events);
+ * guests are limited per address only with TRUSTED_PROXY_COUNT set (see getClientIp)
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { meetingLogService } from '@/domains/meeting/services/meeting-database'
-import type { SerializableEvent } from '@/domains/meeting/services/meeting-database/types'
+import { headers } from 'next/headers'
+import { auth } from '@/lib/auth'
+import {
+    meetingLogService,
+    eventIngestionService,
+    getEventSessionCookieName,
+    verifyEventSession,
+    type EventIngestionErrorCode,
+    type EventSession,
+    type ParseEventResult,
+} from '@/domains/meeting/services/meeting-database'
+import {
+    authorizeMeeting,
+    MeetingPermissions,
+} from '@/lib/meeting-authorization'
+import {
+    createRateLimiter,
+    getClientIp,
+    getLimitFromEnv,
+} from '@/lib/rate-limit'
 
-/**
- * Type for batch event request
- */
-interface EventBatchRequest {
-    events: SerializableEvent[]
-}
+const MAX_EVENTS_PER_REQUEST = 100
+
+const eventRateLimiter = createRateLimiter({
+    limit: getLimitFromEnv('EVENT_RATE_LIMIT_PER_MINUTE', 1200),
+    windowMs: 60 * 1000,
+})
 
 /**
  * Type for event processing response
@@ -30,6 +57,15 @@ interface EventProcessingResponse {
     success: boolean
     eventId?: string
     error?: string
+    errorCode?: EventIngestionErrorCode
+}
+
+/**
+ * Event id of an event that failed validation, for the client to match up
+ */
+function rawEventId(raw: unknown): string | undefined {
+    const eventId = (raw as { eventId?: unknown } | null)?.eventId
+    return typeof eventId === 'string' ? eventId : undefined
 }
 
 /**
@@ -38,49 +74,142 @@ interface EventProcessingResponse {
 export async function POST(request: NextRequest) {
     try {
         // Parse request body
-        const body: EventBatchRequest | SerializableEvent = await request.json()
+        const body = await request.json().catch(() => null)
 
         // Determine if it's a batch or single event
-        const events: SerializableEvent[] = Array.isArray((body as EventBatchRequest).events)
-            ? (body as EventBatchRequest).events
-            : [body as SerializableEvent]
+        const rawEvents: unknown[] = Array.isArray(body?.events)
+            ? body.events
+            : body
+              ? [body]
+              : []
 
         // Validate events exist
-        if (!events || events.length === 0) {
+        if (rawEvents.length === 0) {
             return NextResponse.json(
                 { success: false, error: 'No events provided' },
                 { status: 400 }
             )
         }
+        if (rawEvents.length > MAX_EVENTS_PER_REQUEST) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: `At most ${MAX_EVENTS_PER_REQUEST} events per request`,
+                },
+                { status: 400 }
+            )
+        }
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+        const userId = session?.user?.id ?? null
+
+        // Rate limit before any database work
+        const rateLimit = eventRateLimiter.consume(
+            userId ? `user:${userId}` : `ip:${getClientIp(request)}`,
+            rawEvents.length
+        )
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                { success: false, error: 'Too many events, slow down' },
+                {
+                    status: 429,
+                    headers: {
+                        'Retry-After': String(rateLimit.retryAfterSeconds),
+                    },
+                }
+            )
+        }
+
+        const parsed: ParseEventResult[] = rawEvents.map((raw) =>
+            eventIngestionService.parseEvent(raw)
+        )
+
+        // Sender of each room in the batch; a session from a signed-in join
+        // only counts while the same user is signed in
+        const senders = new Map<string, EventSession | null>()
+        for (const result of parsed) {
+            if (!result.success || senders.has(result.event.meetingId)) continue
+
+            const roomName = result.event.meetingId
+            const eventSession = verifyEventSession(
+                request.cookies.get(getEventSessionCookieName(roomName))?.value,
+                roomName
+            )
+            senders.set(
+                roomName,
+                eventSession &&
+                    (!eventSession.userId || eventSession.userId === userId)
+                    ? await eventIngestionService.resolveSender(eventSession)
+                    : null
+            )
+        }
+
+        if (senders.size > 0 && [...senders.values()].every((s) => !s)) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Join the meeting before sending its events',
+                },
+                { status: 401 }
+            )
+        }
 
         // Process each event
         const results: EventProcessingResponse[] = []
 
-        for (const event of events) {
-            try {
-                // Validate event structure
-                if (!event.eventId || !event.type || !event.payload) {
-                    results.push({
-                        success: false,
-                        eventId: event.eventId,
-                        error: 'Invalid event structure: missing eventId, type, or payload',
-                    })
-                    continue
-                }
+        for (const [index, result] of parsed.entries()) {
+            if (!result.success) {
+                results.push({
+                    success: false,
+                    eventId: rawEventId(rawEvents[index]),
+                    error: result.error,
+                    errorCode: result.errorCode,
+                })
+                continue
+            }
 
+            const sender = senders.get(result.event.meetingId)
+            if (!sender) {
+                results.push({
+                    success: false,
+                    eventId: result.event.eventId,
+                    error: 'Join the meeting before sending its events',
+                })
+                continue
+            }
+
+            const authorized = eventIngestionService.authorizeEvent(
+                result.event,
+                sender
+            )
+            if (!authorized.success) {
+                results.push({
+                    success: false,
+                    eventId: result.event.eventId,
+                    error: authorized.error,
+                    errorCode: authorized.errorCode,
+                })
+                continue
+            }
+
+            try {
                 // Process the event
-                const result = await meetingLogService.processEvent(event)
+                const processed = await meetingLogService.processEvent(
+                    authorized.event
+                )
 
                 results.push({
-                    success: result.success,
-                    eventId: result.eventId,
-                    error: result.error,
+                    success: processed.success,
+                    eventId: processed.eventId,
+                    error: processed.error,
                 })
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : 'Unknown error'
                 results.push({
                     success: false,
-                    eventId: event.eventId,
+                    eventId: result.event.eventId,
                     error: errorMessage,
                 })
             }
@@ -113,7 +242,7 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET handler - retrieve event statistics (optional)
+ * GET handler - retrieve event statistics (optional, members only)
  */
 export async function GET(request: NextRequest) {
     try {
@@ -126,6 +255,9 @@ export async function GET(request: NextRequest) {
             )
         }
 
+        const caller = await authorizeMeeting(meetingId, MeetingPermissions.VIEW)
+        if (caller instanceof NextResponse) return caller
+
         // Get statistics for the meeting
         const stats = await meetingLogService.getProcessingStats(meetingId)
 
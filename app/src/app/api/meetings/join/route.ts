@@ -0,0 +1,129 @@
+/**
+ * POST /api/meetings/join
+ *
+ * Ask to join a meeting room; the join page calls this before it connects to
+ * the conference. Works for guests too: the session is optional and only
+ * counts for the AUTHENTICATED, INVITEES and PASSWORD policies.
+ *
+ * Body:
+ * - roomName: string
+ * - password?: string (PASSWORD policy)
+ *
+ * Returns { allowed: true, meetingId, isModerator, lobbyEnabled, lobby, ... } or
+ * { allowed: false, reason } with 401 (sign in / password needed) or 403
+ * (not invited). A correct password sets a short-lived cookie for that room so it
+ * does not ask again on reload. An allowed join also sets the room's event
+ * session cookie, which /api/meetings/events requires.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+    accessPolicyService,
+    JoinDenialReasons,
+    getAccessGrantCookieName,
+    ACCESS_GRANT_TTL_SECONDS,
+    EVENT_SESSION_TTL_SECONDS,
+    getEventSessionCookieName,
+    createEventSession,
+    verifyEventSession,
+    type JoinDenialReason,
+} from '@/domains/meeting/services/meeting-database'
+
+const DENIAL_STATUS: Record<JoinDenialReason, number> = {
+    [JoinDenialReasons.SIGN_IN_REQUIRED]: 401,
+    [JoinDenialReasons.PASSWORD_REQUIRED]: 401,
+    [JoinDenialReasons.WRONG_PASSWORD]: 401,
+    [JoinDenialReasons.NOT_INVITED]: 403,
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}))
+        const roomName =
+            typeof body.roomName === 'string' ? body.roomName.trim() : ''
+
+        if (!roomName) {
+            return NextResponse.json(
+                { error: 'Room name is required' },
+                { status: 400 }
+            )
+        }
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        const decision = await accessPolicyService.checkJoinAccess({
+            roomName,
+            userId: session?.user?.id,
+            password:
+                typeof body.password === 'string' ? body.password : undefined,
+            grant: request.cookies.get(getAccessGrantCookieName(roomName))?.value,
+        })
+
+        if (!decision.allowed) {
+            return NextResponse.json(
+                {
+                    allowed: false,
+                    reason: decision.reason,
+                    accessPolicy: decision.accessPolicy,
+                },
+                { status: DENIAL_STATUS[decision.reason] }
+            )
+        }
+
+        // Rejoining keeps the moderator status of the earlier join (a guest
+        // who started the room is not its host on record)
+        const userId = session?.user?.id ?? null
+        const sessionCookie = getEventSessionCookieName(roomName)
+        const previous = verifyEventSession(
+            request.cookies.get(sessionCookie)?.value,
+            roomName
+        )
+        const isModerator =
+            decision.isModerator ||
+            (previous?.userId === userId && previous.isModerator)
+
+        const { grant, ...rest } = decision
+        const response = NextResponse.json({
+            ...rest,
+            isModerator,
+            lobby: rest.lobbyEnabled && !isModerator,
+        })
+        const cookieOptions = {
+            httpOnly: true,
+            sameSite: 'lax' as const,
+            secure: request.nextUrl.protocol === 'https:',
+            path: '/',
+        }
+
+        const eventSession = createEventSession({
+            roomName,
+            userId,
+            isModerator,
+        })
+
+        if (eventSession) {
+            response.cookies.set(sessionCookie, eventSession, {
+                ...cookieOptions,
+                maxAge: EVENT_SESSION_TTL_SECONDS,
+            })
+        }
+
+        if (grant) {
+            response.cookies.set(getAccessGrantCookieName(roomName), grant, {
+                ...cookieOptions,
+                maxAge: ACCESS_GRANT_TTL_SECONDS,
+            })
+        }
+
+        return response
+    } catch (error) {
+        console.error('[API] Error checking meeting access:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
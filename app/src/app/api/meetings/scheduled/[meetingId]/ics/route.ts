@@ -0,0 +1,66 @@
+/**
+ * GET /api/meetings/scheduled/[meetingId]/ics
+ *
+ * iCalendar invite for a scheduled meeting, for its host, participants and
+ * invitees. Re-downloading after a change yields a higher SEQUENCE, so the
+ * calendar updates the event; a cancelled meeting yields METHOD:CANCEL.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+    calendarService,
+    type CalendarErrorCode,
+} from '@/domains/meeting/services/meeting-database'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+    }>
+}
+
+const ERROR_STATUS: Record<CalendarErrorCode, number> = {
+    MEETING_NOT_FOUND: 404,
+    NOT_SCHEDULED: 409,
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const result = await calendarService.getMeetingInvite(
+            meetingId,
+            session.user.id,
+            request.nextUrl.origin
+        )
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error },
+                { status: ERROR_STATUS[result.errorCode] }
+            )
+        }
+
+        return new NextResponse(result.ics, {
+            headers: {
+                'Content-Type': `text/calendar; charset=utf-8; method=${result.method}`,
+                'Content-Disposition': `attachment; filename="${result.filename}"`,
+                'Cache-Control': 'no-store',
+            },
+        })
+    } catch (error) {
+        console.error('[API] Error exporting meeting invite:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
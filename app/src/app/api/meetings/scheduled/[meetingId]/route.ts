@@ -0,0 +1,191 @@
+/**
+ * GET /api/meetings/scheduled/[meetingId]
+ * PATCH /api/meetings/scheduled/[meetingId]
+ * DELETE /api/meetings/scheduled/[meetingId]
+ *
+ * GET: Scheduling details and join link (host, invitees and participants)
+ * PATCH: Reschedule or edit the meeting (host only, before it starts)
+ * DELETE: Cancel the meeting (host only, before it starts)
+ *
+ * For occurrences of a recurring meeting, `scope` selects what is changed:
+ * this occurrence (default), this and the following ones, or all of them.
+ *
+ * PATCH body (all optional):
+ * - title: string
+ * - description: string | null
+ * - scheduledAt: string (ISO date)
+ * - durationMinutes: number
+ * - invitees: { email: string, name?: string }[] (replaces the list)
+ * - recurrence: string (RRULE, scope following/all only)
+ * - scope: 'this' | 'following' | 'all'
+ *
+ * DELETE body (optional):
+ * - reason: string
+ * - scope: 'this' | 'following' | 'all'
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+    schedulingService,
+    seriesService,
+    isOccurrenceScope,
+    SchedulingErrorCodes,
+    type SchedulingErrorCode,
+    type SchedulingResult,
+} from '@/domains/meeting/services/meeting-database'
+
+interface Params {
+    params: Promise<{
+        meetingId: string
+    }>
+}
+
+const ERROR_STATUS: Record<SchedulingErrorCode, number> = {
+    [SchedulingErrorCodes.MEETING_NOT_FOUND]: 404,
+    [SchedulingErrorCodes.NOT_HOST]: 403,
+    [SchedulingErrorCodes.NOT_SCHEDULED]: 409,
+    [SchedulingErrorCodes.INVALID_TITLE]: 400,
+    [SchedulingErrorCodes.INVALID_DESCRIPTION]: 400,
+    [SchedulingErrorCodes.INVALID_TIME]: 400,
+    [SchedulingErrorCodes.INVALID_DURATION]: 400,
+    [SchedulingErrorCodes.INVALID_INVITEES]: 400,
+    [SchedulingErrorCodes.INVALID_RECURRENCE]: 400,
+    [SchedulingErrorCodes.NOT_RECURRING]: 400,
+}
+
+/**
+ * Response for a scheduling result, with the absolute join link
+ */
+function toResponse(result: SchedulingResult, request: NextRequest) {
+    if (!result.success || !result.meeting) {
+        return NextResponse.json(
+            { error: result.error, errorCode: result.errorCode },
+            { status: result.errorCode ? ERROR_STATUS[result.errorCode] : 500 }
+        )
+    }
+
+    return NextResponse.json({
+        meeting: {
+            ...result.meeting,
+            joinUrl: new URL(result.meeting.joinPath, request.nextUrl.origin).toString(),
+        },
+    })
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const meeting = await schedulingService.getScheduledMeeting(
+            meetingId,
+            session.user.id
+        )
+
+        if (!meeting) {
+            return NextResponse.json(
+                { error: 'Meeting not found' },
+                { status: 404 }
+            )
+        }
+
+        return toResponse({ success: true, meeting }, request)
+    } catch (error) {
+        console.error('[API] Error fetching scheduled meeting:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json().catch(() => ({}))
+        const scope = body.scope ?? 'this'
+
+        if (!isOccurrenceScope(scope)) {
+            return NextResponse.json(
+                { error: 'Invalid scope parameter' },
+                { status: 400 }
+            )
+        }
+
+        const result = await seriesService.updateOccurrences(
+            meetingId,
+            session.user.id,
+            {
+                title: body.title,
+                description: body.description,
+                scheduledAt: body.scheduledAt,
+                durationMinutes: body.durationMinutes,
+                invitees: body.invitees,
+                recurrence: body.recurrence,
+            },
+            scope
+        )
+
+        return toResponse(result, request)
+    } catch (error) {
+        console.error('[API] Error updating scheduled meeting:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+    try {
+        const { meetingId } = await params
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json().catch(() => ({}))
+        const scope = body.scope ?? 'this'
+
+        if (!isOccurrenceScope(scope)) {
+            return NextResponse.json(
+                { error: 'Invalid scope parameter' },
+                { status: 400 }
+            )
+        }
+
+        const result = await seriesService.cancelOccurrences(
+            meetingId,
+            session.user.id,
+            scope,
+            typeof body.reason === 'string' ? body.reason : undefined
+        )
+
+        return toResponse(result, request)
+    } catch (error) {
+        console.error('[API] Error cancelling scheduled meeting:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * GET /api/meetings/scheduled
+ * POST /api/meetings/scheduled
+ *
+ * GET: Upcoming scheduled meetings the user hosts or is invited to, soonest first
+ * POST: Schedule a meeting hosted by the user
+ *
+ * POST body:
+ * - title: string
+ * - description?: string
+ * - scheduledAt: string (ISO date)
+ * - durationMinutes?: number (default 30)
+ * - invitees?: { email: string, name?: string }[]
+ * - summaryTemplate?: string
+ * - recurrence?: string (RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR")
+ * - timeZone?: string (IANA zone the recurrence is evaluated in, required with recurrence)
+ *
+ * Each meeting has a stable joinUrl (/jitsi-meeting/{roomName}); occurrences
+ * of a recurring meeting share it. A recurring meeting is listed once, by its
+ * next occurrence.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+    schedulingService,
+    seriesService,
+    SchedulingErrorCodes,
+    type SchedulingErrorCode,
+} from '@/domains/meeting/services/meeting-database'
+
+const ERROR_STATUS: Record<SchedulingErrorCode, number> = {
+    [SchedulingErrorCodes.MEETING_NOT_FOUND]: 404,
+    [SchedulingErrorCodes.NOT_HOST]: 403,
+    [SchedulingErrorCodes.NOT_SCHEDULED]: 409,
+    [SchedulingErrorCodes.INVALID_TITLE]: 400,
+    [SchedulingErrorCodes.INVALID_DESCRIPTION]: 400,
+    [SchedulingErrorCodes.INVALID_TIME]: 400,
+    [SchedulingErrorCodes.INVALID_DURATION]: 400,
+    [SchedulingErrorCodes.INVALID_INVITEES]: 400,
+    [SchedulingErrorCodes.INVALID_RECURRENCE]: 400,
+    [SchedulingErrorCodes.NOT_RECURRING]: 400,
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        await seriesService.ensureOccurrences()
+
+        const meetings = await schedulingService.getUpcomingMeetings(session.user.id)
+
+        return NextResponse.json({
+            count: meetings.length,
+            meetings: meetings.map((meeting) => ({
+                ...meeting,
+                joinUrl: new URL(meeting.joinPath, request.nextUrl.origin).toString(),
+            })),
+        })
+    } catch (error) {
+        console.error('[API] Error fetching scheduled meetings:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json().catch(() => ({}))
+
+        const dto = {
+            title: body.title,
+            description: body.description,
+            scheduledAt: body.scheduledAt,
+            durationMinutes: body.durationMinutes,
+            invitees: body.invitees,
+            summaryTemplate: body.summaryTemplate,
+        }
+
+        const result = body.recurrence !== undefined
+            ? await seriesService.createSeries(session.user.id, {
+                  ...dto,
+                  recurrence: body.recurrence,
+                  timeZone: body.timeZone,
+              })
+            : await schedulingService.scheduleMeeting(session.user.id, dto)
+
+        if (!result.success || !result.meeting) {
+            return NextResponse.json(
+                { error: result.error, errorCode: result.errorCode },
+                { status: result.errorCode ? ERROR_STATUS[result.errorCode] : 500 }
+            )
+        }
+
+        return NextResponse.json(
+            {
+                meeting: {
+                    ...result.meeting,
+                    joinUrl: new URL(result.meeting.joinPath, request.nextUrl.origin).toString(),
+                },
+            },
+            { status: 201 }
+        )
+    } catch (error) {
+        console.error('[API] Error scheduling meeting:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * GET /api/meetings/series/[seriesId]
+ *
+ * A recurring meeting: its rule, held occurrences (newest first, with their
+ * completed summaries for comparing consecutive meetings) and upcoming ones.
+ * Visible to the host and to participants/invitees of any occurrence.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { seriesService } from '@/domains/meeting/services/meeting-database'
+
+interface Params {
+    params: Promise<{
+        seriesId: string
+    }>
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const { seriesId } = await params
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const series = await seriesService.getSeries(seriesId, session.user.id)
+
+        if (!series) {
+            return NextResponse.json(
+                { error: 'Series not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json({
+            series: {
+                ...series,
+                joinUrl: new URL(series.joinPath, request.nextUrl.origin).toString(),
+            },
+        })
+    } catch (error) {
+        console.error('[API] Error fetching meeting series:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
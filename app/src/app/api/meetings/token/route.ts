@@ -0,0 +1,87 @@
+/**
+ * POST /api/meetings/token
+ *
+ * Short-lived Jitsi JWT for the signed-in user to join one room. The room's
+ * access policy applies as for /api/meetings/join (including a remembered
+ * meeting password); the token marks hosts and co-hosts as moderators.
+ *
+ * Body:
+ * - roomName: string
+ * - password?: string (PASSWORD policy)
+ *
+ * Returns { token, expiresAt, roomName, isModerator }; 503 while Jitsi token
+ * authentication is not configured, 403 with a reason when access is denied.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+    jitsiTokenService,
+    JitsiTokenErrorCodes,
+    getAccessGrantCookieName,
+    type JitsiTokenErrorCode,
+} from '@/domains/meeting/services/meeting-database'
+
+const ERROR_STATUS: Record<JitsiTokenErrorCode, number> = {
+    [JitsiTokenErrorCodes.NOT_CONFIGURED]: 503,
+    [JitsiTokenErrorCodes.USER_NOT_FOUND]: 401,
+    [JitsiTokenErrorCodes.ACCESS_DENIED]: 403,
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        })
+
+        if (!session?.user?.id) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json().catch(() => ({}))
+        const roomName =
+            typeof body.roomName === 'string' ? body.roomName.trim() : ''
+
+        if (!roomName) {
+            return NextResponse.json(
+                { error: 'Room name is required' },
+                { status: 400 }
+            )
+        }
+
+        const result = await jitsiTokenService.issueToken({
+            roomName,
+            userId: session.user.id,
+            password:
+                typeof body.password === 'string' ? body.password : undefined,
+            grant: request.cookies.get(getAccessGrantCookieName(roomName))?.value,
+        })
+
+        if (!result.success) {
+            return NextResponse.json(
+                {
+                    error: result.error,
+                    errorCode: result.errorCode,
+                    ...(result.reason && { reason: result.reason }),
+                },
+                { status: ERROR_STATUS[result.errorCode] }
+            )
+        }
+
+        return NextResponse.json(
+            {
+                token: result.token,
+                expiresAt: result.expiresAt,
+                roomName: result.roomName,
+                isModerator: result.isModerator,
+            },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        console.error('[API] Error issuing Jitsi token:', error)
+        const errorMessage =
+            error instanceof Error ? error.message : 'Unknown error'
+        return NextResponse.json({ error: errorMessage }, { status: 500 })
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * GET /api/user/action-items
+ *
+ * Fetch action items assigned to the authenticated user across all meetings
+ *
+ * Query params:
+ * - status: open | all (default open)
+ * - limit: number (default 50)
+ * - offset: number (default 0)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { historyService } from '@/domains/meeting/services/meeting-database/historyService'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userId = session.user.id
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams
+    const status = searchParams.get('status') || 'open'
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    // Validate parameters
+    if (!['open', 'all'].includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return NextResponse.json(
+        { error: 'Invalid limit parameter (1-100)' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'Invalid offset parameter' },
+        { status: 400 }
+      )
+    }
+
+    const actionItems = await historyService.getUserActionItems(userId, {
+      includeCompleted: status === 'all',
+      limit,
+      offset,
+    })
+
+    return NextResponse.json({
+      userId,
+      count: actionItems.length,
+      actionItems,
+      filters: {
+        status,
+        limit,
+        offset,
+      },
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[API /user/action-items] Error:', error)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
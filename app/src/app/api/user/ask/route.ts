@@ -0,0 +1,75 @@
+/**
+ * POST /api/user/ask
+ *
+ * Ask a question across all meetings the authenticated user hosted or
+ * participated in; answered from their transcripts with citations
+ *
+ * Body:
+ * - question: string
+ * - history: earlier { role: 'user' | 'assistant', content } turns (optional)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+  meetingQaService,
+  parseQaHistory,
+  QaErrorCodes,
+  MAX_QUESTION_LENGTH,
+} from '@/domains/meeting/services/meeting-database/meetingQaService'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const question = typeof body.question === 'string' ? body.question.trim() : ''
+    const history = parseQaHistory(body.history)
+
+    if (!question || question.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json(
+        { error: `question must be 1-${MAX_QUESTION_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (!history) {
+      return NextResponse.json(
+        { error: 'Invalid history' },
+        { status: 400 }
+      )
+    }
+
+    const result = await meetingQaService.ask(session.user.id, question, { history })
+
+    if (!result.success) {
+      const status =
+        result.errorCode === QaErrorCodes.NO_TRANSCRIPT
+          ? 404
+          : result.errorCode === QaErrorCodes.GENERATION_FAILED
+            ? 500
+            : 400
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[API /user/ask] Error:', error)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
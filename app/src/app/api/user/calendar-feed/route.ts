@@ -0,0 +1,88 @@
+/**
+ * GET    /api/user/calendar-feed
+ * POST   /api/user/calendar-feed
+ * DELETE /api/user/calendar-feed
+ *
+ * The authenticated user's calendar feed URL (iCalendar subscription of
+ * their upcoming meetings). GET returns it (null while the feed is off),
+ * POST turns the feed on or replaces the URL (the old one stops working),
+ * DELETE turns the feed off.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import { calendarService } from '@/domains/meeting/services/meeting-database'
+
+function feedUrl(request: NextRequest, token: string): string {
+  return new URL(`/api/calendar/${token}.ics`, request.nextUrl.origin).toString()
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const token = await calendarService.getFeedToken(session.user.id)
+
+    return NextResponse.json({ feedUrl: token ? feedUrl(request, token) : null })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[API /user/calendar-feed] Error:', error)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const token = await calendarService.rotateFeedToken(session.user.id)
+
+    return NextResponse.json({ feedUrl: feedUrl(request, token) })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[API /user/calendar-feed] Error:', error)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+export async function DELETE() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    await calendarService.revokeFeed(session.user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[API /user/calendar-feed] Error:', error)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
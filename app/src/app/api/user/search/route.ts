@@ -0,0 +1,87 @@
+/**
+ * GET /api/user/search
+ *
+ * Full-text search over transcripts and summaries of meetings the
+ * authenticated user hosted or participated in
+ *
+ * Query params:
+ * - q: search text (websearch syntax: "exact phrase", -exclude, or)
+ * - limit: number of meetings (default 20)
+ * - offset: number (default 0)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+  searchService,
+  MAX_SEARCH_QUERY_LENGTH,
+} from '@/domains/meeting/services/meeting-database/searchService'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate user
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams
+    const query = (searchParams.get('q') || '').trim()
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    // Validate parameters
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Missing search query (q)' },
+        { status: 400 }
+      )
+    }
+
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search query too long (max ${MAX_SEARCH_QUERY_LENGTH} characters)` },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 50) {
+      return NextResponse.json(
+        { error: 'Invalid limit parameter (1-50)' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'Invalid offset parameter' },
+        { status: 400 }
+      )
+    }
+
+    const results = await searchService.search(session.user.id, query, {
+      limit,
+      offset,
+    })
+
+    return NextResponse.json({
+      ...results,
+      filters: {
+        limit,
+        offset,
+      },
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[API /user/search] Error:', error)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
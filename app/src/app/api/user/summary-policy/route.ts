@@ -0,0 +1,106 @@
+/**
+ * GET /api/user/summary-policy
+ * PUT /api/user/summary-policy
+ *
+ * Read or update the authenticated user's automatic summary policy,
+ * applied to meetings they host once the meeting ends
+ *
+ * PUT body (all optional):
+ * - autoSummarize: boolean
+ * - minTranscriptWords: number (0-100000)
+ * - templateId: summary template id, or null for the meeting's template
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { headers } from 'next/headers'
+import {
+  summaryPolicyService,
+  type UpdateSummaryPolicyDTO,
+} from '@/domains/meeting/services/meeting-database/summaryPolicyService'
+import { isSummaryTemplateId } from '@/domains/meeting/services/meeting-database/summaryTemplates'
+
+const MAX_MIN_TRANSCRIPT_WORDS = 100000
+
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const policy = await summaryPolicyService.getPolicy(session.user.id)
+
+    return NextResponse.json({ policy })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[API /user/summary-policy] Error:', error)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const dto: UpdateSummaryPolicyDTO = {}
+
+    if (body.autoSummarize !== undefined) {
+      if (typeof body.autoSummarize !== 'boolean') {
+        return NextResponse.json(
+          { error: 'autoSummarize must be a boolean' },
+          { status: 400 }
+        )
+      }
+      dto.autoSummarize = body.autoSummarize
+    }
+
+    if (body.minTranscriptWords !== undefined) {
+      if (
+        !Number.isInteger(body.minTranscriptWords) ||
+        body.minTranscriptWords < 0 ||
+        body.minTranscriptWords > MAX_MIN_TRANSCRIPT_WORDS
+      ) {
+        return NextResponse.json(
+          { error: `minTranscriptWords must be an integer (0-${MAX_MIN_TRANSCRIPT_WORDS})` },
+          { status: 400 }
+        )
+      }
+      dto.minTranscriptWords = body.minTranscriptWords
+    }
+
+    if (body.templateId !== undefined) {
+      if (body.templateId !== null && !isSummaryTemplateId(body.templateId)) {
+        return NextResponse.json(
+          { error: 'Invalid templateId' },
+          { status: 400 }
+        )
+      }
+      dto.templateId = body.templateId
+    }
+
+    const policy = await summaryPolicyService.updatePolicy(session.user.id, dto)
+
+    return NextResponse.json({ success: true, policy })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('[API /user/summary-policy] Error:', error)
+    return NextResponse.json({ error: errorMessage }, { status: 500 })
+  }
+}
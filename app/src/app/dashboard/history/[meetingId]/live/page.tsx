@@ -0,0 +1,162 @@
+'use client'
+
+import React from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Loader2, Radio, WifiOff } from 'lucide-react'
+import {
+    useMeetingDetails,
+    useLiveTranscript,
+    type LiveTranscriptConnection,
+    type LiveTranscriptStatus,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+
+// Distance from the bottom within which the page keeps following new segments
+const FOLLOW_THRESHOLD_PX = 120
+
+/**
+ * Format seconds from the start of the transcript as m:ss
+ */
+function formatOffset(seconds: number): string {
+    const total = Math.floor(seconds)
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`
+}
+
+function getStreamLabel(
+    connection: LiveTranscriptConnection,
+    status: LiveTranscriptStatus | null
+): { label: string; className: string } {
+    if (connection === 'closed') {
+        return { label: 'Unavailable', className: 'text-red-600 bg-red-50 border-red-200' }
+    }
+    if (connection !== 'open') {
+        return { label: 'Connecting...', className: 'text-gray-600 bg-gray-50 border-gray-200' }
+    }
+    if (status === 'COMPLETED') {
+        return { label: 'Ended', className: 'text-gray-600 bg-gray-50 border-gray-200' }
+    }
+    if (status === 'PROCESSING') {
+        return { label: 'Live', className: 'text-green-600 bg-green-50 border-green-200' }
+    }
+    return { label: 'Waiting for transcription', className: 'text-blue-600 bg-blue-50 border-blue-200' }
+}
+
+/**
+ * Read-only "follow along" view of a meeting's transcript as it happens
+ */
+export default function FollowAlongPage() {
+    const params = useParams()
+    const meetingId = (params as { meetingId?: string })?.meetingId || ''
+
+    const { meeting } = useMeetingDetails(meetingId)
+    const { segments, status, connection } = useLiveTranscript(meetingId)
+    const streamLabel = getStreamLabel(connection, status)
+
+    const bottomRef = React.useRef<HTMLDivElement>(null)
+    const followRef = React.useRef(true)
+
+    // Follow new segments while the end of the transcript is in view
+    React.useEffect(() => {
+        const bottom = bottomRef.current
+        if (!bottom) return
+
+        const observer = new IntersectionObserver(
+            ([entry]) => {
+                followRef.current = entry.isIntersecting
+            },
+            { rootMargin: `0px 0px ${FOLLOW_THRESHOLD_PX}px 0px` }
+        )
+        observer.observe(bottom)
+        return () => observer.disconnect()
+    }, [])
+
+    React.useEffect(() => {
+        if (followRef.current) {
+            bottomRef.current?.scrollIntoView({ block: 'end' })
+        }
+    }, [segments])
+
+    return (
+        <main className="flex-1 overflow-auto bg-background">
+            <div className="max-w-4xl mx-auto px-6 py-12">
+                <Button variant="ghost" asChild className="mb-6">
+                    <Link href={`/dashboard/history/${meetingId}`}>
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back to Meeting
+                    </Link>
+                </Button>
+
+                <div className="flex items-center justify-between gap-3 mb-8">
+                    <div>
+                        <h1 className="text-3xl text-foreground">
+                            {meeting?.title || 'Live transcript'}
+                        </h1>
+                        <p className="text-sm text-muted-foreground">
+                            Following along - this page updates as people speak
+                        </p>
+                    </div>
+                    <div
+                        className={`flex items-center gap-1 px-2 py-1 rounded-md border text-sm font-medium whitespace-nowrap ${streamLabel.className}`}
+                    >
+                        {connection === 'closed' ? (
+                            <WifiOff className="h-4 w-4" />
+                        ) : connection === 'open' ? (
+                            <Radio className="h-4 w-4" />
+                        ) : (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                        )}
+                        {streamLabel.label}
+                    </div>
+                </div>
+
+                {connection === 'closed' ? (
+                    <Card className="border-red-200 bg-red-50">
+                        <CardContent className="pt-6">
+                            <p className="text-red-600">
+                                The live transcript is not available. Only the
+                                host and participants of this meeting can follow
+                                it.
+                            </p>
+                        </CardContent>
+                    </Card>
+                ) : segments.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-12">
+                        {status === 'COMPLETED'
+                            ? 'The transcript is empty.'
+                            : 'Nothing has been transcribed yet.'}
+                    </p>
+                ) : (
+                    <div className="space-y-3">
+                        {segments.map((segment) => (
+                            <div key={segment.id} className="flex gap-3">
+                                <span className="font-mono text-xs text-muted-foreground mt-1 w-12 shrink-0">
+                                    {segment.startTime !== null &&
+                                        formatOffset(segment.startTime)}
+                                </span>
+                                <p className="text-sm">
+                                    <span className="font-medium">
+                                        {segment.speakerName ||
+                                            `Speaker ${segment.speakerId}`}
+                                        :
+                                    </span>{' '}
+                                    <span
+                                        className={
+                                            segment.isFinal
+                                                ? 'text-foreground'
+                                                : 'text-muted-foreground'
+                                        }
+                                    >
+                                        {segment.text}
+                                    </span>
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div ref={bottomRef} />
+            </div>
+        </main>
+    )
+}
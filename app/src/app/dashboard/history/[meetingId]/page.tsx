@@ -2,7 +2,7 @@
 
 import React from 'react'
 import { useParams, useRouter } from 'next/navigation'
-import useSWR from 'swr'
+import useSWR, { mutate as mutateKey } from 'swr'
 import {
     Card,
     CardContent,
@@ -25,10 +25,16 @@ import {
     XCircle,
     PlayCircle,
     AlertCircle,
+    Radio,
 } from 'lucide-react'
 import { format, formatDistanceToNow } from 'date-fns'
 import Link from 'next/link'
 import { SummarizeSection } from '@/components/dashboard/summarize-section'
+import { TranscriptDownload } from '@/components/dashboard/transcript-download'
+import { MeetingQa } from '@/components/dashboard/meeting-qa'
+import { SpeakerMapping } from '@/components/dashboard/speaker-mapping'
+import { TranscriptSegmentText } from '@/components/dashboard/transcript-segment'
+import { MeetingChat } from '@/components/dashboard/meeting-chat'
 
 // Types for API response
 interface MeetingHost {
@@ -59,6 +65,9 @@ interface TranscriptSegment {
     text: string
     confidence: number | null
     isFinal: boolean
+    originalText: string | null
+    editedAt: string | null
+    editedById: string | null
     receivedAt: string
     createdAt: string
 }
@@ -100,11 +109,17 @@ export default function MeetingDetailPage() {
     const router = useRouter()
     const meetingId = (params as { meetingId?: string })?.meetingId || ''
 
-    const { data, error, isLoading } = useSWR<ApiResponse>(
+    const { data, error, isLoading, mutate } = useSWR<ApiResponse>(
         meetingId ? `/api/meetings/${meetingId}/transcript` : null,
         fetcher
     )
 
+    // Corrections rewrite the transcript and may flag the summary as stale
+    const refreshTranscript = React.useCallback(() => {
+        mutate()
+        mutateKey(`/api/meetings/${meetingId}/summary`)
+    }, [mutate, meetingId])
+
     // Format duration
     const formatDuration = (seconds?: number | null) => {
         if (!seconds) return 'N/A'
@@ -212,6 +227,30 @@ export default function MeetingDetailPage() {
         return grouped
     }, [data?.transcript?.segments])
 
+    // Search results link to #segment-<id>; scroll there once segments load
+    const [highlightedSegmentId, setHighlightedSegmentId] = React.useState<
+        string | null
+    >(null)
+    // (Q&A citations on this page change the hash too)
+    React.useEffect(() => {
+        if (!data?.transcript) return
+
+        const scrollToHashSegment = () => {
+            const hash = window.location.hash
+            if (!hash.startsWith('#segment-')) return
+
+            const segmentId = hash.slice('#segment-'.length)
+            document
+                .getElementById(`segment-${segmentId}`)
+                ?.scrollIntoView({ block: 'center' })
+            setHighlightedSegmentId(segmentId)
+        }
+
+        scrollToHashSegment()
+        window.addEventListener('hashchange', scrollToHashSegment)
+        return () => window.removeEventListener('hashchange', scrollToHashSegment)
+    }, [data?.transcript])
+
     if (isLoading) {
         return (
             <main className="flex-1 overflow-auto bg-background">
@@ -287,6 +326,14 @@ export default function MeetingDetailPage() {
                             {meeting.roomName}
                         </code>
                     </p>
+                    {meeting.status === 'ACTIVE' && (
+                        <Button variant="outline" size="sm" asChild className="mt-3">
+                            <Link href={`/dashboard/history/${meeting.id}/live`}>
+                                <Radio className="mr-2 h-4 w-4" />
+                                Follow live transcript
+                            </Link>
+                        </Button>
+                    )}
                 </div>
 
                 <hr className="border-border mb-8" />
@@ -451,6 +498,14 @@ export default function MeetingDetailPage() {
                     </CardContent>
                 </Card>
 
+                {/* Speakers - Only show if transcript exists */}
+                {transcript && transcript.segments.length > 0 && (
+                    <SpeakerMapping
+                        meetingId={meetingId}
+                        onChange={refreshTranscript}
+                    />
+                )}
+
                 {/* Transcript */}
                 <Card className="mb-6">
                     <CardHeader>
@@ -467,15 +522,18 @@ export default function MeetingDetailPage() {
                                 </CardDescription>
                             </div>
                             {transcript && transcript.segments.length > 0 && (
-                                <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() =>
-                                        console.log('Summarize with AI clicked')
-                                    }
-                                >
-                                    ✨ Summarize with AI
-                                </Button>
+                                <div className="flex items-center gap-2">
+                                    <TranscriptDownload meetingId={meetingId} />
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() =>
+                                            console.log('Summarize with AI clicked')
+                                        }
+                                    >
+                                        ✨ Summarize with AI
+                                    </Button>
+                                </div>
                             )}
                         </div>
                     </CardHeader>
@@ -499,16 +557,15 @@ export default function MeetingDetailPage() {
                                         </div>
                                         <div className="pl-4 border-l-2 border-muted space-y-1">
                                             {group.segments.map((segment) => (
-                                                <p
+                                                <TranscriptSegmentText
                                                     key={segment.id}
-                                                    className={`text-sm ${
-                                                        segment.isFinal
-                                                            ? 'text-foreground'
-                                                            : 'text-muted-foreground italic'
-                                                    }`}
-                                                >
-                                                    {segment.text}
-                                                </p>
+                                                    meetingId={meetingId}
+                                                    segment={segment}
+                                                    highlighted={
+                                                        highlightedSegmentId === segment.id
+                                                    }
+                                                    onEdited={refreshTranscript}
+                                                />
                                             ))}
                                         </div>
                                     </div>
@@ -529,12 +586,22 @@ export default function MeetingDetailPage() {
                     </CardContent>
                 </Card>
 
+                {/* Chat - hidden when nothing was sent */}
+                <MeetingChat meetingId={meetingId} />
+
                 {/* Summary Section - Only show if transcript exists */}
                 {transcript && transcript.segments.length > 0 && (
                     <div className="mb-6">
                         <SummarizeSection meetingId={meetingId} />
                     </div>
                 )}
+
+                {/* Q&A - Only show if transcript exists */}
+                {transcript && transcript.segments.length > 0 && (
+                    <div className="mb-6">
+                        <MeetingQa meetingId={meetingId} />
+                    </div>
+                )}
             </div>
         </main>
     )
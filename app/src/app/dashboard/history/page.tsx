@@ -5,7 +5,10 @@ import {
     useMeetingHistory,
     useUserMeetingStats,
 } from '@/domains/meeting/hooks/useFetchingMeeting'
-import type { MeetingHistoryFilters } from '@/domains/meeting/hooks/useFetchingMeeting'
+import type {
+    MeetingHistoryFilters,
+    MeetingHistoryItem,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Avatar } from '@/components/ui/avatar'
@@ -17,10 +20,12 @@ import {
     XCircle,
     PlayCircle,
     Loader2,
+    Repeat,
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import Link from 'next/link'
 import Image from 'next/image'
+import { MeetingSearch } from '@/components/dashboard/meeting-search'
 
 type StatusFilter = 'all' | 'ACTIVE' | 'ENDED' | 'SCHEDULED' | 'CANCELLED'
 type RoleFilter = 'all' | 'host' | 'participant'
@@ -60,6 +65,23 @@ export default function DashboardHistoryPage() {
         })
     }, [isLoading, error, meetings])
 
+    // Show each series once, by its most recent meeting on this page
+    const seriesGroups = React.useMemo(() => {
+        const groups: { meeting: MeetingHistoryItem; earlier: number }[] = []
+        const bySeries = new Map<string, { meeting: MeetingHistoryItem; earlier: number }>()
+        for (const meeting of meetings) {
+            const group = meeting.seriesId ? bySeries.get(meeting.seriesId) : undefined
+            if (group) {
+                group.earlier++
+                continue
+            }
+            const created = { meeting, earlier: 0 }
+            groups.push(created)
+            if (meeting.seriesId) bySeries.set(meeting.seriesId, created)
+        }
+        return groups
+    }, [meetings])
+
     // Format duration
     const formatDuration = (seconds?: number) => {
         if (!seconds) return 'N/A'
@@ -118,6 +140,9 @@ export default function DashboardHistoryPage() {
                     </p>
                 </div>
 
+                {/* Search */}
+                <MeetingSearch />
+
                 {/* Statistics */}
                 {!statsLoading && stats && (
                     <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mb-8">
@@ -290,7 +315,7 @@ export default function DashboardHistoryPage() {
                     </Card>
                 ) : (
                     <div className="space-y-4 mb-6">
-                        {meetings.map((meeting) => {
+                        {seriesGroups.map(({ meeting, earlier }) => {
                             const statusBadge = getStatusBadge(meeting.status)
                             const StatusIcon = statusBadge.icon
                             const meetingTime =
@@ -299,144 +324,161 @@ export default function DashboardHistoryPage() {
                                 meeting.createdAt
 
                             return (
-                                <Link
-                                    key={meeting.id}
-                                    href={
-                                        meeting.status === 'ACTIVE'
-                                            ? `/jitsi-meeting/${meeting.roomName}`
-                                            : `/dashboard/history/${meeting.id}`
-                                    }
-                                >
-                                    <Card className="hover:shadow-md transition-shadow cursor-pointer">
-                                        <CardContent className="pt-6">
-                                            <div className="flex items-start justify-between">
-                                                <div className="flex-1">
-                                                    <div className="flex items-center gap-3 mb-2">
-                                                        <h3 className="text-lg font-semibold">
-                                                            {meeting.title}
-                                                        </h3>
-                                                        <div
-                                                            className={`flex items-center gap-1 px-2 py-1 rounded-md border text-xs font-medium ${statusBadge.className}`}
-                                                        >
-                                                            <StatusIcon className="h-3 w-3" />
-                                                            {statusBadge.label}
-                                                        </div>
-                                                        <div className="px-2 py-1 bg-gray-100 rounded-md text-xs font-medium dark:text-black">
-                                                            {meeting.userRole}
+                                <div key={meeting.id}>
+                                    <Link
+                                        href={
+                                            meeting.status === 'ACTIVE'
+                                                ? `/jitsi-meeting/${meeting.roomName}`
+                                                : `/dashboard/history/${meeting.id}`
+                                        }
+                                    >
+                                        <Card className="hover:shadow-md transition-shadow cursor-pointer">
+                                            <CardContent className="pt-6">
+                                                <div className="flex items-start justify-between">
+                                                    <div className="flex-1">
+                                                        <div className="flex items-center gap-3 mb-2">
+                                                            <h3 className="text-lg font-semibold">
+                                                                {meeting.title}
+                                                            </h3>
+                                                            <div
+                                                                className={`flex items-center gap-1 px-2 py-1 rounded-md border text-xs font-medium ${statusBadge.className}`}
+                                                            >
+                                                                <StatusIcon className="h-3 w-3" />
+                                                                {statusBadge.label}
+                                                            </div>
+                                                            <div className="px-2 py-1 bg-gray-100 rounded-md text-xs font-medium dark:text-black">
+                                                                {meeting.userRole}
+                                                            </div>
                                                         </div>
-                                                    </div>
 
-                                                    {meeting.description && (
-                                                        <p className="text-sm text-muted-foreground mb-3">
-                                                            {
-                                                                meeting.description
-                                                            }
-                                                        </p>
-                                                    )}
+                                                        {meeting.description && (
+                                                            <p className="text-sm text-muted-foreground mb-3">
+                                                                {
+                                                                    meeting.description
+                                                                }
+                                                            </p>
+                                                        )}
 
-                                                    {/* Compact meeting info row */}
-                                                    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
-                                                        {/* Host */}
-                                                        {meeting.host && (
-                                                            <div className="flex items-center gap-2">
-                                                                <Avatar className="h-5 w-5">
-                                                                    <Image
-                                                                        src={
-                                                                            meeting
-                                                                                .host
-                                                                                .image ||
-                                                                            `https://api.dicebear.com/7.x/initials/svg?seed=${meeting.host.name || meeting.host.email}`
-                                                                        }
-                                                                        alt={
+                                                        {/* Compact meeting info row */}
+                                                        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                                                            {/* Host */}
+                                                            {meeting.host && (
+                                                                <div className="flex items-center gap-2">
+                                                                    <Avatar className="h-5 w-5">
+                                                                        <Image
+                                                                            src={
+                                                                                meeting
+                                                                                    .host
+                                                                                    .image ||
+                                                                                `https://api.dicebear.com/7.x/initials/svg?seed=${meeting.host.name || meeting.host.email}`
+                                                                            }
+                                                                            alt={
+                                                                                meeting
+                                                                                    .host
+                                                                                    .name ||
+                                                                                'Host'
+                                                                            }
+                                                                            width={
+                                                                                20
+                                                                            }
+                                                                            height={
+                                                                                20
+                                                                            }
+                                                                        />
+                                                                    </Avatar>
+                                                                    <span>
+                                                                        {meeting
+                                                                            .host
+                                                                            .name ||
                                                                             meeting
                                                                                 .host
-                                                                                .name ||
-                                                                            'Host'
-                                                                        }
-                                                                        width={
-                                                                            20
-                                                                        }
-                                                                        height={
-                                                                            20
-                                                                        }
-                                                                    />
-                                                                </Avatar>
-                                                                <span>
-                                                                    {meeting
-                                                                        .host
-                                                                        .name ||
-                                                                        meeting
-                                                                            .host
-                                                                            .email}
-                                                                </span>
-                                                            </div>
-                                                        )}
-
-                                                        <span className="text-muted-foreground/50">
-                                                            •
-                                                        </span>
+                                                                                .email}
+                                                                    </span>
+                                                                </div>
+                                                            )}
 
-                                                        {/* Participants */}
-                                                        <div className="flex items-center gap-1">
-                                                            <Users className="h-4 w-4" />
-                                                            <span>
-                                                                {
-                                                                    meeting.participantCount
-                                                                }
+                                                            <span className="text-muted-foreground/50">
+                                                                •
                                                             </span>
-                                                        </div>
-
-                                                        <span className="text-muted-foreground/50">
-                                                            •
-                                                        </span>
 
-                                                        {/* Time */}
-                                                        <div className="flex items-center gap-1">
-                                                            <Clock className="h-4 w-4" />
-                                                            <span>
-                                                                {formatDistanceToNow(
-                                                                    new Date(
-                                                                        meetingTime
-                                                                    ),
+                                                            {/* Participants */}
+                                                            <div className="flex items-center gap-1">
+                                                                <Users className="h-4 w-4" />
+                                                                <span>
                                                                     {
-                                                                        addSuffix: true,
+                                                                        meeting.participantCount
                                                                     }
-                                                                )}
+                                                                </span>
+                                                            </div>
+
+                                                            <span className="text-muted-foreground/50">
+                                                                •
                                                             </span>
-                                                        </div>
 
-                                                        {/* Duration */}
-                                                        {meeting.duration && (
-                                                            <>
-                                                                <span className="text-muted-foreground/50">
-                                                                    •
+                                                            {/* Time */}
+                                                            <div className="flex items-center gap-1">
+                                                                <Clock className="h-4 w-4" />
+                                                                <span>
+                                                                    {formatDistanceToNow(
+                                                                        new Date(
+                                                                            meetingTime
+                                                                        ),
+                                                                        {
+                                                                            addSuffix: true,
+                                                                        }
+                                                                    )}
                                                                 </span>
-                                                                <div className="flex items-center gap-1">
-                                                                    <Video className="h-4 w-4" />
-                                                                    <span>
-                                                                        {formatDuration(
-                                                                            meeting.duration
-                                                                        )}
+                                                            </div>
+
+                                                            {/* Duration */}
+                                                            {meeting.duration && (
+                                                                <>
+                                                                    <span className="text-muted-foreground/50">
+                                                                        •
                                                                     </span>
-                                                                </div>
-                                                            </>
-                                                        )}
+                                                                    <div className="flex items-center gap-1">
+                                                                        <Video className="h-4 w-4" />
+                                                                        <span>
+                                                                            {formatDuration(
+                                                                                meeting.duration
+                                                                            )}
+                                                                        </span>
+                                                                    </div>
+                                                                </>
+                                                            )}
+                                                        </div>
                                                     </div>
-                                                </div>
 
-                                                {/* Join button only for active meetings */}
-                                                {meeting.status ===
-                                                    'ACTIVE' && (
-                                                    <div className="ml-4">
-                                                        <Button size="sm">
-                                                            Join
-                                                        </Button>
-                                                    </div>
-                                                )}
-                                            </div>
-                                        </CardContent>
-                                    </Card>
-                                </Link>
+                                                    {/* Join button only for active meetings */}
+                                                    {meeting.status ===
+                                                        'ACTIVE' && (
+                                                        <div className="ml-4">
+                                                            <Button size="sm">
+                                                                Join
+                                                            </Button>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            </CardContent>
+                                        </Card>
+                                    </Link>
+                                    {meeting.seriesId && (
+                                        <div className="flex items-center gap-2 px-2 pt-2 text-xs text-muted-foreground">
+                                            <Repeat className="h-3 w-3" />
+                                            <span>
+                                                Recurring meeting
+                                                {earlier > 0 &&
+                                                    ` · ${earlier} earlier meeting${earlier !== 1 ? 's' : ''} in this series`}
+                                            </span>
+                                            <Link
+                                                href={`/dashboard/series/${meeting.seriesId}`}
+                                                className="font-medium text-primary underline-offset-2 hover:underline"
+                                            >
+                                                View series
+                                            </Link>
+                                        </div>
+                                    )}
+                                </div>
                             )
                         })}
                     </div>
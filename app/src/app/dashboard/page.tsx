@@ -7,6 +7,8 @@ import { Input } from '@/components/ui/input'
 import { Video, Keyboard, Loader2 } from 'lucide-react'
 import Link from 'next/link'
 import { checkMeetingExists } from '@/domains/meeting/hooks/useFetchingMeeting'
+import { OpenActionItems } from '@/components/dashboard/open-action-items'
+import { ScheduledMeetings } from '@/components/dashboard/scheduled-meetings'
 
 export default function DashboardPage() {
     const [meetingCode, setMeetingCode] = useState('')
@@ -103,6 +105,12 @@ export default function DashboardPage() {
 
                 <hr className="border-border mb-12" />
 
+                {/* Scheduled meetings and the scheduling form */}
+                <ScheduledMeetings />
+
+                {/* Action items assigned to the user across meetings */}
+                <OpenActionItems />
+
                 {/* Learn More Footer */}
                 <div className="text-center mt-8">
                     <Link
@@ -0,0 +1,352 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { addMinutes, format } from 'date-fns'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+    ArrowLeft,
+    CalendarClock,
+    Check,
+    CheckCircle2,
+    Copy,
+    FileText,
+    History,
+    Loader2,
+    PlayCircle,
+    Repeat,
+    SkipForward,
+    Video,
+} from 'lucide-react'
+import { SeriesSummaryComparison } from '@/components/dashboard/series-summary-comparison'
+import {
+    cancelScheduledMeeting,
+    useMeetingSeries,
+    type SeriesOccurrence,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+import {
+    describeRecurrenceRule,
+    parseRecurrenceRule,
+} from '@/domains/meeting/services/meeting-database/recurrenceRule'
+
+export default function SeriesDetailPage() {
+    const params = useParams()
+    const seriesId = (params as { seriesId?: string })?.seriesId || ''
+
+    const { series, error, isLoading, mutate } = useMeetingSeries(seriesId)
+    const [skippingId, setSkippingId] = useState<string | null>(null)
+    const [copied, setCopied] = useState(false)
+
+    const handleCopy = async () => {
+        if (!series) return
+        try {
+            await navigator.clipboard.writeText(series.joinUrl)
+            setCopied(true)
+            setTimeout(() => setCopied(false), 2000)
+        } catch (err) {
+            console.error('[SeriesDetailPage] Failed to copy link:', err)
+        }
+    }
+
+    const handleSkip = async (occurrence: SeriesOccurrence) => {
+        if (
+            !confirm(
+                'Skip this meeting? The rest of the series stays scheduled.'
+            )
+        )
+            return
+
+        setSkippingId(occurrence.id)
+        try {
+            await cancelScheduledMeeting(occurrence.id, 'this')
+            await mutate()
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Failed to skip meeting')
+        } finally {
+            setSkippingId(null)
+        }
+    }
+
+    // Format duration
+    const formatDuration = (seconds?: number | null) => {
+        if (!seconds) return null
+        const hours = Math.floor(seconds / 3600)
+        const minutes = Math.floor((seconds % 3600) / 60)
+        if (hours > 0) return `${hours}h ${minutes}m`
+        return `${minutes}m`
+    }
+
+    if (isLoading) {
+        return (
+            <main className="flex-1 overflow-auto bg-background">
+                <div className="max-w-4xl mx-auto px-6 py-12">
+                    <div className="flex items-center justify-center py-12">
+                        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                    </div>
+                </div>
+            </main>
+        )
+    }
+
+    if (error || !series) {
+        return (
+            <main className="flex-1 overflow-auto bg-background">
+                <div className="max-w-4xl mx-auto px-6 py-12">
+                    <Button variant="ghost" asChild className="mb-4">
+                        <Link href="/dashboard/history">
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to History
+                        </Link>
+                    </Button>
+                    <Card className="border-red-200 bg-red-50">
+                        <CardContent className="pt-6">
+                            <p className="text-red-600">Series not found</p>
+                        </CardContent>
+                    </Card>
+                </div>
+            </main>
+        )
+    }
+
+    const parsedRule = parseRecurrenceRule(series.rrule)
+    const recurrence = parsedRule.success
+        ? describeRecurrenceRule(parsedRule.rule)
+        : 'Recurring'
+    // Time of day in the series' own zone, which is what the rule keeps fixed
+    const startTime = new Intl.DateTimeFormat(undefined, {
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZone: series.timeZone,
+    }).format(new Date(series.startsAt))
+
+    return (
+        <main className="flex-1 overflow-auto bg-background">
+            <div className="max-w-4xl mx-auto px-6 py-12">
+                {/* Back Button */}
+                <Button variant="ghost" asChild className="mb-6">
+                    <Link href="/dashboard/history">
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back to History
+                    </Link>
+                </Button>
+
+                {/* Series Header */}
+                <div className="text-center mb-8">
+                    <h1 className="text-4xl text-foreground mb-3">
+                        {series.title}
+                    </h1>
+                    {series.description && (
+                        <p className="text-muted-foreground mb-2">
+                            {series.description}
+                        </p>
+                    )}
+                    <p className="flex items-center justify-center gap-1 text-sm text-muted-foreground">
+                        <Repeat className="h-4 w-4" />
+                        {recurrence} · {startTime} ({series.timeZone}) ·{' '}
+                        {series.durationMinutes} min
+                    </p>
+                    {series.host && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                            Hosted by {series.host.name || series.host.email}
+                        </p>
+                    )}
+                    {series.cancelledAt ? (
+                        <p className="text-sm text-red-600 mt-3">
+                            This series was cancelled on{' '}
+                            {format(new Date(series.cancelledAt), 'PP')}
+                        </p>
+                    ) : (
+                        <div className="flex items-center justify-center gap-2 mt-3">
+                            <Button size="sm" asChild>
+                                <Link href={series.joinPath}>
+                                    <Video className="mr-2 h-4 w-4" />
+                                    Join
+                                </Link>
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleCopy}
+                            >
+                                {copied ? (
+                                    <Check className="mr-2 h-4 w-4 text-green-500" />
+                                ) : (
+                                    <Copy className="mr-2 h-4 w-4" />
+                                )}
+                                Copy link
+                            </Button>
+                        </div>
+                    )}
+                </div>
+
+                {/* Upcoming */}
+                <Card className="mb-6">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-base">
+                            <CalendarClock className="h-4 w-4 text-primary" />
+                            Upcoming
+                        </CardTitle>
+                        <CardDescription>
+                            Every meeting of the series uses the same link
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {series.upcoming.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No upcoming meetings.
+                            </p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {series.upcoming.map((occurrence) => {
+                                    const startsAt = new Date(
+                                        occurrence.scheduledAt ??
+                                            occurrence.occurrenceAt!
+                                    )
+                                    return (
+                                        <li
+                                            key={occurrence.id}
+                                            className="flex items-center justify-between gap-2 text-sm"
+                                        >
+                                            <span>
+                                                {format(
+                                                    startsAt,
+                                                    'EEE, MMM d · HH:mm'
+                                                )}
+                                                {' – '}
+                                                {format(
+                                                    addMinutes(
+                                                        startsAt,
+                                                        series.durationMinutes
+                                                    ),
+                                                    'HH:mm'
+                                                )}
+                                                {occurrence.status ===
+                                                    'ACTIVE' && (
+                                                    <span className="ml-2 inline-flex items-center gap-1 text-green-600">
+                                                        <PlayCircle className="h-3 w-3" />
+                                                        Live
+                                                    </span>
+                                                )}
+                                            </span>
+                                            {series.isHost &&
+                                                occurrence.status ===
+                                                    'SCHEDULED' && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            handleSkip(
+                                                                occurrence
+                                                            )
+                                                        }
+                                                        disabled={
+                                                            skippingId ===
+                                                            occurrence.id
+                                                        }
+                                                    >
+                                                        {skippingId ===
+                                                        occurrence.id ? (
+                                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                                        ) : (
+                                                            <SkipForward className="mr-2 h-4 w-4" />
+                                                        )}
+                                                        Skip
+                                                    </Button>
+                                                )}
+                                        </li>
+                                    )
+                                })}
+                            </ul>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Summary comparison */}
+                <SeriesSummaryComparison occurrences={series.past} />
+
+                {/* Past meetings */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-base">
+                            <History className="h-4 w-4 text-primary" />
+                            Past meetings
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {series.past.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No meetings held yet.
+                            </p>
+                        ) : (
+                            <ul className="divide-y">
+                                {series.past.map((occurrence) => {
+                                    const heldAt =
+                                        occurrence.startedAt ??
+                                        occurrence.scheduledAt ??
+                                        occurrence.occurrenceAt
+                                    const duration = formatDuration(
+                                        occurrence.duration
+                                    )
+                                    return (
+                                        <li
+                                            key={occurrence.id}
+                                            className="py-3"
+                                        >
+                                            <Link
+                                                href={`/dashboard/history/${occurrence.id}`}
+                                                className="flex items-start justify-between gap-4 text-sm hover:underline-offset-2"
+                                            >
+                                                <div className="min-w-0">
+                                                    <p className="font-medium">
+                                                        {heldAt
+                                                            ? format(
+                                                                  new Date(
+                                                                      heldAt
+                                                                  ),
+                                                                  'EEE, PP · HH:mm'
+                                                              )
+                                                            : 'Unknown date'}
+                                                        {duration && (
+                                                            <span className="ml-2 font-normal text-muted-foreground">
+                                                                {duration}
+                                                            </span>
+                                                        )}
+                                                    </p>
+                                                    {occurrence.summary && (
+                                                        <p className="text-muted-foreground line-clamp-2">
+                                                            {
+                                                                occurrence
+                                                                    .summary
+                                                                    .overview
+                                                            }
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                {occurrence.status ===
+                                                'ACTIVE' ? (
+                                                    <PlayCircle className="h-4 w-4 shrink-0 text-green-600" />
+                                                ) : occurrence.summary ? (
+                                                    <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                                ) : (
+                                                    <CheckCircle2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                                )}
+                                            </Link>
+                                        </li>
+                                    )
+                                })}
+                            </ul>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </main>
+    )
+}
@@ -1,11 +1,17 @@
 'use client'
 
-import React, { useEffect, useState, useRef } from 'react'
+import React, { useCallback, useEffect, useState, useRef } from 'react'
 import { JitsiMeeting } from '@jitsi/react-sdk'
 import { useParams, useRouter } from 'next/navigation'
 import { useSession } from '@/lib/auth-client'
 import { useEventPersistence } from '@/domains/meeting/hooks/useEventPersistence'
 import { meetingEventEmitter } from '@/domains/meeting/services/meetingEventEmitter'
+import {
+    fetchJitsiToken,
+    joinMeeting,
+    type JoinMeetingResult,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+import { JoinAccessGate } from '@/components/meeting'
 import type {
     JitsiExternalAPI,
     VideoConferenceJoinedEvent,
@@ -22,6 +28,7 @@ import type {
     RaiseHandUpdatedEvent,
     ChatUpdatedEvent,
     IncomingMessageEvent,
+    OutgoingMessageEvent,
 } from '@/types/jitsi-react-sdk'
 
 export default function JitsiMeetingPage() {
@@ -29,7 +36,7 @@ export default function JitsiMeetingPage() {
     const params = useParams()
     const router = useRouter()
     const meetingId = (params as { meetingId?: string })?.meetingId || ''
-    const { data: session } = useSession()
+    const { data: session, isPending: isSessionPending } = useSession()
 
     const [displayName] = useState(
         () =>
@@ -40,6 +47,13 @@ export default function JitsiMeetingPage() {
     // Only render Jitsi after client-side mount to prevent hydration mismatch
     const [isMounted, setIsMounted] = useState(false)
 
+    // The room's access policy decides whether the conference is rendered at all
+    const [access, setAccess] = useState<JoinMeetingResult | null>(null)
+    const [accessError, setAccessError] = useState<string | null>(null)
+    const [isSubmittingPassword, setIsSubmittingPassword] = useState(false)
+    // Signed-in users connect with a Jitsi JWT when the server issues them
+    const [jwt, setJwt] = useState<string | undefined>(undefined)
+
     // Reference to track if meeting has started
     const meetingStartedRef = useRef(false)
     const localParticipantIdRef = useRef<string | null>(null)
@@ -68,6 +82,58 @@ export default function JitsiMeetingPage() {
         setIsMounted(true)
     }, [])
 
+    const userId = session?.user?.id
+
+    /**
+     * Ask to join; once allowed, fetch the user's conference token before rendering Jitsi
+     */
+    const requestAccess = useCallback(
+        async (password?: string) => {
+            const result = await joinMeeting(meetingId, password)
+            if (result.allowed && userId) {
+                setJwt((await fetchJitsiToken(meetingId)) ?? undefined)
+            }
+            return result
+        },
+        [meetingId, userId]
+    )
+
+    useEffect(() => {
+        if (!meetingId || isSessionPending) return
+
+        let cancelled = false
+        requestAccess()
+            .then((result) => {
+                if (!cancelled) setAccess(result)
+            })
+            .catch((err) => {
+                if (!cancelled) {
+                    setAccessError(
+                        err instanceof Error ? err.message : 'Failed to join meeting'
+                    )
+                }
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [meetingId, isSessionPending, requestAccess])
+
+    const handleSubmitPassword = async (password: string) => {
+        setIsSubmittingPassword(true)
+        try {
+            setAccess(await requestAccess(password))
+        } catch (err) {
+            setAccessError(
+                err instanceof Error ? err.message : 'Failed to join meeting'
+            )
+        } finally {
+            setIsSubmittingPassword(false)
+        }
+    }
+
+    const isModerator = access?.allowed === true && access.isModerator
+
     /**
      * Setup event listeners for Jitsi API events and emit to database
      */
@@ -88,6 +154,11 @@ export default function JitsiMeetingPage() {
                 // Store local participant ID
                 localParticipantIdRef.current = event.id
 
+                // Moderators open the lobby; Jitsi then asks them to admit everyone else
+                if (isModerator && access?.allowed && access.lobbyEnabled) {
+                    api.executeCommand('toggleLobby', true)
+                }
+
                 // Emit meeting started event (only once)
                 if (!meetingStartedRef.current) {
                     meetingStartedRef.current = true
@@ -109,7 +180,7 @@ export default function JitsiMeetingPage() {
                     email:
                         session?.user?.email ||
                         `${displayName.replace(/\s+/g, '').toLowerCase()}@example.com`,
-                    role: 'HOST', // Local participant is host
+                    role: isModerator ? 'HOST' : 'PARTICIPANT',
                     joinedAt: getISOTimestamp(),
                 })
             }
@@ -129,12 +200,15 @@ export default function JitsiMeetingPage() {
                     )
                 }
 
-                // Emit transcribingStatusChanged(false) to complete transcript
-                // This ensures transcript status changes from PROCESSING to COMPLETED
-                meetingEventEmitter.emitTranscribingStatusChanged(meetingId, false)
+                // Only moderators end the meeting (the server refuses it from others)
+                if (isModerator) {
+                    // Emit transcribingStatusChanged(false) to complete transcript
+                    // This ensures transcript status changes from PROCESSING to COMPLETED
+                    meetingEventEmitter.emitTranscribingStatusChanged(meetingId, false)
 
-                // Emit meeting ended
-                meetingEventEmitter.emitMeetingEnded(meetingId)
+                    // Emit meeting ended
+                    meetingEventEmitter.emitMeetingEnded(meetingId)
+                }
             }
         )
 
@@ -263,6 +337,14 @@ export default function JitsiMeetingPage() {
         // Additional Events (for logging/debugging)
         // ====================================================================
 
+        // knockingParticipant - someone is waiting in the lobby (moderators only)
+        api.addListener(
+            'knockingParticipant',
+            (event: { participant?: { id?: string; name?: string } }) => {
+                console.log('[Jitsi Event] knockingParticipant:', event)
+            }
+        )
+
         // errorOccurred
         api.addListener('errorOccurred', (event: ErrorOccurredEvent) => {
             console.error('[Jitsi Event] errorOccurred:', event)
@@ -291,6 +373,26 @@ export default function JitsiMeetingPage() {
             console.log('[Jitsi Event] incomingMessage:', event)
         })
 
+        // outgoingMessage - the sender persists chat (see chatRecordService)
+        // Private messages are skipped: the iframe API does not report the recipient
+        api.addListener('outgoingMessage', (event: OutgoingMessageEvent) => {
+            console.log('[Jitsi Event] outgoingMessage:', event)
+
+            if (!event.privateMessage && localParticipantIdRef.current) {
+                meetingEventEmitter.emitChatMessageSent({
+                    meetingId,
+                    messageId: `chat-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+                    sender: {
+                        id: localParticipantIdRef.current,
+                        displayName,
+                        userId: session?.user?.id,
+                    },
+                    text: event.message,
+                    timestamp: getISOTimestamp(),
+                })
+            }
+        })
+
         // ====================================================================
         // Transcription Events (for transcript persistence)
         // ====================================================================
@@ -300,10 +402,13 @@ export default function JitsiMeetingPage() {
             'transcribingStatusChanged',
             (event: { on: boolean }) => {
                 console.log('[Jitsi Event] transcribingStatusChanged:', event)
-                meetingEventEmitter.emitTranscribingStatusChanged(
-                    meetingId,
-                    event.on
-                )
+                // Every client sees the change; the moderators report it
+                if (isModerator) {
+                    meetingEventEmitter.emitTranscribingStatusChanged(
+                        meetingId,
+                        event.on
+                    )
+                }
             }
         )
 
@@ -318,6 +423,7 @@ export default function JitsiMeetingPage() {
                     final?: string
                     stable?: string
                     unstable?: string
+                    confidence?: number
                 }
                 // Also handle direct properties for API compatibility
                 language?: string
@@ -326,6 +432,7 @@ export default function JitsiMeetingPage() {
                 final?: string
                 stable?: string
                 unstable?: string
+                confidence?: number
             }) => {
                 console.log('[Jitsi Event] transcriptionChunkReceived:', rawEvent)
 
@@ -360,7 +467,8 @@ export default function JitsiMeetingPage() {
                     },
                     event.final || '',
                     event.stable || '',
-                    event.unstable || ''
+                    event.unstable || '',
+                    event.confidence // Only set by transcribers that report it
                 )
             }
         )
@@ -386,7 +494,28 @@ export default function JitsiMeetingPage() {
         )
     }
 
-    if (!isMounted) {
+    if (accessError) {
+        return (
+            <div
+                style={{ height: '100vh', width: '100%' }}
+                className="text-black flex items-center justify-center"
+            >
+                <p>{accessError}</p>
+            </div>
+        )
+    }
+
+    if (access && !access.allowed) {
+        return (
+            <JoinAccessGate
+                reason={access.reason}
+                isSubmitting={isSubmittingPassword}
+                onSubmitPassword={handleSubmitPassword}
+            />
+        )
+    }
+
+    if (!isMounted || !access) {
         return (
             <div
                 style={{ height: '100vh', width: '100%' }}
@@ -402,6 +531,7 @@ export default function JitsiMeetingPage() {
             <JitsiMeeting
                 domain={domain}
                 roomName={meetingId}
+                jwt={jwt}
                 configOverwrite={{
                     startWithAudioMuted: false,
                     disableModeratorIndicator: false,
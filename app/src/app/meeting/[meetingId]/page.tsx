@@ -22,8 +22,6 @@ import { useSession } from '@/lib/auth-client'
 
 type LayoutType = 'auto' | 'grid' | 'sidebar' | 'spotlight'
 
-const mockMessages: any[] = []
-
 export default function MeetingPage() {
     const params = useParams()
     const router = useRouter()
@@ -34,6 +32,8 @@ export default function MeetingPage() {
     const [showChat, setShowChat] = useState(false)
     const [showSettings, setShowSettings] = useState(false)
     const [showGridLayout, setShowGridLayout] = useState(false)
+    const [showCaptions, setShowCaptions] = useState(false)
+    const [showTranscript, setShowTranscript] = useState(false)
     const [currentLayout, setCurrentLayout] = useState<LayoutType>('grid')
 
     // User settings
@@ -51,6 +51,14 @@ export default function MeetingPage() {
     const localTracks = useLocalTracks()
     const remoteTracks = useRemoteTracks()
 
+    // Chat messages received while the chat panel is closed
+    const [chatReadCount, setChatReadCount] = useState(0)
+    const chatMessageCount = meeting.chatMessages.length
+    useEffect(() => {
+        if (showChat) setChatReadCount(chatMessageCount)
+    }, [showChat, chatMessageCount])
+    const unreadChatCount = Math.max(0, chatMessageCount - chatReadCount)
+
     // Event persistence
     const { flushEvents } = useEventPersistence(meetingId, {
         debug: process.env.NODE_ENV === 'development',
@@ -282,6 +290,10 @@ export default function MeetingPage() {
                         currentLayout={currentLayout}
                         isLoading={isLoading}
                         dominantSpeakerId={meeting.dominantSpeakerId}
+                        captions={meeting.captions}
+                        showCaptions={showCaptions}
+                        showTranscript={showTranscript}
+                        onCloseTranscript={() => setShowTranscript(false)}
                     />
                 </div>
 
@@ -294,12 +306,16 @@ export default function MeetingPage() {
                 <ControlBar
                     onShowParticipants={() => setShowParticipants(true)}
                     onShowChat={() => setShowChat(true)}
+                    unreadChatCount={unreadChatCount}
                     onShowSettings={() => setShowSettings(true)}
                     onShowGridLayout={() => setShowGridLayout(true)}
+                    onShowTranscript={() => setShowTranscript((open) => !open)}
                     isMicOn={localTracks.isAudioEnabled}
                     isVideoOn={localTracks.isVideoEnabled}
+                    isCaptionsOn={showCaptions}
                     onToggleMic={handleToggleMic}
                     onToggleVideo={handleToggleCamera}
+                    onToggleCaptions={() => setShowCaptions((on) => !on)}
                     onLeaveCall={handleLeave}
                     roomName={meetingId}
                 />
@@ -317,9 +333,11 @@ export default function MeetingPage() {
             />
 
             <ChatPanel
-                messages={mockMessages}
+                messages={meeting.chatMessages}
+                participants={meeting.participantList.filter((p) => !p.isLocal)}
                 isOpen={showChat}
                 onClose={() => setShowChat(false)}
+                onSend={meeting.sendChatMessage}
             />
 
             <SettingsMenu
@@ -12,6 +12,8 @@ import {
 } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { SummaryPolicySettings } from '@/components/dashboard/summary-policy-settings'
+import { CalendarFeedSettings } from '@/components/dashboard/calendar-feed-settings'
 import { 
     ArrowLeft, 
     Mail, 
@@ -133,6 +135,12 @@ export default function ProfilePage() {
                         </CardContent>
                     </Card>
 
+                    {/* Automatic Summaries */}
+                    <SummaryPolicySettings />
+
+                    {/* Calendar Subscription */}
+                    <CalendarFeedSettings />
+
                     {/* Account Actions */}
                     <Card>
                         <CardHeader>
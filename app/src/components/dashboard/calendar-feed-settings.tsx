@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, CalendarSync, Check, Copy, Loader2 } from 'lucide-react'
+import {
+    disableCalendarFeed,
+    resetCalendarFeed,
+    useCalendarFeed,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+
+/**
+ * Secret calendar subscription URL listing the user's upcoming meetings
+ */
+export function CalendarFeedSettings() {
+    const { feedUrl, isLoading, error, mutate } = useCalendarFeed()
+    const [isSaving, setIsSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+    const [copied, setCopied] = useState(false)
+
+    const run = async (action: () => Promise<unknown>) => {
+        setIsSaving(true)
+        setSaveError(null)
+        try {
+            await action()
+            await mutate()
+        } catch (err) {
+            setSaveError(
+                err instanceof Error
+                    ? err.message
+                    : 'Failed to update calendar feed'
+            )
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleReset = () => {
+        if (
+            feedUrl &&
+            !confirm(
+                'Create a new link? Calendars subscribed with the current link stop updating.'
+            )
+        ) {
+            return
+        }
+        run(resetCalendarFeed)
+    }
+
+    const handleCopy = async () => {
+        if (!feedUrl) return
+        try {
+            await navigator.clipboard.writeText(feedUrl)
+            setCopied(true)
+            setTimeout(() => setCopied(false), 2000)
+        } catch (err) {
+            console.error('[CalendarFeedSettings] Failed to copy link:', err)
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <CalendarSync className="h-5 w-5 text-primary" />
+                    Calendar Subscription
+                </CardTitle>
+                <CardDescription>
+                    Subscribe to your upcoming meetings from Google Calendar,
+                    Outlook or Apple Calendar
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : error ? (
+                    <p className="text-sm text-red-600">
+                        Failed to load calendar feed
+                    </p>
+                ) : feedUrl ? (
+                    <>
+                        <div className="flex items-center gap-2">
+                            <Input
+                                value={feedUrl}
+                                readOnly
+                                onFocus={(e) => e.target.select()}
+                                aria-label="Calendar feed URL"
+                                className="font-mono text-xs"
+                            />
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleCopy}
+                                aria-label="Copy calendar feed URL"
+                            >
+                                {copied ? (
+                                    <Check className="h-4 w-4 text-green-500" />
+                                ) : (
+                                    <Copy className="h-4 w-4" />
+                                )}
+                            </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Anyone with this link can see your upcoming
+                            meetings. Keep it private, or create a new link if
+                            it was shared.
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleReset}
+                                disabled={isSaving}
+                            >
+                                {isSaving && (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                )}
+                                New link
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => run(disableCalendarFeed)}
+                                disabled={isSaving}
+                            >
+                                Turn off
+                            </Button>
+                        </div>
+                    </>
+                ) : (
+                    <Button onClick={handleReset} disabled={isSaving}>
+                        {isSaving && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Create calendar link
+                    </Button>
+                )}
+
+                {saveError && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        {saveError}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import {
+    updateMeetingAccess,
+    useMeetingAccess,
+    type MeetingAccessPolicy,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+
+const POLICY_LABELS: Record<MeetingAccessPolicy, string> = {
+    OPEN: 'Anyone with the link',
+    AUTHENTICATED: 'Signed-in users',
+    INVITEES: 'Invited people only',
+    PASSWORD: 'Anyone with the password',
+}
+
+const MIN_PASSWORD_LENGTH = 4
+
+const selectClassName =
+    'h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50'
+
+interface MeetingAccessSettingsProps {
+    meetingId: string
+    onClose?: () => void
+}
+
+/**
+ * Who may join a meeting and whether they wait in the lobby (host only)
+ * Renders nothing for users who cannot manage the meeting
+ */
+export function MeetingAccessSettings({
+    meetingId,
+    onClose,
+}: MeetingAccessSettingsProps) {
+    const { settings, isLoading, error, mutate } = useMeetingAccess(meetingId)
+    const [accessPolicy, setAccessPolicy] =
+        useState<MeetingAccessPolicy>('OPEN')
+    const [password, setPassword] = useState('')
+    const [lobbyEnabled, setLobbyEnabled] = useState(false)
+    const [isSaving, setIsSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (!settings) return
+        setAccessPolicy(settings.accessPolicy)
+        setLobbyEnabled(settings.lobbyEnabled)
+        setPassword('')
+    }, [settings])
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center rounded-md border p-3">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+        )
+    }
+
+    if (error || !settings) return null
+
+    const needsPassword =
+        accessPolicy === 'PASSWORD' &&
+        (!settings.hasPassword || settings.accessPolicy !== 'PASSWORD')
+    const passwordTooShort =
+        password.length > 0 && password.length < MIN_PASSWORD_LENGTH
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        setSaveError(null)
+        try {
+            await mutate(
+                {
+                    settings: await updateMeetingAccess(meetingId, {
+                        accessPolicy,
+                        lobbyEnabled,
+                        ...(accessPolicy === 'PASSWORD' &&
+                            password && { password }),
+                    }),
+                },
+                { revalidate: false }
+            )
+            onClose?.()
+        } catch (err) {
+            setSaveError(
+                err instanceof Error
+                    ? err.message
+                    : 'Failed to update meeting access'
+            )
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-3 rounded-md border p-3 text-sm">
+            <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                    <Label htmlFor={`access-policy-${meetingId}`}>
+                        Who can join
+                    </Label>
+                    <select
+                        id={`access-policy-${meetingId}`}
+                        className={`${selectClassName} w-full`}
+                        value={accessPolicy}
+                        onChange={(e) =>
+                            setAccessPolicy(
+                                e.target.value as MeetingAccessPolicy
+                            )
+                        }
+                        disabled={isSaving}
+                    >
+                        {(
+                            Object.keys(POLICY_LABELS) as MeetingAccessPolicy[]
+                        ).map((policy) => (
+                            <option key={policy} value={policy}>
+                                {POLICY_LABELS[policy]}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                {accessPolicy === 'PASSWORD' && (
+                    <div className="space-y-2">
+                        <Label htmlFor={`access-password-${meetingId}`}>
+                            {needsPassword ? 'Password' : 'New password'}
+                        </Label>
+                        <Input
+                            id={`access-password-${meetingId}`}
+                            type="password"
+                            autoComplete="new-password"
+                            placeholder={
+                                needsPassword ? '' : 'Keep current password'
+                            }
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            disabled={isSaving}
+                        />
+                    </div>
+                )}
+            </div>
+
+            <label className="flex items-center gap-2">
+                <input
+                    type="checkbox"
+                    checked={lobbyEnabled}
+                    onChange={(e) => setLobbyEnabled(e.target.checked)}
+                    disabled={isSaving}
+                />
+                Let people in from a lobby
+            </label>
+
+            <p className="text-xs text-muted-foreground">
+                {settings.seriesId
+                    ? 'Applies to every upcoming meeting in the series. '
+                    : ''}
+                You and your co-hosts can always join.
+                {accessPolicy === 'PASSWORD' &&
+                    ' Invited people join without the password.'}
+            </p>
+
+            {saveError && (
+                <p className="flex items-center gap-1 text-sm text-red-600">
+                    <AlertCircle className="h-4 w-4" />
+                    {saveError}
+                </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+                {onClose && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={onClose}
+                        disabled={isSaving}
+                    >
+                        Close
+                    </Button>
+                )}
+                <Button
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={
+                        isSaving ||
+                        passwordTooShort ||
+                        (needsPassword && !password)
+                    }
+                >
+                    {isSaving && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Save
+                </Button>
+            </div>
+        </div>
+    )
+}
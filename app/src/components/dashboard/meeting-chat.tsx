@@ -0,0 +1,72 @@
+'use client'
+
+import { format } from 'date-fns'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { Loader2, Lock, MessagesSquare } from 'lucide-react'
+import { useMeetingChat } from '@/domains/meeting/hooks/useFetchingMeeting'
+
+interface MeetingChatProps {
+    meetingId: string
+}
+
+/**
+ * Chat messages sent during the meeting
+ */
+export function MeetingChat({ meetingId }: MeetingChatProps) {
+    const { messages, isLoading } = useMeetingChat(meetingId)
+
+    if (!isLoading && messages.length === 0) return null
+
+    return (
+        <Card className="mb-6">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <MessagesSquare className="h-5 w-5" />
+                    Chat
+                </CardTitle>
+                <CardDescription>
+                    {isLoading
+                        ? 'Loading messages...'
+                        : `${messages.length} message${messages.length !== 1 ? 's' : ''} sent during the meeting`}
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : (
+                    <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                        {messages.map((message) => (
+                            <div key={message.id} className="space-y-0.5">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-sm font-semibold text-primary">
+                                        {message.senderName}
+                                    </span>
+                                    {message.isPrivate && (
+                                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                            <Lock className="h-3 w-3" />
+                                            to {message.recipientName || 'a participant'}
+                                        </span>
+                                    )}
+                                    <span className="text-xs text-muted-foreground">
+                                        {format(new Date(message.sentAt), 'HH:mm:ss')}
+                                    </span>
+                                </div>
+                                <p className="text-sm whitespace-pre-wrap break-words">
+                                    {message.text}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
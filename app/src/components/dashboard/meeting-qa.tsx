@@ -0,0 +1,247 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, Loader2, MessageCircleQuestion, Send } from 'lucide-react'
+import {
+    askMeetingQuestion,
+    type QaHistoryMessage,
+    type QaSource,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+
+interface MeetingQaProps {
+    meetingId: string
+}
+
+interface QaMessage extends QaHistoryMessage {
+    citations?: QaSource[]
+}
+
+type QaScope = 'meeting' | 'all'
+
+const CITATION_PATTERN = /(\[S\d+\])/g
+
+/**
+ * Format seconds from the start of the transcript as m:ss
+ */
+function formatOffset(seconds: number): string {
+    const total = Math.floor(seconds)
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`
+}
+
+/**
+ * Link to the first segment of a cited transcript window
+ * Same-meeting links only change the hash so the page scrolls to the segment
+ */
+function citationHref(source: QaSource, currentMeetingId: string): string {
+    const anchor = `#segment-${source.segmentIds[0]}`
+    return source.meetingId === currentMeetingId
+        ? anchor
+        : `/dashboard/history/${source.meetingId}${anchor}`
+}
+
+/**
+ * Answer text with [S1]-style citations rendered as links
+ */
+function AnswerText({
+    text,
+    citations,
+    meetingId,
+}: {
+    text: string
+    citations: QaSource[]
+    meetingId: string
+}) {
+    const byLabel = new Map(citations.map((source) => [`[${source.label}]`, source]))
+
+    return (
+        <p className="text-sm whitespace-pre-wrap">
+            {text.split(CITATION_PATTERN).map((part, index) => {
+                const source = byLabel.get(part)
+                if (!source) return <span key={index}>{part}</span>
+
+                return (
+                    <Link
+                        key={index}
+                        href={citationHref(source, meetingId)}
+                        className="inline-flex items-center rounded bg-primary/10 px-1 text-xs font-medium text-primary hover:bg-primary/20"
+                        title={source.text}
+                    >
+                        {source.label}
+                    </Link>
+                )
+            })}
+        </p>
+    )
+}
+
+/**
+ * "Ask this meeting" chat, answered from transcripts with citations
+ */
+export function MeetingQa({ meetingId }: MeetingQaProps) {
+    const [scope, setScope] = useState<QaScope>('meeting')
+    const [messages, setMessages] = useState<QaMessage[]>([])
+    const [question, setQuestion] = useState('')
+    const [isAsking, setIsAsking] = useState(false)
+    const [askError, setAskError] = useState<string | null>(null)
+
+    const handleScopeChange = (next: QaScope) => {
+        setScope(next)
+        setMessages([])
+        setAskError(null)
+    }
+
+    const handleAsk = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const text = question.trim()
+        if (!text) return
+
+        setIsAsking(true)
+        setAskError(null)
+
+        const history: QaHistoryMessage[] = messages.map(({ role, content }) => ({
+            role,
+            content,
+        }))
+        setMessages((current) => [...current, { role: 'user', content: text }])
+        setQuestion('')
+
+        try {
+            const result = await askMeetingQuestion(
+                scope === 'meeting' ? meetingId : null,
+                text,
+                history
+            )
+            setMessages((current) => [
+                ...current,
+                {
+                    role: 'assistant',
+                    content: result.answer,
+                    citations: result.citations,
+                },
+            ])
+        } catch (err) {
+            setAskError(
+                err instanceof Error ? err.message : 'Failed to answer the question'
+            )
+        } finally {
+            setIsAsking(false)
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <MessageCircleQuestion className="h-5 w-5" />
+                            Ask a question
+                        </CardTitle>
+                        <CardDescription>
+                            Answers come from the transcript, with links to what was said
+                        </CardDescription>
+                    </div>
+                    <select
+                        value={scope}
+                        onChange={(e) => handleScopeChange(e.target.value as QaScope)}
+                        disabled={isAsking}
+                        className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                        aria-label="Question scope"
+                    >
+                        <option value="meeting">This meeting</option>
+                        <option value="all">All my meetings</option>
+                    </select>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {messages.length > 0 && (
+                    <div className="space-y-3 max-h-[480px] overflow-y-auto">
+                        {messages.map((message, index) =>
+                            message.role === 'user' ? (
+                                <div key={index} className="flex justify-end">
+                                    <p className="max-w-[80%] rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground">
+                                        {message.content}
+                                    </p>
+                                </div>
+                            ) : (
+                                <div key={index} className="rounded-lg bg-muted/50 px-3 py-2 space-y-2">
+                                    <AnswerText
+                                        text={message.content}
+                                        citations={message.citations ?? []}
+                                        meetingId={meetingId}
+                                    />
+                                    {message.citations && message.citations.length > 0 && (
+                                        <ul className="space-y-1 border-t pt-2">
+                                            {message.citations.map((source) => (
+                                                <li key={source.label} className="text-xs text-muted-foreground">
+                                                    <Link
+                                                        href={citationHref(source, meetingId)}
+                                                        className="hover:underline"
+                                                    >
+                                                        <span className="font-medium text-foreground">
+                                                            {source.label}
+                                                        </span>{' '}
+                                                        {source.meetingId !== meetingId &&
+                                                            `${source.meetingTitle} · `}
+                                                        {source.startTime !== null &&
+                                                            `${formatOffset(source.startTime)} · `}
+                                                        {source.text.split('\n')[0]}
+                                                    </Link>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            )
+                        )}
+                        {isAsking && (
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                Searching the transcript...
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {askError && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        {askError}
+                    </div>
+                )}
+
+                <form onSubmit={handleAsk} className="flex gap-2">
+                    <Input
+                        value={question}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        placeholder={
+                            scope === 'meeting'
+                                ? 'e.g. What did Lan say about the deadline?'
+                                : 'e.g. When did we decide on the Postgres migration?'
+                        }
+                        aria-label="Question"
+                        maxLength={1000}
+                        disabled={isAsking}
+                    />
+                    <Button type="submit" disabled={isAsking || !question.trim()}>
+                        {isAsking ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                            <Send className="h-4 w-4" />
+                        )}
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    )
+}
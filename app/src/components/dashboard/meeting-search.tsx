@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { FileText, Loader2, Search, Sparkles, X } from 'lucide-react'
+import { useMeetingSearch } from '@/domains/meeting/hooks/useFetchingMeeting'
+
+// Markers around matched terms in search snippets (see searchService)
+const HIGHLIGHT_PATTERN = /<<(.*?)>>/g
+
+/**
+ * Render a search snippet with matched terms highlighted
+ */
+function Snippet({ text }: { text: string }) {
+    const parts = text.split(HIGHLIGHT_PATTERN)
+
+    return (
+        <>
+            {parts.map((part, index) =>
+                index % 2 === 1 ? (
+                    <mark
+                        key={index}
+                        className="bg-yellow-100 dark:bg-yellow-900/40 text-foreground rounded px-0.5"
+                    >
+                        {part}
+                    </mark>
+                ) : (
+                    <span key={index}>{part}</span>
+                )
+            )}
+        </>
+    )
+}
+
+/**
+ * Format seconds from the start of the transcript as m:ss / h:mm:ss
+ */
+function formatOffset(seconds: number): string {
+    const total = Math.floor(seconds)
+    const hours = Math.floor(total / 3600)
+    const minutes = Math.floor((total % 3600) / 60)
+    const secs = String(total % 60).padStart(2, '0')
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+        : `${minutes}:${secs}`
+}
+
+/**
+ * Search box over the transcripts and summaries of the user's meetings
+ */
+export function MeetingSearch() {
+    const [input, setInput] = useState('')
+    const [query, setQuery] = useState('')
+    const { results, total, isLoading, error } = useMeetingSearch(query)
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        setQuery(input.trim())
+    }
+
+    const handleClear = () => {
+        setInput('')
+        setQuery('')
+    }
+
+    return (
+        <div className="mb-8 space-y-4">
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder='Search transcripts and summaries, e.g. "postgres migration"'
+                        aria-label="Search meetings"
+                        maxLength={200}
+                        className="pl-9"
+                    />
+                </div>
+                <Button type="submit" disabled={!input.trim()}>
+                    Search
+                </Button>
+                {query && (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={handleClear}
+                        aria-label="Clear search"
+                    >
+                        <X className="h-4 w-4" />
+                    </Button>
+                )}
+            </form>
+
+            {query &&
+                (isLoading ? (
+                    <div className="flex items-center justify-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : error ? (
+                    <p className="text-sm text-red-600">Search failed</p>
+                ) : results.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        No meetings match &quot;{query}&quot;.
+                    </p>
+                ) : (
+                    <div className="space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                            {total} meeting{total === 1 ? '' : 's'} match &quot;
+                            {query}&quot;
+                        </p>
+                        {results.map((result) => (
+                            <Card key={result.meeting.id}>
+                                <CardContent className="pt-6 space-y-3">
+                                    <div className="flex items-baseline justify-between gap-2">
+                                        <Link
+                                            href={`/dashboard/history/${result.meeting.id}`}
+                                            className="font-semibold hover:underline"
+                                        >
+                                            {result.meeting.title}
+                                        </Link>
+                                        {result.meeting.startedAt && (
+                                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                                {format(
+                                                    new Date(result.meeting.startedAt),
+                                                    'MMM d, yyyy'
+                                                )}
+                                            </span>
+                                        )}
+                                    </div>
+
+                                    {result.summarySnippet && (
+                                        <p className="flex gap-2 text-sm">
+                                            <Sparkles className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                                            <span>
+                                                <Snippet text={result.summarySnippet} />
+                                            </span>
+                                        </p>
+                                    )}
+
+                                    {result.segmentHits.length > 0 ? (
+                                        <ul className="space-y-1">
+                                            {result.segmentHits.map((hit) => (
+                                                <li key={hit.segmentId} className="text-sm">
+                                                    <Link
+                                                        href={`/dashboard/history/${result.meeting.id}#segment-${hit.segmentId}`}
+                                                        className="flex gap-2 rounded px-1 -mx-1 hover:bg-muted/50"
+                                                    >
+                                                        <span className="font-mono text-xs text-muted-foreground mt-0.5 w-14 shrink-0">
+                                                            {hit.startTime !== null
+                                                                ? formatOffset(hit.startTime)
+                                                                : format(new Date(hit.receivedAt), 'HH:mm')}
+                                                        </span>
+                                                        <span>
+                                                            <span className="font-medium">
+                                                                {hit.speakerName}:
+                                                            </span>{' '}
+                                                            <Snippet text={hit.snippet} />
+                                                        </span>
+                                                    </Link>
+                                                </li>
+                                            ))}
+                                            {result.totalSegmentHits > result.segmentHits.length && (
+                                                <li className="text-xs text-muted-foreground">
+                                                    +{result.totalSegmentHits - result.segmentHits.length} more
+                                                    matches in the transcript
+                                                </li>
+                                            )}
+                                        </ul>
+                                    ) : (
+                                        result.transcriptSnippet && (
+                                            <p className="flex gap-2 text-sm">
+                                                <FileText className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                                                <span>
+                                                    <Snippet text={result.transcriptSnippet} />
+                                                </span>
+                                            </p>
+                                        )
+                                    )}
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+                ))}
+        </div>
+    )
+}
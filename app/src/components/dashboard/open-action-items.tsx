@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { CheckCircle2, Circle, ListChecks, Loader2 } from 'lucide-react'
+import {
+    setActionItemCompleted,
+    useUserActionItems,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+
+/**
+ * "My open action items" across all meetings of the signed-in user
+ */
+export function OpenActionItems() {
+    const { actionItems, isLoading, error, mutate } = useUserActionItems('open')
+    const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+    const handleComplete = async (meetingId: string, actionItemId: string) => {
+        setUpdatingId(actionItemId)
+        try {
+            await setActionItemCompleted(meetingId, actionItemId, true)
+            await mutate()
+        } catch (err) {
+            console.error('[OpenActionItems] Failed to complete item:', err)
+        } finally {
+            setUpdatingId(null)
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                    <ListChecks className="h-4 w-4 text-primary" />
+                    My open action items
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : error ? (
+                    <p className="text-sm text-red-600">
+                        Failed to load action items
+                    </p>
+                ) : actionItems.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        Nothing assigned to you right now.
+                    </p>
+                ) : (
+                    <ul className="space-y-3">
+                        {actionItems.map((item) => (
+                            <li key={item.id} className="flex items-start gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() =>
+                                        handleComplete(item.meeting.id, item.id)
+                                    }
+                                    disabled={updatingId === item.id}
+                                    className="mt-0.5 text-muted-foreground hover:text-green-500 disabled:opacity-50"
+                                    aria-label="Mark as done"
+                                >
+                                    {updatingId === item.id ? (
+                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : item.completed ? (
+                                        <CheckCircle2 className="h-4 w-4 text-green-500" />
+                                    ) : (
+                                        <Circle className="h-4 w-4" />
+                                    )}
+                                </button>
+                                <div className="text-sm">
+                                    <p className="font-medium">{item.task}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        <Link
+                                            href={`/dashboard/history/${item.meeting.id}`}
+                                            className="hover:underline"
+                                        >
+                                            {item.meeting.title}
+                                        </Link>
+                                        {item.dueDate && (
+                                            <>
+                                                {' '}
+                                                · Due{' '}
+                                                {format(
+                                                    new Date(item.dueDate),
+                                                    'PP'
+                                                )}
+                                            </>
+                                        )}
+                                    </p>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,904 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { addMinutes, format } from 'date-fns'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+    AlertCircle,
+    CalendarArrowDown,
+    CalendarClock,
+    CalendarPlus,
+    Check,
+    Copy,
+    Loader2,
+    Pencil,
+    Repeat,
+    ShieldCheck,
+    Users,
+    Video,
+    X,
+} from 'lucide-react'
+import {
+    cancelScheduledMeeting,
+    scheduleMeeting,
+    updateScheduledMeeting,
+    useScheduledMeetings,
+    type OccurrenceScope,
+    type ScheduledMeeting,
+    type ScheduleMeetingInput,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+import {
+    describeRecurrenceRule,
+    formatRecurrenceRule,
+    MAX_RECURRENCE_COUNT,
+    parseRecurrenceRule,
+    WEEKDAY_LABELS,
+    WEEKDAYS,
+    type RecurrenceRule,
+    type Weekday,
+} from '@/domains/meeting/services/meeting-database/recurrenceRule'
+import { MeetingAccessSettings } from './meeting-access-settings'
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120]
+
+const WORKING_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR']
+
+const SCOPE_LABELS: Record<OccurrenceScope, string> = {
+    this: 'This meeting',
+    following: 'This and following meetings',
+    all: 'All meetings in the series',
+}
+
+type RepeatMode =
+    'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'custom'
+type RepeatEnd = 'never' | 'until' | 'count'
+
+interface RepeatState {
+    mode: RepeatMode
+    weekdays: Weekday[] // Weekly only; empty means the weekday of the start
+    end: RepeatEnd
+    until: string // yyyy-MM-dd
+    count: number
+    custom?: RecurrenceRule // Existing rule the simple modes cannot express
+}
+
+const selectClassName =
+    'h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50'
+
+const textareaClassName =
+    'w-full min-h-16 rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50'
+
+/**
+ * Value for a datetime-local input, in local time
+ */
+function toLocalInputValue(date: Date): string {
+    return format(date, "yyyy-MM-dd'T'HH:mm")
+}
+
+/**
+ * Default start for a new meeting: the next full hour
+ */
+function nextFullHour(): Date {
+    const date = new Date()
+    date.setHours(date.getHours() + 1, 0, 0, 0)
+    return date
+}
+
+/**
+ * Split a comma/newline separated list of emails
+ */
+function parseInvitees(value: string): { email: string }[] {
+    return value
+        .split(/[\s,;]+/)
+        .map((email) => email.trim())
+        .filter(Boolean)
+        .map((email) => ({ email }))
+}
+
+/**
+ * Weekday of a local date as an RRULE day
+ */
+function weekdayOf(date: Date): Weekday {
+    return WEEKDAYS[(date.getDay() + 6) % 7]
+}
+
+/**
+ * Human-readable recurrence of a stored RRULE, or null if it does not parse
+ */
+function describeRRule(rrule: string): string | null {
+    const parsed = parseRecurrenceRule(rrule)
+    return parsed.success ? describeRecurrenceRule(parsed.rule) : null
+}
+
+/**
+ * Form state for an existing rule; rules the form cannot edit are kept as they are
+ */
+function toRepeatState(rrule: string | undefined): RepeatState {
+    const state: RepeatState = {
+        mode: 'none',
+        weekdays: [],
+        end: 'never',
+        until: '',
+        count: 10,
+    }
+    if (!rrule) return state
+
+    const parsed = parseRecurrenceRule(rrule)
+    if (!parsed.success) return state
+    const rule = parsed.rule
+
+    const days = rule.byDay?.map((day) => day.day) ?? []
+    const hasOrdinal =
+        rule.byDay?.some((day) => day.ordinal !== undefined) ?? false
+    const isWorkingDays =
+        days.length === WORKING_DAYS.length &&
+        WORKING_DAYS.every((day) => days.includes(day))
+
+    if (rule.until) {
+        state.end = 'until'
+        state.until = format(rule.until, 'yyyy-MM-dd')
+    } else if (rule.count) {
+        state.end = 'count'
+        state.count = rule.count
+    }
+
+    if (rule.interval !== 1 || hasOrdinal) {
+        state.mode = 'custom'
+        state.custom = rule
+    } else if (isWorkingDays && rule.freq !== 'MONTHLY') {
+        state.mode = 'weekdays'
+    } else if (rule.freq === 'DAILY' && days.length === 0) {
+        state.mode = 'daily'
+    } else if (rule.freq === 'WEEKLY') {
+        state.mode = 'weekly'
+        state.weekdays = days
+    } else if (rule.freq === 'MONTHLY' && days.length === 0) {
+        state.mode = 'monthly'
+    } else {
+        state.mode = 'custom'
+        state.custom = rule
+    }
+    return state
+}
+
+/**
+ * Rule for the form state, anchored at the first meeting; null when not repeating
+ */
+function toRecurrenceRule(
+    state: RepeatState,
+    startsAt: Date
+): RecurrenceRule | null {
+    let rule: RecurrenceRule
+    switch (state.mode) {
+        case 'none':
+            return null
+        case 'daily':
+            rule = { freq: 'DAILY', interval: 1 }
+            break
+        case 'weekdays':
+            rule = {
+                freq: 'WEEKLY',
+                interval: 1,
+                byDay: WORKING_DAYS.map((day) => ({ day })),
+            }
+            break
+        case 'weekly': {
+            const days = state.weekdays.length
+                ? state.weekdays
+                : [weekdayOf(startsAt)]
+            rule = {
+                freq: 'WEEKLY',
+                interval: 1,
+                byDay: WEEKDAYS.filter((day) => days.includes(day)).map(
+                    (day) => ({ day })
+                ),
+            }
+            break
+        }
+        case 'monthly':
+            rule = {
+                freq: 'MONTHLY',
+                interval: 1,
+                byMonthDay: startsAt.getDate(),
+            }
+            break
+        case 'custom':
+            rule = { ...state.custom!, until: undefined, count: undefined }
+            break
+    }
+
+    if (state.end === 'until' && state.until) {
+        // Include meetings on the last day
+        rule.until = new Date(`${state.until}T23:59:59`)
+    } else if (state.end === 'count') {
+        rule.count = state.count
+    }
+    return rule
+}
+
+/**
+ * Repeat and end controls of the scheduling form
+ */
+function RepeatFields({
+    value,
+    onChange,
+    startsAt,
+    allowNone,
+    disabled,
+}: {
+    value: RepeatState
+    onChange: (value: RepeatState) => void
+    startsAt: Date
+    allowNone: boolean // Series cannot be turned back into a single meeting
+    disabled: boolean
+}) {
+    const startDay = isNaN(startsAt.getTime()) ? null : weekdayOf(startsAt)
+    const weekdays = value.weekdays.length
+        ? value.weekdays
+        : startDay
+          ? [startDay]
+          : []
+
+    const toggleWeekday = (day: Weekday) => {
+        const next = weekdays.includes(day)
+            ? weekdays.filter((selected) => selected !== day)
+            : [...weekdays, day]
+        if (next.length > 0) onChange({ ...value, weekdays: next })
+    }
+
+    return (
+        <div className="space-y-2">
+            <Label htmlFor="schedule-repeat">Repeat</Label>
+            <div className="flex flex-col gap-2 sm:flex-row">
+                <select
+                    id="schedule-repeat"
+                    value={value.mode}
+                    onChange={(e) =>
+                        onChange({
+                            ...value,
+                            mode: e.target.value as RepeatMode,
+                        })
+                    }
+                    disabled={disabled}
+                    className={`${selectClassName} sm:flex-1`}
+                >
+                    {allowNone && <option value="none">Does not repeat</option>}
+                    <option value="daily">Daily</option>
+                    <option value="weekdays">Every weekday (Mon–Fri)</option>
+                    <option value="weekly">Weekly</option>
+                    <option value="monthly">
+                        Monthly
+                        {isNaN(startsAt.getTime())
+                            ? ''
+                            : ` on day ${startsAt.getDate()}`}
+                    </option>
+                    {value.custom && (
+                        <option value="custom">
+                            {describeRecurrenceRule({
+                                ...value.custom,
+                                until: undefined,
+                                count: undefined,
+                            })}
+                        </option>
+                    )}
+                </select>
+                {value.mode !== 'none' && (
+                    <select
+                        aria-label="Repeat until"
+                        value={value.end}
+                        onChange={(e) =>
+                            onChange({
+                                ...value,
+                                end: e.target.value as RepeatEnd,
+                            })
+                        }
+                        disabled={disabled}
+                        className={selectClassName}
+                    >
+                        <option value="never">No end date</option>
+                        <option value="until">Until</option>
+                        <option value="count">Number of times</option>
+                    </select>
+                )}
+                {value.mode !== 'none' && value.end === 'until' && (
+                    <Input
+                        type="date"
+                        aria-label="Last date"
+                        value={value.until}
+                        onChange={(e) =>
+                            onChange({ ...value, until: e.target.value })
+                        }
+                        disabled={disabled}
+                        className="sm:w-40"
+                        required
+                    />
+                )}
+                {value.mode !== 'none' && value.end === 'count' && (
+                    <Input
+                        type="number"
+                        aria-label="Number of meetings"
+                        min={1}
+                        max={MAX_RECURRENCE_COUNT}
+                        value={value.count}
+                        onChange={(e) =>
+                            onChange({
+                                ...value,
+                                count: parseInt(e.target.value, 10) || 1,
+                            })
+                        }
+                        disabled={disabled}
+                        className="sm:w-24"
+                        required
+                    />
+                )}
+            </div>
+            {value.mode === 'weekly' && (
+                <div className="flex flex-wrap gap-1">
+                    {WEEKDAYS.map((day) => (
+                        <Button
+                            key={day}
+                            type="button"
+                            size="sm"
+                            variant={
+                                weekdays.includes(day) ? 'default' : 'outline'
+                            }
+                            onClick={() => toggleWeekday(day)}
+                            disabled={disabled}
+                            aria-pressed={weekdays.includes(day)}
+                        >
+                            {WEEKDAY_LABELS[day]}
+                        </Button>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+/**
+ * Create or edit form of a scheduled meeting
+ */
+function ScheduleMeetingForm({
+    meeting,
+    onSaved,
+    onCancel,
+}: {
+    meeting?: ScheduledMeeting // Edited meeting; a new one is scheduled when omitted
+    onSaved: () => void
+    onCancel: () => void
+}) {
+    const [title, setTitle] = useState(meeting?.title ?? '')
+    const [description, setDescription] = useState(meeting?.description ?? '')
+    const [startsAt, setStartsAt] = useState(() =>
+        toLocalInputValue(
+            meeting?.scheduledAt
+                ? new Date(meeting.scheduledAt)
+                : nextFullHour()
+        )
+    )
+    const [durationMinutes, setDurationMinutes] = useState(
+        meeting?.durationMinutes ?? 30
+    )
+    const [invitees, setInvitees] = useState(
+        meeting?.invitees.map((invitee) => invitee.email).join(', ') ?? ''
+    )
+    const [repeat, setRepeat] = useState(() =>
+        toRepeatState(meeting?.series?.rrule)
+    )
+    const [scope, setScope] = useState<OccurrenceScope>('this')
+    const [isSaving, setIsSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+
+    const isOccurrence = !!meeting?.series
+    // The rule is set when scheduling, and changed for following or all meetings of a series
+    const showRepeat = !meeting || (isOccurrence && scope !== 'this')
+
+    const durationOptions = DURATION_OPTIONS.includes(durationMinutes)
+        ? DURATION_OPTIONS
+        : [...DURATION_OPTIONS, durationMinutes].sort((a, b) => a - b)
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        const scheduledAt = new Date(startsAt)
+        if (isNaN(scheduledAt.getTime())) {
+            setSaveError('Please pick a date and time')
+            return
+        }
+
+        const input: ScheduleMeetingInput = {
+            title: title.trim(),
+            description: description.trim() || null,
+            scheduledAt: scheduledAt.toISOString(),
+            durationMinutes,
+            invitees: parseInvitees(invitees),
+        }
+
+        if (showRepeat) {
+            const rule = toRecurrenceRule(repeat, scheduledAt)
+            const rrule = rule && formatRecurrenceRule(rule)
+            if (rrule && rrule !== meeting?.series?.rrule) {
+                input.recurrence = rrule
+                input.timeZone =
+                    Intl.DateTimeFormat().resolvedOptions().timeZone
+            }
+        }
+
+        setIsSaving(true)
+        setSaveError(null)
+        try {
+            if (meeting) {
+                await updateScheduledMeeting(
+                    meeting.id,
+                    input,
+                    isOccurrence ? scope : 'this'
+                )
+            } else {
+                await scheduleMeeting(input)
+            }
+            onSaved()
+        } catch (err) {
+            setSaveError(
+                err instanceof Error ? err.message : 'Failed to save meeting'
+            )
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            className="space-y-4 rounded-md border p-4"
+        >
+            {isOccurrence && (
+                <div className="space-y-2">
+                    <Label htmlFor="schedule-scope">Apply changes to</Label>
+                    <select
+                        id="schedule-scope"
+                        value={scope}
+                        onChange={(e) =>
+                            setScope(e.target.value as OccurrenceScope)
+                        }
+                        disabled={isSaving}
+                        className={`${selectClassName} w-full`}
+                    >
+                        {(Object.keys(SCOPE_LABELS) as OccurrenceScope[]).map(
+                            (option) => (
+                                <option key={option} value={option}>
+                                    {SCOPE_LABELS[option]}
+                                </option>
+                            )
+                        )}
+                    </select>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <Label htmlFor="schedule-title">Title</Label>
+                <Input
+                    id="schedule-title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    maxLength={200}
+                    placeholder="Weekly sync"
+                    disabled={isSaving}
+                    required
+                />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="schedule-description">Description</Label>
+                <textarea
+                    id="schedule-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    maxLength={5000}
+                    placeholder="Agenda, links, notes for invitees"
+                    disabled={isSaving}
+                    className={textareaClassName}
+                />
+            </div>
+
+            <div className="flex flex-col gap-4 sm:flex-row">
+                <div className="flex-1 space-y-2">
+                    <Label htmlFor="schedule-starts-at">Starts at</Label>
+                    <Input
+                        id="schedule-starts-at"
+                        type="datetime-local"
+                        value={startsAt}
+                        onChange={(e) => setStartsAt(e.target.value)}
+                        disabled={isSaving}
+                        required
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="schedule-duration">Duration</Label>
+                    <select
+                        id="schedule-duration"
+                        value={durationMinutes}
+                        onChange={(e) =>
+                            setDurationMinutes(parseInt(e.target.value, 10))
+                        }
+                        disabled={isSaving}
+                        className={`${selectClassName} w-full`}
+                    >
+                        {durationOptions.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                                {minutes < 60
+                                    ? `${minutes} min`
+                                    : `${minutes / 60} h`}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {showRepeat && (
+                <RepeatFields
+                    value={repeat}
+                    onChange={setRepeat}
+                    startsAt={new Date(startsAt)}
+                    allowNone={!meeting}
+                    disabled={isSaving}
+                />
+            )}
+
+            <div className="space-y-2">
+                <Label htmlFor="schedule-invitees">Invitees</Label>
+                <textarea
+                    id="schedule-invitees"
+                    value={invitees}
+                    onChange={(e) => setInvitees(e.target.value)}
+                    placeholder="alice@example.com, bob@example.com"
+                    disabled={isSaving}
+                    className={textareaClassName}
+                />
+                <p className="text-xs text-muted-foreground">
+                    Email addresses separated by commas or new lines. Invitees
+                    with an account see the meeting on their dashboard.
+                </p>
+            </div>
+
+            {saveError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {saveError}
+                </div>
+            )}
+
+            <div className="flex items-center gap-2">
+                <Button type="submit" disabled={isSaving || !title.trim()}>
+                    {isSaving && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    {meeting ? 'Save changes' : 'Schedule'}
+                </Button>
+                <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={onCancel}
+                    disabled={isSaving}
+                >
+                    Cancel
+                </Button>
+            </div>
+        </form>
+    )
+}
+
+/**
+ * Upcoming scheduled meetings with their join links, and the scheduling form
+ */
+export function ScheduledMeetings() {
+    const { meetings, isLoading, error, mutate } = useScheduledMeetings()
+    const [isCreating, setIsCreating] = useState(false)
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [cancellingId, setCancellingId] = useState<string | null>(null)
+    const [cancelPromptId, setCancelPromptId] = useState<string | null>(null)
+    const [copiedId, setCopiedId] = useState<string | null>(null)
+    const [accessId, setAccessId] = useState<string | null>(null)
+
+    const handleCopy = async (meeting: ScheduledMeeting) => {
+        try {
+            await navigator.clipboard.writeText(meeting.joinUrl)
+            setCopiedId(meeting.id)
+            setTimeout(() => setCopiedId(null), 2000)
+        } catch (err) {
+            console.error('[ScheduledMeetings] Failed to copy link:', err)
+        }
+    }
+
+    const handleCancel = async (
+        meeting: ScheduledMeeting,
+        scope: OccurrenceScope = 'this'
+    ) => {
+        // Series occurrences pick the scope inline, single meetings confirm here
+        if (!meeting.series && !confirm(`Cancel "${meeting.title}"?`)) return
+
+        setCancellingId(meeting.id)
+        setCancelPromptId(null)
+        try {
+            await cancelScheduledMeeting(meeting.id, scope)
+            await mutate()
+        } catch (err) {
+            alert(
+                err instanceof Error ? err.message : 'Failed to cancel meeting'
+            )
+        } finally {
+            setCancellingId(null)
+        }
+    }
+
+    const handleSaved = async () => {
+        setIsCreating(false)
+        setEditingId(null)
+        await mutate()
+    }
+
+    return (
+        <Card className="mb-6">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                        <CalendarClock className="h-4 w-4 text-primary" />
+                        Upcoming meetings
+                    </CardTitle>
+                    <CardDescription>
+                        Meetings you host or are invited to
+                    </CardDescription>
+                </div>
+                {!isCreating && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                            setEditingId(null)
+                            setIsCreating(true)
+                        }}
+                    >
+                        <CalendarPlus className="mr-2 h-4 w-4" />
+                        Schedule
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {isCreating && (
+                    <ScheduleMeetingForm
+                        onSaved={handleSaved}
+                        onCancel={() => setIsCreating(false)}
+                    />
+                )}
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : error ? (
+                    <p className="text-sm text-red-600">
+                        Failed to load upcoming meetings
+                    </p>
+                ) : meetings.length === 0 ? (
+                    !isCreating && (
+                        <p className="text-sm text-muted-foreground">
+                            No meetings scheduled.
+                        </p>
+                    )
+                ) : (
+                    <ul className="space-y-4">
+                        {meetings.map((meeting) =>
+                            editingId === meeting.id ? (
+                                <li key={meeting.id}>
+                                    <ScheduleMeetingForm
+                                        meeting={meeting}
+                                        onSaved={handleSaved}
+                                        onCancel={() => setEditingId(null)}
+                                    />
+                                </li>
+                            ) : (
+                                <li key={meeting.id} className="space-y-2">
+                                    <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                                        <div className="text-sm min-w-0">
+                                            <p className="font-medium truncate">
+                                                {meeting.title}
+                                            </p>
+                                            {meeting.scheduledAt && (
+                                                <p className="text-xs text-muted-foreground">
+                                                    {format(
+                                                        new Date(
+                                                            meeting.scheduledAt
+                                                        ),
+                                                        'EEE, MMM d · HH:mm'
+                                                    )}
+                                                    {meeting.durationMinutes &&
+                                                        ` – ${format(
+                                                            addMinutes(
+                                                                new Date(
+                                                                    meeting.scheduledAt
+                                                                ),
+                                                                meeting.durationMinutes
+                                                            ),
+                                                            'HH:mm'
+                                                        )}`}
+                                                </p>
+                                            )}
+                                            {meeting.series && (
+                                                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                    <Repeat className="h-3 w-3" />
+                                                    {describeRRule(
+                                                        meeting.series.rrule
+                                                    ) ?? 'Recurring'}
+                                                    {' · '}
+                                                    <Link
+                                                        href={`/dashboard/series/${meeting.series.id}`}
+                                                        className="underline-offset-2 hover:underline"
+                                                    >
+                                                        View series
+                                                    </Link>
+                                                </p>
+                                            )}
+                                            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                <Users className="h-3 w-3" />
+                                                {meeting.isHost
+                                                    ? `${meeting.invitees.length} invitee${meeting.invitees.length !== 1 ? 's' : ''}`
+                                                    : `Hosted by ${meeting.host?.name || meeting.host?.email || 'unknown'}`}
+                                            </p>
+                                        </div>
+                                        <div className="flex flex-wrap items-center gap-1">
+                                            <Button asChild size="sm">
+                                                <Link href={meeting.joinPath}>
+                                                    <Video className="mr-2 h-4 w-4" />
+                                                    Join
+                                                </Link>
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() =>
+                                                    handleCopy(meeting)
+                                                }
+                                                aria-label="Copy join link"
+                                            >
+                                                {copiedId === meeting.id ? (
+                                                    <Check className="h-4 w-4 text-green-500" />
+                                                ) : (
+                                                    <Copy className="h-4 w-4" />
+                                                )}
+                                            </Button>
+                                            <Button
+                                                asChild
+                                                variant="ghost"
+                                                size="sm"
+                                            >
+                                                <a
+                                                    href={`/api/meetings/scheduled/${meeting.id}/ics`}
+                                                    download
+                                                    aria-label="Add to calendar"
+                                                    title="Add to calendar (.ics)"
+                                                >
+                                                    <CalendarArrowDown className="h-4 w-4" />
+                                                </a>
+                                            </Button>
+                                            {meeting.isHost && (
+                                                <>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => {
+                                                            setIsCreating(false)
+                                                            setEditingId(
+                                                                meeting.id
+                                                            )
+                                                        }}
+                                                        aria-label="Edit meeting"
+                                                    >
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            setAccessId(
+                                                                accessId ===
+                                                                    meeting.id
+                                                                    ? null
+                                                                    : meeting.id
+                                                            )
+                                                        }
+                                                        aria-label="Who can join"
+                                                        title="Who can join"
+                                                    >
+                                                        <ShieldCheck className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            meeting.series
+                                                                ? setCancelPromptId(
+                                                                      cancelPromptId ===
+                                                                          meeting.id
+                                                                          ? null
+                                                                          : meeting.id
+                                                                  )
+                                                                : handleCancel(
+                                                                      meeting
+                                                                  )
+                                                        }
+                                                        disabled={
+                                                            cancellingId ===
+                                                            meeting.id
+                                                        }
+                                                        aria-label="Cancel meeting"
+                                                    >
+                                                        {cancellingId ===
+                                                        meeting.id ? (
+                                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                                        ) : (
+                                                            <X className="h-4 w-4" />
+                                                        )}
+                                                    </Button>
+                                                </>
+                                            )}
+                                        </div>
+                                    </div>
+                                    {accessId === meeting.id && (
+                                        <MeetingAccessSettings
+                                            meetingId={meeting.id}
+                                            onClose={() => setAccessId(null)}
+                                        />
+                                    )}
+                                    {cancelPromptId === meeting.id && (
+                                        <div className="flex flex-wrap items-center gap-2 rounded-md border p-2 text-sm">
+                                            <span className="text-muted-foreground">
+                                                Cancel:
+                                            </span>
+                                            {(
+                                                Object.keys(
+                                                    SCOPE_LABELS
+                                                ) as OccurrenceScope[]
+                                            ).map((scope) => (
+                                                <Button
+                                                    key={scope}
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        handleCancel(
+                                                            meeting,
+                                                            scope
+                                                        )
+                                                    }
+                                                >
+                                                    {SCOPE_LABELS[scope]}
+                                                </Button>
+                                            ))}
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() =>
+                                                    setCancelPromptId(null)
+                                                }
+                                            >
+                                                Keep
+                                            </Button>
+                                        </div>
+                                    )}
+                                </li>
+                            )
+                        )}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
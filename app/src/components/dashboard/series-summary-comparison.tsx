@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { GitCompare } from 'lucide-react'
+import { SummaryDiffView } from '@/components/dashboard/summary-diff-view'
+import { diffSummaries } from '@/domains/meeting/services/meeting-database/summaryDiff'
+import type { SeriesOccurrence } from '@/domains/meeting/hooks/useFetchingMeeting'
+
+interface SeriesSummaryComparisonProps {
+    /** Held meetings of the series, newest first */
+    occurrences: SeriesOccurrence[]
+}
+
+const selectClassName =
+    'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+
+function describeOccurrence(occurrence: SeriesOccurrence): string {
+    const date =
+        occurrence.startedAt ??
+        occurrence.occurrenceAt ??
+        occurrence.scheduledAt
+    return date ? format(new Date(date), 'EEE, PP') : occurrence.id
+}
+
+/**
+ * Compares the summaries of two meetings of a series, e.g. this week's
+ * standup against last week's; defaults to the previous vs. the latest meeting
+ */
+export function SeriesSummaryComparison({
+    occurrences,
+}: SeriesSummaryComparisonProps) {
+    const summarized = occurrences.filter((occurrence) => occurrence.summary)
+    const [fromId, setFromId] = useState(summarized[1]?.id ?? '')
+    const [toId, setToId] = useState(summarized[0]?.id ?? '')
+
+    if (summarized.length < 2) return null
+
+    // Fall back to the defaults when a selected meeting dropped out of the list
+    const from = summarized.find((o) => o.id === fromId) ?? summarized[1]
+    const to = summarized.find((o) => o.id === toId) ?? summarized[0]
+    const diff = diffSummaries(from.summary!, to.summary!)
+
+    return (
+        <Card className="mb-6">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                    <GitCompare className="h-4 w-4 text-primary" />
+                    Compare summaries
+                </CardTitle>
+                <CardDescription>
+                    What changed between two meetings of this series
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid gap-2 md:grid-cols-2">
+                    <select
+                        value={from.id}
+                        onChange={(e) => setFromId(e.target.value)}
+                        className={selectClassName}
+                        aria-label="Compare from meeting"
+                    >
+                        {summarized.map((occurrence) => (
+                            <option key={occurrence.id} value={occurrence.id}>
+                                {describeOccurrence(occurrence)}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={to.id}
+                        onChange={(e) => setToId(e.target.value)}
+                        className={selectClassName}
+                        aria-label="Compare to meeting"
+                    >
+                        {summarized.map((occurrence) => (
+                            <option key={occurrence.id} value={occurrence.id}>
+                                {describeOccurrence(occurrence)}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <SummaryDiffView
+                    diff={diff}
+                    fromTemplateId={from.summary!.templateId}
+                    toTemplateId={to.summary!.templateId}
+                    emptyMessage="No differences between these meetings' summaries."
+                />
+            </CardContent>
+        </Card>
+    )
+}
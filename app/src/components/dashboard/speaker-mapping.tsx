@@ -0,0 +1,246 @@
+'use client'
+
+import { useState } from 'react'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, Loader2, Pencil, RotateCcw, UserRound } from 'lucide-react'
+import {
+    useTranscriptSpeakers,
+    mapTranscriptSpeaker,
+    resetTranscriptSpeaker,
+    type TranscriptSpeaker,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+
+interface SpeakerMappingProps {
+    meetingId: string
+    onChange?: () => void // Called after segments were renamed
+}
+
+interface SpeakerDraft {
+    participantId: string // '' for a person who did not join
+    displayName: string
+}
+
+/**
+ * Speakers of the transcript, with host/co-host correction of who spoke
+ * (e.g. a shared room mic remapped to the person actually talking)
+ */
+export function SpeakerMapping({ meetingId, onChange }: SpeakerMappingProps) {
+    const { speakers, participants, canEdit, isLoading, mutate } =
+        useTranscriptSpeakers(meetingId)
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [draft, setDraft] = useState<SpeakerDraft>({
+        participantId: '',
+        displayName: '',
+    })
+    const [isSaving, setIsSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+
+    if (isLoading || speakers.length === 0) return null
+
+    const participantName = (participantId: string) =>
+        participants.find((p) => p.id === participantId)?.displayName ?? ''
+
+    const handleEdit = (speaker: TranscriptSpeaker) => {
+        setEditingId(speaker.jitsiParticipantId)
+        setSaveError(null)
+
+        const participantId = speaker.mapping?.participantId ?? ''
+        const displayName = speaker.mapping?.displayName ?? speaker.speakerName
+        setDraft({
+            participantId,
+            // Only keep a name that overrides the participant's own
+            displayName:
+                participantId && displayName === participantName(participantId)
+                    ? ''
+                    : displayName,
+        })
+    }
+
+    const runUpdate = async (update: () => Promise<unknown>) => {
+        setIsSaving(true)
+        setSaveError(null)
+        try {
+            await update()
+            setEditingId(null)
+            await mutate()
+            onChange?.()
+        } catch (err) {
+            setSaveError(
+                err instanceof Error ? err.message : 'Failed to update speaker'
+            )
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleSave = (jitsiParticipantId: string) =>
+        runUpdate(() =>
+            mapTranscriptSpeaker(meetingId, jitsiParticipantId, {
+                participantId: draft.participantId || null,
+                displayName: draft.displayName.trim() || null,
+            })
+        )
+
+    const handleReset = (jitsiParticipantId: string) =>
+        runUpdate(() => resetTranscriptSpeaker(meetingId, jitsiParticipantId))
+
+    return (
+        <Card className="mb-6">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <UserRound className="h-5 w-5" />
+                    Speakers
+                </CardTitle>
+                <CardDescription>
+                    {canEdit
+                        ? 'Fix who is speaking, e.g. when several people shared one microphone'
+                        : 'People heard in the transcript'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {speakers.map((speaker) => {
+                    const isEditing = editingId === speaker.jitsiParticipantId
+
+                    return (
+                        <div
+                            key={speaker.jitsiParticipantId}
+                            className="rounded-lg border p-3 space-y-3"
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <div>
+                                    <p className="font-medium">
+                                        {speaker.speakerName}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {speaker.segmentCount} segment
+                                        {speaker.segmentCount !== 1 ? 's' : ''}
+                                        {speaker.mapping?.originalName &&
+                                            speaker.mapping.originalName !==
+                                                speaker.speakerName &&
+                                            ` · originally ${speaker.mapping.originalName}`}
+                                    </p>
+                                </div>
+                                {canEdit && !isEditing && (
+                                    <div className="flex items-center gap-1">
+                                        {speaker.mapping && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() =>
+                                                    handleReset(
+                                                        speaker.jitsiParticipantId
+                                                    )
+                                                }
+                                                disabled={isSaving}
+                                            >
+                                                <RotateCcw className="mr-2 h-4 w-4" />
+                                                Reset
+                                            </Button>
+                                        )}
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => handleEdit(speaker)}
+                                            disabled={isSaving}
+                                        >
+                                            <Pencil className="mr-2 h-4 w-4" />
+                                            Change
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+
+                            {isEditing && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <select
+                                        value={draft.participantId}
+                                        onChange={(e) =>
+                                            setDraft({
+                                                ...draft,
+                                                participantId: e.target.value,
+                                            })
+                                        }
+                                        disabled={isSaving}
+                                        className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                                        aria-label="Participant"
+                                    >
+                                        <option value="">
+                                            Someone who did not join
+                                        </option>
+                                        {participants.map((participant) => (
+                                            <option
+                                                key={participant.id}
+                                                value={participant.id}
+                                            >
+                                                {participant.displayName}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <Input
+                                        value={draft.displayName}
+                                        onChange={(e) =>
+                                            setDraft({
+                                                ...draft,
+                                                displayName: e.target.value,
+                                            })
+                                        }
+                                        placeholder={
+                                            draft.participantId
+                                                ? participantName(
+                                                    draft.participantId
+                                                )
+                                                : 'Name'
+                                        }
+                                        aria-label="Speaker name"
+                                        maxLength={100}
+                                        disabled={isSaving}
+                                        className="w-48"
+                                    />
+                                    <Button
+                                        size="sm"
+                                        onClick={() =>
+                                            handleSave(speaker.jitsiParticipantId)
+                                        }
+                                        disabled={
+                                            isSaving ||
+                                            (!draft.participantId &&
+                                                !draft.displayName.trim())
+                                        }
+                                    >
+                                        {isSaving && (
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        )}
+                                        Save
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => setEditingId(null)}
+                                        disabled={isSaving}
+                                    >
+                                        Cancel
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    )
+                })}
+
+                {saveError && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        {saveError}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import useSWR from 'swr'
 import {
     Card,
@@ -19,7 +19,24 @@ import {
     Target,
     ArrowRight,
     RefreshCw,
+    User,
+    Circle,
+    Pencil,
+    Link2,
 } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { setActionItemCompleted } from '@/domains/meeting/hooks/useFetchingMeeting'
+import { SummaryRevisions } from '@/components/dashboard/summary-revisions'
+import { SummaryEditor } from '@/components/dashboard/summary-editor'
+import {
+    SUMMARY_TEMPLATES,
+    SUMMARY_TEMPLATE_IDS,
+    getContentSections,
+    getSummaryTemplate,
+    type SummaryResource,
+    type SummaryTemplateId,
+    type SummaryTemplateSection,
+} from '@/domains/meeting/services/meeting-database/summaryTemplates'
 
 interface SummarizeSectionProps {
     meetingId: string
@@ -32,18 +49,44 @@ interface ActionItem {
     completed: boolean
 }
 
+interface TrackedActionItem {
+    id: string
+    task: string
+    assigneeName: string | null
+    assignee: { id: string; name: string | null } | null
+    dueDate: string | null
+    completed: boolean
+}
+
+interface StandupUpdate {
+    person: string
+    yesterday: string[]
+    today: string[]
+    blockers: string[]
+}
+
 interface Summary {
     id: string
     title: string
     overview: string
     keyPoints: string[]
     actionItems: ActionItem[]
+    trackedActionItems?: TrackedActionItem[]
     decisions: string[]
     nextSteps: string[]
+    content?: Record<string, unknown> | null
+    templateId?: string
+    promptVersion?: string | null
     model: string
+    humanEdited?: boolean
+    editedAt?: string | null
+    editedBy?: { id: string; name: string | null; email: string } | null
+    transcriptStale?: boolean // Transcript was corrected after generation
     status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
     error?: string
     tokensUsed?: number
+    chunksTotal?: number | null
+    chunksProcessed?: number
     createdAt: string
     updatedAt: string
 }
@@ -52,11 +95,57 @@ interface SummaryResponse {
     summary: Summary
 }
 
+interface SummaryJob {
+    id: string
+    status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+    attempts: number
+    maxAttempts: number
+    runAt: string
+    lastError: string | null
+}
+
+interface SummaryJobResponse {
+    job?: SummaryJob
+}
+
+const isJobActive = (job?: SummaryJob) =>
+    job?.status === 'PENDING' || job?.status === 'RUNNING'
+
 const fetcher = (url: string) => fetch(url).then((res) => res.json())
 
+// Icons for list sections; unknown keys use the default
+const SECTION_ICONS: Record<string, { icon: typeof ListChecks; className: string }> = {
+    keyPoints: { icon: ListChecks, className: 'text-primary' },
+    decisions: { icon: Target, className: 'text-blue-500' },
+    nextSteps: { icon: ArrowRight, className: 'text-orange-500' },
+}
+
+const DEFAULT_SECTION_ICON = { icon: ListChecks, className: 'text-primary' }
+
 export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
-    const [isGenerating, setIsGenerating] = useState(false)
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    // Generation job to follow; "latest" picks up a job started elsewhere
+    const [jobId, setJobId] = useState('latest')
     const [generateError, setGenerateError] = useState<string | null>(null)
+    // Empty selection lets the server use the meeting's default template
+    const [selectedTemplate, setSelectedTemplate] = useState<
+        SummaryTemplateId | ''
+    >('')
+    const [updatingItemId, setUpdatingItemId] = useState<string | null>(null)
+    const [isEditing, setIsEditing] = useState(false)
+
+    // Poll the generation job while it is queued or running
+    const { data: jobData, mutate: mutateJob } = useSWR<SummaryJobResponse>(
+        meetingId ? `/api/meetings/${meetingId}/summary/jobs/${jobId}` : null,
+        fetcher,
+        {
+            revalidateOnFocus: false,
+            shouldRetryOnError: false,
+            refreshInterval: (latest) => (isJobActive(latest?.job) ? 2000 : 0),
+        }
+    )
+    const job = jobData?.job
+    const isGenerating = isSubmitting || isJobActive(job)
 
     // Fetch existing summary
     const {
@@ -70,19 +159,44 @@ export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
         {
             revalidateOnFocus: false,
             shouldRetryOnError: false,
+            // Poll while a generation is running to show chunk progress
+            refreshInterval: (latest) =>
+                isGenerating || latest?.summary?.status === 'PROCESSING'
+                    ? 2000
+                    : 0,
         }
     )
 
     const summary = data?.summary
     const hasSummary = summary && summary.status === 'COMPLETED'
 
+    // Refresh the summary once the job finishes
+    const previousJobStatus = useRef(job?.status)
+    useEffect(() => {
+        const wasActive =
+            previousJobStatus.current === 'PENDING' ||
+            previousJobStatus.current === 'RUNNING'
+        previousJobStatus.current = job?.status
+
+        if (wasActive && !isJobActive(job)) {
+            mutate()
+            if (job?.status === 'FAILED') {
+                setGenerateError(job.lastError || 'Failed to generate summary')
+            }
+        }
+    }, [job, mutate])
+
     const handleSummarizeClick = async () => {
-        setIsGenerating(true)
+        setIsSubmitting(true)
         setGenerateError(null)
 
         try {
             const response = await fetch(`/api/meetings/${meetingId}/summary`, {
                 method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(
+                    selectedTemplate ? { template: selectedTemplate } : {}
+                ),
             })
 
             const result = await response.json()
@@ -91,8 +205,9 @@ export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
                 throw new Error(result.error || 'Failed to generate summary')
             }
 
-            // Refresh the summary data
-            await mutate()
+            // Follow the queued job
+            setJobId(result.jobId)
+            await mutateJob()
         } catch (error) {
             setGenerateError(
                 error instanceof Error
@@ -100,7 +215,19 @@ export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
                     : 'Failed to generate summary'
             )
         } finally {
-            setIsGenerating(false)
+            setIsSubmitting(false)
+        }
+    }
+
+    const handleToggleActionItem = async (item: TrackedActionItem) => {
+        setUpdatingItemId(item.id)
+        try {
+            await setActionItemCompleted(meetingId, item.id, !item.completed)
+            await mutate()
+        } catch (err) {
+            console.error('[SummarizeSection] Failed to update action item:', err)
+        } finally {
+            setUpdatingItemId(null)
         }
     }
 
@@ -113,17 +240,49 @@ export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
             )
         }
 
-        if (summary?.status === 'PROCESSING') {
+        if (job?.status === 'PENDING') {
             return (
                 <div className="flex items-center justify-center py-8">
                     <Loader2 className="h-6 w-6 animate-spin text-blue-500 mr-2" />
                     <span className="text-sm text-muted-foreground">
-                        Generating summary...
+                        {job.attempts === 0
+                            ? 'Waiting to start...'
+                            : `Attempt ${job.attempts} of ${job.maxAttempts} failed, retrying ${formatDistanceToNow(new Date(job.runAt), { addSuffix: true })}...`}
                     </span>
                 </div>
             )
         }
 
+        if (summary?.status === 'PROCESSING') {
+            const chunksTotal = summary.chunksTotal || 0
+            const chunksProcessed = summary.chunksProcessed || 0
+
+            return (
+                <div className="flex flex-col items-center justify-center py-8 gap-3">
+                    <div className="flex items-center">
+                        <Loader2 className="h-6 w-6 animate-spin text-blue-500 mr-2" />
+                        <span className="text-sm text-muted-foreground">
+                            {chunksTotal === 0
+                                ? 'Generating summary...'
+                                : chunksProcessed < chunksTotal
+                                  ? `Summarizing part ${chunksProcessed + 1} of ${chunksTotal}...`
+                                  : 'Merging partial summaries...'}
+                        </span>
+                    </div>
+                    {chunksTotal > 0 && (
+                        <div className="w-full max-w-xs h-2 rounded-full bg-muted overflow-hidden">
+                            <div
+                                className="h-full bg-blue-500 transition-all"
+                                style={{
+                                    width: `${Math.round((chunksProcessed / (chunksTotal + 1)) * 100)}%`,
+                                }}
+                            />
+                        </div>
+                    )}
+                </div>
+            )
+        }
+
         if (summary?.status === 'FAILED') {
             return (
                 <div className="flex items-center justify-center py-8 text-destructive">
@@ -147,120 +306,273 @@ export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
             )
         }
 
-        return (
-            <div className="space-y-6">
-                {/* Title and Overview */}
-                <div>
-                    <h3 className="text-lg font-semibold mb-2">
-                        {summary.title}
-                    </h3>
-                    <p className="text-sm text-muted-foreground">
-                        {summary.overview}
-                    </p>
-                </div>
+        if (isEditing) {
+            return (
+                <SummaryEditor
+                    meetingId={meetingId}
+                    summary={summary}
+                    onSaved={() => {
+                        setIsEditing(false)
+                        mutate()
+                    }}
+                    onCancel={() => setIsEditing(false)}
+                />
+            )
+        }
 
-                {/* Key Points */}
-                {summary.keyPoints && summary.keyPoints.length > 0 && (
-                    <div>
-                        <h4 className="flex items-center gap-2 font-medium mb-2">
-                            <ListChecks className="h-4 w-4 text-primary" />
-                            Key Points
-                        </h4>
-                        <ul className="space-y-1 ml-6">
-                            {summary.keyPoints.map((point, index) => (
-                                <li
-                                    key={index}
-                                    className="text-sm list-disc text-muted-foreground"
-                                >
-                                    {point}
-                                </li>
-                            ))}
-                        </ul>
-                    </div>
-                )}
+        // Legacy rows have no content - their columns match the general template
+        const template = getSummaryTemplate(summary.templateId)
+        const source: Record<string, unknown> =
+            summary.content ?? (summary as unknown as Record<string, unknown>)
+        const sections = getContentSections(template, source)
+        const trackedItems = summary.trackedActionItems ?? []
 
-                {/* Action Items */}
-                {summary.actionItems && summary.actionItems.length > 0 && (
-                    <div>
+        const renderSection = (section: SummaryTemplateSection) => {
+            const value = source[section.key]
+            if (!Array.isArray(value) || value.length === 0) return null
+
+            if (section.kind === 'standupUpdates') {
+                return (
+                    <div key={section.key}>
                         <h4 className="flex items-center gap-2 font-medium mb-2">
-                            <CheckCircle2 className="h-4 w-4 text-green-500" />
-                            Action Items
+                            <User className="h-4 w-4 text-primary" />
+                            {section.label}
                         </h4>
-                        <ul className="space-y-2 ml-6">
-                            {summary.actionItems.map((item, index) => (
-                                <li
-                                    key={index}
-                                    className="text-sm border-l-2 border-green-200 pl-3"
-                                >
-                                    <span className="font-medium">
-                                        {item.task}
-                                    </span>
-                                    {item.assignee && (
-                                        <span className="text-muted-foreground">
-                                            {' '}
-                                            — {item.assignee}
-                                        </span>
-                                    )}
-                                    {item.dueDate && (
-                                        <span className="text-xs text-muted-foreground block">
-                                            Due: {item.dueDate}
-                                        </span>
+                        <div className="space-y-3 ml-6">
+                            {(value as StandupUpdate[]).map((update, index) => (
+                                <div key={index} className="text-sm">
+                                    <p className="font-medium">
+                                        {update.person}
+                                    </p>
+                                    {(
+                                        [
+                                            ['Yesterday', update.yesterday],
+                                            ['Today', update.today],
+                                            ['Blockers', update.blockers],
+                                        ] as const
+                                    ).map(
+                                        ([label, items]) =>
+                                            items?.length > 0 && (
+                                                <p
+                                                    key={label}
+                                                    className="text-muted-foreground"
+                                                >
+                                                    <span className="font-medium">
+                                                        {label}:
+                                                    </span>{' '}
+                                                    {items.join('; ')}
+                                                </p>
+                                            )
                                     )}
-                                </li>
+                                </div>
                             ))}
-                        </ul>
+                        </div>
                     </div>
-                )}
+                )
+            }
 
-                {/* Decisions */}
-                {summary.decisions && summary.decisions.length > 0 && (
-                    <div>
+            if (section.kind === 'resources') {
+                return (
+                    <div key={section.key}>
                         <h4 className="flex items-center gap-2 font-medium mb-2">
-                            <Target className="h-4 w-4 text-blue-500" />
-                            Decisions Made
+                            <Link2 className="h-4 w-4 text-purple-500" />
+                            {section.label}
                         </h4>
                         <ul className="space-y-1 ml-6">
-                            {summary.decisions.map((decision, index) => (
+                            {(value as SummaryResource[]).map((resource) => (
                                 <li
-                                    key={index}
+                                    key={resource.url}
                                     className="text-sm list-disc text-muted-foreground"
                                 >
-                                    {decision}
+                                    <a
+                                        href={resource.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-primary hover:underline break-all"
+                                    >
+                                        {resource.url}
+                                    </a>
+                                    {resource.description &&
+                                        ` — ${resource.description}`}
+                                    {resource.sharedBy && (
+                                        <span className="text-xs">
+                                            {' '}
+                                            (shared by {resource.sharedBy})
+                                        </span>
+                                    )}
                                 </li>
                             ))}
                         </ul>
                     </div>
-                )}
+                )
+            }
+
+            const { icon: Icon, className } =
+                SECTION_ICONS[section.key] || DEFAULT_SECTION_ICON
+
+            return (
+                <div key={section.key}>
+                    <h4 className="flex items-center gap-2 font-medium mb-2">
+                        <Icon className={`h-4 w-4 ${className}`} />
+                        {section.label}
+                    </h4>
+                    <ul className="space-y-1 ml-6">
+                        {(value as string[]).map((item, index) => (
+                            <li
+                                key={index}
+                                className="text-sm list-disc text-muted-foreground"
+                            >
+                                {item}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )
+        }
 
-                {/* Next Steps */}
-                {summary.nextSteps && summary.nextSteps.length > 0 && (
+        return (
+            <div className="space-y-6">
+                {/* Title and Overview */}
+                <div>
+                    <h3 className="text-lg font-semibold mb-2">
+                        {summary.title}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                        {summary.overview}
+                    </p>
+                </div>
+
+                {/* First template section (e.g. Key Points) */}
+                {sections.slice(0, 1).map(renderSection)}
+
+                {/* Action Items - tracked rows when available, generated JSON otherwise */}
+                {trackedItems.length > 0 ? (
                     <div>
                         <h4 className="flex items-center gap-2 font-medium mb-2">
-                            <ArrowRight className="h-4 w-4 text-orange-500" />
-                            Next Steps
+                            <CheckCircle2 className="h-4 w-4 text-green-500" />
+                            Action Items
                         </h4>
-                        <ul className="space-y-1 ml-6">
-                            {summary.nextSteps.map((step, index) => (
+                        <ul className="space-y-2 ml-6">
+                            {trackedItems.map((item) => (
                                 <li
-                                    key={index}
-                                    className="text-sm list-disc text-muted-foreground"
+                                    key={item.id}
+                                    className="flex items-start gap-2 text-sm border-l-2 border-green-200 pl-3"
                                 >
-                                    {step}
+                                    <button
+                                        type="button"
+                                        onClick={() =>
+                                            handleToggleActionItem(item)
+                                        }
+                                        disabled={updatingItemId === item.id}
+                                        className="mt-0.5 text-muted-foreground hover:text-green-500 disabled:opacity-50"
+                                        aria-label={
+                                            item.completed
+                                                ? 'Reopen action item'
+                                                : 'Complete action item'
+                                        }
+                                    >
+                                        {updatingItemId === item.id ? (
+                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                        ) : item.completed ? (
+                                            <CheckCircle2 className="h-4 w-4 text-green-500" />
+                                        ) : (
+                                            <Circle className="h-4 w-4" />
+                                        )}
+                                    </button>
+                                    <div>
+                                        <span
+                                            className={`font-medium ${item.completed ? 'line-through text-muted-foreground' : ''}`}
+                                        >
+                                            {item.task}
+                                        </span>
+                                        {(item.assignee?.name ||
+                                            item.assigneeName) && (
+                                            <span className="text-muted-foreground">
+                                                {' '}
+                                                —{' '}
+                                                {item.assignee?.name ||
+                                                    item.assigneeName}
+                                            </span>
+                                        )}
+                                        {item.dueDate && (
+                                            <span className="text-xs text-muted-foreground block">
+                                                Due:{' '}
+                                                {format(
+                                                    new Date(item.dueDate),
+                                                    'PP'
+                                                )}
+                                            </span>
+                                        )}
+                                    </div>
                                 </li>
                             ))}
                         </ul>
                     </div>
+                ) : (
+                    summary.actionItems &&
+                    summary.actionItems.length > 0 && (
+                        <div>
+                            <h4 className="flex items-center gap-2 font-medium mb-2">
+                                <CheckCircle2 className="h-4 w-4 text-green-500" />
+                                Action Items
+                            </h4>
+                            <ul className="space-y-2 ml-6">
+                                {summary.actionItems.map((item, index) => (
+                                    <li
+                                        key={index}
+                                        className="text-sm border-l-2 border-green-200 pl-3"
+                                    >
+                                        <span className="font-medium">
+                                            {item.task}
+                                        </span>
+                                        {item.assignee && (
+                                            <span className="text-muted-foreground">
+                                                {' '}
+                                                — {item.assignee}
+                                            </span>
+                                        )}
+                                        {item.dueDate && (
+                                            <span className="text-xs text-muted-foreground block">
+                                                Due: {item.dueDate}
+                                            </span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )
                 )}
 
+                {/* Remaining template sections */}
+                {sections.slice(1).map(renderSection)}
+
                 {/* Metadata */}
                 <div className="pt-4 border-t text-xs text-muted-foreground">
-                    <span>Generated by {summary.model}</span>
+                    <span>
+                        {template.name} · Generated by {summary.model}
+                    </span>
                     {summary.tokensUsed && (
                         <span className="ml-2">
                             • {summary.tokensUsed} tokens used
                         </span>
                     )}
+                    {summary.humanEdited && (
+                        <span className="ml-2">
+                            • Edited
+                            {summary.editedBy &&
+                                ` by ${summary.editedBy.name || summary.editedBy.email}`}
+                            {summary.editedAt &&
+                                ` ${formatDistanceToNow(new Date(summary.editedAt), { addSuffix: true })}`}
+                        </span>
+                    )}
                 </div>
+
+                {/* Revision history - remounted when the summary changes */}
+                <SummaryRevisions
+                    key={summary.updatedAt}
+                    meetingId={meetingId}
+                    onAccepted={() => mutate()}
+                />
             </div>
         )
     }
@@ -277,7 +589,25 @@ export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
                 </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-                <div className="flex gap-2">
+                <div className="flex flex-col md:flex-row gap-2">
+                    <select
+                        value={selectedTemplate}
+                        onChange={(e) =>
+                            setSelectedTemplate(
+                                e.target.value as SummaryTemplateId | ''
+                            )
+                        }
+                        disabled={isGenerating || isLoading}
+                        className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                        aria-label="Summary template"
+                    >
+                        <option value="">Meeting default template</option>
+                        {SUMMARY_TEMPLATE_IDS.map((id) => (
+                            <option key={id} value={id}>
+                                {SUMMARY_TEMPLATES[id].name}
+                            </option>
+                        ))}
+                    </select>
                     <Button
                         onClick={handleSummarizeClick}
                         disabled={isGenerating || isLoading}
@@ -297,6 +627,17 @@ export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
                             'Generate Summary'
                         )}
                     </Button>
+                    {hasSummary && !isEditing && (
+                        <Button
+                            variant="outline"
+                            onClick={() => setIsEditing(true)}
+                            disabled={isGenerating}
+                            className="w-full md:w-auto"
+                        >
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                        </Button>
+                    )}
                 </div>
 
                 {generateError && (
@@ -306,6 +647,14 @@ export function SummarizeSection({ meetingId }: SummarizeSectionProps) {
                     </div>
                 )}
 
+                {hasSummary && summary.transcriptStale && !isGenerating && (
+                    <div className="flex items-center gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                        <AlertCircle className="h-4 w-4 shrink-0" />
+                        The transcript was corrected after this summary was
+                        generated. Regenerate it to include the changes.
+                    </div>
+                )}
+
                 {fetchError && !summary && (
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                         <AlertCircle className="h-4 w-4" />
@@ -0,0 +1,84 @@
+'use client'
+
+import { Minus, Plus } from 'lucide-react'
+import type { SummaryDiff } from '@/domains/meeting/services/meeting-database/summaryDiff'
+
+interface SummaryDiffViewProps {
+    diff: SummaryDiff
+    fromTemplateId?: string
+    toTemplateId?: string
+    /** Shown when both summaries are the same */
+    emptyMessage?: string
+}
+
+/**
+ * Section-by-section rendering of a summary diff: removed lines in red, added in green
+ */
+export function SummaryDiffView({
+    diff,
+    fromTemplateId,
+    toTemplateId,
+    emptyMessage = 'No differences between these versions.',
+}: SummaryDiffViewProps) {
+    if (!diff.hasChanges) {
+        return <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+    }
+
+    return (
+        <div className="space-y-4 text-sm">
+            {diff.templateChanged && (
+                <p className="text-muted-foreground">
+                    Template changed from {fromTemplateId} to {toTemplateId}
+                </p>
+            )}
+            {diff.title.changed && (
+                <div>
+                    <h4 className="font-medium mb-1">Title</h4>
+                    <p className="text-red-600 line-through">
+                        {diff.title.before}
+                    </p>
+                    <p className="text-green-600">{diff.title.after}</p>
+                </div>
+            )}
+            {diff.overview.changed && (
+                <div>
+                    <h4 className="font-medium mb-1">Overview</h4>
+                    <p className="text-red-600 line-through">
+                        {diff.overview.before}
+                    </p>
+                    <p className="text-green-600">{diff.overview.after}</p>
+                </div>
+            )}
+            {diff.sections
+                .filter(
+                    (section) =>
+                        section.added.length > 0 || section.removed.length > 0
+                )
+                .map((section) => (
+                    <div key={section.key}>
+                        <h4 className="font-medium mb-1">{section.label}</h4>
+                        <ul className="space-y-1">
+                            {section.removed.map((line, index) => (
+                                <li
+                                    key={`removed-${index}`}
+                                    className="flex items-start gap-2 text-red-600"
+                                >
+                                    <Minus className="h-3 w-3 mt-1 shrink-0" />
+                                    {line}
+                                </li>
+                            ))}
+                            {section.added.map((line, index) => (
+                                <li
+                                    key={`added-${index}`}
+                                    className="flex items-start gap-2 text-green-600"
+                                >
+                                    <Plus className="h-3 w-3 mt-1 shrink-0" />
+                                    {line}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+        </div>
+    )
+}
@@ -0,0 +1,275 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertCircle, Loader2, Plus, Trash2 } from 'lucide-react'
+import {
+    getColumnLabel,
+    getSummaryTemplate,
+} from '@/domains/meeting/services/meeting-database/summaryTemplates'
+
+interface EditableActionItem {
+    id?: string // Tracked row the item came from
+    task: string
+    assignee?: string
+    dueDate?: string
+    completed: boolean
+}
+
+// An ActionItem row; ticked or edited items are only up to date here
+interface TrackedActionItem {
+    id: string
+    task: string
+    assigneeName: string | null
+    dueDate: string | null
+    completed: boolean
+}
+
+export interface EditableSummary {
+    title: string
+    overview: string
+    keyPoints: string[]
+    decisions: string[]
+    actionItems: EditableActionItem[]
+    trackedActionItems?: TrackedActionItem[]
+    templateId?: string
+}
+
+interface SummaryEditorProps {
+    meetingId: string
+    summary: EditableSummary
+    onSaved: () => void
+    onCancel: () => void
+}
+
+const textareaClassName =
+    'w-full min-h-24 rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+
+// List fields are edited as one item per line
+const toLines = (items: string[]) => items.join('\n')
+const fromLines = (text: string) =>
+    text
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+
+/**
+ * Action items to edit, from the tracked rows when there are any so saving
+ * never reverts items ticked or edited since the summary was last saved
+ * Rows are in summary order; a due date the row agrees with keeps its wording
+ */
+function toEditableActionItems(summary: EditableSummary): EditableActionItem[] {
+    const tracked = summary.trackedActionItems
+    if (!tracked?.length) return summary.actionItems ?? []
+
+    return tracked.map((row, index) => {
+        const savedDueDate = summary.actionItems?.[index]?.dueDate
+        const savedTime = savedDueDate ? new Date(savedDueDate).getTime() : NaN
+        const dueDate = row.dueDate
+            ? savedTime === new Date(row.dueDate).getTime()
+                ? savedDueDate
+                : row.dueDate
+            : isNaN(savedTime)
+              ? savedDueDate
+              : undefined
+
+        return {
+            id: row.id,
+            task: row.task,
+            ...(row.assigneeName && { assignee: row.assigneeName }),
+            ...(dueDate && { dueDate }),
+            completed: row.completed,
+        }
+    })
+}
+
+/**
+ * Form for hosts to correct an AI-generated summary
+ */
+export function SummaryEditor({
+    meetingId,
+    summary,
+    onSaved,
+    onCancel,
+}: SummaryEditorProps) {
+    const [title, setTitle] = useState(summary.title)
+    const [overview, setOverview] = useState(summary.overview)
+    const [keyPoints, setKeyPoints] = useState(toLines(summary.keyPoints ?? []))
+    const [decisions, setDecisions] = useState(toLines(summary.decisions ?? []))
+    const [actionItems, setActionItems] = useState<EditableActionItem[]>(() =>
+        toEditableActionItems(summary)
+    )
+    const [isSaving, setIsSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+
+    // Lists are labelled after the template section they are saved to
+    const template = getSummaryTemplate(summary.templateId)
+
+    const updateActionItem = (
+        index: number,
+        changes: Partial<EditableActionItem>
+    ) => {
+        setActionItems((items) =>
+            items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+        )
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        setSaveError(null)
+
+        try {
+            const response = await fetch(`/api/meetings/${meetingId}/summary`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    title,
+                    overview,
+                    keyPoints: fromLines(keyPoints),
+                    decisions: fromLines(decisions),
+                    actionItems: actionItems
+                        .filter((item) => item.task.trim())
+                        .map((item) => ({
+                            ...(item.id && { id: item.id }),
+                            task: item.task,
+                            ...(item.assignee && { assignee: item.assignee }),
+                            ...(item.dueDate && { dueDate: item.dueDate }),
+                            completed: item.completed,
+                        })),
+                }),
+            })
+
+            const result = await response.json()
+
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to save summary')
+            }
+
+            onSaved()
+        } catch (err) {
+            setSaveError(
+                err instanceof Error ? err.message : 'Failed to save summary'
+            )
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                <Label htmlFor="summary-title">Title</Label>
+                <Input
+                    id="summary-title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="summary-overview">Overview</Label>
+                <textarea
+                    id="summary-overview"
+                    value={overview}
+                    onChange={(e) => setOverview(e.target.value)}
+                    className={textareaClassName}
+                />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="summary-key-points">
+                    {getColumnLabel(template, 'keyPoints')} (one per line)
+                </Label>
+                <textarea
+                    id="summary-key-points"
+                    value={keyPoints}
+                    onChange={(e) => setKeyPoints(e.target.value)}
+                    className={textareaClassName}
+                />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="summary-decisions">
+                    {getColumnLabel(template, 'decisions')} (one per line)
+                </Label>
+                <textarea
+                    id="summary-decisions"
+                    value={decisions}
+                    onChange={(e) => setDecisions(e.target.value)}
+                    className={textareaClassName}
+                />
+            </div>
+
+            <div className="space-y-2">
+                <Label>Action Items</Label>
+                {actionItems.map((item, index) => (
+                    <div key={index} className="flex gap-2">
+                        <Input
+                            value={item.task}
+                            onChange={(e) =>
+                                updateActionItem(index, { task: e.target.value })
+                            }
+                            placeholder="Task"
+                            aria-label="Task"
+                        />
+                        <Input
+                            value={item.assignee ?? ''}
+                            onChange={(e) =>
+                                updateActionItem(index, {
+                                    assignee: e.target.value,
+                                })
+                            }
+                            placeholder="Assignee"
+                            aria-label="Assignee"
+                            className="w-40"
+                        />
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() =>
+                                setActionItems((items) =>
+                                    items.filter((_, i) => i !== index)
+                                )
+                            }
+                            aria-label="Remove action item"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                ))}
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                        setActionItems((items) => [
+                            ...items,
+                            { task: '', completed: false },
+                        ])
+                    }
+                >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add action item
+                </Button>
+            </div>
+
+            {saveError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {saveError}
+                </div>
+            )}
+
+            <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+                    Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save changes
+                </Button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertCircle, CheckCircle2, Loader2, Sparkles } from 'lucide-react'
+import {
+    updateSummaryPolicy,
+    useSummaryPolicy,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+import {
+    SUMMARY_TEMPLATES,
+    SUMMARY_TEMPLATE_IDS,
+    type SummaryTemplateId,
+} from '@/domains/meeting/services/meeting-database/summaryTemplates'
+
+/**
+ * Host settings for generating summaries automatically when a meeting ends
+ */
+export function SummaryPolicySettings() {
+    const { policy, isLoading, error, mutate } = useSummaryPolicy()
+    const [autoSummarize, setAutoSummarize] = useState(false)
+    const [minTranscriptWords, setMinTranscriptWords] = useState('')
+    const [templateId, setTemplateId] = useState<SummaryTemplateId | ''>('')
+    const [isSaving, setIsSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+    const [saved, setSaved] = useState(false)
+
+    useEffect(() => {
+        if (!policy) return
+        setAutoSummarize(policy.autoSummarize)
+        setMinTranscriptWords(String(policy.minTranscriptWords))
+        setTemplateId((policy.templateId as SummaryTemplateId | null) ?? '')
+    }, [policy])
+
+    const handleSave = async () => {
+        const words = parseInt(minTranscriptWords, 10)
+        if (isNaN(words) || words < 0) {
+            setSaveError('Minimum transcript length must be a positive number')
+            return
+        }
+
+        setIsSaving(true)
+        setSaveError(null)
+        setSaved(false)
+
+        try {
+            const updated = await updateSummaryPolicy({
+                autoSummarize,
+                minTranscriptWords: words,
+                templateId: templateId || null,
+            })
+            await mutate({ policy: updated }, { revalidate: false })
+            setSaved(true)
+        } catch (err) {
+            setSaveError(
+                err instanceof Error ? err.message : 'Failed to save settings'
+            )
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Sparkles className="h-5 w-5 text-primary" />
+                    Meeting Summaries
+                </CardTitle>
+                <CardDescription>
+                    Generate a summary automatically when a meeting you host ends
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : error ? (
+                    <p className="text-sm text-red-600">
+                        Failed to load summary settings
+                    </p>
+                ) : (
+                    <>
+                        <label className="flex items-center gap-3 text-sm font-medium">
+                            <input
+                                type="checkbox"
+                                checked={autoSummarize}
+                                onChange={(e) => setAutoSummarize(e.target.checked)}
+                                className="h-4 w-4 rounded border-input"
+                            />
+                            Summarize meetings automatically when they end
+                        </label>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="summary-min-words">
+                                Minimum transcript length (words)
+                            </Label>
+                            <Input
+                                id="summary-min-words"
+                                type="number"
+                                min={0}
+                                value={minTranscriptWords}
+                                onChange={(e) => setMinTranscriptWords(e.target.value)}
+                                disabled={!autoSummarize}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Shorter meetings are skipped; you can still summarize them by hand.
+                            </p>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="summary-policy-template">Template</Label>
+                            <select
+                                id="summary-policy-template"
+                                value={templateId}
+                                onChange={(e) =>
+                                    setTemplateId(e.target.value as SummaryTemplateId | '')
+                                }
+                                disabled={!autoSummarize}
+                                className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+                            >
+                                <option value="">Meeting default template</option>
+                                {SUMMARY_TEMPLATE_IDS.map((id) => (
+                                    <option key={id} value={id}>
+                                        {SUMMARY_TEMPLATES[id].name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {saveError && (
+                            <div className="flex items-center gap-2 text-sm text-destructive">
+                                <AlertCircle className="h-4 w-4" />
+                                {saveError}
+                            </div>
+                        )}
+
+                        <div className="flex items-center justify-end gap-3">
+                            {saved && (
+                                <span className="flex items-center gap-1 text-sm text-green-600">
+                                    <CheckCircle2 className="h-4 w-4" />
+                                    Saved
+                                </span>
+                            )}
+                            <Button onClick={handleSave} disabled={isSaving}>
+                                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Save
+                            </Button>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
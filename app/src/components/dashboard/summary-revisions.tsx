@@ -0,0 +1,218 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import useSWR from 'swr'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { History, Loader2 } from 'lucide-react'
+import { SummaryDiffView } from '@/components/dashboard/summary-diff-view'
+import {
+    diffSummaries,
+    type SummarySnapshot,
+} from '@/domains/meeting/services/meeting-database/summaryDiff'
+
+interface SummaryRevisionsProps {
+    meetingId: string
+    /** Called after a revision was accepted, to refresh the summary */
+    onAccepted: () => void
+}
+
+interface RevisionListItem {
+    id: string
+    revision: number
+    title: string
+    model: string
+    templateId: string
+    tokensUsed: number | null
+    source: 'GENERATED' | 'MANUAL_EDIT'
+    editedBy: { id: string; name: string | null; email: string } | null
+    createdAt: string
+}
+
+interface RevisionsResponse {
+    currentRevision: number | null
+    revisions: RevisionListItem[]
+}
+
+interface RevisionResponse {
+    revision: SummarySnapshot & RevisionListItem
+}
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+/**
+ * Revision history of a summary with a side-by-side diff of two revisions
+ */
+export function SummaryRevisions({ meetingId, onAccepted }: SummaryRevisionsProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [fromId, setFromId] = useState<string>('')
+    const [toId, setToId] = useState<string>('')
+    const [isAccepting, setIsAccepting] = useState(false)
+    const [acceptError, setAcceptError] = useState<string | null>(null)
+
+    const { data, mutate } = useSWR<RevisionsResponse>(
+        `/api/meetings/${meetingId}/summary/revisions`,
+        fetcher,
+        { revalidateOnFocus: false }
+    )
+    const revisions = useMemo(() => data?.revisions ?? [], [data?.revisions])
+
+    // A regeneration newer than the current revision awaits review
+    const pendingRevision =
+        revisions.length > 0 &&
+        data?.currentRevision != null &&
+        revisions[0].revision > data.currentRevision
+            ? revisions[0]
+            : null
+
+    // Default comparison: current (or previous) revision -> newest revision
+    useEffect(() => {
+        if (revisions.length >= 2 && !fromId && !toId) {
+            const current = revisions.find(
+                (r) => r.revision === data?.currentRevision
+            )
+            setToId(revisions[0].id)
+            setFromId(
+                current && current.id !== revisions[0].id
+                    ? current.id
+                    : revisions[1].id
+            )
+        }
+    }, [revisions, fromId, toId, data?.currentRevision])
+
+    const { data: fromData } = useSWR<RevisionResponse>(
+        isOpen && fromId
+            ? `/api/meetings/${meetingId}/summary/revisions/${fromId}`
+            : null,
+        fetcher
+    )
+    const { data: toData } = useSWR<RevisionResponse>(
+        isOpen && toId
+            ? `/api/meetings/${meetingId}/summary/revisions/${toId}`
+            : null,
+        fetcher
+    )
+
+    if (revisions.length < 2) return null
+
+    const diff =
+        fromData?.revision && toData?.revision
+            ? diffSummaries(fromData.revision, toData.revision)
+            : null
+    const toRevision = revisions.find((r) => r.id === toId)
+    const isCurrent = toRevision?.revision === data?.currentRevision
+
+    const describe = (revision: RevisionListItem) =>
+        `#${revision.revision} · ${format(new Date(revision.createdAt), 'PP p')} · ` +
+        (revision.source === 'MANUAL_EDIT'
+            ? `edited by ${revision.editedBy?.name || revision.editedBy?.email || 'unknown'}`
+            : revision.model)
+
+    const handleAccept = async () => {
+        if (!toId) return
+        setIsAccepting(true)
+        setAcceptError(null)
+        try {
+            const response = await fetch(
+                `/api/meetings/${meetingId}/summary/revisions/${toId}`,
+                { method: 'POST' }
+            )
+            const result = await response.json()
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to accept revision')
+            }
+            await mutate()
+            onAccepted()
+        } catch (err) {
+            setAcceptError(
+                err instanceof Error ? err.message : 'Failed to accept revision'
+            )
+        } finally {
+            setIsAccepting(false)
+        }
+    }
+
+    const selectClassName =
+        'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring'
+
+    return (
+        <div className="pt-4 border-t">
+            {pendingRevision && !isOpen && (
+                <p className="mb-2 text-sm text-muted-foreground">
+                    A regenerated version (#{pendingRevision.revision}) is
+                    waiting for review. Compare it and use it to replace the
+                    current summary.
+                </p>
+            )}
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsOpen(!isOpen)}
+                className="px-0"
+            >
+                <History className="mr-2 h-4 w-4" />
+                {isOpen ? 'Hide versions' : `Compare versions (${revisions.length})`}
+            </Button>
+
+            {isOpen && (
+                <div className="space-y-4 mt-3">
+                    <div className="grid gap-2 md:grid-cols-2">
+                        <select
+                            value={fromId}
+                            onChange={(e) => setFromId(e.target.value)}
+                            className={selectClassName}
+                            aria-label="Compare from revision"
+                        >
+                            {revisions.map((revision) => (
+                                <option key={revision.id} value={revision.id}>
+                                    {describe(revision)}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            value={toId}
+                            onChange={(e) => setToId(e.target.value)}
+                            className={selectClassName}
+                            aria-label="Compare to revision"
+                        >
+                            {revisions.map((revision) => (
+                                <option key={revision.id} value={revision.id}>
+                                    {describe(revision)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {!diff ? (
+                        <div className="flex justify-center py-4">
+                            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : (
+                        <SummaryDiffView
+                            diff={diff}
+                            fromTemplateId={fromData?.revision.templateId}
+                            toTemplateId={toData?.revision.templateId}
+                        />
+                    )}
+
+                    {acceptError && (
+                        <p className="text-sm text-red-600">{acceptError}</p>
+                    )}
+
+                    <Button
+                        size="sm"
+                        onClick={handleAccept}
+                        disabled={isCurrent || isAccepting || !toId}
+                    >
+                        {isAccepting && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        {isCurrent
+                            ? 'Current version'
+                            : `Use version #${toRevision?.revision}`}
+                    </Button>
+                </div>
+            )}
+        </div>
+    )
+}
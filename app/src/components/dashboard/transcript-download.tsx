@@ -0,0 +1,47 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Download } from 'lucide-react'
+import {
+    TRANSCRIPT_EXPORT_FORMATS,
+    TRANSCRIPT_EXPORT_FORMAT_LABELS,
+} from '@/domains/meeting/services/meeting-database/transcriptExport'
+
+interface TranscriptDownloadProps {
+    meetingId: string
+}
+
+/**
+ * Download menu for the transcript export formats
+ */
+export function TranscriptDownload({ meetingId }: TranscriptDownloadProps) {
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4 mr-2" />
+                    Download
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                {TRANSCRIPT_EXPORT_FORMATS.map((format) => (
+                    <DropdownMenuItem key={format} asChild>
+                        <a
+                            href={`/api/meetings/${meetingId}/transcript/export?format=${format}`}
+                            download
+                            className="cursor-pointer"
+                        >
+                            {TRANSCRIPT_EXPORT_FORMAT_LABELS[format]}
+                        </a>
+                    </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    )
+}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, History, Loader2, Pencil, RotateCcw } from 'lucide-react'
+import {
+    useSegmentHistory,
+    editTranscriptSegment,
+} from '@/domains/meeting/hooks/useFetchingMeeting'
+
+interface TranscriptSegmentTextProps {
+    meetingId: string
+    segment: {
+        id: string
+        text: string
+        isFinal: boolean
+        originalText?: string | null
+        editedAt?: string | null
+    }
+    highlighted?: boolean
+    onEdited?: () => void // Called after the text was changed
+}
+
+const textareaClassName =
+    'w-full min-h-16 rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50'
+
+/**
+ * Edit history of a segment with the original machine text
+ */
+function SegmentHistory({
+    meetingId,
+    segmentId,
+    canRestore,
+    isSaving,
+    onRestore,
+}: {
+    meetingId: string
+    segmentId: string
+    canRestore: boolean
+    isSaving: boolean
+    onRestore: (originalText: string) => void
+}) {
+    const { originalText, edits, isLoading } = useSegmentHistory(
+        meetingId,
+        segmentId
+    )
+
+    if (isLoading) {
+        return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+    }
+
+    return (
+        <div className="rounded-md border bg-muted/30 p-2 space-y-2 text-xs">
+            {originalText && (
+                <div className="flex items-start justify-between gap-2">
+                    <p>
+                        <span className="font-medium">Original: </span>
+                        <span className="text-muted-foreground">
+                            {originalText}
+                        </span>
+                    </p>
+                    {canRestore && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onRestore(originalText)}
+                            disabled={isSaving}
+                        >
+                            <RotateCcw className="mr-2 h-3 w-3" />
+                            Restore original
+                        </Button>
+                    )}
+                </div>
+            )}
+            {edits.map((edit) => (
+                <p key={edit.id} className="text-muted-foreground">
+                    {format(new Date(edit.createdAt), 'MMM d, HH:mm')} ·{' '}
+                    {edit.editedBy?.name ||
+                        edit.editedBy?.email ||
+                        'Deleted user'}
+                    : <span className="line-through">{edit.previousText}</span>{' '}
+                    → <span className="text-foreground">{edit.newText}</span>
+                </p>
+            ))}
+        </div>
+    )
+}
+
+/**
+ * A transcript segment's text, with inline correction of final segments
+ * and the edit history of corrected ones
+ */
+export function TranscriptSegmentText({
+    meetingId,
+    segment,
+    highlighted,
+    onEdited,
+}: TranscriptSegmentTextProps) {
+    const [isEditing, setIsEditing] = useState(false)
+    const [showHistory, setShowHistory] = useState(false)
+    const [draft, setDraft] = useState(segment.text)
+    const [isSaving, setIsSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+
+    const save = async (text: string) => {
+        setIsSaving(true)
+        setSaveError(null)
+        try {
+            await editTranscriptSegment(meetingId, segment.id, text)
+            setIsEditing(false)
+            setShowHistory(false)
+            onEdited?.()
+        } catch (err) {
+            setSaveError(
+                err instanceof Error ? err.message : 'Failed to edit segment'
+            )
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    if (isEditing) {
+        return (
+            <div id={`segment-${segment.id}`} className="space-y-2 py-1">
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    disabled={isSaving}
+                    maxLength={5000}
+                    aria-label="Segment text"
+                    className={textareaClassName}
+                    autoFocus
+                />
+                <div className="flex items-center gap-2">
+                    <Button
+                        size="sm"
+                        onClick={() => save(draft)}
+                        disabled={
+                            isSaving ||
+                            !draft.trim() ||
+                            draft.trim() === segment.text
+                        }
+                    >
+                        {isSaving && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Save
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setIsEditing(false)}
+                        disabled={isSaving}
+                    >
+                        Cancel
+                    </Button>
+                </div>
+                {saveError && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        {saveError}
+                    </div>
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <div id={`segment-${segment.id}`} className="group">
+            <p
+                className={`text-sm ${
+                    segment.isFinal
+                        ? 'text-foreground'
+                        : 'text-muted-foreground italic'
+                } ${
+                    highlighted
+                        ? 'bg-yellow-100 dark:bg-yellow-900/40 rounded'
+                        : ''
+                }`}
+            >
+                {segment.text}
+                {segment.editedAt && (
+                    <button
+                        type="button"
+                        onClick={() => setShowHistory(!showHistory)}
+                        className="ml-2 inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                        title={`Edited ${format(new Date(segment.editedAt), 'MMM d, HH:mm')}`}
+                    >
+                        <History className="h-3 w-3" />
+                        edited
+                    </button>
+                )}
+                {segment.isFinal && (
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setDraft(segment.text)
+                            setSaveError(null)
+                            setIsEditing(true)
+                        }}
+                        className="ml-2 inline-flex align-middle text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100 focus-visible:opacity-100"
+                        aria-label="Correct segment"
+                    >
+                        <Pencil className="h-3 w-3" />
+                    </button>
+                )}
+            </p>
+            {showHistory && (
+                <SegmentHistory
+                    meetingId={meetingId}
+                    segmentId={segment.id}
+                    canRestore={
+                        !!segment.originalText &&
+                        segment.originalText !== segment.text
+                    }
+                    isSaving={isSaving}
+                    onRestore={save}
+                />
+            )}
+            {saveError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {saveError}
+                </div>
+            )}
+        </div>
+    )
+}
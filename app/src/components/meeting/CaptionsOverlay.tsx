@@ -0,0 +1,60 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import type { Caption } from '@/domains/meeting/types'
+
+// How long a caption stays on screen after its last update
+const CAPTION_VISIBLE_MS = 6000
+const MAX_VISIBLE_CAPTIONS = 2
+
+interface CaptionsOverlayProps {
+    captions: Caption[]
+    speakerNames: Record<string, string>
+}
+
+/**
+ * Subtitle-style overlay with the latest utterances
+ * Unstable text is rendered in grey until the transcriber settles on it
+ */
+export function CaptionsOverlay({ captions, speakerNames }: CaptionsOverlayProps) {
+    const [now, setNow] = useState(() => Date.now())
+
+    // Re-render periodically so stale captions fade out without new chunks
+    useEffect(() => {
+        if (captions.length === 0) return
+        const interval = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(interval)
+    }, [captions.length])
+
+    const visible = captions
+        .filter((caption) => now - caption.updatedAt < CAPTION_VISIBLE_MS)
+        .slice(-MAX_VISIBLE_CAPTIONS)
+
+    if (visible.length === 0) return null
+
+    return (
+        <div className="pointer-events-none absolute inset-x-0 bottom-4 flex justify-center px-4 z-10">
+            <div className="max-w-3xl w-full space-y-1" aria-live="polite">
+                {visible.map((caption) => (
+                    <p
+                        key={caption.messageId}
+                        className="rounded-md bg-black/75 px-3 py-1.5 text-base text-white"
+                    >
+                        <span className="font-semibold text-blue-300">
+                            {speakerNames[caption.participantId] ||
+                                caption.displayName}
+                            :
+                        </span>{' '}
+                        {caption.stableText}
+                        {caption.unstableText && (
+                            <span className="text-gray-400">
+                                {caption.stableText && ' '}
+                                {caption.unstableText}
+                            </span>
+                        )}
+                    </p>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -1,51 +1,66 @@
 'use client'
 
-import React, { useEffect, useState } from 'react'
-import { X, Send, MoreVertical } from 'lucide-react'
-import Image from 'next/image'
-
-interface Message {
-    id: number
-    senderId: number
-    senderName: string
-    senderImage: string
-    text: string
-    timestamp: string
-}
+import React, { useEffect, useRef, useState } from 'react'
+import { X, Send, Lock } from 'lucide-react'
+import type { ChatMessage, Participant } from '@/domains/meeting/types'
 
 interface ChatPanelProps {
-    messages: Message[]
+    messages: ChatMessage[]
+    participants: Participant[] // Private message recipients (local participant excluded)
     isOpen: boolean
     onClose: () => void
+    onSend: (text: string, recipientId?: string) => void
+}
+
+const MAX_MESSAGE_LENGTH = 2000
+
+function getInitials(name: string): string {
+    return name
+        .split(' ')
+        .map((n) => n[0])
+        .join('')
+        .toUpperCase()
+        .slice(0, 2)
 }
 
-export function ChatPanel({ messages, isOpen, onClose }: ChatPanelProps) {
-    const [messagesState, setMessagesState] = useState<Message[]>([...messages])
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+    })
+}
+
+export function ChatPanel({
+    messages,
+    participants,
+    isOpen,
+    onClose,
+    onSend,
+}: ChatPanelProps) {
     const [newMessage, setNewMessage] = useState('')
+    const [recipientId, setRecipientId] = useState('') // '' for everyone
+    const bottomRef = useRef<HTMLDivElement>(null)
+
+    // Fall back to everyone when the private recipient leaves
+    useEffect(() => {
+        if (recipientId && !participants.some((p) => p.id === recipientId)) {
+            setRecipientId('')
+        }
+    }, [participants, recipientId])
+
+    useEffect(() => {
+        if (isOpen) {
+            bottomRef.current?.scrollIntoView({ block: 'end' })
+        }
+    }, [messages, isOpen])
 
     const handleSendMessage = () => {
         if (newMessage.trim()) {
-            const message = {
-                id: messages.length + 1,
-                senderId: 1,
-                senderName: 'You',
-                senderImage:
-                    'https://images.unsplash.com/photo-1672685667592-0392f458f46f?w=100',
-                text: newMessage,
-                timestamp: new Date().toLocaleTimeString('en-US', {
-                    hour: 'numeric',
-                    minute: '2-digit',
-                }),
-            }
-            setMessagesState([...messagesState, message])
+            onSend(newMessage, recipientId || undefined)
             setNewMessage('')
         }
     }
 
-    useEffect(() => {
-        setMessagesState([...messages])
-    }, [messages])
-
     if (!isOpen) return null
 
     return (
@@ -64,46 +79,83 @@ export function ChatPanel({ messages, isOpen, onClose }: ChatPanelProps) {
 
             {/* Messages list */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {messages.length === 0 && (
+                    <p className="text-center text-sm text-gray-500">
+                        No messages yet
+                    </p>
+                )}
                 {messages.map((message) => (
                     <div key={message.id} className="flex gap-3">
-                        <Image
-                            src={message.senderImage}
-                            alt={message.senderName}
-                            width={32}
-                            height={32}
-                            className="w-8 h-8 rounded-full object-cover flex-shrink-0"
-                        />
+                        <div className="w-8 h-8 rounded-full bg-blue-600 text-white text-xs flex items-center justify-center flex-shrink-0">
+                            {getInitials(message.senderName)}
+                        </div>
                         <div className="flex-1 min-w-0">
                             <div className="flex items-baseline gap-2">
-                                <span className="text-gray-900">
-                                    {message.senderName}
+                                <span className="text-gray-900 truncate">
+                                    {message.isLocal ? 'You' : message.senderName}
                                 </span>
                                 <span className="text-gray-500 text-xs">
-                                    {message.timestamp}
+                                    {formatTime(message.timestamp)}
                                 </span>
                             </div>
-                            <p className="text-gray-700 mt-1">{message.text}</p>
+                            {message.isPrivate && (
+                                <p className="flex items-center gap-1 text-xs text-purple-700">
+                                    <Lock className="w-3 h-3" />
+                                    {message.isLocal
+                                        ? `Privately to ${message.recipientName}`
+                                        : 'Privately to you'}
+                                </p>
+                            )}
+                            <p className="text-gray-700 mt-1 whitespace-pre-wrap break-words">
+                                {message.text}
+                            </p>
+                            {message.isPrivate &&
+                                !message.isLocal &&
+                                participants.some((p) => p.id === message.senderId) && (
+                                    <button
+                                        onClick={() => setRecipientId(message.senderId)}
+                                        className="text-xs text-blue-600 hover:underline"
+                                    >
+                                        Reply privately
+                                    </button>
+                                )}
                         </div>
-                        <button className="p-1 hover:bg-gray-100 rounded opacity-0 group-hover:opacity-100 transition-opacity">
-                            <MoreVertical className="w-4 h-4 text-gray-600" />
-                        </button>
                     </div>
                 ))}
+                <div ref={bottomRef} />
             </div>
 
             {/* Message input */}
-            <div className="p-4 border-t border-gray-200">
+            <div className="p-4 border-t border-gray-200 space-y-2">
+                <select
+                    value={recipientId}
+                    onChange={(e) => setRecipientId(e.target.value)}
+                    className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Send to"
+                >
+                    <option value="">Everyone</option>
+                    {participants.map((participant) => (
+                        <option key={participant.id} value={participant.id}>
+                            {participant.displayName} (private)
+                        </option>
+                    ))}
+                </select>
                 <div className="flex gap-2">
                     <input
                         type="text"
                         value={newMessage}
                         onChange={(e) => setNewMessage(e.target.value)}
-                        onKeyPress={(e) => {
+                        onKeyDown={(e) => {
                             if (e.key === 'Enter') {
                                 handleSendMessage()
                             }
                         }}
-                        placeholder="Send a message to everyone"
+                        maxLength={MAX_MESSAGE_LENGTH}
+                        placeholder={
+                            recipientId
+                                ? 'Send a private message'
+                                : 'Send a message to everyone'
+                        }
                         className="flex-1 px-4 py-2 border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
                     />
                     <button
@@ -11,17 +11,24 @@ import {
     Grid3x3,
     Settings,
     Info,
+    Captions,
+    CaptionsOff,
+    ScrollText,
 } from 'lucide-react'
 
 interface ControlBarProps {
     onShowParticipants: () => void
     onShowChat: () => void
+    unreadChatCount?: number
     onShowSettings: () => void
     onShowGridLayout: () => void
+    onShowTranscript: () => void
     isMicOn: boolean
     isVideoOn: boolean
+    isCaptionsOn: boolean
     onToggleMic: () => void
     onToggleVideo: () => void
+    onToggleCaptions: () => void
     onLeaveCall: () => void
     roomName?: string
 }
@@ -29,12 +36,16 @@ interface ControlBarProps {
 export function ControlBar({
     onShowParticipants,
     onShowChat,
+    unreadChatCount = 0,
     onShowSettings,
     onShowGridLayout,
+    onShowTranscript,
     isMicOn,
     isVideoOn,
+    isCaptionsOn,
     onToggleMic,
     onToggleVideo,
+    onToggleCaptions,
     onLeaveCall,
     roomName = 'Meeting Room',
 }: ControlBarProps) {
@@ -87,6 +98,26 @@ export function ControlBar({
                         )}
                     </button>
 
+                    {/* Captions */}
+                    <button
+                        onClick={onToggleCaptions}
+                        className={`p-4 rounded-full transition-colors ${
+                            isCaptionsOn
+                                ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                                : 'bg-gray-700 hover:bg-gray-600 text-white'
+                        }`}
+                        aria-label={
+                            isCaptionsOn ? 'Turn off captions' : 'Turn on captions'
+                        }
+                        aria-pressed={isCaptionsOn}
+                    >
+                        {isCaptionsOn ? (
+                            <Captions className="w-5 h-5" />
+                        ) : (
+                            <CaptionsOff className="w-5 h-5" />
+                        )}
+                    </button>
+
                     {/* Screen share */}
                     <button
                         className="p-4 rounded-full bg-gray-700 hover:bg-gray-600 text-white transition-colors"
@@ -119,10 +150,28 @@ export function ControlBar({
                     {/* Chat */}
                     <button
                         onClick={onShowChat}
-                        className="p-4 rounded-full bg-gray-700 hover:bg-gray-600 text-white transition-colors"
-                        aria-label="Show chat"
+                        className="relative p-4 rounded-full bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                        aria-label={
+                            unreadChatCount > 0
+                                ? `Show chat (${unreadChatCount} unread)`
+                                : 'Show chat'
+                        }
                     >
                         <MessageSquare className="w-5 h-5" />
+                        {unreadChatCount > 0 && (
+                            <span className="absolute top-1 right-1 min-w-5 h-5 px-1 rounded-full bg-blue-600 text-xs leading-5 text-center">
+                                {unreadChatCount > 99 ? '99+' : unreadChatCount}
+                            </span>
+                        )}
+                    </button>
+
+                    {/* Live transcript */}
+                    <button
+                        onClick={onShowTranscript}
+                        className="p-4 rounded-full bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                        aria-label="Show live transcript"
+                    >
+                        <ScrollText className="w-5 h-5" />
                     </button>
 
                     {/* Settings */}
@@ -0,0 +1,140 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { KeyRound, Loader2, Lock, LogIn, UserX } from 'lucide-react'
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { JoinDenialReason } from '@/domains/meeting/hooks/useFetchingMeeting'
+
+interface JoinAccessGateProps {
+    reason: JoinDenialReason
+    isSubmitting: boolean
+    onSubmitPassword: (password: string) => void
+}
+
+/**
+ * Shown instead of the conference when the room's access policy refuses the join
+ */
+export function JoinAccessGate({
+    reason,
+    isSubmitting,
+    onSubmitPassword,
+}: JoinAccessGateProps) {
+    const [password, setPassword] = useState('')
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        if (password) onSubmitPassword(password)
+    }
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background p-4">
+            <Card className="w-full max-w-sm">
+                {reason === 'SIGN_IN_REQUIRED' && (
+                    <>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Lock className="h-5 w-5" />
+                                Sign in to join
+                            </CardTitle>
+                            <CardDescription>
+                                Only signed-in users can join this meeting.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <Button asChild className="w-full">
+                                <Link href="/login">
+                                    <LogIn className="mr-2 h-4 w-4" />
+                                    Sign in
+                                </Link>
+                            </Button>
+                        </CardContent>
+                    </>
+                )}
+
+                {reason === 'NOT_INVITED' && (
+                    <>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <UserX className="h-5 w-5" />
+                                You are not invited
+                            </CardTitle>
+                            <CardDescription>
+                                Only invited people can join this meeting. Ask
+                                the host to add you to the invite list.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <Button
+                                asChild
+                                variant="outline"
+                                className="w-full"
+                            >
+                                <Link href="/dashboard">Back to dashboard</Link>
+                            </Button>
+                        </CardContent>
+                    </>
+                )}
+
+                {(reason === 'PASSWORD_REQUIRED' ||
+                    reason === 'WRONG_PASSWORD') && (
+                    <>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <KeyRound className="h-5 w-5" />
+                                Enter meeting password
+                            </CardTitle>
+                            <CardDescription>
+                                This meeting is protected by a password.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <form onSubmit={handleSubmit} className="space-y-3">
+                                <div className="space-y-2">
+                                    <Label htmlFor="meeting-password">
+                                        Password
+                                    </Label>
+                                    <Input
+                                        id="meeting-password"
+                                        type="password"
+                                        autoFocus
+                                        autoComplete="off"
+                                        value={password}
+                                        onChange={(e) =>
+                                            setPassword(e.target.value)
+                                        }
+                                        disabled={isSubmitting}
+                                    />
+                                    {reason === 'WRONG_PASSWORD' && (
+                                        <p className="text-sm text-destructive">
+                                            Wrong password. Please try again.
+                                        </p>
+                                    )}
+                                </div>
+                                <Button
+                                    type="submit"
+                                    className="w-full"
+                                    disabled={!password || isSubmitting}
+                                >
+                                    {isSubmitting && (
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    )}
+                                    Join meeting
+                                </Button>
+                            </form>
+                        </CardContent>
+                    </>
+                )}
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import React, { useEffect, useRef } from 'react'
+import { X } from 'lucide-react'
+import type { Caption } from '@/domains/meeting/types'
+
+// Distance from the bottom within which the panel keeps following new captions
+const FOLLOW_THRESHOLD_PX = 48
+
+interface LiveTranscriptPanelProps {
+    captions: Caption[]
+    speakerNames: Record<string, string>
+    onClose: () => void
+}
+
+/**
+ * Scrolling transcript of the meeting so far, built from live captions
+ */
+export function LiveTranscriptPanel({
+    captions,
+    speakerNames,
+    onClose,
+}: LiveTranscriptPanelProps) {
+    const listRef = useRef<HTMLDivElement>(null)
+    const followRef = useRef(true)
+
+    const handleScroll = () => {
+        const list = listRef.current
+        if (!list) return
+        followRef.current =
+            list.scrollHeight - list.scrollTop - list.clientHeight <
+            FOLLOW_THRESHOLD_PX
+    }
+
+    // Stick to the newest caption unless the user scrolled back
+    useEffect(() => {
+        const list = listRef.current
+        if (list && followRef.current) {
+            list.scrollTop = list.scrollHeight
+        }
+    }, [captions])
+
+    return (
+        <div className="w-80 shrink-0 flex flex-col rounded-lg bg-gray-800">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+                <h2 className="text-white">Live transcript</h2>
+                <button
+                    onClick={onClose}
+                    className="p-2 hover:bg-gray-700 rounded-full transition-colors"
+                    aria-label="Close live transcript"
+                >
+                    <X className="w-5 h-5 text-gray-400" />
+                </button>
+            </div>
+
+            {/* Captions */}
+            <div
+                ref={listRef}
+                onScroll={handleScroll}
+                className="flex-1 min-h-0 overflow-y-auto p-4 space-y-3"
+            >
+                {captions.length === 0 ? (
+                    <p className="text-sm text-gray-400">
+                        Nothing transcribed yet. Captions appear here once
+                        transcription is running.
+                    </p>
+                ) : (
+                    captions.map((caption) => (
+                        <div key={caption.messageId} className="text-sm">
+                            <div className="flex items-baseline gap-2">
+                                <span className="font-medium text-white">
+                                    {speakerNames[caption.participantId] ||
+                                        caption.displayName}
+                                </span>
+                                <span className="text-xs text-gray-500">
+                                    {new Date(
+                                        caption.receivedAt
+                                    ).toLocaleTimeString([], {
+                                        hour: '2-digit',
+                                        minute: '2-digit',
+                                    })}
+                                </span>
+                            </div>
+                            <p className="text-gray-200">
+                                {caption.stableText}
+                                {caption.unstableText && (
+                                    <span className="text-gray-500">
+                                        {caption.stableText && ' '}
+                                        {caption.unstableText}
+                                    </span>
+                                )}
+                            </p>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    )
+}
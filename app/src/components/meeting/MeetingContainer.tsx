@@ -2,6 +2,9 @@ import React from 'react'
 import { Loader } from 'lucide-react'
 import { LocalVideo } from './LocalVideo'
 import { RemoteVideo } from './RemoteVideo'
+import { CaptionsOverlay } from './CaptionsOverlay'
+import { LiveTranscriptPanel } from './LiveTranscriptPanel'
+import type { Caption } from '@/domains/meeting/types'
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 interface Participant {
@@ -16,19 +19,60 @@ interface Participant {
     imageUrl?: string
 }
 
-interface MeetingContainerProps {
+interface ParticipantLayoutProps {
     participants: Participant[]
     currentLayout: 'auto' | 'grid' | 'sidebar' | 'spotlight'
     isLoading?: boolean
     dominantSpeakerId?: string | null
 }
 
+interface MeetingContainerProps extends ParticipantLayoutProps {
+    captions?: Caption[]
+    showCaptions?: boolean
+    showTranscript?: boolean
+    onCloseTranscript?: () => void
+}
+
 export function MeetingContainer({
+    captions = [],
+    showCaptions = false,
+    showTranscript = false,
+    onCloseTranscript = () => {},
+    ...layoutProps
+}: MeetingContainerProps) {
+    // Prefer current display names over the name sent with each chunk
+    const speakerNames = Object.fromEntries(
+        layoutProps.participants.map((p) => [String(p.id), p.displayName])
+    )
+
+    return (
+        <div className="w-full h-full flex gap-4">
+            <div className="relative flex-1 min-w-0 h-full">
+                <ParticipantLayout {...layoutProps} />
+                {showCaptions && (
+                    <CaptionsOverlay
+                        captions={captions}
+                        speakerNames={speakerNames}
+                    />
+                )}
+            </div>
+            {showTranscript && (
+                <LiveTranscriptPanel
+                    captions={captions}
+                    speakerNames={speakerNames}
+                    onClose={onCloseTranscript}
+                />
+            )}
+        </div>
+    )
+}
+
+function ParticipantLayout({
     participants,
     currentLayout,
     isLoading = false,
     dominantSpeakerId,
-}: MeetingContainerProps) {
+}: ParticipantLayoutProps) {
     // Log participant rendering info
     console.log('[MeetingContainer] 🎭 Rendering with participants:', {
         count: participants.length,
@@ -10,3 +10,6 @@ export { RemoteVideo } from './RemoteVideo'
 export { ChatPanel } from './ChatPanel'
 export { SettingsMenu } from './SettingsMenu'
 export { GridLayoutSelector } from './GridLayoutSelector'
+export { CaptionsOverlay } from './CaptionsOverlay'
+export { LiveTranscriptPanel } from './LiveTranscriptPanel'
+export { JoinAccessGate } from './JoinAccessGate'
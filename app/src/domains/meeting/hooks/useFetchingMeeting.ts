@@ -14,6 +14,7 @@
 
 'use client'
 
+import { useEffect, useState } from 'react'
 import useSWR from 'swr'
 import type { SWRConfiguration } from 'swr'
 
@@ -33,11 +34,20 @@ const fetcher = async (url: string) => {
 // Meeting Validation
 // ============================================================================
 
+export type MeetingAccessPolicy = 'OPEN' | 'AUTHENTICATED' | 'INVITEES' | 'PASSWORD'
+
+export type JoinDenialReason = 'SIGN_IN_REQUIRED' | 'NOT_INVITED' | 'PASSWORD_REQUIRED' | 'WRONG_PASSWORD'
+
 export interface MeetingCheckResult {
     exists: boolean
-    meetingId?: string
+    meetingId?: string // Only for callers that may join
     roomName?: string
     status?: 'ACTIVE' | 'ENDED' | 'SCHEDULED' | 'CANCELLED'
+    access?: {
+        allowed: boolean
+        accessPolicy: MeetingAccessPolicy
+        reason?: JoinDenialReason
+    }
     error?: string
 }
 
@@ -214,6 +224,7 @@ export interface MeetingHistoryItem {
     endedAt?: string
     duration?: number
     hostId?: string
+    seriesId?: string // Occurrence of a recurring series
     host?: {
         id: string
         name?: string
@@ -311,3 +322,884 @@ export function useUserMeetingStats(options?: SWRConfiguration) {
         mutate,
     }
 }
+
+// ============================================================================
+// User Action Items
+// ============================================================================
+
+export interface UserActionItem {
+    id: string
+    task: string
+    assigneeName?: string
+    dueDate?: string
+    completed: boolean
+    completedAt?: string
+    createdAt: string
+    meeting: {
+        id: string
+        title: string
+        roomName: string
+        startedAt?: string
+        endedAt?: string
+    }
+}
+
+export interface UserActionItemsResponse {
+    userId: string
+    count: number
+    actionItems: UserActionItem[]
+    filters: {
+        status: 'open' | 'all'
+        limit: number
+        offset: number
+    }
+}
+
+/**
+ * Fetch action items assigned to the authenticated user across all meetings
+ *
+ * @param status - 'open' (default) or 'all' to include completed items
+ * @param options - SWR configuration options
+ */
+export function useUserActionItems(status: 'open' | 'all' = 'open', options?: SWRConfiguration) {
+    const { data, error, isLoading, mutate } = useSWR<UserActionItemsResponse>(
+        `/api/user/action-items?status=${status}`,
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        actionItems: data?.actionItems || [],
+        count: data?.count || 0,
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+/**
+ * Complete or reopen an action item
+ */
+export async function setActionItemCompleted(
+    meetingId: string,
+    actionItemId: string,
+    completed: boolean
+): Promise<void> {
+    const res = await fetch(`/api/meetings/${meetingId}/action-items/${actionItemId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ completed }),
+    })
+
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to update action item')
+    }
+}
+
+// ============================================================================
+// Summary Policy
+// ============================================================================
+
+export interface SummaryPolicy {
+    autoSummarize: boolean
+    minTranscriptWords: number
+    templateId: string | null
+    isDefault: boolean
+}
+
+/**
+ * Fetch the authenticated user's automatic summary policy
+ */
+export function useSummaryPolicy(options?: SWRConfiguration) {
+    const { data, error, isLoading, mutate } = useSWR<{ policy: SummaryPolicy }>(
+        '/api/user/summary-policy',
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        policy: data?.policy,
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+/**
+ * Save the authenticated user's automatic summary policy
+ */
+export async function updateSummaryPolicy(
+    changes: Partial<Omit<SummaryPolicy, 'isDefault'>>
+): Promise<SummaryPolicy> {
+    const res = await fetch('/api/user/summary-policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+    })
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to update summary policy')
+    }
+
+    return data.policy
+}
+
+// ============================================================================
+// Calendar Feed
+// ============================================================================
+
+/**
+ * Fetch the authenticated user's calendar feed URL (null while the feed is off)
+ */
+export function useCalendarFeed(options?: SWRConfiguration) {
+    const { data, error, isLoading, mutate } = useSWR<{ feedUrl: string | null }>(
+        '/api/user/calendar-feed',
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        feedUrl: data?.feedUrl ?? null,
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+/**
+ * Turn the calendar feed on, or replace its URL (the old URL stops working)
+ */
+export async function resetCalendarFeed(): Promise<string> {
+    const res = await fetch('/api/user/calendar-feed', { method: 'POST' })
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to create calendar feed')
+    }
+
+    return data.feedUrl
+}
+
+/**
+ * Turn the calendar feed off
+ */
+export async function disableCalendarFeed(): Promise<void> {
+    const res = await fetch('/api/user/calendar-feed', { method: 'DELETE' })
+
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to turn off calendar feed')
+    }
+}
+
+// ============================================================================
+// Meeting Access
+// ============================================================================
+
+export interface MeetingAccessSettings {
+    meetingId: string
+    seriesId: string | null
+    accessPolicy: MeetingAccessPolicy
+    hasPassword: boolean
+    lobbyEnabled: boolean
+}
+
+export interface UpdateMeetingAccessInput {
+    accessPolicy?: MeetingAccessPolicy
+    password?: string
+    lobbyEnabled?: boolean
+}
+
+export type JoinMeetingResult =
+    | {
+          allowed: true
+          meetingId: string | null
+          roomName: string
+          accessPolicy: MeetingAccessPolicy
+          isModerator: boolean
+          lobbyEnabled: boolean
+          lobby: boolean
+      }
+    | {
+          allowed: false
+          reason: JoinDenialReason
+          accessPolicy: MeetingAccessPolicy
+      }
+
+/**
+ * Ask to join a room; a denial carries the reason instead of throwing
+ * @param password - Meeting password for PASSWORD rooms
+ */
+export async function joinMeeting(roomName: string, password?: string): Promise<JoinMeetingResult> {
+    const res = await fetch('/api/meetings/join', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roomName, password }),
+    })
+
+    const data = await res.json().catch(() => ({}))
+    if (data.allowed === false && data.reason) {
+        return data
+    }
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to join meeting')
+    }
+
+    return data
+}
+
+/**
+ * Jitsi JWT for the signed-in user to join a room
+ * @returns The token, or null when signed out or Jitsi token auth is not configured
+ */
+export async function fetchJitsiToken(roomName: string, password?: string): Promise<string | null> {
+    const res = await fetch('/api/meetings/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roomName, password }),
+    })
+
+    if (res.status === 401 || res.status === 503) {
+        return null
+    }
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to get meeting token')
+    }
+
+    return data.token
+}
+
+/**
+ * Fetch who may join a meeting (host only; other users get a 403 error)
+ */
+export function useMeetingAccess(meetingId: string | null | undefined, options?: SWRConfiguration) {
+    const { data, error, isLoading, mutate } = useSWR<{ settings: MeetingAccessSettings }>(
+        meetingId ? `/api/meetings/${meetingId}/access` : null,
+        fetcher,
+        { ...defaultConfig, errorRetryCount: 0, ...options }
+    )
+
+    return {
+        settings: data?.settings,
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+/**
+ * Change who may join a meeting (host only); applies to the whole series for recurring meetings
+ */
+export async function updateMeetingAccess(
+    meetingId: string,
+    changes: UpdateMeetingAccessInput
+): Promise<MeetingAccessSettings> {
+    const res = await fetch(`/api/meetings/${meetingId}/access`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+    })
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to update meeting access')
+    }
+
+    return data.settings
+}
+
+// ============================================================================
+// Transcript Speakers
+// ============================================================================
+
+export interface TranscriptSpeaker {
+    jitsiParticipantId: string
+    speakerId: number
+    speakerName: string
+    segmentCount: number
+    mapping: {
+        participantId: string | null
+        displayName: string
+        originalName: string | null
+        mappedById: string | null
+        updatedAt: string
+    } | null
+}
+
+export interface SpeakerParticipantOption {
+    id: string
+    displayName: string
+    userId: string | null
+}
+
+export interface TranscriptSpeakersResponse {
+    meetingId: string
+    canEdit: boolean
+    speakers: TranscriptSpeaker[]
+    participants: SpeakerParticipantOption[]
+}
+
+/**
+ * Fetch the speakers of a meeting's transcript and the participants they can be mapped to
+ */
+export function useTranscriptSpeakers(meetingId: string | null | undefined, options?: SWRConfiguration) {
+    const { data, error, isLoading, mutate } = useSWR<TranscriptSpeakersResponse>(
+        meetingId ? `/api/meetings/${meetingId}/speakers` : null,
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        speakers: data?.speakers ?? [],
+        participants: data?.participants ?? [],
+        canEdit: data?.canEdit ?? false,
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+/**
+ * Remap a speaker to a participant and/or name across all their segments
+ */
+export async function mapTranscriptSpeaker(
+    meetingId: string,
+    jitsiParticipantId: string,
+    target: { participantId?: string | null; displayName?: string | null }
+): Promise<TranscriptSpeaker> {
+    const res = await fetch(
+        `/api/meetings/${meetingId}/speakers/${encodeURIComponent(jitsiParticipantId)}`,
+        {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(target),
+        }
+    )
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to update speaker')
+    }
+
+    return data.speaker
+}
+
+/**
+ * Undo a speaker mapping, restoring the original speaker
+ */
+export async function resetTranscriptSpeaker(
+    meetingId: string,
+    jitsiParticipantId: string
+): Promise<void> {
+    const res = await fetch(
+        `/api/meetings/${meetingId}/speakers/${encodeURIComponent(jitsiParticipantId)}`,
+        { method: 'DELETE' }
+    )
+
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to reset speaker')
+    }
+}
+
+// ============================================================================
+// Meeting Chat
+// ============================================================================
+
+export interface MeetingChatMessage {
+    id: string
+    messageId: string
+    senderJitsiId: string
+    senderName: string
+    senderUserId: string | null
+    isPrivate: boolean
+    recipientJitsiId: string | null
+    recipientName: string | null
+    text: string
+    sentAt: string
+}
+
+export interface MeetingChatResponse {
+    meetingId: string
+    messages: MeetingChatMessage[]
+}
+
+/**
+ * Fetch the persisted chat of a meeting
+ */
+export function useMeetingChat(meetingId: string | null | undefined, options?: SWRConfiguration) {
+    const { data, error, isLoading, mutate } = useSWR<MeetingChatResponse>(
+        meetingId ? `/api/meetings/${meetingId}/chat` : null,
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        messages: data?.messages ?? [],
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+// ============================================================================
+// Meeting Scheduling
+// ============================================================================
+
+export interface ScheduledMeetingInvitee {
+    email: string
+    name: string | null
+    userId: string | null
+}
+
+export interface ScheduledMeeting {
+    id: string
+    roomName: string
+    joinPath: string
+    joinUrl: string
+    title: string
+    description: string | null
+    status: 'ACTIVE' | 'ENDED' | 'SCHEDULED' | 'CANCELLED'
+    scheduledAt: string | null
+    durationMinutes: number | null
+    summaryTemplate: string | null
+    host: { id: string; name: string; email: string } | null
+    invitees: ScheduledMeetingInvitee[]
+    isHost: boolean
+    series: { id: string; rrule: string; timeZone: string } | null
+}
+
+export interface ScheduledMeetingsResponse {
+    count: number
+    meetings: ScheduledMeeting[]
+}
+
+export interface ScheduleMeetingInput {
+    title: string
+    description?: string | null
+    scheduledAt: string // ISO date string
+    durationMinutes?: number
+    invitees?: { email: string; name?: string | null }[]
+    recurrence?: string // RRULE; schedules a recurring meeting
+    timeZone?: string // IANA zone the recurrence is evaluated in
+}
+
+/**
+ * What a change to an occurrence of a recurring meeting applies to
+ */
+export type OccurrenceScope = 'this' | 'following' | 'all'
+
+/**
+ * Fetch upcoming scheduled meetings the user hosts or is invited to
+ */
+export function useScheduledMeetings(options?: SWRConfiguration) {
+    const { data, error, isLoading, mutate } = useSWR<ScheduledMeetingsResponse>(
+        '/api/meetings/scheduled',
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        meetings: data?.meetings ?? [],
+        count: data?.count ?? 0,
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+/**
+ * Schedule a meeting hosted by the signed-in user
+ */
+export async function scheduleMeeting(input: ScheduleMeetingInput): Promise<ScheduledMeeting> {
+    const res = await fetch('/api/meetings/scheduled', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+    })
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to schedule meeting')
+    }
+
+    return data.meeting
+}
+
+/**
+ * Reschedule or edit a scheduled meeting (host only)
+ * For recurring meetings, scope selects this, this and following, or all occurrences
+ */
+export async function updateScheduledMeeting(
+    meetingId: string,
+    changes: Partial<ScheduleMeetingInput>,
+    scope: OccurrenceScope = 'this'
+): Promise<ScheduledMeeting> {
+    const res = await fetch(`/api/meetings/scheduled/${meetingId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...changes, scope }),
+    })
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to update meeting')
+    }
+
+    return data.meeting
+}
+
+/**
+ * Cancel a scheduled meeting (host only)
+ * For recurring meetings, scope selects this, this and following, or all occurrences
+ */
+export async function cancelScheduledMeeting(
+    meetingId: string,
+    scope: OccurrenceScope = 'this',
+    reason?: string
+): Promise<void> {
+    const res = await fetch(`/api/meetings/scheduled/${meetingId}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason, scope }),
+    })
+
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to cancel meeting')
+    }
+}
+
+export interface SeriesOccurrence {
+    id: string
+    status: 'ACTIVE' | 'ENDED' | 'SCHEDULED' | 'CANCELLED'
+    scheduledAt: string | null
+    occurrenceAt: string | null
+    startedAt: string | null
+    endedAt: string | null
+    duration: number | null
+    summary: {
+        title: string
+        overview: string
+        keyPoints: unknown
+        actionItems: unknown
+        decisions: unknown
+        nextSteps: unknown
+        content: Record<string, unknown> | null
+        templateId: string
+    } | null
+}
+
+export interface MeetingSeriesDetails {
+    id: string
+    roomName: string
+    joinPath: string
+    joinUrl: string
+    title: string
+    description: string | null
+    rrule: string
+    startsAt: string
+    timeZone: string
+    durationMinutes: number
+    exdates: string[]
+    cancelledAt: string | null
+    host: { id: string; name: string; email: string } | null
+    isHost: boolean
+    past: SeriesOccurrence[] // Newest first
+    upcoming: SeriesOccurrence[] // Soonest first
+}
+
+/**
+ * Fetch a recurring meeting with its held and upcoming occurrences
+ */
+export function useMeetingSeries(seriesId: string | null | undefined, options?: SWRConfiguration) {
+    const { data, error, isLoading, mutate } = useSWR<{ series: MeetingSeriesDetails }>(
+        seriesId ? `/api/meetings/series/${seriesId}` : null,
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        series: data?.series,
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+// ============================================================================
+// Transcript Segment Edits
+// ============================================================================
+
+export interface SegmentEdit {
+    id: string
+    previousText: string
+    newText: string
+    editedById: string | null
+    editedBy: { id: string; name: string | null; email: string } | null
+    createdAt: string
+}
+
+export interface SegmentHistoryResponse {
+    segmentId: string
+    text: string
+    originalText: string | null
+    edits: SegmentEdit[]
+}
+
+export interface EditedSegment {
+    id: string
+    text: string
+    originalText: string | null
+    editedAt: string | null
+    editedById: string | null
+}
+
+/**
+ * Fetch the original text and edit history of a transcript segment
+ */
+export function useSegmentHistory(
+    meetingId: string | null | undefined,
+    segmentId: string | null | undefined,
+    options?: SWRConfiguration
+) {
+    const { data, error, isLoading, mutate } = useSWR<SegmentHistoryResponse>(
+        meetingId && segmentId
+            ? `/api/meetings/${meetingId}/transcript/segments/${segmentId}`
+            : null,
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        originalText: data?.originalText ?? null,
+        edits: data?.edits ?? [],
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+/**
+ * Correct the text of a final transcript segment
+ */
+export async function editTranscriptSegment(
+    meetingId: string,
+    segmentId: string,
+    text: string
+): Promise<EditedSegment> {
+    const res = await fetch(
+        `/api/meetings/${meetingId}/transcript/segments/${segmentId}`,
+        {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text }),
+        }
+    )
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to edit segment')
+    }
+
+    return data.segment
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+export interface SegmentSearchHit {
+    segmentId: string
+    speakerName: string
+    startTime: number | null
+    endTime: number | null
+    receivedAt: string
+    snippet: string
+    rank: number
+}
+
+export interface MeetingSearchResult {
+    meeting: {
+        id: string
+        title: string
+        roomName: string
+        status: string
+        startedAt: string | null
+        endedAt: string | null
+    }
+    score: number
+    summarySnippet: string | null
+    transcriptSnippet: string | null
+    segmentHits: SegmentSearchHit[]
+    totalSegmentHits: number
+}
+
+export interface MeetingSearchResponse {
+    query: string
+    total: number
+    results: MeetingSearchResult[]
+    filters: {
+        limit: number
+        offset: number
+    }
+}
+
+/**
+ * Full-text search over transcripts and summaries of the user's meetings
+ *
+ * @param query - Search text; no request is made while empty
+ * @param options - SWR configuration options
+ */
+export function useMeetingSearch(query: string, options?: SWRConfiguration) {
+    const trimmed = query.trim()
+    const { data, error, isLoading, mutate } = useSWR<MeetingSearchResponse>(
+        trimmed ? `/api/user/search?q=${encodeURIComponent(trimmed)}` : null,
+        fetcher,
+        { ...defaultConfig, ...options }
+    )
+
+    return {
+        results: data?.results || [],
+        total: data?.total || 0,
+        isLoading,
+        error,
+        isError: !!error,
+        mutate,
+    }
+}
+
+// ============================================================================
+// Meeting Q&A
+// ============================================================================
+
+export interface QaHistoryMessage {
+    role: 'user' | 'assistant'
+    content: string
+}
+
+export interface QaSource {
+    label: string
+    meetingId: string
+    meetingTitle: string
+    segmentIds: string[]
+    startTime: number | null
+    endTime: number | null
+    text: string
+    similarity: number
+}
+
+export interface AskResponse {
+    success: boolean
+    answer: string
+    citations: QaSource[]
+    sources: QaSource[]
+    model: string
+}
+
+/**
+ * Ask a question about one meeting, or all of the user's meetings
+ * when meetingId is null
+ */
+export async function askMeetingQuestion(
+    meetingId: string | null,
+    question: string,
+    history: QaHistoryMessage[] = []
+): Promise<AskResponse> {
+    const res = await fetch(meetingId ? `/api/meetings/${meetingId}/ask` : '/api/user/ask', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question, history }),
+    })
+
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to answer the question')
+    }
+
+    return data
+}
+
+// ============================================================================
+// Live Transcript Stream
+// ============================================================================
+
+export interface LiveTranscriptSegment {
+    id: string
+    messageId: string
+    speakerId: number
+    speakerName: string | null
+    jitsiParticipantId: string | null
+    startTime: number | null
+    endTime: number | null
+    text: string
+    confidence: number | null
+    isFinal: boolean
+    receivedAt: string
+}
+
+export type LiveTranscriptStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+
+export type LiveTranscriptConnection = 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+/**
+ * Follow a meeting's transcript as it is persisted (server-sent events)
+ * Segments are replaced in place as interim text becomes final
+ */
+export function useLiveTranscript(meetingId: string | null | undefined) {
+    const [segments, setSegments] = useState<LiveTranscriptSegment[]>([])
+    const [status, setStatus] = useState<LiveTranscriptStatus | null>(null)
+    const [connection, setConnection] = useState<LiveTranscriptConnection>('connecting')
+
+    useEffect(() => {
+        if (!meetingId) return
+
+        setConnection('connecting')
+        const source = new EventSource(`/api/meetings/${meetingId}/transcript/stream`)
+
+        source.onopen = () => setConnection('open')
+
+        // A closed source was refused (not a member, not found); otherwise it retries
+        source.onerror = () => {
+            setConnection(source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting')
+        }
+
+        source.addEventListener('snapshot', (e) => {
+            const snapshot = JSON.parse((e as MessageEvent).data)
+            setSegments(snapshot.segments)
+            setStatus(snapshot.status)
+        })
+
+        source.addEventListener('segment', (e) => {
+            const segment: LiveTranscriptSegment = JSON.parse((e as MessageEvent).data)
+            setSegments((current) => {
+                const index = current.findIndex((s) => s.id === segment.id)
+                if (index === -1) return [...current, segment]
+                const next = [...current]
+                next[index] = segment
+                return next
+            })
+        })
+
+        source.addEventListener('status', (e) => {
+            setStatus(JSON.parse((e as MessageEvent).data).status)
+        })
+
+        return () => source.close()
+    }, [meetingId])
+
+    return { segments, status, connection }
+}
@@ -28,6 +28,8 @@ import {
     updateParticipant,
     removeParticipant,
     setDominantSpeaker,
+    upsertCaption,
+    addChatMessage,
     setError,
     resetMeetingState,
 } from '../store/meetingStore'
@@ -39,7 +41,8 @@ import {
     clearRemoteTracks,
     resetTrackState,
 } from '../store/trackStore'
-import { MeetingConfig, Participant } from '../types/meeting'
+import { Caption, ChatMessage, MeetingConfig, Participant } from '../types/meeting'
+import { fetchJitsiToken, joinMeeting as requestJoin } from './useFetchingMeeting'
 
 
 // Event processing queue to serialize track add/remove events
@@ -450,6 +453,12 @@ export function useMeeting() {
                     })
                 )
             },
+            onTranscriptionChunk: (caption: Omit<Caption, 'receivedAt'>) => {
+                dispatch(upsertCaption(caption))
+            },
+            onChatMessage: (message: ChatMessage) => {
+                dispatch(addChatMessage(message))
+            },
         })
 
         return () => {
@@ -548,9 +557,24 @@ export function useMeeting() {
                 dispatch(setConnectionStatus('connecting'))
                 dispatch(setRoomName(roomName))
 
+                // The join check also issues the event session the server
+                // requires before it stores this client's meeting events
+                const access = await requestJoin(roomName)
+                if (!access.allowed) {
+                    throw new Error(
+                        access.reason === 'SIGN_IN_REQUIRED'
+                            ? 'Sign in to join this meeting'
+                            : 'You cannot join this meeting'
+                    )
+                }
+
                 const config: MeetingConfig = {
                     roomName,
                     displayName,
+                    // Signed-in users authenticate to Jitsi when the server issues tokens
+                    jwt: userId
+                        ? ((await fetchJitsiToken(roomName)) ?? undefined)
+                        : undefined,
                 }
 
                 // Connect to server with event emission
@@ -559,7 +583,8 @@ export function useMeeting() {
                     meetingId,
                     userId || 'anonymous',
                     title,
-                    description
+                    description,
+                    access.isModerator
                 )
 
                 // Join the conference
@@ -605,6 +630,16 @@ export function useMeeting() {
         []
     )
 
+    /**
+     * Sends a chat message to everyone, or privately to one participant
+     */
+    const sendChatMessage = useCallback(
+        (text: string, recipientId?: string) => {
+            integratedMeetingService.sendChatMessage(text, recipientId)
+        },
+        []
+    )
+
     return {
         // State
         connectionStatus: meetingState.connectionStatus,
@@ -614,6 +649,8 @@ export function useMeeting() {
         participants: meetingState.participants,
         participantList: Object.values(meetingState.participants),
         dominantSpeakerId: meetingState.dominantSpeakerId,
+        captions: meetingState.captions,
+        chatMessages: meetingState.chatMessages,
         error: meetingState.error,
         isConnected: meetingState.connectionStatus === 'connected',
         isJoined: meetingState.conferenceStatus === 'joined',
@@ -626,5 +663,6 @@ export function useMeeting() {
         leaveMeeting,
         addLocalTrack,
         removeLocalTrack,
+        sendChatMessage,
     }
 }
\ No newline at end of file
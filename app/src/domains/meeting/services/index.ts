@@ -30,6 +30,8 @@ export type {
     MeetingEvent,
     ParticipantEvent,
     TrackEvent,
+    ChatMessageSentPayload,
+    ChatEvent,
     MeetingDatabaseEvent,
     CreateMeetingDTO,
     UpdateMeetingDTO,
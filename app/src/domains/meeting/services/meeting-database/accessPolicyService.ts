@@ -0,0 +1,621 @@
+/**
+ * accessPolicyService
+ *
+ * Who may join a meeting room. Each meeting has an access policy:
+ * - OPEN: anyone with the link (the default)
+ * - AUTHENTICATED: signed-in users
+ * - INVITEES: signed-in invitees (by account or email) and earlier participants
+ * - PASSWORD: anyone with the meeting password; signed-in invitees skip it
+ * The host and co-hosts always pass. With the lobby on, everyone else waits in
+ * the conference lobby until a moderator admits them: the host's client turns
+ * on Jitsi's lobby when it joins, and the knock/admit flow happens in Jitsi.
+ *
+ * checkJoinAccess is the single decision used by the join page
+ * (/api/meetings/join) and by conference token issuance, so both enforce the
+ * same rules. A verified password is remembered in a short-lived grant signed
+ * with BETTER_AUTH_SECRET and bound to the meeting and its current password,
+ * so reloading the page does not ask again and changing the password
+ * invalidates it.
+ *
+ * An allowed join also yields an event session: a signed per-room credential
+ * holding the joiner's account (if any) and moderator status, which
+ * /api/meetings/events requires before it accepts events for the room.
+ * Guests who start a room have no account to be the host, so the moderator
+ * status they were given at join time is only remembered there.
+ *
+ * Occurrences of a recurring series share one room, so their settings are
+ * kept on the series and changed for all of its open occurrences at once.
+ */
+
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import prisma from '../../../../lib/prisma'
+import {
+    MeetingAccessPolicy,
+    MeetingStatus,
+    ParticipantRole,
+} from '../../../../app/generated/prisma'
+
+export const MEETING_ACCESS_POLICIES = Object.values(MeetingAccessPolicy)
+export const MIN_MEETING_PASSWORD_LENGTH = 4
+export const MAX_MEETING_PASSWORD_LENGTH = 128
+export const ACCESS_GRANT_TTL_SECONDS = 12 * 60 * 60
+export const EVENT_SESSION_TTL_SECONDS = 12 * 60 * 60
+
+const scryptAsync = promisify(scrypt) as (
+    password: string,
+    salt: Buffer,
+    keylen: number
+) => Promise<Buffer>
+const SCRYPT_KEY_LENGTH = 32
+
+/**
+ * Error codes for access settings operations
+ */
+export const AccessErrorCodes = {
+    MEETING_NOT_FOUND: 'MEETING_NOT_FOUND',
+    NOT_HOST: 'NOT_HOST',
+    INVALID_POLICY: 'INVALID_POLICY',
+    INVALID_PASSWORD: 'INVALID_PASSWORD',
+} as const
+
+export type AccessErrorCode =
+    (typeof AccessErrorCodes)[keyof typeof AccessErrorCodes]
+
+/**
+ * Why a join was refused
+ */
+export const JoinDenialReasons = {
+    SIGN_IN_REQUIRED: 'SIGN_IN_REQUIRED',
+    NOT_INVITED: 'NOT_INVITED',
+    PASSWORD_REQUIRED: 'PASSWORD_REQUIRED',
+    WRONG_PASSWORD: 'WRONG_PASSWORD',
+} as const
+
+export type JoinDenialReason =
+    (typeof JoinDenialReasons)[keyof typeof JoinDenialReasons]
+
+export interface AccessSettings {
+    meetingId: string
+    seriesId: string | null // Settings apply to the whole series
+    accessPolicy: MeetingAccessPolicy
+    hasPassword: boolean
+    lobbyEnabled: boolean
+}
+
+export interface UpdateAccessSettingsDTO {
+    accessPolicy?: MeetingAccessPolicy
+    password?: string // New password; required when switching to PASSWORD without one
+    lobbyEnabled?: boolean
+}
+
+export interface AccessSettingsResult {
+    success: boolean
+    settings?: AccessSettings
+    error?: string
+    errorCode?: AccessErrorCode
+}
+
+export interface JoinAccessRequest {
+    roomName: string
+    userId?: string | null
+    password?: string
+    grant?: string // Value of the room's access grant cookie (getAccessGrantCookieName)
+}
+
+export type JoinAccessDecision =
+    | {
+          allowed: true
+          meetingId: string | null // Null for a room without any meeting yet
+          roomName: string
+          accessPolicy: MeetingAccessPolicy
+          isModerator: boolean
+          lobbyEnabled: boolean // A moderator's client turns the conference lobby on
+          lobby: boolean // Wait in the lobby until a moderator admits
+          grant?: string // Remembers a verified password; store in getAccessGrantCookieName(roomName)
+      }
+    | {
+          allowed: false
+          meetingId: string
+          roomName: string
+          accessPolicy: MeetingAccessPolicy
+          reason: JoinDenialReason
+      }
+
+const ACCESS_MEETING_SELECT = {
+    id: true,
+    roomName: true,
+    hostId: true,
+    seriesId: true,
+    status: true,
+    accessPolicy: true,
+    passwordHash: true,
+    lobbyEnabled: true,
+} as const
+
+/**
+ * Who sends events for a room, as remembered by the event session cookie
+ */
+export interface EventSession {
+    roomName: string
+    userId: string | null // Null for guests
+    isModerator: boolean
+}
+
+type AccessMeetingRow = {
+    id: string
+    roomName: string
+    hostId: string | null
+    seriesId: string | null
+    status: MeetingStatus
+    accessPolicy: MeetingAccessPolicy
+    passwordHash: string | null
+    lobbyEnabled: boolean
+}
+
+// ============================================================================
+// Passwords, grants and event sessions
+// ============================================================================
+
+/**
+ * Hash a meeting password as scrypt$salt$key (base64url)
+ */
+export async function hashMeetingPassword(password: string): Promise<string> {
+    const salt = randomBytes(16)
+    const key = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH)
+    return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`
+}
+
+async function verifyMeetingPassword(
+    password: string,
+    stored: string
+): Promise<boolean> {
+    const [scheme, salt, key] = stored.split('$')
+    if (scheme !== 'scrypt' || !salt || !key) return false
+
+    const expected = Buffer.from(key, 'base64url')
+    const actual = await scryptAsync(
+        password,
+        Buffer.from(salt, 'base64url'),
+        expected.length
+    )
+    return timingSafeEqual(actual, expected)
+}
+
+function signGrant(
+    meetingId: string,
+    passwordHash: string,
+    expiresAt: number
+): string | null {
+    const secret = process.env.BETTER_AUTH_SECRET
+    if (!secret) return null
+    return createHmac('sha256', secret)
+        .update(`${meetingId}.${expiresAt}.${passwordHash}`)
+        .digest('base64url')
+}
+
+/**
+ * Grant for a verified password, or null when no signing secret is configured
+ */
+function createAccessGrant(meeting: AccessMeetingRow): string | null {
+    const expiresAt = Math.floor(Date.now() / 1000) + ACCESS_GRANT_TTL_SECONDS
+    const signature = signGrant(meeting.id, meeting.passwordHash!, expiresAt)
+    return signature ? `${meeting.id}.${expiresAt}.${signature}` : null
+}
+
+function verifyAccessGrant(grant: string, meeting: AccessMeetingRow): boolean {
+    const [meetingId, expiresAt, signature] = grant.split('.')
+    if (meetingId !== meeting.id || !expiresAt || !signature) return false
+    if (Number(expiresAt) * 1000 < Date.now()) return false
+
+    const expected = signGrant(
+        meeting.id,
+        meeting.passwordHash!,
+        Number(expiresAt)
+    )
+    if (!expected || expected.length !== signature.length) return false
+    return timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+}
+
+function signEventSession(body: string): string | null {
+    const secret = process.env.BETTER_AUTH_SECRET
+    if (!secret) return null
+    return createHmac('sha256', secret)
+        .update(`event-session.${body}`)
+        .digest('base64url')
+}
+
+/**
+ * Cookie-safe key for a room name
+ */
+function roomCookieKey(roomName: string): string {
+    return createHash('sha256').update(roomName).digest('hex').slice(0, 16)
+}
+
+/**
+ * Cookie holding the event session of a room (one per room, so several
+ * meetings can be open in one browser)
+ */
+export function getEventSessionCookieName(roomName: string): string {
+    return `meeting_session_${roomCookieKey(roomName)}`
+}
+
+/**
+ * Cookie holding the access grant of a room (one per room, so entering the
+ * password of one room keeps the grants of others)
+ */
+export function getAccessGrantCookieName(roomName: string): string {
+    return `meeting_access_${roomCookieKey(roomName)}`
+}
+
+/**
+ * Sign an event session, or null when no signing secret is configured
+ */
+export function createEventSession(session: EventSession): string | null {
+    const expiresAt =
+        Math.floor(Date.now() / 1000) + EVENT_SESSION_TTL_SECONDS
+    const body = Buffer.from(
+        JSON.stringify({ ...session, expiresAt })
+    ).toString('base64url')
+    const signature = signEventSession(body)
+    return signature ? `${body}.${signature}` : null
+}
+
+/**
+ * The event session in a cookie value, or null if it is forged, expired or
+ * for another room
+ */
+export function verifyEventSession(
+    value: string | undefined,
+    roomName: string
+): EventSession | null {
+    const [body, signature] = value?.split('.') ?? []
+    if (!body || !signature) return null
+
+    const expected = signEventSession(body)
+    if (!expected || expected.length !== signature.length) return null
+    if (!timingSafeEqual(Buffer.from(signature), Buffer.from(expected)))
+        return null
+
+    try {
+        const session = JSON.parse(Buffer.from(body, 'base64url').toString())
+        if (session.roomName !== roomName) return null
+        if (session.expiresAt * 1000 < Date.now()) return null
+        return {
+            roomName: session.roomName,
+            userId: session.userId ?? null,
+            isModerator: session.isModerator === true,
+        }
+    } catch {
+        return null
+    }
+}
+
+function failure(
+    errorCode: AccessErrorCode,
+    error: string
+): AccessSettingsResult {
+    return { success: false, error, errorCode }
+}
+
+function toSettings(meeting: AccessMeetingRow): AccessSettings {
+    return {
+        meetingId: meeting.id,
+        seriesId: meeting.seriesId,
+        accessPolicy: meeting.accessPolicy,
+        hasPassword: !!meeting.passwordHash,
+        lobbyEnabled: meeting.lobbyEnabled,
+    }
+}
+
+export const accessPolicyService = {
+    /**
+     * The meeting a join of this room would enter: the active one, else the
+     * scheduled occurrence closest to now, else the most recent one
+     */
+    async findRoomMeeting(roomName: string): Promise<AccessMeetingRow | null> {
+        const active = await prisma.meeting.findFirst({
+            where: { roomName, status: MeetingStatus.ACTIVE },
+            select: ACCESS_MEETING_SELECT,
+        })
+        if (active) return active
+
+        const now = new Date()
+        const [previous, next] = await Promise.all([
+            prisma.meeting.findFirst({
+                where: {
+                    roomName,
+                    status: MeetingStatus.SCHEDULED,
+                    scheduledAt: { lte: now },
+                },
+                orderBy: { scheduledAt: 'desc' },
+                select: { ...ACCESS_MEETING_SELECT, scheduledAt: true },
+            }),
+            prisma.meeting.findFirst({
+                where: {
+                    roomName,
+                    status: MeetingStatus.SCHEDULED,
+                    scheduledAt: { gt: now },
+                },
+                orderBy: { scheduledAt: 'asc' },
+                select: { ...ACCESS_MEETING_SELECT, scheduledAt: true },
+            }),
+        ])
+        if (previous || next) {
+            const distance = (meeting: typeof previous) =>
+                meeting
+                    ? Math.abs(meeting.scheduledAt!.getTime() - now.getTime())
+                    : Infinity
+            return distance(previous) <= distance(next) ? previous : next
+        }
+
+        return prisma.meeting.findFirst({
+            where: { roomName },
+            orderBy: { createdAt: 'desc' },
+            select: ACCESS_MEETING_SELECT,
+        })
+    },
+
+    /**
+     * Host or co-host of the meeting
+     * (Participant rows of the HOST role are not trusted: every client reports itself as host)
+     */
+    async isModerator(
+        meeting: { id: string; hostId: string | null },
+        userId?: string | null
+    ) {
+        if (!userId) return false
+        if (meeting.hostId === userId) return true
+
+        const coHost = await prisma.meetingParticipant.findFirst({
+            where: {
+                meetingId: meeting.id,
+                userId,
+                role: ParticipantRole.CO_HOST,
+            },
+            select: { id: true },
+        })
+        return !!coHost
+    },
+
+    /**
+     * Invited to the meeting (by account or email) or took part in it before
+     */
+    async isInvited(meetingId: string, userId: string): Promise<boolean> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true },
+        })
+
+        const meeting = await prisma.meeting.findFirst({
+            where: {
+                id: meetingId,
+                OR: [
+                    { participants: { some: { userId } } },
+                    { invitees: { some: { userId } } },
+                    ...(user
+                        ? [
+                              {
+                                  invitees: {
+                                      some: { email: user.email.toLowerCase() },
+                                  },
+                              },
+                          ]
+                        : []),
+                ],
+            },
+            select: { id: true },
+        })
+        return !!meeting
+    },
+
+    /**
+     * Decide whether a user (or guest) may join a room
+     */
+    async checkJoinAccess(
+        request: JoinAccessRequest
+    ): Promise<JoinAccessDecision> {
+        const { roomName, userId, password, grant } = request
+
+        const meeting = await this.findRoomMeeting(roomName)
+        if (!meeting) {
+            // New room: the first one to join starts an open meeting and hosts it
+            return {
+                allowed: true,
+                meetingId: null,
+                roomName,
+                accessPolicy: MeetingAccessPolicy.OPEN,
+                isModerator: true,
+                lobbyEnabled: false,
+                lobby: false,
+            }
+        }
+
+        const deny = (reason: JoinDenialReason): JoinAccessDecision => ({
+            allowed: false,
+            meetingId: meeting.id,
+            roomName,
+            accessPolicy: meeting.accessPolicy,
+            reason,
+        })
+        const allow = (
+            isModerator: boolean,
+            newGrant?: string | null
+        ): JoinAccessDecision => ({
+            allowed: true,
+            meetingId: meeting.id,
+            roomName,
+            accessPolicy: meeting.accessPolicy,
+            isModerator,
+            lobbyEnabled: meeting.lobbyEnabled,
+            lobby: meeting.lobbyEnabled && !isModerator,
+            ...(newGrant && { grant: newGrant }),
+        })
+
+        if (await this.isModerator(meeting, userId)) return allow(true)
+
+        switch (meeting.accessPolicy) {
+            case MeetingAccessPolicy.OPEN:
+                // Like a new room: whoever reopens a room nobody hosts moderates it
+                return allow(
+                    !meeting.hostId && meeting.status !== MeetingStatus.ACTIVE
+                )
+
+            case MeetingAccessPolicy.AUTHENTICATED:
+                return userId
+                    ? allow(false)
+                    : deny(JoinDenialReasons.SIGN_IN_REQUIRED)
+
+            case MeetingAccessPolicy.INVITEES:
+                if (!userId) return deny(JoinDenialReasons.SIGN_IN_REQUIRED)
+                return (await this.isInvited(meeting.id, userId))
+                    ? allow(false)
+                    : deny(JoinDenialReasons.NOT_INVITED)
+
+            case MeetingAccessPolicy.PASSWORD:
+                if (userId && (await this.isInvited(meeting.id, userId)))
+                    return allow(false)
+                // A PASSWORD policy without a password cannot be satisfied; only moderators pass
+                if (!meeting.passwordHash)
+                    return deny(JoinDenialReasons.PASSWORD_REQUIRED)
+                if (grant && verifyAccessGrant(grant, meeting))
+                    return allow(false)
+                if (!password) return deny(JoinDenialReasons.PASSWORD_REQUIRED)
+                return (await verifyMeetingPassword(
+                    password,
+                    meeting.passwordHash
+                ))
+                    ? allow(false, createAccessGrant(meeting))
+                    : deny(JoinDenialReasons.WRONG_PASSWORD)
+        }
+    },
+
+    /**
+     * Access settings of a meeting (host only)
+     */
+    async getAccessSettings(
+        meetingId: string,
+        userId: string
+    ): Promise<AccessSettingsResult> {
+        const meeting = await prisma.meeting.findUnique({
+            where: { id: meetingId },
+            select: ACCESS_MEETING_SELECT,
+        })
+
+        if (!meeting) {
+            return failure(
+                AccessErrorCodes.MEETING_NOT_FOUND,
+                'Meeting not found'
+            )
+        }
+        if (meeting.hostId !== userId) {
+            return failure(
+                AccessErrorCodes.NOT_HOST,
+                'Only the host can manage access'
+            )
+        }
+
+        return { success: true, settings: toSettings(meeting) }
+    },
+
+    /**
+     * Change who may join (host only); for a series occurrence, the series and
+     * all of its scheduled or active occurrences change too
+     */
+    async updateAccessSettings(
+        meetingId: string,
+        userId: string,
+        dto: UpdateAccessSettingsDTO
+    ): Promise<AccessSettingsResult> {
+        const meeting = await prisma.meeting.findUnique({
+            where: { id: meetingId },
+            select: ACCESS_MEETING_SELECT,
+        })
+
+        if (!meeting) {
+            return failure(
+                AccessErrorCodes.MEETING_NOT_FOUND,
+                'Meeting not found'
+            )
+        }
+        if (meeting.hostId !== userId) {
+            return failure(
+                AccessErrorCodes.NOT_HOST,
+                'Only the host can manage access'
+            )
+        }
+
+        if (
+            dto.accessPolicy !== undefined &&
+            !MEETING_ACCESS_POLICIES.includes(dto.accessPolicy)
+        ) {
+            return failure(
+                AccessErrorCodes.INVALID_POLICY,
+                `Access policy must be one of: ${MEETING_ACCESS_POLICIES.join(', ')}`
+            )
+        }
+
+        if (
+            dto.password !== undefined &&
+            (dto.password.length < MIN_MEETING_PASSWORD_LENGTH ||
+                dto.password.length > MAX_MEETING_PASSWORD_LENGTH)
+        ) {
+            return failure(
+                AccessErrorCodes.INVALID_PASSWORD,
+                `Password must be ${MIN_MEETING_PASSWORD_LENGTH}-${MAX_MEETING_PASSWORD_LENGTH} characters`
+            )
+        }
+
+        const accessPolicy = dto.accessPolicy ?? meeting.accessPolicy
+        const isPassword = accessPolicy === MeetingAccessPolicy.PASSWORD
+        if (isPassword && !dto.password && !meeting.passwordHash) {
+            return failure(
+                AccessErrorCodes.INVALID_PASSWORD,
+                'Set a password for this policy'
+            )
+        }
+
+        const data = {
+            accessPolicy,
+            // Other policies drop the password, so switching back requires a new one
+            passwordHash: isPassword
+                ? dto.password
+                    ? await hashMeetingPassword(dto.password)
+                    : meeting.passwordHash
+                : null,
+            ...(dto.lobbyEnabled !== undefined && {
+                lobbyEnabled: dto.lobbyEnabled,
+            }),
+        }
+
+        if (meeting.seriesId) {
+            await prisma.$transaction([
+                prisma.meetingSeries.update({
+                    where: { id: meeting.seriesId },
+                    data,
+                }),
+                prisma.meeting.updateMany({
+                    where: {
+                        OR: [
+                            { id: meeting.id },
+                            {
+                                seriesId: meeting.seriesId,
+                                status: {
+                                    in: [
+                                        MeetingStatus.SCHEDULED,
+                                        MeetingStatus.ACTIVE,
+                                    ],
+                                },
+                            },
+                        ],
+                    },
+                    data,
+                }),
+            ])
+        } else {
+            await prisma.meeting.update({ where: { id: meeting.id }, data })
+        }
+
+        return this.getAccessSettings(meetingId, userId)
+    },
+}
@@ -0,0 +1,236 @@
+/**
+ * actionItemService
+ *
+ * Tracks summary action items as ActionItem rows so they can be
+ * updated, completed and listed across meetings.
+ * Rows are synced from Summary.actionItems each time a summary is generated,
+ * edited or a revision is accepted;
+ * assignees are resolved to users through the meeting's participants.
+ */
+
+import prisma from '../../../../lib/prisma'
+import type { ActionItem } from '../../../../app/generated/prisma'
+import type { SummaryActionItem } from './summaryTemplates'
+
+export interface UpdateActionItemDTO {
+    task?: string
+    assigneeId?: string | null
+    assigneeName?: string | null
+    dueDate?: Date | null
+    completed?: boolean
+}
+
+/**
+ * A summary action item; id is the tracked row it was edited from
+ */
+export type ActionItemInput = SummaryActionItem & { id?: string }
+
+/**
+ * Normalize a task for matching items across summary regenerations
+ */
+function normalizeTask(task: string): string {
+    return task.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Parse an LLM-provided due date, ignoring values that are not dates
+ */
+function parseDueDate(value?: string): Date | null {
+    if (!value) return null
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+}
+
+export const actionItemService = {
+    /**
+     * Sync the tracked action items of a summary with its saved or freshly
+     * generated ones. Rows are matched by id (items from the summary editor),
+     * then by task text, and updated in place so their ids and hand-set
+     * assignees and due dates survive; unmatched rows are removed.
+     * Completion state is kept for matched items, unless the items were
+     * edited by hand (editedById set) - then theirs wins
+     */
+    async syncFromSummary(
+        summaryId: string,
+        meetingId: string,
+        items: ActionItemInput[],
+        options: { editedById?: string | null } = {}
+    ) {
+        const [existing, participants] = await Promise.all([
+            prisma.actionItem.findMany({ where: { summaryId } }),
+            prisma.meetingParticipant.findMany({
+                where: { meetingId, userId: { not: null } },
+                select: { userId: true, displayName: true, email: true },
+            }),
+        ])
+
+        const byId = new Map(existing.map((item) => [item.id, item]))
+        const byTask = new Map(
+            existing.map((item) => [normalizeTask(item.task), item])
+        )
+        const matched = new Set<string>()
+        const claim = (row?: ActionItem) => {
+            if (!row || matched.has(row.id)) return undefined
+            matched.add(row.id)
+            return row
+        }
+
+        const rows = items.map((item, index) => {
+            const match =
+                claim(item.id ? byId.get(item.id) : undefined) ??
+                claim(byTask.get(normalizeTask(item.task)))
+            const completed = options.editedById
+                ? (item.completed ?? match?.completed ?? false)
+                : (match?.completed ?? item.completed ?? false)
+            const stillCompleted = completed && match?.completed
+            const assigneeName = item.assignee || null
+            const dueDate = parseDueDate(item.dueDate)
+
+            return {
+                id: match?.id,
+                data: {
+                    task: item.task,
+                    position: index,
+                    assigneeName,
+                    // A user picked for the same name stays assigned
+                    assigneeId:
+                        match && match.assigneeName === assigneeName
+                            ? match.assigneeId
+                            : this.resolveAssignee(item.assignee, participants),
+                    // The editor shows the row's due date; a regeneration
+                    // keeps the tracked one
+                    dueDate: options.editedById
+                        ? dueDate
+                        : (match?.dueDate ?? dueDate),
+                    completed,
+                    completedAt: completed
+                        ? stillCompleted
+                            ? match.completedAt
+                            : new Date()
+                        : null,
+                    completedById: completed
+                        ? stillCompleted
+                            ? match.completedById
+                            : (options.editedById ?? null)
+                        : null,
+                },
+            }
+        })
+
+        await prisma.$transaction([
+            prisma.actionItem.deleteMany({
+                where: { summaryId, id: { notIn: [...matched] } },
+            }),
+            ...rows.map(({ id, data }) =>
+                id
+                    ? prisma.actionItem.update({ where: { id }, data })
+                    : prisma.actionItem.create({
+                          data: { ...data, summaryId, meetingId },
+                      })
+            ),
+        ])
+
+        console.log(
+            `[actionItemService] Synced ${rows.length} action items for summary ${summaryId}`
+        )
+    },
+
+    /**
+     * Resolve an assignee name from the summary to a participant's user id
+     * Matches display name or email first, then a unique first-name match
+     */
+    resolveAssignee(
+        name: string | undefined,
+        participants: {
+            userId: string | null
+            displayName: string
+            email: string | null
+        }[]
+    ): string | null {
+        if (!name) return null
+        const wanted = name.trim().toLowerCase()
+        if (!wanted) return null
+
+        const exact = participants.find(
+            (p) =>
+                p.displayName.trim().toLowerCase() === wanted ||
+                p.email?.toLowerCase() === wanted
+        )
+        if (exact) return exact.userId
+
+        const firstName = wanted.split(/\s+/)[0]
+        const byFirstName = participants.filter(
+            (p) => p.displayName.trim().toLowerCase().split(/\s+/)[0] === firstName
+        )
+        return byFirstName.length === 1 ? byFirstName[0].userId : null
+    },
+
+    /**
+     * Get action items for a meeting in summary order
+     */
+    async getActionItemsByMeeting(meetingId: string) {
+        return prisma.actionItem.findMany({
+            where: { meetingId },
+            include: {
+                assignee: {
+                    select: { id: true, name: true, email: true, image: true },
+                },
+            },
+            orderBy: { position: 'asc' },
+        })
+    },
+
+    /**
+     * Get a single action item
+     */
+    async getActionItemById(actionItemId: string) {
+        return prisma.actionItem.findUnique({
+            where: { id: actionItemId },
+        })
+    },
+
+    /**
+     * Update an action item
+     * Setting completed records who completed it and when
+     */
+    async updateActionItem(
+        actionItemId: string,
+        dto: UpdateActionItemDTO,
+        userId?: string
+    ) {
+        return prisma.actionItem.update({
+            where: { id: actionItemId },
+            data: {
+                ...(dto.task !== undefined && { task: dto.task }),
+                ...(dto.assigneeId !== undefined && {
+                    assigneeId: dto.assigneeId,
+                }),
+                ...(dto.assigneeName !== undefined && {
+                    assigneeName: dto.assigneeName,
+                }),
+                ...(dto.dueDate !== undefined && { dueDate: dto.dueDate }),
+                ...(dto.completed !== undefined && {
+                    completed: dto.completed,
+                    completedAt: dto.completed ? new Date() : null,
+                    completedById: dto.completed ? (userId ?? null) : null,
+                }),
+            },
+            include: {
+                assignee: {
+                    select: { id: true, name: true, email: true, image: true },
+                },
+            },
+        })
+    },
+
+    /**
+     * Mark an action item as completed (or reopen it)
+     */
+    async completeActionItem(
+        actionItemId: string,
+        userId?: string,
+        completed = true
+    ) {
+        return this.updateActionItem(actionItemId, { completed }, userId)
+    },
+}
@@ -0,0 +1,316 @@
+/**
+ * calendarService
+ *
+ * iCalendar (RFC 5545) export of scheduled meetings:
+ * - an invite per meeting: METHOD:REQUEST while it is scheduled, METHOD:CANCEL
+ *   once processMeetingCancelled has run. Meeting.icsSequence is the SEQUENCE,
+ *   so calendar clients apply a re-downloaded invite as an update of the event
+ *   they already have instead of adding a second one.
+ * - a per-user feed of upcoming meetings behind a secret token (CalendarFeed),
+ *   for calendar apps that subscribe by URL and cannot send a session cookie.
+ *
+ * The UID of every event is derived from the meeting id, so an imported invite
+ * and the same meeting in the feed are one event for the calendar client.
+ */
+
+import { randomBytes } from 'crypto'
+import prisma from '../../../../lib/prisma'
+import { MeetingStatus } from '../../../../app/generated/prisma'
+import { historyService } from './historyService'
+import { DEFAULT_MEETING_DURATION, getJoinPath } from './schedulingService'
+
+export const MAX_FEED_EVENTS = 200
+
+const PRODUCT_ID = '-//Meeta//Scheduled Meetings//EN'
+const FEED_NAME = 'Meeta meetings'
+const MAX_LINE_OCTETS = 75
+
+/**
+ * Error codes for calendar operations
+ */
+export const CalendarErrorCodes = {
+    MEETING_NOT_FOUND: 'MEETING_NOT_FOUND',
+    NOT_SCHEDULED: 'NOT_SCHEDULED',
+} as const
+
+export type CalendarErrorCode =
+    (typeof CalendarErrorCodes)[keyof typeof CalendarErrorCodes]
+
+export type CalendarMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL'
+
+export type MeetingInviteResult =
+    | { success: true; ics: string; filename: string; method: CalendarMethod }
+    | { success: false; error: string; errorCode: CalendarErrorCode }
+
+const CALENDAR_EVENT_SELECT = {
+    id: true,
+    title: true,
+    description: true,
+    roomName: true,
+    status: true,
+    scheduledAt: true,
+    plannedDuration: true,
+    icsSequence: true,
+    updatedAt: true,
+    host: { select: { name: true, email: true } },
+    invitees: {
+        select: { email: true, name: true },
+        orderBy: { createdAt: 'asc' as const },
+    },
+} as const
+
+type CalendarEventRow = {
+    id: string
+    title: string
+    description: string | null
+    roomName: string
+    status: MeetingStatus
+    scheduledAt: Date | null
+    plannedDuration: number | null
+    icsSequence: number
+    updatedAt: Date
+    host: { name: string; email: string } | null
+    invitees: { email: string; name: string | null }[]
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Quote a parameter value such as CN; DQUOTE is not allowed inside it
+ */
+function quoteParam(value: string): string {
+    return `"${value.replace(/["\r\n]/g, '')}"`
+}
+
+/**
+ * UTC DATE-TIME, e.g. 20260105T090000Z
+ */
+function formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space
+ */
+function foldLine(line: string): string {
+    const parts: string[] = []
+    let current = ''
+    let octets = 0
+    for (const char of line) {
+        const size = Buffer.byteLength(char)
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+        if (octets + size > limit) {
+            parts.push(current)
+            current = ''
+            octets = 0
+        }
+        current += char
+        octets += size
+    }
+    parts.push(current)
+    return parts.join('\r\n ')
+}
+
+function mailto(email: string, name: string | null | undefined, params: string[] = []): string {
+    const cn = name ? [`CN=${quoteParam(name)}`] : []
+    return [...cn, ...params].map((param) => `;${param}`).join('') + `:mailto:${email}`
+}
+
+function buildEvent(meeting: CalendarEventRow, origin: string, stamp: Date): string[] {
+    const startsAt = meeting.scheduledAt!
+    const endsAt = new Date(
+        startsAt.getTime() + (meeting.plannedDuration ?? DEFAULT_MEETING_DURATION) * 60 * 1000
+    )
+    const joinUrl = new URL(getJoinPath(meeting.roomName), origin).toString()
+    const description = [meeting.description, `Join: ${joinUrl}`].filter(Boolean).join('\n\n')
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:${meeting.id}@meeta`,
+        `SEQUENCE:${meeting.icsSequence}`,
+        `DTSTAMP:${formatDateTime(stamp)}`,
+        `LAST-MODIFIED:${formatDateTime(meeting.updatedAt)}`,
+        `DTSTART:${formatDateTime(startsAt)}`,
+        `DTEND:${formatDateTime(endsAt)}`,
+        `SUMMARY:${escapeText(meeting.title)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `LOCATION:${escapeText(joinUrl)}`,
+        `URL:${joinUrl}`,
+        `STATUS:${meeting.status === MeetingStatus.CANCELLED ? 'CANCELLED' : 'CONFIRMED'}`,
+        ...(meeting.host ? [`ORGANIZER${mailto(meeting.host.email, meeting.host.name)}`] : []),
+        ...meeting.invitees.map(
+            (invitee) =>
+                `ATTENDEE${mailto(invitee.email, invitee.name, [
+                    'ROLE=REQ-PARTICIPANT',
+                    'PARTSTAT=NEEDS-ACTION',
+                    'RSVP=FALSE',
+                ])}`
+        ),
+        'END:VEVENT',
+    ]
+}
+
+/**
+ * Serialize events to a VCALENDAR document with CRLF line endings
+ */
+function buildCalendar(
+    meetings: CalendarEventRow[],
+    origin: string,
+    method: CalendarMethod,
+    name?: string
+): string {
+    const stamp = new Date()
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        `METHOD:${method}`,
+        ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+        ...meetings.flatMap((meeting) => buildEvent(meeting, origin, stamp)),
+        'END:VCALENDAR',
+    ]
+    return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Download name for a meeting's invite
+ */
+function inviteFilename(title: string): string {
+    const slug = title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60)
+    return `${slug || 'meeting'}.ics`
+}
+
+function generateFeedToken(): string {
+    return randomBytes(32).toString('base64url')
+}
+
+export const calendarService = {
+    /**
+     * Invite for one scheduled meeting, visible to its host, participants and invitees
+     * Cancelled meetings produce a METHOD:CANCEL invite that removes the event
+     */
+    async getMeetingInvite(
+        meetingId: string,
+        userId: string,
+        origin: string
+    ): Promise<MeetingInviteResult> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true },
+        })
+
+        const meeting = await prisma.meeting.findFirst({
+            where: {
+                id: meetingId,
+                OR: [
+                    { hostId: userId },
+                    { participants: { some: { userId } } },
+                    { invitees: { some: { userId } } },
+                    ...(user ? [{ invitees: { some: { email: user.email.toLowerCase() } } }] : []),
+                ],
+            },
+            select: CALENDAR_EVENT_SELECT,
+        })
+
+        if (!meeting) {
+            return {
+                success: false,
+                error: 'Meeting not found',
+                errorCode: CalendarErrorCodes.MEETING_NOT_FOUND,
+            }
+        }
+
+        if (!meeting.scheduledAt) {
+            return {
+                success: false,
+                error: 'Meeting has no scheduled time',
+                errorCode: CalendarErrorCodes.NOT_SCHEDULED,
+            }
+        }
+
+        const method: CalendarMethod =
+            meeting.status === MeetingStatus.CANCELLED ? 'CANCEL' : 'REQUEST'
+
+        return {
+            success: true,
+            ics: buildCalendar([meeting], origin, method),
+            filename: inviteFilename(meeting.title),
+            method,
+        }
+    },
+
+    /**
+     * The user's feed token, or null while the feed is off
+     */
+    async getFeedToken(userId: string): Promise<string | null> {
+        const feed = await prisma.calendarFeed.findUnique({
+            where: { userId },
+            select: { token: true },
+        })
+        return feed?.token ?? null
+    },
+
+    /**
+     * Turn the feed on, or replace its token; subscriptions with the old URL stop working
+     */
+    async rotateFeedToken(userId: string): Promise<string> {
+        const token = generateFeedToken()
+        await prisma.calendarFeed.upsert({
+            where: { userId },
+            update: { token, lastAccessedAt: null },
+            create: { userId, token },
+        })
+        return token
+    },
+
+    /**
+     * Turn the user's feed off
+     */
+    async revokeFeed(userId: string): Promise<void> {
+        await prisma.calendarFeed.deleteMany({ where: { userId } })
+    },
+
+    /**
+     * Feed of the token owner's upcoming meetings, or null for an unknown token
+     */
+    async getFeedCalendar(token: string, origin: string): Promise<string | null> {
+        const feed = await prisma.calendarFeed.findUnique({
+            where: { token },
+            select: { id: true, userId: true },
+        })
+        if (!feed) return null
+
+        const upcoming = await historyService.getUpcomingMeetings(feed.userId, MAX_FEED_EVENTS)
+        const meetings = await prisma.meeting.findMany({
+            where: { id: { in: upcoming.map((meeting) => meeting.id) } },
+            select: CALENDAR_EVENT_SELECT,
+            orderBy: { scheduledAt: 'asc' },
+        })
+
+        await prisma.calendarFeed.update({
+            where: { id: feed.id },
+            data: { lastAccessedAt: new Date() },
+        })
+
+        return buildCalendar(meetings, origin, 'PUBLISH', FEED_NAME)
+    },
+}
@@ -0,0 +1,153 @@
+/**
+ * chatRecordService
+ *
+ * Persists in-meeting chat. Messages travel over the Jitsi conference
+ * (sendTextMessage / sendPrivateTextMessage); the sending client emits a
+ * chat.message.sent event, so every message is stored once, by its sender.
+ *
+ * Private messages are only returned to their sender: the recipient is known
+ * by Jitsi participant ID, which is not linked to a user.
+ */
+
+import prisma from '../../../../lib/prisma'
+import type {
+    SerializableEvent,
+    EventProcessingResult,
+    ChatMessageSentPayload,
+} from './types'
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000
+
+export interface ChatHistoryMessage {
+    id: string
+    messageId: string
+    senderJitsiId: string
+    senderName: string
+    senderUserId: string | null
+    isPrivate: boolean
+    recipientJitsiId: string | null
+    recipientName: string | null
+    text: string
+    sentAt: Date
+}
+
+const CHAT_MESSAGE_SELECT = {
+    id: true,
+    messageId: true,
+    senderJitsiId: true,
+    senderName: true,
+    senderUserId: true,
+    isPrivate: true,
+    recipientJitsiId: true,
+    recipientName: true,
+    text: true,
+    sentAt: true,
+} as const
+
+export const chatRecordService = {
+    /**
+     * Handle chat events
+     */
+    async handleEvent(event: SerializableEvent): Promise<EventProcessingResult> {
+        switch (event.type) {
+            case 'chat.message.sent':
+                return this.handleMessageSent(event)
+            default:
+                return {
+                    success: false,
+                    eventId: event.eventId,
+                    eventType: event.type,
+                    error: `Unknown chat event type: ${event.type}`,
+                }
+        }
+    },
+
+    /**
+     * Store a sent message (idempotent on messageId)
+     */
+    async handleMessageSent(event: SerializableEvent): Promise<EventProcessingResult> {
+        const payload = event.payload as ChatMessageSentPayload
+        const text = typeof payload.text === 'string' ? payload.text.trim() : ''
+
+        if (!payload.messageId || !payload.sender?.id || !text) {
+            return {
+                success: false,
+                eventId: event.eventId,
+                eventType: event.type,
+                error: 'Invalid chat payload: messageId, sender and text are required',
+            }
+        }
+
+        const meetingId = await this.resolveMeetingId(payload.meetingId)
+        if (!meetingId) {
+            return {
+                success: false,
+                eventId: event.eventId,
+                eventType: event.type,
+                error: `Meeting not found for roomName: ${payload.meetingId}`,
+            }
+        }
+
+        const sentAt = new Date(payload.timestamp)
+
+        await prisma.chatMessage.upsert({
+            where: {
+                meetingId_messageId: { meetingId, messageId: payload.messageId },
+            },
+            create: {
+                meetingId,
+                messageId: payload.messageId,
+                senderJitsiId: payload.sender.id,
+                senderName: payload.sender.displayName || 'Guest',
+                senderUserId: payload.sender.userId || null,
+                isPrivate: !!payload.recipient,
+                recipientJitsiId: payload.recipient?.id ?? null,
+                recipientName: payload.recipient?.displayName ?? null,
+                text: text.slice(0, MAX_CHAT_MESSAGE_LENGTH),
+                sentAt: isNaN(sentAt.getTime()) ? new Date(event.timestamp) : sentAt,
+            },
+            update: {},
+        })
+
+        return {
+            success: true,
+            eventId: event.eventId,
+            eventType: event.type,
+        }
+    },
+
+    /**
+     * Messages of a meeting visible to a user, oldest first
+     */
+    async getMessages(meetingId: string, viewerUserId: string): Promise<ChatHistoryMessage[]> {
+        return prisma.chatMessage.findMany({
+            where: {
+                meetingId,
+                OR: [{ isPrivate: false }, { senderUserId: viewerUserId }],
+            },
+            orderBy: { sentAt: 'asc' },
+            select: CHAT_MESSAGE_SELECT,
+        })
+    },
+
+    /**
+     * Resolve the database meeting ID from a roomName
+     * Ended meetings are included: events are batched and may arrive late.
+     * Occurrences of a recurring series share a roomName, so the running
+     * meeting wins, then the one that started last.
+     */
+    async resolveMeetingId(roomName: string): Promise<string | null> {
+        if (!roomName) return null
+
+        const meeting = await prisma.meeting.findFirst({
+            where: {
+                roomName,
+                status: { in: ['ACTIVE', 'ENDED'] },
+            },
+            select: { id: true },
+            orderBy: [{ endedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+        })
+
+        return meeting?.id || null
+    },
+}
@@ -0,0 +1,242 @@
+/**
+ * embeddingIndexService
+ *
+ * Embedding index over transcript windows (TranscriptEmbedding) for semantic
+ * search and meeting Q&A (meetingQaService).
+ *
+ * A window is a run of consecutive final segments, overlapping its
+ * neighbour by one segment so an exchange split across windows is still
+ * retrievable. Meetings are (re)indexed by a background job once their
+ * transcript is compiled, or on demand when a question is asked.
+ *
+ * Similarity is computed in Postgres: with pgvector (EMBEDDING_PGVECTOR=true)
+ * the stored arrays are cast to vectors, otherwise cosine similarity is
+ * computed over the double precision[] columns directly.
+ */
+
+import { embedMany } from 'ai'
+import prisma from '../../../../lib/prisma'
+import { Prisma, TranscriptStatus } from '../../../../app/generated/prisma'
+import { embeddingProviderService } from './embeddingProviderService'
+import { jobQueueService, type JobType } from './jobQueueService'
+
+const WINDOW_MAX_SEGMENTS = parseInt(process.env.EMBEDDING_WINDOW_SEGMENTS || '6', 10)
+const WINDOW_MAX_CHARS = parseInt(process.env.EMBEDDING_WINDOW_MAX_CHARS || '1500', 10)
+const USE_PGVECTOR = process.env.EMBEDDING_PGVECTOR === 'true'
+
+export const EMBEDDING_JOB_TYPE: JobType = 'transcript.embed'
+
+export interface EmbeddingJobPayload {
+    meetingId: string
+}
+
+export interface TranscriptWindow {
+    position: number
+    segmentIds: string[]
+    text: string
+    startTime: number | null
+    endTime: number | null
+}
+
+export interface IndexMeetingResult {
+    success: boolean
+    windows: number
+    model?: string
+    error?: string
+}
+
+export interface SimilarWindow {
+    id: string
+    meetingId: string
+    position: number
+    segmentIds: string[]
+    text: string
+    startTime: number | null
+    endTime: number | null
+    similarity: number
+}
+
+interface WindowSegment {
+    id: string
+    speakerId: number
+    speakerName: string | null
+    text: string
+    startTime: number | null
+    endTime: number | null
+}
+
+export const embeddingIndexService = {
+    /**
+     * Split final segments into overlapping windows of "Speaker: text" lines
+     */
+    buildWindows(segments: WindowSegment[]): TranscriptWindow[] {
+        const windows: TranscriptWindow[] = []
+        let start = 0
+
+        while (start < segments.length) {
+            const lines: string[] = []
+            let chars = 0
+            let end = start
+
+            // Always take at least one segment, however long
+            while (
+                end < segments.length &&
+                end - start < WINDOW_MAX_SEGMENTS &&
+                (end === start || chars + segments[end].text.length <= WINDOW_MAX_CHARS)
+            ) {
+                const segment = segments[end]
+                const line = `${segment.speakerName || `Speaker ${segment.speakerId}`}: ${segment.text.trim()}`
+                lines.push(line)
+                chars += line.length
+                end++
+            }
+
+            const included = segments.slice(start, end)
+            windows.push({
+                position: windows.length,
+                segmentIds: included.map((segment) => segment.id),
+                text: lines.join('\n'),
+                startTime: included[0].startTime,
+                endTime: included[included.length - 1].endTime,
+            })
+
+            if (end >= segments.length) break
+            // Overlap by one segment when the window holds more than one
+            start = end - start > 1 ? end - 1 : end
+        }
+
+        return windows
+    },
+
+    /**
+     * Embed a meeting's transcript, replacing its previous index
+     */
+    async indexMeeting(
+        meetingId: string,
+        options: { abortSignal?: AbortSignal } = {}
+    ): Promise<IndexMeetingResult> {
+        let embedding: ReturnType<typeof embeddingProviderService.resolve>
+        try {
+            embedding = embeddingProviderService.resolve()
+        } catch (error) {
+            return {
+                success: false,
+                windows: 0,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }
+        }
+
+        const transcript = await prisma.transcript.findUnique({
+            where: { meetingId },
+            include: {
+                segments: {
+                    where: { isFinal: true },
+                    orderBy: { receivedAt: 'asc' },
+                },
+            },
+        })
+
+        if (!transcript || transcript.segments.length === 0) {
+            return { success: false, windows: 0, error: 'Transcript has no segments' }
+        }
+
+        const windows = this.buildWindows(transcript.segments)
+        const { embeddings } = await embedMany({
+            model: embedding.model,
+            values: windows.map((window) => window.text),
+            abortSignal: options.abortSignal,
+        })
+
+        await prisma.$transaction([
+            prisma.transcriptEmbedding.deleteMany({ where: { meetingId } }),
+            prisma.transcriptEmbedding.createMany({
+                data: windows.map((window, index) => ({
+                    meetingId,
+                    ...window,
+                    model: embedding.label,
+                    dimensions: embeddings[index].length,
+                    embedding: embeddings[index],
+                })),
+            }),
+        ])
+
+        console.log(
+            `[embeddingIndexService] Indexed ${windows.length} windows for meeting ${meetingId} with ${embedding.label}`
+        )
+
+        return { success: true, windows: windows.length, model: embedding.label }
+    },
+
+    /**
+     * Queue (re)indexing of a meeting as a background job
+     * No-op when no embedding provider is configured
+     */
+    async enqueueIndexing(meetingId: string) {
+        if (!embeddingProviderService.isConfigured()) return null
+
+        const payload: EmbeddingJobPayload = { meetingId }
+        const { job } = await jobQueueService.enqueue({
+            type: EMBEDDING_JOB_TYPE,
+            payload: { ...payload },
+            meetingId,
+            dedupeKey: `embed:${meetingId}`,
+        })
+
+        return job
+    },
+
+    /**
+     * Whether a meeting's index is current for the given embedding model
+     * (exists, and was built after the transcript was last compiled)
+     */
+    async isIndexed(meetingId: string, model: string): Promise<boolean> {
+        const [latest, transcript] = await Promise.all([
+            prisma.transcriptEmbedding.findFirst({
+                where: { meetingId, model },
+                orderBy: { createdAt: 'desc' },
+                select: { createdAt: true },
+            }),
+            prisma.transcript.findUnique({
+                where: { meetingId },
+                select: { status: true, updatedAt: true },
+            }),
+        ])
+
+        if (!latest) return false
+        if (transcript?.status !== TranscriptStatus.COMPLETED) return true
+        return latest.createdAt >= transcript.updatedAt
+    },
+
+    /**
+     * Windows of the given meetings most similar to a query vector
+     */
+    async findSimilar(
+        vector: number[],
+        model: string,
+        meetingIds: string[],
+        limit: number
+    ): Promise<SimilarWindow[]> {
+        if (meetingIds.length === 0) return []
+
+        const similarity = USE_PGVECTOR
+            ? Prisma.sql`1 - (e."embedding"::vector <=> ${`[${vector.join(',')}]`}::vector)`
+            : Prisma.sql`(
+                SELECT sum(a * b) / nullif(sqrt(sum(a * a)) * sqrt(sum(b * b)), 0)
+                FROM unnest(e."embedding", ${vector}::float8[]) AS v(a, b)
+            )`
+
+        return prisma.$queryRaw<SimilarWindow[]>`
+            SELECT * FROM (
+                SELECT e."id", e."meetingId", e."position", e."segmentIds", e."text",
+                       e."startTime", e."endTime", (${similarity})::float8 AS similarity
+                FROM "TranscriptEmbedding" e
+                WHERE e."meetingId" = ANY(${meetingIds})
+                  AND e."model" = ${model}
+                  AND e."dimensions" = ${vector.length}
+            ) scored
+            WHERE similarity IS NOT NULL
+            ORDER BY similarity DESC
+            LIMIT ${limit}
+        `
+    },
+}
@@ -0,0 +1,143 @@
+/**
+ * embeddingProviderService
+ *
+ * Registry of text embedding providers used for semantic search and
+ * meeting Q&A. Selected per deployment with EMBEDDING_PROVIDER /
+ * EMBEDDING_MODEL, like llmProviderService does for language models.
+ *
+ * Providers:
+ * - gemini: Google Gemini embeddings (GOOGLE_GENERATIVE_AI_API_KEY)
+ * - openai-compatible: any OpenAI-compatible /embeddings endpoint, e.g. Ollama
+ *   (OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_API_KEY)
+ * - stub: offline hashed bag-of-words vectors, for tests and local development;
+ *   unavailable when NODE_ENV=production
+ */
+
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import type { EmbeddingModel } from 'ai'
+
+export const EMBEDDING_PROVIDER_IDS = ['gemini', 'openai-compatible', 'stub'] as const
+
+export type EmbeddingProviderId = (typeof EMBEDDING_PROVIDER_IDS)[number]
+
+export interface ResolvedEmbeddingModel {
+    provider: EmbeddingProviderId
+    modelId: string
+    model: EmbeddingModel<string>
+    /** Value persisted in TranscriptEmbedding.model, e.g. "gemini/gemini-embedding-001" */
+    label: string
+}
+
+interface EmbeddingProviderDefinition {
+    defaultModel: () => string
+    isConfigured: () => boolean
+    createModel: (modelId: string) => EmbeddingModel<string>
+}
+
+const STUB_DIMENSIONS = 256
+
+/**
+ * Deterministic feature-hashed word vector (L2-normalized)
+ * Texts sharing words get similar vectors, which is enough to exercise retrieval offline
+ */
+function stubEmbedding(text: string): number[] {
+    const vector = new Array<number>(STUB_DIMENSIONS).fill(0)
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+    for (const word of words) {
+        let hash = 0
+        for (let i = 0; i < word.length; i++) {
+            hash = (hash << 5) - hash + word.charCodeAt(i)
+            hash |= 0
+        }
+        vector[Math.abs(hash) % STUB_DIMENSIONS] += 1
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map((value) => value / norm) : vector
+}
+
+const EMBEDDING_PROVIDERS: Record<EmbeddingProviderId, EmbeddingProviderDefinition> = {
+    gemini: {
+        defaultModel: () => 'gemini-embedding-001',
+        isConfigured: () => !!process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+        createModel: (modelId) =>
+            createGoogleGenerativeAI({
+                apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+            }).textEmbedding(modelId),
+    },
+    'openai-compatible': {
+        defaultModel: () => 'nomic-embed-text',
+        isConfigured: () => !!process.env.OPENAI_COMPATIBLE_BASE_URL,
+        createModel: (modelId) =>
+            createOpenAICompatible({
+                name: 'openai-compatible',
+                baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL as string,
+                apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+            }).textEmbeddingModel(modelId),
+    },
+    stub: {
+        defaultModel: () => 'stub-hashing',
+        isConfigured: () => process.env.NODE_ENV !== 'production',
+        createModel: (modelId) => ({
+            specificationVersion: 'v2',
+            provider: 'stub',
+            modelId,
+            maxEmbeddingsPerCall: 100,
+            supportsParallelCalls: true,
+            doEmbed: async ({ values }) => ({
+                embeddings: values.map(stubEmbedding),
+            }),
+        }),
+    },
+}
+
+export const embeddingProviderService = {
+    /**
+     * Type guard for provider ids coming from env
+     */
+    isProviderId(value: unknown): value is EmbeddingProviderId {
+        return (
+            typeof value === 'string' &&
+            EMBEDDING_PROVIDER_IDS.includes(value as EmbeddingProviderId)
+        )
+    },
+
+    /**
+     * Deployment provider (EMBEDDING_PROVIDER, falls back to gemini)
+     */
+    getDefaultProvider(): EmbeddingProviderId {
+        const configured = process.env.EMBEDDING_PROVIDER
+        return this.isProviderId(configured) ? configured : 'gemini'
+    },
+
+    /**
+     * Whether the deployment provider has its credentials configured
+     */
+    isConfigured(): boolean {
+        return EMBEDDING_PROVIDERS[this.getDefaultProvider()].isConfigured()
+    },
+
+    /**
+     * Resolve the deployment embedding model
+     * Throws if the provider is missing its configuration
+     */
+    resolve(): ResolvedEmbeddingModel {
+        const provider = this.getDefaultProvider()
+        const definition = EMBEDDING_PROVIDERS[provider]
+
+        if (!definition.isConfigured()) {
+            throw new Error(`Embedding provider '${provider}' is not configured`)
+        }
+
+        const modelId = process.env.EMBEDDING_MODEL || definition.defaultModel()
+
+        return {
+            provider,
+            modelId,
+            model: definition.createModel(modelId),
+            label: `${provider}/${modelId}`,
+        }
+    },
+}
@@ -0,0 +1,478 @@
+/**
+ * eventIngestionService
+ *
+ * Checks client events before /api/meetings/events hands them to
+ * meetingLogService. Events come from the browser, so none of their content
+ * is trusted. An event is accepted when:
+ * 1. it matches the schema of its MeetingDatabaseEvent variant (unknown
+ *    fields are dropped)
+ * 2. it is for the room of the sender's event session (see
+ *    accessPolicyService), in event.meetingId and payload.meetingId
+ * 3. the sender's role may emit its type (EVENT_PERMISSIONS): ending,
+ *    cancelling or scheduling the meeting and switching transcription are
+ *    for the host and co-hosts
+ * 4. every account id in the payload is the sender's own; remote
+ *    participants are reported without one
+ *
+ * Roles in participant events and meeting.started's host are not taken from
+ * the client: only a moderator can report itself as host or co-host, and the
+ * host of a started meeting is the signed-in moderator who started it.
+ */
+
+import { z } from 'zod'
+import { accessPolicyService, type EventSession } from './accessPolicyService'
+import type {
+    MeetingDatabaseEvent,
+    MeetingStartedPayload,
+    MeetingEndedPayload,
+    MeetingScheduledPayload,
+    MeetingCancelledPayload,
+    ParticipantJoinedPayload,
+    ParticipantLeftPayload,
+    ParticipantUpdatedPayload,
+    TrackAddedPayload,
+    TrackRemovedPayload,
+    AudioMuteChangedPayload,
+    VideoMuteChangedPayload,
+    ScreenShareStatusChangedPayload,
+    DominantSpeakerChangedPayload,
+    DisplayNameChangedPayload,
+    RaiseHandUpdated,
+    RecordingStatusChangedPayload,
+    TranscribingStatusChangedPayload,
+    TranscriptionChunkReceivedPayload,
+    ChatMessageSentPayload,
+} from './types'
+
+const MAX_ID_LENGTH = 200
+const MAX_NAME_LENGTH = 200
+const MAX_TEXT_LENGTH = 10000
+
+/**
+ * Error codes for rejected events
+ */
+export const EventIngestionErrorCodes = {
+    INVALID_EVENT: 'INVALID_EVENT',
+    WRONG_MEETING: 'WRONG_MEETING',
+    FORBIDDEN_EVENT: 'FORBIDDEN_EVENT',
+    IDENTITY_MISMATCH: 'IDENTITY_MISMATCH',
+} as const
+
+export type EventIngestionErrorCode =
+    (typeof EventIngestionErrorCodes)[keyof typeof EventIngestionErrorCodes]
+
+export type MeetingEventType = MeetingDatabaseEvent['type']
+
+/**
+ * Who may emit an event type: any participant, or only the host and co-hosts
+ */
+export type EventPermission = 'participant' | 'moderator'
+
+export const EVENT_PERMISSIONS: Record<MeetingEventType, EventPermission> = {
+    'meeting.started': 'participant', // The first participant to join starts it
+    'meeting.ended': 'moderator',
+    'meeting.scheduled': 'moderator',
+    'meeting.cancelled': 'moderator',
+    'participant.joined': 'participant',
+    'participant.left': 'participant',
+    'participant.updated': 'participant',
+    'track.added': 'participant',
+    'track.removed': 'participant',
+    'audio.mute.changed': 'participant',
+    'video.mute.changed': 'participant',
+    'screen.share.started': 'participant',
+    'screen.share.stopped': 'participant',
+    'dominant.speaker.changed': 'participant',
+    'display.name.changed': 'participant',
+    'raise.hand.updated': 'participant',
+    'recording.status.changed': 'participant',
+    'transcription.status.changed': 'moderator', // Stopping it completes the transcript
+    'transcription.chunk.received': 'participant',
+    'chat.message.sent': 'participant',
+}
+
+/**
+ * A client event that passed its schema; meetingId is the room name
+ */
+export type ValidatedMeetingEvent = MeetingDatabaseEvent & { meetingId: string }
+
+export interface EventRejection {
+    success: false
+    error: string
+    errorCode: EventIngestionErrorCode
+}
+
+export type ParseEventResult =
+    { success: true; event: ValidatedMeetingEvent } | EventRejection
+
+export type EventIngestionResult =
+    { success: true; event: MeetingDatabaseEvent } | EventRejection
+
+// ============================================================================
+// Payload schemas (one per MeetingDatabaseEvent variant)
+// ============================================================================
+
+const idSchema = z.string().min(1).max(MAX_ID_LENGTH)
+const nameSchema = z.string().max(MAX_NAME_LENGTH)
+const dateSchema = z.iso.datetime({ offset: true })
+const roleSchema = z.enum(['HOST', 'CO_HOST', 'PARTICIPANT'])
+
+const participantRefSchema = z.object({
+    id: idSchema,
+    displayName: nameSchema,
+    userId: idSchema.optional(),
+})
+
+const meetingStartedPayload: z.ZodType<MeetingStartedPayload> = z.object({
+    meetingId: idSchema,
+    roomName: idSchema,
+    hostUserId: z.string().max(MAX_ID_LENGTH),
+    title: nameSchema.optional(),
+    description: z.string().max(MAX_TEXT_LENGTH).optional(),
+    summaryTemplate: idSchema.optional(),
+    startedAt: dateSchema,
+})
+
+const meetingEndedPayload: z.ZodType<MeetingEndedPayload> = z.object({
+    meetingId: idSchema,
+    endedAt: dateSchema,
+    duration: z.number().nonnegative().optional(),
+})
+
+const meetingScheduledPayload: z.ZodType<MeetingScheduledPayload> = z.object({
+    meetingId: idSchema,
+    roomName: idSchema,
+    hostUserId: z.string().max(MAX_ID_LENGTH),
+    title: nameSchema,
+    description: z.string().max(MAX_TEXT_LENGTH).optional(),
+    summaryTemplate: idSchema.optional(),
+    scheduledAt: dateSchema,
+})
+
+const meetingCancelledPayload: z.ZodType<MeetingCancelledPayload> = z.object({
+    meetingId: idSchema,
+    cancelledAt: dateSchema,
+    reason: z.string().max(MAX_TEXT_LENGTH).optional(),
+})
+
+const participantJoinedPayload: z.ZodType<ParticipantJoinedPayload> = z.object({
+    meetingId: idSchema,
+    participantId: idSchema,
+    userId: idSchema.optional(),
+    displayName: nameSchema,
+    email: z.string().max(320).optional(),
+    role: roleSchema.optional(),
+    joinedAt: dateSchema,
+})
+
+const participantLeftPayload: z.ZodType<ParticipantLeftPayload> = z.object({
+    meetingId: idSchema,
+    participantId: idSchema,
+    userId: idSchema.optional(),
+    leftAt: dateSchema,
+})
+
+const participantUpdatedPayload: z.ZodType<ParticipantUpdatedPayload> =
+    z.object({
+        meetingId: idSchema,
+        participantId: idSchema,
+        displayName: nameSchema.optional(),
+        role: roleSchema.optional(),
+        speakerId: z.number().int().nonnegative().optional(),
+    })
+
+const trackAddedPayload: z.ZodType<TrackAddedPayload> = z.object({
+    meetingId: idSchema,
+    participantId: idSchema,
+    trackId: idSchema,
+    kind: z.enum(['audio', 'video']),
+    createdAt: dateSchema,
+})
+
+const trackRemovedPayload: z.ZodType<TrackRemovedPayload> = z.object({
+    meetingId: idSchema,
+    participantId: idSchema,
+    trackId: idSchema,
+    removedAt: dateSchema,
+})
+
+const muteChangedPayload: z.ZodType<
+    AudioMuteChangedPayload & VideoMuteChangedPayload
+> = z.object({
+    meetingId: idSchema,
+    participantId: idSchema,
+    muted: z.boolean(),
+    timestamp: dateSchema,
+})
+
+const screenSharePayload: z.ZodType<ScreenShareStatusChangedPayload> = z.object(
+    {
+        meetingId: idSchema,
+        participantId: idSchema,
+        on: z.boolean(),
+        sourceType: z.string().max(50).optional(),
+        timestamp: dateSchema,
+    }
+)
+
+const dominantSpeakerPayload: z.ZodType<DominantSpeakerChangedPayload> =
+    z.object({
+        meetingId: idSchema,
+        participantId: idSchema,
+        timestamp: dateSchema,
+    })
+
+const displayNamePayload: z.ZodType<DisplayNameChangedPayload> = z.object({
+    meetingId: idSchema,
+    participantId: idSchema,
+    displayName: nameSchema,
+    timestamp: dateSchema,
+})
+
+const raiseHandPayload: z.ZodType<RaiseHandUpdated> = z.object({
+    meetingId: idSchema,
+    participantId: idSchema,
+    handRaised: z.number().nonnegative(),
+    timestamp: dateSchema,
+})
+
+const recordingStatusPayload: z.ZodType<RecordingStatusChangedPayload> =
+    z.object({
+        meetingId: idSchema,
+        on: z.boolean(),
+        mode: z.string().max(50),
+        error: z.string().max(500).optional(),
+        transcription: z.boolean(),
+        timestamp: dateSchema,
+    })
+
+const transcribingStatusPayload: z.ZodType<TranscribingStatusChangedPayload> =
+    z.object({
+        meetingId: idSchema,
+        on: z.boolean(),
+        timestamp: dateSchema,
+    })
+
+const transcriptionChunkPayload: z.ZodType<TranscriptionChunkReceivedPayload> =
+    z.object({
+        meetingId: idSchema,
+        language: z.string().max(50),
+        messageID: idSchema,
+        participant: participantRefSchema,
+        final: z.string().max(MAX_TEXT_LENGTH),
+        stable: z.string().max(MAX_TEXT_LENGTH),
+        unstable: z.string().max(MAX_TEXT_LENGTH),
+        confidence: z.number().min(0).max(1).optional(),
+        timestamp: dateSchema,
+    })
+
+const chatMessagePayload: z.ZodType<ChatMessageSentPayload> = z.object({
+    meetingId: idSchema,
+    messageId: idSchema,
+    sender: participantRefSchema,
+    recipient: z.object({ id: idSchema, displayName: nameSchema }).optional(),
+    text: z.string().min(1).max(MAX_TEXT_LENGTH), // chatRecordService shortens long messages
+    timestamp: dateSchema,
+})
+
+/**
+ * Envelope of one event type; meetingId (the room name) is required here
+ */
+function eventSchema<T extends MeetingEventType, P>(
+    type: T,
+    payload: z.ZodType<P>
+) {
+    return z.object({
+        eventId: idSchema,
+        type: z.literal(type),
+        payload,
+        timestamp: z.number().int().nonnegative(),
+        meetingId: idSchema,
+    })
+}
+
+const meetingEventSchema = z.discriminatedUnion('type', [
+    eventSchema('meeting.started', meetingStartedPayload),
+    eventSchema('meeting.ended', meetingEndedPayload),
+    eventSchema('meeting.scheduled', meetingScheduledPayload),
+    eventSchema('meeting.cancelled', meetingCancelledPayload),
+    eventSchema('participant.joined', participantJoinedPayload),
+    eventSchema('participant.left', participantLeftPayload),
+    eventSchema('participant.updated', participantUpdatedPayload),
+    eventSchema('track.added', trackAddedPayload),
+    eventSchema('track.removed', trackRemovedPayload),
+    eventSchema('audio.mute.changed', muteChangedPayload),
+    eventSchema('video.mute.changed', muteChangedPayload),
+    eventSchema('screen.share.started', screenSharePayload),
+    eventSchema('screen.share.stopped', screenSharePayload),
+    eventSchema('dominant.speaker.changed', dominantSpeakerPayload),
+    eventSchema('display.name.changed', displayNamePayload),
+    eventSchema('raise.hand.updated', raiseHandPayload),
+    eventSchema('recording.status.changed', recordingStatusPayload),
+    eventSchema('transcription.status.changed', transcribingStatusPayload),
+    eventSchema('transcription.chunk.received', transcriptionChunkPayload),
+    eventSchema('chat.message.sent', chatMessagePayload),
+])
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function reject(
+    errorCode: EventIngestionErrorCode,
+    error: string
+): EventRejection {
+    return { success: false, error, errorCode }
+}
+
+/**
+ * Account ids the sender may put in a payload: its own, or none
+ */
+function isOwnUserId(userId: string | undefined, sender: EventSession) {
+    return userId === undefined || userId === sender.userId
+}
+
+export const eventIngestionService = {
+    /**
+     * Validate an event against the schema of its type
+     */
+    parseEvent(raw: unknown): ParseEventResult {
+        const parsed = meetingEventSchema.safeParse(raw)
+        if (!parsed.success) {
+            const issue = parsed.error.issues[0]
+            const path = issue?.path.join('.')
+            return reject(
+                EventIngestionErrorCodes.INVALID_EVENT,
+                `Invalid event${path ? ` at ${path}` : ''}: ${issue?.message}`
+            )
+        }
+        return {
+            success: true,
+            event: parsed.data as ValidatedMeetingEvent,
+        }
+    },
+
+    /**
+     * The sender of an event session with its current moderator status:
+     * a co-host promoted after joining moderates without rejoining
+     */
+    async resolveSender(session: EventSession): Promise<EventSession> {
+        if (session.isModerator || !session.userId) return session
+
+        const meeting = await accessPolicyService.findRoomMeeting(
+            session.roomName
+        )
+        return {
+            ...session,
+            isModerator:
+                !!meeting &&
+                (await accessPolicyService.isModerator(
+                    meeting,
+                    session.userId
+                )),
+        }
+    },
+
+    /**
+     * Check a validated event against its sender; returns the event to
+     * process, with roles and host taken from the sender
+     */
+    authorizeEvent(
+        event: ValidatedMeetingEvent,
+        sender: EventSession
+    ): EventIngestionResult {
+        if (
+            event.meetingId !== sender.roomName ||
+            event.payload.meetingId !== sender.roomName
+        ) {
+            return reject(
+                EventIngestionErrorCodes.WRONG_MEETING,
+                'Event is not for the meeting you joined'
+            )
+        }
+
+        if (
+            EVENT_PERMISSIONS[event.type] === 'moderator' &&
+            !sender.isModerator
+        ) {
+            return reject(
+                EventIngestionErrorCodes.FORBIDDEN_EVENT,
+                `Only the host or a co-host can send ${event.type}`
+            )
+        }
+
+        const identityMismatch = () =>
+            reject(
+                EventIngestionErrorCodes.IDENTITY_MISMATCH,
+                'Event names an account other than yours'
+            )
+
+        switch (event.type) {
+            case 'meeting.started':
+            case 'meeting.scheduled':
+                return {
+                    success: true,
+                    event: {
+                        ...event,
+                        payload: {
+                            ...event.payload,
+                            roomName: sender.roomName,
+                            hostUserId: sender.isModerator
+                                ? (sender.userId ?? '')
+                                : '',
+                        },
+                    },
+                } as EventIngestionResult
+
+            case 'participant.joined': {
+                const { userId, role } = event.payload
+                if (!isOwnUserId(userId, sender)) return identityMismatch()
+
+                // Only a moderator reporting its own join keeps a moderator role
+                const isOwnJoin = userId !== undefined || !sender.userId
+                const keepsRole =
+                    role === 'PARTICIPANT' || (sender.isModerator && isOwnJoin)
+                return {
+                    success: true,
+                    event: {
+                        ...event,
+                        payload: {
+                            ...event.payload,
+                            role: keepsRole ? role : 'PARTICIPANT',
+                        },
+                    },
+                }
+            }
+
+            case 'participant.left':
+                return isOwnUserId(event.payload.userId, sender)
+                    ? { success: true, event }
+                    : identityMismatch()
+
+            case 'participant.updated':
+                // Promoting participants is for moderators
+                return sender.isModerator
+                    ? { success: true, event }
+                    : {
+                          success: true,
+                          event: {
+                              ...event,
+                              payload: { ...event.payload, role: undefined },
+                          },
+                      }
+
+            case 'transcription.chunk.received':
+                return isOwnUserId(event.payload.participant.userId, sender)
+                    ? { success: true, event }
+                    : identityMismatch()
+
+            case 'chat.message.sent':
+                return isOwnUserId(event.payload.sender.userId, sender)
+                    ? { success: true, event }
+                    : identityMismatch()
+
+            default:
+                return { success: true, event }
+        }
+    },
+}
@@ -2,7 +2,8 @@
  * historyService
  *
  * Retrieves meeting history for users.
- * Provides queries for meetings where user was host or participant.
+ * Provides queries for meetings where user was host or participant,
+ * and for action items assigned to the user across meetings.
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -30,6 +31,7 @@ export interface MeetingHistoryItem {
     endedAt?: Date
     duration?: number
     hostId?: string
+    seriesId?: string // Occurrence of a recurring series
     host?: {
         id: string
         name?: string
@@ -43,6 +45,29 @@ export interface MeetingHistoryItem {
     createdAt: Date
 }
 
+export interface ActionItemHistoryFilters {
+    includeCompleted?: boolean
+    limit?: number
+    offset?: number
+}
+
+export interface UserActionItem {
+    id: string
+    task: string
+    assigneeName?: string
+    dueDate?: Date
+    completed: boolean
+    completedAt?: Date
+    createdAt: Date
+    meeting: {
+        id: string
+        title: string
+        roomName: string
+        startedAt?: Date
+        endedAt?: Date
+    }
+}
+
 export const historyService = {
     /**
      * Get all meetings for a user (as host or participant)
@@ -81,6 +106,11 @@ export const historyService = {
             }
         }
 
+        // Upcoming occurrences of recurring series are only listed when asked for
+        const seriesFilter = status
+            ? {}
+            : { NOT: { status: MeetingStatus.SCHEDULED, seriesId: { not: null } } }
+
         // Query based on role filter
         let meetingsAsHost: any[] = []
         let meetingsAsParticipant: any[] = []
@@ -90,6 +120,7 @@ export const historyService = {
                 where: {
                     hostId: userId,
                     ...(status && { status }),
+                    ...seriesFilter,
                     ...dateFilter,
                 },
                 include: {
@@ -122,6 +153,7 @@ export const historyService = {
                     userId,
                     meeting: {
                         ...(status && { status }),
+                        ...seriesFilter,
                         ...dateFilter,
                     },
                 },
@@ -212,6 +244,7 @@ export const historyService = {
             endedAt: meeting.endedAt,
             duration: meeting.duration,
             hostId: meeting.hostId,
+            seriesId: meeting.seriesId ?? undefined,
             host: meeting.host,
             participantCount: meeting.participantCount,
             userRole: meeting.userRole,
@@ -248,14 +281,73 @@ export const historyService = {
     },
 
     /**
-     * Get upcoming scheduled meetings for user
+     * Get upcoming scheduled meetings for user, soonest first
+     * Includes meetings the user is invited to (by account or email) but has not joined
      */
-    async getUpcomingMeetings(userId: string): Promise<MeetingHistoryItem[]> {
-        return this.getUserMeetings(userId, {
-            status: MeetingStatus.SCHEDULED,
-            startDate: new Date(),
-            role: 'all',
-            limit: 20,
+    async getUpcomingMeetings(userId: string, limit = 20): Promise<MeetingHistoryItem[]> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true },
+        })
+
+        const meetings = await prisma.meeting.findMany({
+            where: {
+                status: MeetingStatus.SCHEDULED,
+                scheduledAt: { gte: new Date() },
+                OR: [
+                    { hostId: userId },
+                    { participants: { some: { userId } } },
+                    { invitees: { some: { userId } } },
+                    ...(user ? [{ invitees: { some: { email: user.email.toLowerCase() } } }] : []),
+                ],
+            },
+            include: {
+                host: {
+                    select: {
+                        id: true,
+                        name: true,
+                        email: true,
+                        image: true,
+                    },
+                },
+                participants: {
+                    select: {
+                        id: true,
+                        userId: true,
+                        role: true,
+                        joinedAt: true,
+                        leftAt: true,
+                    },
+                },
+            },
+            orderBy: { scheduledAt: 'asc' },
+            take: limit,
+        })
+
+        return meetings.map((meeting) => {
+            const participation = meeting.participants.find((p) => p.userId === userId)
+            return {
+                id: meeting.id,
+                roomName: meeting.roomName,
+                title: meeting.title,
+                description: meeting.description ?? undefined,
+                status: meeting.status,
+                scheduledAt: meeting.scheduledAt ?? undefined,
+                startedAt: meeting.startedAt ?? undefined,
+                endedAt: meeting.endedAt ?? undefined,
+                duration: meeting.duration ?? undefined,
+                hostId: meeting.hostId ?? undefined,
+                seriesId: meeting.seriesId ?? undefined,
+                host: meeting.host as MeetingHistoryItem['host'],
+                participantCount: meeting.participants.length,
+                userRole:
+                    meeting.hostId === userId
+                        ? ('HOST' as const)
+                        : (participation?.role ?? ParticipantRole.PARTICIPANT),
+                joinedAt: participation?.joinedAt,
+                leftAt: participation?.leftAt ?? undefined,
+                createdAt: meeting.createdAt,
+            }
         })
     },
 
@@ -338,4 +430,69 @@ export const historyService = {
             scheduledMeetings,
         }
     },
+    /**
+     * Get action items assigned to the user across all meetings
+     * Open items first, oldest due date first
+     */
+    async getUserActionItems(
+        userId: string,
+        filters: ActionItemHistoryFilters = {}
+    ): Promise<UserActionItem[]> {
+        const { includeCompleted = false, limit = 50, offset = 0 } = filters
+
+        const items = await prisma.actionItem.findMany({
+            where: {
+                assigneeId: userId,
+                ...(!includeCompleted && { completed: false }),
+            },
+            include: {
+                meeting: {
+                    select: {
+                        id: true,
+                        title: true,
+                        roomName: true,
+                        startedAt: true,
+                        endedAt: true,
+                    },
+                },
+            },
+            orderBy: [
+                { completed: 'asc' },
+                { dueDate: { sort: 'asc', nulls: 'last' } },
+                { createdAt: 'desc' },
+            ],
+            take: limit,
+            skip: offset,
+        })
+
+        return items.map((item) => ({
+            id: item.id,
+            task: item.task,
+            assigneeName: item.assigneeName ?? undefined,
+            dueDate: item.dueDate ?? undefined,
+            completed: item.completed,
+            completedAt: item.completedAt ?? undefined,
+            createdAt: item.createdAt,
+            meeting: {
+                id: item.meeting.id,
+                title: item.meeting.title,
+                roomName: item.meeting.roomName,
+                startedAt: item.meeting.startedAt ?? undefined,
+                endedAt: item.meeting.endedAt ?? undefined,
+            },
+        }))
+    },
+
+    /**
+     * Get open action items assigned to the user across all meetings
+     */
+    async getUserOpenActionItems(
+        userId: string,
+        options?: { limit?: number; offset?: number }
+    ): Promise<UserActionItem[]> {
+        return this.getUserActionItems(userId, {
+            ...options,
+            includeCompleted: false,
+        })
+    },
 }
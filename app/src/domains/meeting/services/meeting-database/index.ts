@@ -20,6 +20,8 @@ export type {
     MeetingEvent,
     ParticipantEvent,
     TrackEvent,
+    ChatMessageSentPayload,
+    ChatEvent,
     MeetingDatabaseEvent,
     CreateMeetingDTO,
     UpdateMeetingDTO,
@@ -33,6 +35,7 @@ export {
     isMeetingEvent,
     isParticipantEvent,
     isTrackEvent,
+    isChatEvent,
     validateRequiredFields,
 } from './types'
 
@@ -40,7 +43,26 @@ export {
 export { meetingRecordService } from './meetingRecordService'
 export { participantRecordService } from './participantRecordService'
 export { meetingLogService } from './meetingLogService'
-export { historyService } from './historyService'
+export {
+    historyService,
+    type ActionItemHistoryFilters,
+    type UserActionItem,
+} from './historyService'
+export {
+    actionItemService,
+    type ActionItemInput,
+    type UpdateActionItemDTO,
+} from './actionItemService'
+export {
+    searchService,
+    MAX_SEARCH_QUERY_LENGTH,
+    SEARCH_HIGHLIGHT_START,
+    SEARCH_HIGHLIGHT_END,
+    type SearchOptions,
+    type SearchResults,
+    type MeetingSearchResult,
+    type SegmentSearchHit,
+} from './searchService'
 export {
     transcriptRecordService,
     isTranscriptionEvent,
@@ -48,8 +70,232 @@ export {
     type TranscriptErrorCode,
     type TranscriptProcessingResult,
 } from './transcriptRecordService'
+export {
+    schedulingService,
+    getJoinPath,
+    SchedulingErrorCodes,
+    MAX_MEETING_TITLE_LENGTH,
+    MAX_MEETING_DESCRIPTION_LENGTH,
+    MIN_MEETING_DURATION,
+    MAX_MEETING_DURATION,
+    DEFAULT_MEETING_DURATION,
+    MAX_INVITEES,
+    type SchedulingErrorCode,
+    type InviteeInput,
+    type ScheduleMeetingDTO,
+    type UpdateScheduledMeetingDTO,
+    type ScheduledMeeting,
+    type ScheduledMeetingInvitee,
+    type SchedulingResult,
+    type ScheduledMeetingSeries,
+} from './schedulingService'
+export {
+    seriesService,
+    isOccurrenceScope,
+    OCCURRENCE_SCOPES,
+    GENERATION_HORIZON_DAYS,
+    MAX_GENERATED_OCCURRENCES,
+    type OccurrenceScope,
+    type ScheduleSeriesDTO,
+    type UpdateOccurrencesDTO,
+    type SeriesOccurrence,
+    type SeriesDetails,
+} from './seriesService'
+export {
+    parseRecurrenceRule,
+    formatRecurrenceRule,
+    describeRecurrenceRule,
+    expandOccurrences,
+    isValidTimeZone,
+    RECURRENCE_FREQUENCIES,
+    WEEKDAYS,
+    WEEKDAY_LABELS,
+    type RecurrenceFrequency,
+    type RecurrenceRule,
+    type RecurrenceDay,
+    type Weekday,
+} from './recurrenceRule'
+export {
+    calendarService,
+    CalendarErrorCodes,
+    MAX_FEED_EVENTS,
+    type CalendarErrorCode,
+    type CalendarMethod,
+    type MeetingInviteResult,
+} from './calendarService'
+export {
+    accessPolicyService,
+    hashMeetingPassword,
+    AccessErrorCodes,
+    JoinDenialReasons,
+    MEETING_ACCESS_POLICIES,
+    MIN_MEETING_PASSWORD_LENGTH,
+    MAX_MEETING_PASSWORD_LENGTH,
+    ACCESS_GRANT_TTL_SECONDS,
+    EVENT_SESSION_TTL_SECONDS,
+    getEventSessionCookieName,
+    getAccessGrantCookieName,
+    createEventSession,
+    verifyEventSession,
+    type AccessErrorCode,
+    type JoinDenialReason,
+    type AccessSettings,
+    type UpdateAccessSettingsDTO,
+    type AccessSettingsResult,
+    type JoinAccessRequest,
+    type JoinAccessDecision,
+    type EventSession,
+} from './accessPolicyService'
+export {
+    eventIngestionService,
+    EventIngestionErrorCodes,
+    EVENT_PERMISSIONS,
+    type EventIngestionErrorCode,
+    type EventPermission,
+    type MeetingEventType,
+    type ValidatedMeetingEvent,
+    type EventRejection,
+    type ParseEventResult,
+    type EventIngestionResult,
+} from './eventIngestionService'
+export {
+    jitsiTokenService,
+    JitsiTokenErrorCodes,
+    type JitsiTokenErrorCode,
+    type IssueJitsiTokenRequest,
+    type JitsiTokenResult,
+} from './jitsiTokenService'
+export {
+    chatRecordService,
+    MAX_CHAT_MESSAGE_LENGTH,
+    type ChatHistoryMessage,
+} from './chatRecordService'
+export {
+    transcriptStreamService,
+    TRANSCRIPT_STREAM_SEGMENT_SELECT,
+    type TranscriptStreamSegment,
+    type TranscriptStreamEvent,
+    type TranscriptStreamSnapshot,
+    type TranscriptStreamListener,
+} from './transcriptStreamService'
+export {
+    speakerMappingService,
+    SpeakerMappingErrorCodes,
+    MAX_SPEAKER_NAME_LENGTH,
+    type SpeakerMappingErrorCode,
+    type MapSpeakerDTO,
+    type TranscriptSpeaker,
+    type SpeakerMappingResult,
+} from './speakerMappingService'
+export {
+    transcriptEditService,
+    SegmentEditErrorCodes,
+    MAX_SEGMENT_TEXT_LENGTH,
+    type SegmentEditErrorCode,
+    type EditedSegment,
+    type SegmentEditResult,
+} from './transcriptEditService'
+export {
+    TRANSCRIPT_EXPORT_FORMATS,
+    TRANSCRIPT_EXPORT_FORMAT_LABELS,
+    TRANSCRIPT_EXPORT_SCHEMA_VERSION,
+    buildTranscriptExport,
+    renderTranscriptExport,
+    getTranscriptExportFilename,
+    isTranscriptExportFormat,
+    toSrt,
+    toWebVtt,
+    toMarkdown,
+    toPlainText,
+    type TranscriptExportFormat,
+    type TranscriptExportSource,
+    type TranscriptExport,
+    type TranscriptExportSegment,
+    type RenderedTranscriptExport,
+} from './transcriptExport'
 export {
     summaryService,
+    SUMMARY_JOB_TYPE,
+    SummaryErrorCodes,
+    type SummaryErrorCode,
+    type SummaryJobPayload,
+    type SummaryGenerationOptions,
+    type SummaryEditDTO,
+    type SummaryEditField,
+    type SummaryEditResult,
     type SummaryGenerationResult,
     type GeneratedSummary,
 } from './summaryService'
+export {
+    summaryRevisionService,
+    type RecordRevisionOptions,
+} from './summaryRevisionService'
+export {
+    diffSummaries,
+    type SummarySnapshot,
+    type SummaryDiff,
+    type SectionDiff,
+} from './summaryDiff'
+export {
+    SUMMARY_TEMPLATES,
+    SUMMARY_TEMPLATE_IDS,
+    DEFAULT_SUMMARY_TEMPLATE,
+    getSummaryTemplate,
+    getColumnSectionKey,
+    getColumnLabel,
+    getContentSections,
+    isSummaryTemplateId,
+    type SummaryTemplate,
+    type SummaryTemplateId,
+    type SummaryTemplateContent,
+    type SummaryTemplateSection,
+    type SummaryActionItem,
+    type SummaryResource,
+} from './summaryTemplates'
+export {
+    jobQueueService,
+    JOB_TYPES,
+    type JobType,
+    type EnqueueJobDTO,
+    type EnqueueJobResult,
+} from './jobQueueService'
+export {
+    summaryPolicyService,
+    type SummaryPolicy,
+    type UpdateSummaryPolicyDTO,
+    type AutoSummarizeResult,
+    type AutoSummarizeSkipReason,
+} from './summaryPolicyService'
+export {
+    embeddingProviderService,
+    EMBEDDING_PROVIDER_IDS,
+    type EmbeddingProviderId,
+    type ResolvedEmbeddingModel,
+} from './embeddingProviderService'
+export {
+    embeddingIndexService,
+    EMBEDDING_JOB_TYPE,
+    type EmbeddingJobPayload,
+    type TranscriptWindow,
+    type IndexMeetingResult,
+    type SimilarWindow,
+} from './embeddingIndexService'
+export {
+    meetingQaService,
+    parseQaHistory,
+    QaErrorCodes,
+    MAX_QUESTION_LENGTH,
+    type QaErrorCode,
+    type QaHistoryMessage,
+    type AskOptions,
+    type AskResult,
+    type QaSource,
+} from './meetingQaService'
+export { jobWorker, type JobHandlerResult } from './jobWorker'
+export {
+    llmProviderService,
+    LLM_PROVIDER_IDS,
+    type LlmProviderId,
+    type LlmSelection,
+    type LlmProviderInfo,
+} from './llmProviderService'
@@ -0,0 +1,162 @@
+/**
+ * jitsiTokenService
+ *
+ * Short-lived Jitsi JWTs for signed-in users, so Prosody (token auth,
+ * JWT_APP_ID / JWT_APP_SECRET in the Jitsi stack) can require authentication
+ * and the conference knows who each participant is. Tokens are HS256 signed
+ * with the shared app secret and carry:
+ * - room: the one room the token is valid for
+ * - moderator: host (Meeting.hostId) or CO_HOST of the meeting in that room
+ * - context.user: account id, name, avatar and email, which Jitsi reports as
+ *   the participant's identity (and thus the transcript speaker)
+ *
+ * A token is only issued when accessPolicyService.checkJoinAccess allows the
+ * user into the room, so the access policy holds at the XMPP level too.
+ *
+ * Configuration:
+ * - JITSI_JWT_APP_ID / JITSI_JWT_APP_SECRET: must match the Jitsi stack
+ * - JITSI_JWT_AUDIENCE (default 'jitsi'), JITSI_JWT_SUBJECT (default 'meet.jitsi')
+ * - JITSI_JWT_TTL_SECONDS (default 300): Prosody checks the token when the
+ *   connection is made, so it only has to outlive the join
+ */
+
+import { SignJWT } from 'jose'
+import prisma from '../../../../lib/prisma'
+import {
+    accessPolicyService,
+    type JoinAccessRequest,
+    type JoinDenialReason,
+} from './accessPolicyService'
+
+const TOKEN_TTL_SECONDS = parseInt(
+    process.env.JITSI_JWT_TTL_SECONDS || '300',
+    10
+)
+
+/**
+ * Error codes for token issuance
+ */
+export const JitsiTokenErrorCodes = {
+    NOT_CONFIGURED: 'NOT_CONFIGURED',
+    USER_NOT_FOUND: 'USER_NOT_FOUND',
+    ACCESS_DENIED: 'ACCESS_DENIED',
+} as const
+
+export type JitsiTokenErrorCode =
+    (typeof JitsiTokenErrorCodes)[keyof typeof JitsiTokenErrorCodes]
+
+export interface IssueJitsiTokenRequest extends JoinAccessRequest {
+    userId: string // Tokens are only issued to signed-in users
+}
+
+export type JitsiTokenResult =
+    | {
+          success: true
+          token: string
+          expiresAt: string
+          roomName: string
+          isModerator: boolean
+      }
+    | {
+          success: false
+          error: string
+          errorCode: JitsiTokenErrorCode
+          reason?: JoinDenialReason // Set for ACCESS_DENIED
+      }
+
+interface JitsiJwtConfig {
+    appId: string
+    secret: Uint8Array
+    audience: string
+    subject: string
+}
+
+/**
+ * Signing settings, or null while Jitsi token auth is not set up
+ */
+function getJwtConfig(): JitsiJwtConfig | null {
+    const appId = process.env.JITSI_JWT_APP_ID
+    const secret = process.env.JITSI_JWT_APP_SECRET
+    if (!appId || !secret) return null
+
+    return {
+        appId,
+        secret: new TextEncoder().encode(secret),
+        audience: process.env.JITSI_JWT_AUDIENCE || 'jitsi',
+        subject: process.env.JITSI_JWT_SUBJECT || 'meet.jitsi',
+    }
+}
+
+export const jitsiTokenService = {
+    /**
+     * Mint a token for a user to join one room
+     */
+    async issueToken(
+        request: IssueJitsiTokenRequest
+    ): Promise<JitsiTokenResult> {
+        const config = getJwtConfig()
+        if (!config) {
+            return {
+                success: false,
+                error: 'Jitsi token authentication is not configured',
+                errorCode: JitsiTokenErrorCodes.NOT_CONFIGURED,
+            }
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: request.userId },
+            select: { id: true, name: true, email: true, image: true },
+        })
+
+        if (!user) {
+            return {
+                success: false,
+                error: 'User not found',
+                errorCode: JitsiTokenErrorCodes.USER_NOT_FOUND,
+            }
+        }
+
+        const decision = await accessPolicyService.checkJoinAccess(request)
+        if (!decision.allowed) {
+            return {
+                success: false,
+                error: 'You cannot join this meeting',
+                errorCode: JitsiTokenErrorCodes.ACCESS_DENIED,
+                reason: decision.reason,
+            }
+        }
+
+        const issuedAt = Math.floor(Date.now() / 1000)
+        const expiresAt = issuedAt + TOKEN_TTL_SECONDS
+
+        const token = await new SignJWT({
+            room: request.roomName,
+            moderator: decision.isModerator,
+            context: {
+                user: {
+                    id: user.id,
+                    name: user.name,
+                    email: user.email,
+                    ...(user.image && { avatar: user.image }),
+                    moderator: decision.isModerator,
+                },
+            },
+        })
+            .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+            .setIssuer(config.appId)
+            .setAudience(config.audience)
+            .setSubject(config.subject)
+            .setIssuedAt(issuedAt)
+            .setNotBefore(issuedAt - 10) // Small allowance for clock skew with Prosody
+            .setExpirationTime(expiresAt)
+            .sign(config.secret)
+
+        return {
+            success: true,
+            token,
+            expiresAt: new Date(expiresAt * 1000).toISOString(),
+            roomName: request.roomName,
+            isModerator: decision.isModerator,
+        }
+    },
+}
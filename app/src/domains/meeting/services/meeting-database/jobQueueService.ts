@@ -0,0 +1,249 @@
+/**
+ * jobQueueService
+ *
+ * Postgres-backed job queue (Job model). Jobs are claimed with an optimistic
+ * status update so several app instances can poll the same table safely.
+ *
+ * Features:
+ * - Retries with exponential backoff (JOB_BACKOFF_MS * 2^(attempt-1))
+ * - Per-job timeout; RUNNING jobs whose lease outlived the timeout are
+ *   recovered as a failed attempt (worker crashed or was restarted)
+ * - dedupeKey: at most one PENDING/RUNNING job per key; enqueues of a key
+ *   are serialized with a transaction-scoped advisory lock
+ *
+ * Handlers live in jobWorker; this service only persists job state.
+ */
+
+import prisma from '../../../../lib/prisma'
+import { JobStatus, Prisma } from '../../../../app/generated/prisma'
+import type { Job } from '../../../../app/generated/prisma'
+
+export const JOB_TYPES = ['summary.generate', 'transcript.embed'] as const
+
+export type JobType = (typeof JOB_TYPES)[number]
+
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10)
+const BACKOFF_BASE_MS = parseInt(process.env.JOB_BACKOFF_MS || '30000', 10)
+
+// Extra time before a RUNNING job is considered stuck
+const STUCK_GRACE_MS = 60 * 1000
+
+const ACTIVE_STATUSES = [JobStatus.PENDING, JobStatus.RUNNING]
+
+export interface EnqueueJobDTO {
+    type: JobType
+    payload: Prisma.InputJsonValue
+    meetingId?: string
+    dedupeKey?: string
+    maxAttempts?: number
+    timeoutMs?: number
+    runAt?: Date
+}
+
+export interface EnqueueJobResult {
+    job: Job
+    created: boolean // false if an active job with the same dedupeKey was returned
+}
+
+export const jobQueueService = {
+    /**
+     * Add a job to the queue
+     * Returns the existing active job instead if one shares the dedupeKey
+     */
+    async enqueue(dto: EnqueueJobDTO): Promise<EnqueueJobResult> {
+        const result = await prisma.$transaction(async (tx) => {
+            if (dto.dedupeKey) {
+                // Held until commit: a concurrent enqueue of the key waits
+                // here and then sees this job instead of creating another
+                await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${dto.dedupeKey}))`
+
+                const existing = await this.getActiveJob(dto.dedupeKey, tx)
+                if (existing) {
+                    return { job: existing, created: false }
+                }
+            }
+
+            const job = await tx.job.create({
+                data: {
+                    type: dto.type,
+                    payload: dto.payload,
+                    meetingId: dto.meetingId,
+                    dedupeKey: dto.dedupeKey,
+                    maxAttempts: dto.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+                    ...(dto.timeoutMs && { timeoutMs: dto.timeoutMs }),
+                    runAt: dto.runAt ?? new Date(),
+                },
+            })
+            return { job, created: true }
+        })
+
+        if (result.created) {
+            console.log(`[jobQueueService] Enqueued ${result.job.type} job ${result.job.id}`)
+        }
+
+        return result
+    },
+
+    /**
+     * Claim the next runnable job for a worker
+     * Returns null when nothing is due or another worker won the race
+     */
+    async claimNext(workerId: string): Promise<Job | null> {
+        const candidate = await prisma.job.findFirst({
+            where: {
+                status: JobStatus.PENDING,
+                runAt: { lte: new Date() },
+            },
+            orderBy: { runAt: 'asc' },
+            select: { id: true },
+        })
+
+        if (!candidate) return null
+
+        // Only one worker can move the job out of PENDING
+        const claimed = await prisma.job.updateMany({
+            where: { id: candidate.id, status: JobStatus.PENDING },
+            data: {
+                status: JobStatus.RUNNING,
+                attempts: { increment: 1 },
+                lockedAt: new Date(),
+                lockedBy: workerId,
+            },
+        })
+
+        if (claimed.count === 0) return null
+
+        return prisma.job.findUnique({ where: { id: candidate.id } })
+    },
+
+    /**
+     * Lease conditions of a claimed job: still RUNNING, same worker, same attempt
+     * Guards writes from a worker whose job was recovered and claimed again
+     */
+    leaseWhere(job: Job): Prisma.JobWhereInput {
+        return {
+            id: job.id,
+            status: JobStatus.RUNNING,
+            lockedBy: job.lockedBy,
+            attempts: job.attempts,
+        }
+    },
+
+    /**
+     * Mark a running job as completed
+     * Returns false when the lease was lost (the result is discarded)
+     */
+    async markCompleted(job: Job, result?: Prisma.InputJsonValue): Promise<boolean> {
+        const updated = await prisma.job.updateMany({
+            where: this.leaseWhere(job),
+            data: {
+                status: JobStatus.COMPLETED,
+                result,
+                lastError: null,
+                lockedAt: null,
+                lockedBy: null,
+                completedAt: new Date(),
+            },
+        })
+
+        if (updated.count === 0) {
+            console.warn(`[jobQueueService] Job ${job.id} lost its lease, result discarded`)
+            return false
+        }
+
+        return true
+    },
+
+    /**
+     * Record a failed attempt
+     * Reschedules with backoff while attempts remain, otherwise marks FAILED
+     * Returns null when the lease was lost (another worker owns the job now)
+     */
+    async markFailed(job: Job, error: string, retryable = true): Promise<Job | null> {
+        const willRetry = retryable && job.attempts < job.maxAttempts
+
+        const updated = await prisma.job.updateMany({
+            where: this.leaseWhere(job),
+            data: {
+                status: willRetry ? JobStatus.PENDING : JobStatus.FAILED,
+                lastError: error,
+                lockedAt: null,
+                lockedBy: null,
+                ...(willRetry
+                    ? { runAt: new Date(Date.now() + this.getBackoffMs(job.attempts)) }
+                    : { completedAt: new Date() }),
+            },
+        })
+
+        if (updated.count === 0) {
+            console.warn(`[jobQueueService] Job ${job.id} lost its lease, failure not recorded: ${error}`)
+            return null
+        }
+
+        console.warn(
+            `[jobQueueService] Job ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed` +
+                `${willRetry ? ', retrying' : ''}: ${error}`
+        )
+
+        return prisma.job.findUnique({ where: { id: job.id } })
+    },
+
+    /**
+     * Backoff before the next attempt after `attempts` failed attempts
+     */
+    getBackoffMs(attempts: number): number {
+        return BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1)
+    },
+
+    /**
+     * Find RUNNING jobs whose lease outlived their timeout
+     * (the worker crashed, or the process restarted mid-job)
+     */
+    async findStuckJobs(): Promise<Job[]> {
+        const running = await prisma.job.findMany({
+            where: { status: JobStatus.RUNNING },
+        })
+        const now = Date.now()
+
+        return running.filter(
+            (job) =>
+                !job.lockedAt ||
+                job.lockedAt.getTime() + job.timeoutMs + STUCK_GRACE_MS < now
+        )
+    },
+
+    /**
+     * Get a job by ID
+     */
+    async getJob(jobId: string) {
+        return prisma.job.findUnique({
+            where: { id: jobId },
+        })
+    },
+
+    /**
+     * Get the PENDING/RUNNING job for a dedupeKey, if any
+     */
+    async getActiveJob(
+        dedupeKey: string,
+        client: Prisma.TransactionClient = prisma
+    ) {
+        return client.job.findFirst({
+            where: {
+                dedupeKey,
+                status: { in: ACTIVE_STATUSES },
+            },
+            orderBy: { createdAt: 'desc' },
+        })
+    },
+
+    /**
+     * Get the most recent job for a dedupeKey (any status)
+     */
+    async getLatestJob(dedupeKey: string) {
+        return prisma.job.findFirst({
+            where: { dedupeKey },
+            orderBy: { createdAt: 'desc' },
+        })
+    },
+}
@@ -0,0 +1,232 @@
+/**
+ * jobWorker
+ *
+ * In-process worker for the Postgres job queue (jobQueueService).
+ * Started once per server process from src/instrumentation.ts; every app
+ * instance can run one since jobs are claimed atomically.
+ *
+ * Each tick recovers stuck jobs, then runs due jobs one at a time.
+ * A job's timeout aborts its handler and counts as a failed attempt.
+ */
+
+import os from 'os'
+import { JobStatus } from '../../../../app/generated/prisma'
+import type { Job, Prisma } from '../../../../app/generated/prisma'
+import { jobQueueService, type JobType } from './jobQueueService'
+import {
+    summaryService,
+    SummaryErrorCodes,
+    type SummaryJobPayload,
+} from './summaryService'
+import { embeddingIndexService, type EmbeddingJobPayload } from './embeddingIndexService'
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10)
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`
+
+export interface JobHandlerResult {
+    success: boolean
+    error?: string
+    retryable?: boolean // Defaults to true for failures
+    result?: Prisma.InputJsonValue
+}
+
+interface JobHandlerContext {
+    job: Job
+    signal: AbortSignal
+}
+
+interface JobHandler {
+    run: (payload: Prisma.JsonValue, context: JobHandlerContext) => Promise<JobHandlerResult>
+    /** Called once the job has FAILED for good (attempts exhausted or not retryable) */
+    onFailed?: (payload: Prisma.JsonValue, error: string) => Promise<void>
+}
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+    'summary.generate': {
+        run: async (payload, { signal }) => {
+            const { meetingId, ...options } = payload as unknown as SummaryJobPayload
+            const result = await summaryService.generateSummary(meetingId, {
+                ...options,
+                abortSignal: signal,
+            })
+
+            return {
+                success: result.success,
+                error: result.error,
+                retryable: result.errorCode === SummaryErrorCodes.GENERATION_FAILED,
+                result: result.summaryId
+                    ? {
+                          summaryId: result.summaryId,
+                          ...(result.pendingRevisionId && {
+                              pendingRevisionId: result.pendingRevisionId,
+                          }),
+                      }
+                    : undefined,
+            }
+        },
+        onFailed: async (payload, error) => {
+            const { meetingId } = payload as unknown as SummaryJobPayload
+            await summaryService.markFailed(meetingId, error)
+        },
+    },
+    'transcript.embed': {
+        run: async (payload, { signal }) => {
+            const { meetingId } = payload as unknown as EmbeddingJobPayload
+            const result = await embeddingIndexService.indexMeeting(meetingId, {
+                abortSignal: signal,
+            })
+
+            return {
+                success: result.success,
+                error: result.error,
+                // Returned failures are missing transcripts or configuration;
+                // provider errors throw and are retried
+                retryable: false,
+                result: result.success
+                    ? { windows: result.windows, model: result.model ?? null }
+                    : undefined,
+            }
+        },
+    },
+}
+
+// Survive Next.js dev hot reloads without starting a second loop
+const globalForJobWorker = global as unknown as {
+    jobWorkerTimer?: ReturnType<typeof setInterval>
+    jobWorkerBusy?: boolean
+}
+
+export const jobWorker = {
+    /**
+     * Start polling the queue (no-op if already running)
+     */
+    start(intervalMs = POLL_INTERVAL_MS) {
+        if (globalForJobWorker.jobWorkerTimer) return
+
+        globalForJobWorker.jobWorkerTimer = setInterval(() => {
+            void this.tick()
+        }, intervalMs)
+
+        console.log(`[jobWorker] Started ${WORKER_ID}, polling every ${intervalMs}ms`)
+        void this.tick()
+    },
+
+    /**
+     * Stop polling
+     */
+    stop() {
+        if (globalForJobWorker.jobWorkerTimer) {
+            clearInterval(globalForJobWorker.jobWorkerTimer)
+            globalForJobWorker.jobWorkerTimer = undefined
+        }
+    },
+
+    /**
+     * Check the queue now instead of waiting for the next poll
+     * (e.g. right after enqueueing)
+     */
+    poke() {
+        void this.tick()
+    },
+
+    /**
+     * Recover stuck jobs, then drain due jobs
+     */
+    async tick() {
+        if (globalForJobWorker.jobWorkerBusy) return
+        globalForJobWorker.jobWorkerBusy = true
+
+        try {
+            await this.recoverStuckJobs()
+
+            let job = await jobQueueService.claimNext(WORKER_ID)
+            while (job) {
+                await this.runJob(job)
+                job = await jobQueueService.claimNext(WORKER_ID)
+            }
+        } catch (error) {
+            console.error('[jobWorker] Tick failed:', error)
+        } finally {
+            globalForJobWorker.jobWorkerBusy = false
+        }
+    },
+
+    /**
+     * Run a claimed job, enforcing its timeout
+     */
+    async runJob(job: Job) {
+        const handler = JOB_HANDLERS[job.type as JobType]
+
+        if (!handler) {
+            await jobQueueService.markFailed(job, `No handler for job type: ${job.type}`, false)
+            return
+        }
+
+        const controller = new AbortController()
+        const timeout = setTimeout(
+            () => controller.abort(new Error(`Job timed out after ${job.timeoutMs}ms`)),
+            job.timeoutMs
+        )
+        const aborted = new Promise<never>((_, reject) => {
+            controller.signal.addEventListener('abort', () =>
+                reject(controller.signal.reason)
+            )
+        })
+
+        let result: JobHandlerResult
+        try {
+            result = await Promise.race([
+                handler.run(job.payload, { job, signal: controller.signal }),
+                aborted,
+            ])
+        } catch (error) {
+            result = {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }
+        } finally {
+            clearTimeout(timeout)
+        }
+
+        if (result.success) {
+            if (await jobQueueService.markCompleted(job, result.result)) {
+                console.log(`[jobWorker] Completed ${job.type} job ${job.id}`)
+            }
+            return
+        }
+
+        const updated = await jobQueueService.markFailed(
+            job,
+            result.error || 'Unknown error',
+            result.retryable ?? true
+        )
+
+        if (updated?.status === JobStatus.FAILED) {
+            await handler.onFailed?.(job.payload, updated.lastError || 'Unknown error')
+        }
+    },
+
+    /**
+     * Treat RUNNING jobs whose lease expired as failed attempts
+     */
+    async recoverStuckJobs() {
+        const stuck = await jobQueueService.findStuckJobs()
+
+        for (const job of stuck) {
+            console.warn(`[jobWorker] Recovering stuck ${job.type} job ${job.id} (locked by ${job.lockedBy})`)
+
+            const updated = await jobQueueService.markFailed(
+                job,
+                'Job did not finish before its timeout (worker stopped?)'
+            )
+
+            if (updated?.status === JobStatus.FAILED) {
+                await JOB_HANDLERS[job.type as JobType]?.onFailed?.(
+                    job.payload,
+                    updated.lastError || 'Unknown error'
+                )
+            }
+        }
+    },
+}
@@ -0,0 +1,278 @@
+/**
+ * llmProviderService
+ *
+ * Registry of language model providers used for AI features (summaries).
+ * The provider/model is selected per deployment via environment variables
+ * or per request, so on-prem installs can run against a local endpoint.
+ *
+ * Providers:
+ * - gemini: Google Gemini (GOOGLE_GENERATIVE_AI_API_KEY)
+ * - openai-compatible: any OpenAI-compatible server, e.g. llama.cpp or Ollama
+ *   (OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_API_KEY)
+ * - anthropic: Anthropic Claude (ANTHROPIC_API_KEY)
+ * - stub: offline model returning canned JSON, for tests and local development;
+ *   only available under NODE_ENV=test or with LLM_STUB_ENABLED=true
+ *
+ * Requests may only pick models on the provider's allowlist: the built-in
+ * models, the provider default, SUMMARY_LLM_MODEL for the default provider,
+ * and for openai-compatible the ids in OPENAI_COMPATIBLE_MODELS (comma
+ * separated), since local servers run whatever they were given.
+ */
+
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import type { LanguageModel } from 'ai'
+
+type LanguageModelInstance = Exclude<LanguageModel, string>
+
+export const LLM_PROVIDER_IDS = [
+    'gemini',
+    'openai-compatible',
+    'anthropic',
+    'stub',
+] as const
+
+export type LlmProviderId = (typeof LLM_PROVIDER_IDS)[number]
+
+/**
+ * Provider/model requested by a caller. Missing fields fall back to
+ * SUMMARY_LLM_PROVIDER / SUMMARY_LLM_MODEL, then to the provider default.
+ */
+export interface LlmSelection {
+    provider?: LlmProviderId
+    model?: string
+}
+
+export interface ResolvedLlm {
+    provider: LlmProviderId
+    modelId: string
+    model: LanguageModel
+    /** Value persisted in Summary.model, e.g. "gemini/gemini-2.5-flash" */
+    label: string
+}
+
+export interface LlmProviderInfo {
+    id: LlmProviderId
+    defaultModel: string
+    models: string[]
+    configured: boolean
+}
+
+interface LlmProviderDefinition {
+    defaultModel: () => string
+    models: () => string[] // Allowlist, besides the default model
+    isConfigured: () => boolean
+    createModel: (modelId: string) => LanguageModel
+}
+
+/**
+ * Canned response of the stub provider (shaped like the default summary schema).
+ * Override with LLM_STUB_RESPONSE to exercise other outputs.
+ */
+const STUB_RESPONSE = {
+    title: 'Stub meeting summary',
+    overview: 'This summary was produced by the offline stub model.',
+    keyPoints: ['The stub model does not read the transcript'],
+    actionItems: [],
+    decisions: [],
+    nextSteps: [],
+}
+
+/**
+ * Offline model answering every call with the stub response
+ */
+function createStubModel(modelId: string): LanguageModelInstance {
+    const respond = () =>
+        process.env.LLM_STUB_RESPONSE || JSON.stringify(STUB_RESPONSE)
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+
+    return {
+        specificationVersion: 'v2',
+        provider: 'stub',
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => ({
+            content: [{ type: 'text', text: respond() }],
+            finishReason: 'stop',
+            usage,
+            warnings: [],
+        }),
+        doStream: async () => ({
+            stream: new ReadableStream({
+                start(controller) {
+                    controller.enqueue({ type: 'stream-start', warnings: [] })
+                    controller.enqueue({ type: 'text-start', id: 'stub' })
+                    controller.enqueue({
+                        type: 'text-delta',
+                        id: 'stub',
+                        delta: respond(),
+                    })
+                    controller.enqueue({ type: 'text-end', id: 'stub' })
+                    controller.enqueue({
+                        type: 'finish',
+                        finishReason: 'stop',
+                        usage,
+                    })
+                    controller.close()
+                },
+            }),
+        }),
+    }
+}
+
+/**
+ * Comma-separated env list
+ */
+function envList(name: string): string[] {
+    return (process.env[name] || '')
+        .split(',')
+        .map((value) => value.trim())
+        .filter(Boolean)
+}
+
+const LLM_PROVIDERS: Record<LlmProviderId, LlmProviderDefinition> = {
+    gemini: {
+        defaultModel: () => 'gemini-2.5-flash',
+        models: () => [
+            'gemini-2.5-flash',
+            'gemini-2.5-flash-lite',
+            'gemini-2.5-pro',
+        ],
+        isConfigured: () => !!process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+        createModel: (modelId) =>
+            createGoogleGenerativeAI({
+                apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+            })(modelId),
+    },
+    'openai-compatible': {
+        defaultModel: () => process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+        models: () => envList('OPENAI_COMPATIBLE_MODELS'),
+        isConfigured: () => !!process.env.OPENAI_COMPATIBLE_BASE_URL,
+        createModel: (modelId) =>
+            createOpenAICompatible({
+                name: 'openai-compatible',
+                baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL as string,
+                apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+                // llama.cpp and recent Ollama builds accept json_schema response formats
+                supportsStructuredOutputs:
+                    process.env.OPENAI_COMPATIBLE_STRUCTURED_OUTPUTS === 'true',
+            })(modelId),
+    },
+    anthropic: {
+        defaultModel: () => 'claude-sonnet-4-5',
+        models: () => [
+            'claude-sonnet-4-5',
+            'claude-haiku-4-5',
+            'claude-opus-4-1',
+        ],
+        isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+        createModel: (modelId) =>
+            createAnthropic({
+                apiKey: process.env.ANTHROPIC_API_KEY,
+                baseURL: process.env.ANTHROPIC_BASE_URL,
+            })(modelId),
+    },
+    stub: {
+        defaultModel: () => 'stub-summary',
+        models: () => [],
+        isConfigured: () =>
+            process.env.NODE_ENV === 'test' ||
+            process.env.LLM_STUB_ENABLED === 'true',
+        createModel: createStubModel,
+    },
+}
+
+export const llmProviderService = {
+    /**
+     * Type guard for provider ids coming from requests or env
+     */
+    isProviderId(value: unknown): value is LlmProviderId {
+        return (
+            typeof value === 'string' &&
+            LLM_PROVIDER_IDS.includes(value as LlmProviderId)
+        )
+    },
+
+    /**
+     * Deployment default provider (SUMMARY_LLM_PROVIDER, falls back to gemini)
+     */
+    getDefaultProvider(): LlmProviderId {
+        const configured = process.env.SUMMARY_LLM_PROVIDER
+        return this.isProviderId(configured) ? configured : 'gemini'
+    },
+
+    /**
+     * Models a request may select for a provider
+     */
+    getAllowedModels(provider: LlmProviderId): string[] {
+        const definition = LLM_PROVIDERS[provider]
+        const deploymentModel =
+            provider === this.getDefaultProvider()
+                ? process.env.SUMMARY_LLM_MODEL
+                : undefined
+
+        return [
+            ...new Set([
+                definition.defaultModel(),
+                ...(deploymentModel ? [deploymentModel] : []),
+                ...definition.models(),
+            ]),
+        ]
+    },
+
+    isModelAllowed(provider: LlmProviderId, model: string): boolean {
+        return this.getAllowedModels(provider).includes(model)
+    },
+
+    /**
+     * List registered providers and whether they have credentials configured
+     */
+    listProviders(): LlmProviderInfo[] {
+        return LLM_PROVIDER_IDS.map((id) => ({
+            id,
+            defaultModel: LLM_PROVIDERS[id].defaultModel(),
+            models: this.getAllowedModels(id),
+            configured: LLM_PROVIDERS[id].isConfigured(),
+        }))
+    },
+
+    /**
+     * Resolve a provider/model selection into a language model instance
+     * Throws if the provider is unknown or missing its configuration, or the
+     * model is not on its allowlist
+     */
+    resolve(selection: LlmSelection = {}): ResolvedLlm {
+        const provider = selection.provider ?? this.getDefaultProvider()
+
+        if (!this.isProviderId(provider)) {
+            throw new Error(`Unknown LLM provider: ${provider}`)
+        }
+
+        const definition = LLM_PROVIDERS[provider]
+        if (!definition.isConfigured()) {
+            throw new Error(`LLM provider '${provider}' is not configured`)
+        }
+
+        // SUMMARY_LLM_MODEL only applies to the deployment default provider
+        const modelId =
+            selection.model ||
+            (!selection.provider || provider === this.getDefaultProvider()
+                ? process.env.SUMMARY_LLM_MODEL
+                : undefined) ||
+            definition.defaultModel()
+
+        if (!this.isModelAllowed(provider, modelId)) {
+            throw new Error(
+                `Model '${modelId}' is not available for LLM provider '${provider}'`
+            )
+        }
+
+        return {
+            provider,
+            modelId,
+            model: definition.createModel(modelId),
+            label: `${provider}/${modelId}`,
+        }
+    },
+}
@@ -14,10 +14,11 @@ import type {
     EventProcessingResult,
     MeetingDatabaseEvent,
 } from './types'
-import { isMeetingEvent, isParticipantEvent, isTrackEvent, isMediaEvent } from './types'
+import { isMeetingEvent, isParticipantEvent, isTrackEvent, isMediaEvent, isChatEvent } from './types'
 import { meetingRecordService } from './meetingRecordService'
 import { participantRecordService } from './participantRecordService'
 import { transcriptRecordService, isTranscriptionEvent } from './transcriptRecordService'
+import { chatRecordService } from './chatRecordService'
 
 /**
  * Service for persisting and processing event logs
@@ -135,6 +136,8 @@ export const meetingLogService = {
             } else if (isTranscriptionEvent(event)) {
                 // Transcription events are routed to transcriptRecordService
                 result = await transcriptRecordService.handleEvent(event)
+            } else if (isChatEvent(event)) {
+                result = await chatRecordService.handleEvent(event)
             } else if (isMediaEvent(event)) {
                 // Media events (audio/video mute, screen share, etc.) are logged but not processed further
                 // They can be used for analytics and audit trails
@@ -0,0 +1,274 @@
+/**
+ * meetingQaService
+ *
+ * Answers questions about one meeting, or all of a user's meetings, from
+ * their transcripts ("what did Lan say about the deadline?").
+ *
+ * Retrieval-augmented: the question is embedded, the most similar transcript
+ * windows are retrieved from the embedding index (embeddingIndexService),
+ * and the language model answers from those windows only, citing them as
+ * [S1], [S2], ... Citations are resolved back to segment ids for the UI.
+ */
+
+import { embed, generateText, type ModelMessage } from 'ai'
+import prisma from '../../../../lib/prisma'
+import { llmProviderService, type LlmSelection } from './llmProviderService'
+import { embeddingProviderService } from './embeddingProviderService'
+import { embeddingIndexService } from './embeddingIndexService'
+import { participantRecordService } from './participantRecordService'
+
+// Windows given to the model per question
+const QA_CONTEXT_WINDOWS = parseInt(process.env.QA_CONTEXT_WINDOWS || '8', 10)
+
+// Earlier turns sent along for follow-up questions
+const MAX_HISTORY_MESSAGES = 6
+
+export const MAX_QUESTION_LENGTH = 1000
+
+/**
+ * Error codes for meeting Q&A
+ */
+export const QaErrorCodes = {
+    MEETING_NOT_FOUND: 'MEETING_NOT_FOUND',
+    FORBIDDEN: 'FORBIDDEN',
+    NO_TRANSCRIPT: 'NO_TRANSCRIPT',
+    EMBEDDINGS_NOT_CONFIGURED: 'EMBEDDINGS_NOT_CONFIGURED',
+    LLM_NOT_CONFIGURED: 'LLM_NOT_CONFIGURED',
+    GENERATION_FAILED: 'GENERATION_FAILED',
+} as const
+
+export type QaErrorCode = (typeof QaErrorCodes)[keyof typeof QaErrorCodes]
+
+export interface QaHistoryMessage {
+    role: 'user' | 'assistant'
+    content: string
+}
+
+export interface AskOptions extends LlmSelection {
+    meetingId?: string // Omit to ask across all of the user's meetings
+    history?: QaHistoryMessage[]
+}
+
+export interface QaSource {
+    label: string // "S1", as cited in the answer
+    meetingId: string
+    meetingTitle: string
+    segmentIds: string[]
+    startTime: number | null
+    endTime: number | null
+    text: string
+    similarity: number
+}
+
+export interface AskResult {
+    success: boolean
+    answer?: string
+    citations?: QaSource[] // Sources referenced in the answer
+    sources?: QaSource[] // Every source given to the model
+    model?: string
+    error?: string
+    errorCode?: QaErrorCode
+}
+
+const QA_SYSTEM_PROMPT = `You answer questions about meetings using only the transcript excerpts provided.
+
+Rules:
+- Each excerpt starts with a label like [S1]. Cite the excerpts that support each statement with their labels, e.g. "The deadline moved to Friday [S2]."
+- Attribute statements to the speaker named in the excerpt.
+- If the excerpts do not contain the answer, say so plainly instead of guessing.
+- Answer in the language of the question. Be concise.`
+
+/**
+ * Format seconds from the start of the transcript as m:ss
+ */
+function formatOffset(seconds: number | null): string | null {
+    if (seconds === null) return null
+    const total = Math.floor(seconds)
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`
+}
+
+/**
+ * Validate chat history sent by a client; null when malformed
+ */
+export function parseQaHistory(value: unknown): QaHistoryMessage[] | null {
+    if (value === undefined) return []
+    if (!Array.isArray(value)) return null
+
+    const valid = value.every(
+        (message) =>
+            typeof message === 'object' &&
+            message !== null &&
+            (message.role === 'user' || message.role === 'assistant') &&
+            typeof message.content === 'string'
+    )
+
+    return valid
+        ? value.map((message) => ({ role: message.role, content: message.content }))
+        : null
+}
+
+export const meetingQaService = {
+    /**
+     * Answer a question from meeting transcripts, with citations
+     */
+    async ask(userId: string, question: string, options: AskOptions = {}): Promise<AskResult> {
+        let llm: ReturnType<typeof llmProviderService.resolve>
+        try {
+            llm = llmProviderService.resolve(options)
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                errorCode: QaErrorCodes.LLM_NOT_CONFIGURED,
+            }
+        }
+
+        let embedding: ReturnType<typeof embeddingProviderService.resolve>
+        try {
+            embedding = embeddingProviderService.resolve()
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                errorCode: QaErrorCodes.EMBEDDINGS_NOT_CONFIGURED,
+            }
+        }
+
+        try {
+            // Resolve the meetings the question may draw from
+            let meetingIds: string[]
+            if (options.meetingId) {
+                const meeting = await prisma.meeting.findUnique({
+                    where: { id: options.meetingId },
+                    select: { id: true },
+                })
+                if (!meeting) {
+                    return {
+                        success: false,
+                        error: 'Meeting not found',
+                        errorCode: QaErrorCodes.MEETING_NOT_FOUND,
+                    }
+                }
+
+                const role = await participantRecordService.getUserMeetingRole(
+                    options.meetingId,
+                    userId
+                )
+                if (!role) {
+                    return {
+                        success: false,
+                        error: 'You did not attend this meeting',
+                        errorCode: QaErrorCodes.FORBIDDEN,
+                    }
+                }
+
+                // Index on demand so the first question does not wait for the job
+                if (!(await embeddingIndexService.isIndexed(options.meetingId, embedding.label))) {
+                    const indexed = await embeddingIndexService.indexMeeting(options.meetingId)
+                    if (!indexed.success) {
+                        return {
+                            success: false,
+                            error: indexed.error || 'No transcript available for this meeting',
+                            errorCode: QaErrorCodes.NO_TRANSCRIPT,
+                        }
+                    }
+                }
+
+                meetingIds = [options.meetingId]
+            } else {
+                const meetings = await prisma.meeting.findMany({
+                    where: {
+                        OR: [
+                            { hostId: userId },
+                            { participants: { some: { userId } } },
+                        ],
+                    },
+                    select: { id: true },
+                })
+                meetingIds = meetings.map((meeting) => meeting.id)
+            }
+
+            const { embedding: vector } = await embed({
+                model: embedding.model,
+                value: question,
+            })
+
+            const windows = await embeddingIndexService.findSimilar(
+                vector,
+                embedding.label,
+                meetingIds,
+                QA_CONTEXT_WINDOWS
+            )
+
+            if (windows.length === 0) {
+                return {
+                    success: false,
+                    error: 'No indexed transcripts to answer from',
+                    errorCode: QaErrorCodes.NO_TRANSCRIPT,
+                }
+            }
+
+            const meetings = await prisma.meeting.findMany({
+                where: { id: { in: [...new Set(windows.map((window) => window.meetingId))] } },
+                select: { id: true, title: true, startedAt: true },
+            })
+            const meetingsById = new Map(meetings.map((meeting) => [meeting.id, meeting]))
+
+            const sources: QaSource[] = windows.map((window, index) => ({
+                label: `S${index + 1}`,
+                meetingId: window.meetingId,
+                meetingTitle: meetingsById.get(window.meetingId)?.title ?? 'Meeting',
+                segmentIds: window.segmentIds,
+                startTime: window.startTime,
+                endTime: window.endTime,
+                text: window.text,
+                similarity: window.similarity,
+            }))
+
+            const context = sources
+                .map((source) => {
+                    const meeting = meetingsById.get(source.meetingId)
+                    const details = [
+                        `meeting "${source.meetingTitle}"`,
+                        meeting?.startedAt && `on ${meeting.startedAt.toISOString().slice(0, 10)}`,
+                        formatOffset(source.startTime) && `at ${formatOffset(source.startTime)}`,
+                    ].filter(Boolean)
+                    return `[${source.label}] (${details.join(', ')})\n${source.text}`
+                })
+                .join('\n\n')
+
+            const messages: ModelMessage[] = [
+                ...(options.history ?? []).slice(-MAX_HISTORY_MESSAGES),
+                {
+                    role: 'user',
+                    content: `Transcript excerpts:\n\n${context}\n\nQuestion: ${question}`,
+                },
+            ]
+
+            const { text } = await generateText({
+                model: llm.model,
+                system: QA_SYSTEM_PROMPT,
+                messages,
+            })
+
+            const cited = new Set(
+                [...text.matchAll(/\[S(\d+)\]/g)].map((match) => `S${match[1]}`)
+            )
+
+            return {
+                success: true,
+                answer: text.trim(),
+                citations: sources.filter((source) => cited.has(source.label)),
+                sources,
+                model: llm.label,
+            }
+        } catch (error) {
+            console.error('[meetingQaService] Error answering question:', error)
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                errorCode: QaErrorCodes.GENERATION_FAILED,
+            }
+        }
+    },
+}
@@ -6,7 +6,7 @@
  */
 
 import prisma from '../../../../lib/prisma'
-import { MeetingStatus } from '../../../../app/generated/prisma'
+import { MeetingStatus, TranscriptStatus } from '../../../../app/generated/prisma'
 import type {
     SerializableEvent,
     MeetingStartedPayload,
@@ -14,11 +14,13 @@ import type {
     MeetingScheduledPayload,
     MeetingCancelledPayload,
     CreateMeetingDTO,
-    UpdateMeetingDTO,
     EventProcessingResult,
 } from './types'
 import { validateRequiredFields } from './types'
+import { isSummaryTemplateId } from './summaryTemplates'
 import { transcriptRecordService } from './transcriptRecordService'
+import { summaryPolicyService } from './summaryPolicyService'
+import { accessPolicyService } from './accessPolicyService'
 
 /**
  * Service for persisting meeting lifecycle events
@@ -40,7 +42,7 @@ export const meetingRecordService = {
                     await this.processMeetingEnded(event.payload as MeetingEndedPayload)
                     break
                 case 'meeting.cancelled':
-                    await this.processMeetingCancelled(event.payload as MeetingCancelledPayload)
+                    await this.processRoomCancelled(event.payload as MeetingCancelledPayload)
                     break
                 default:
                     return {
@@ -100,6 +102,9 @@ export const meetingRecordService = {
             hostId: validHostId || "(unknown)",
             scheduledAt: new Date(payload.scheduledAt),
             status: MeetingStatus.SCHEDULED,
+            summaryTemplate: isSummaryTemplateId(payload.summaryTemplate)
+                ? payload.summaryTemplate
+                : undefined,
         }
 
         const existingMeeting = await prisma.meeting.findUnique({
@@ -115,6 +120,8 @@ export const meetingRecordService = {
                     description: dto.description,
                     scheduledAt: dto.scheduledAt,
                     hostId: validHostId,
+                    ...(dto.summaryTemplate && { summaryTemplate: dto.summaryTemplate }),
+                    icsSequence: { increment: 1 },
                 },
             })
         } else {
@@ -128,6 +135,7 @@ export const meetingRecordService = {
                         hostId: validHostId,
                         scheduledAt: dto.scheduledAt,
                         status: dto.status,
+                        summaryTemplate: dto.summaryTemplate,
                     },
                 })
             } catch (error: unknown) {
@@ -140,6 +148,7 @@ export const meetingRecordService = {
                             description: dto.description,
                             scheduledAt: dto.scheduledAt,
                             hostId: validHostId,
+                            ...(dto.summaryTemplate && { summaryTemplate: dto.summaryTemplate }),
                         },
                     })
                 } else {
@@ -168,6 +177,9 @@ export const meetingRecordService = {
         }
 
         const startedAt = new Date(payload.startedAt)
+        const summaryTemplate = isSummaryTemplateId(payload.summaryTemplate)
+            ? payload.summaryTemplate
+            : undefined
 
         let validHostId = null
         if (payload.hostUserId) {
@@ -184,30 +196,41 @@ export const meetingRecordService = {
                 roomName: payload.roomName,
                 status: MeetingStatus.ACTIVE,
             },
-            select: { id: true },
+            select: { id: true, hostId: true },
         })
 
         if (existingActiveRoom) {
-            // Room already active, update host if needed and return
+            // Room already active; every client reports itself as host, so keep the first one
             console.log(`[meetingRecordService] Rejoining active meeting: ${existingActiveRoom.id} (room: ${payload.roomName})`)
             await prisma.meeting.update({
                 where: { id: existingActiveRoom.id },
                 data: {
-                    ...(validHostId && { hostId: validHostId }),
+                    ...(validHostId && !existingActiveRoom.hostId && { hostId: validHostId }),
                     ...(payload.title && { title: payload.title }),
+                    ...(summaryTemplate && { summaryTemplate }),
                 },
             })
             return
         }
 
         // Check for scheduled meeting with same roomName - activate it
-        const existingScheduledRoom = await prisma.meeting.findFirst({
+        // Occurrences of a recurring series share the roomName: take the one closest to now
+        const scheduledRooms = await prisma.meeting.findMany({
             where: {
                 roomName: payload.roomName,
                 status: MeetingStatus.SCHEDULED,
             },
-            select: { id: true },
+            select: { id: true, scheduledAt: true, hostId: true },
         })
+        const distance = (scheduledAt: Date | null) =>
+            scheduledAt ? Math.abs(scheduledAt.getTime() - startedAt.getTime()) : Infinity
+        const existingScheduledRoom = scheduledRooms.reduce<(typeof scheduledRooms)[number] | null>(
+            (closest, meeting) =>
+                !closest || distance(meeting.scheduledAt) < distance(closest.scheduledAt)
+                    ? meeting
+                    : closest,
+            null
+        )
 
         if (existingScheduledRoom) {
             console.log(`[meetingRecordService] Starting scheduled meeting: ${existingScheduledRoom.id}`)
@@ -216,8 +239,9 @@ export const meetingRecordService = {
                 data: {
                     startedAt,
                     status: MeetingStatus.ACTIVE,
-                    ...(validHostId && { hostId: validHostId }),
+                    ...(validHostId && !existingScheduledRoom.hostId && { hostId: validHostId }),
                     ...(payload.title && { title: payload.title }),
+                    ...(summaryTemplate && { summaryTemplate }),
                 },
             })
             return
@@ -226,6 +250,12 @@ export const meetingRecordService = {
         // No existing active/scheduled meeting - always create NEW meeting with UUID
         // meetingId format: {uuid} - ensures uniqueness for multiple sessions
         const newMeetingId = `${crypto.randomUUID()}`
+        // A new session of a room keeps the room's access settings
+        const roomAccess = await prisma.meeting.findFirst({
+            where: { roomName: payload.roomName },
+            orderBy: { createdAt: 'desc' },
+            select: { accessPolicy: true, passwordHash: true, lobbyEnabled: true },
+        })
         console.log(`[meetingRecordService] Creating new meeting: ${newMeetingId} (room: ${payload.roomName})`)
 
         try {
@@ -238,6 +268,8 @@ export const meetingRecordService = {
                     hostId: validHostId,
                     startedAt,
                     status: MeetingStatus.ACTIVE,
+                    summaryTemplate,
+                    ...roomAccess,
                 },
             })
         } catch (error: unknown) {
@@ -255,6 +287,8 @@ export const meetingRecordService = {
                         hostId: validHostId,
                         startedAt,
                         status: MeetingStatus.ACTIVE,
+                        summaryTemplate,
+                        ...roomAccess,
                     },
                 })
             } else {
@@ -278,7 +312,8 @@ export const meetingRecordService = {
      * Process meeting.ended event
      * 
      * The meetingId from frontend is actually roomName (Jitsi room name).
-     * We need to find the active meeting by roomName first.
+     * Only the room's active meeting is ended: the event session vouches for
+     * the room, not for a meeting id, so ids are never looked up.
      */
     async processMeetingEnded(payload: MeetingEndedPayload): Promise<void> {
         const validation = validateRequiredFields(payload, ['meetingId', 'endedAt'])
@@ -315,37 +350,59 @@ export const meetingRecordService = {
                     status: MeetingStatus.ENDED,
                 },
             })
+
+            await this.finalizeEndedMeeting(activeMeeting.id)
             return
         }
 
-        // Fallback: try direct ID lookup (for legacy or direct meeting IDs)
-        console.log(`[meetingRecordService] No active meeting found for room '${payload.meetingId}', trying direct ID lookup`)
+        console.log(`[meetingRecordService] No active meeting found for room '${payload.meetingId}', ignoring meeting.ended`)
+    },
+
+    /**
+     * Compile a transcript still being recorded and queue the automatic summary
+     * Failures are logged only - they must not fail the meeting.ended event
+     */
+    async finalizeEndedMeeting(meetingId: string): Promise<void> {
+        try {
+            const transcript = await prisma.transcript.findUnique({
+                where: { meetingId },
+                select: { status: true },
+            })
+
+            if (transcript?.status === TranscriptStatus.PROCESSING) {
+                await transcriptRecordService.compileFullText(meetingId)
+            }
 
-        const updateData: UpdateMeetingDTO = {
-            endedAt,
-            status: MeetingStatus.ENDED,
+            await summaryPolicyService.maybeAutoSummarize(meetingId)
+        } catch (error) {
+            console.error(`[meetingRecordService] Failed to finalize meeting ${meetingId}:`, error)
         }
+    },
 
-        if (payload.duration !== undefined) {
-            updateData.duration = payload.duration
+    /**
+     * Process meeting.cancelled event from a client
+     *
+     * As with meeting.ended, meetingId is the room name: the room's current
+     * meeting is cancelled (see accessPolicyService.findRoomMeeting)
+     */
+    async processRoomCancelled(payload: MeetingCancelledPayload): Promise<void> {
+        const validation = validateRequiredFields(payload, ['meetingId'])
+
+        if (!validation.valid) {
+            throw new Error(`Missing required fields: ${validation.missingFields.join(', ')}`)
         }
 
-        await prisma.meeting.upsert({
-            where: { id: payload.meetingId },
-            update: updateData,
-            create: {
-                id: payload.meetingId,
-                roomName: `room-${payload.meetingId.substring(0, 8)}`,
-                title: `Meeting ${payload.meetingId.substring(0, 8)}`,
-                hostId: null,
-                endedAt,
-                status: MeetingStatus.ENDED,
-            },
-        })
+        const meeting = await accessPolicyService.findRoomMeeting(payload.meetingId)
+        if (!meeting) {
+            console.log(`[meetingRecordService] No meeting found for room '${payload.meetingId}', ignoring meeting.cancelled`)
+            return
+        }
+
+        await this.processMeetingCancelled({ ...payload, meetingId: meeting.id })
     },
 
     /**
-     * Process meeting.cancelled event
+     * Cancel a meeting by id (scheduling and series services)
      */
     async processMeetingCancelled(payload: MeetingCancelledPayload): Promise<void> {
         const validation = validateRequiredFields(payload, ['meetingId'])
@@ -358,6 +415,8 @@ export const meetingRecordService = {
             where: { id: payload.meetingId },
             update: {
                 status: MeetingStatus.CANCELLED,
+                // Makes the METHOD:CANCEL invite supersede the last one sent
+                icsSequence: { increment: 1 },
             },
             create: {
                 id: payload.meetingId,
@@ -436,8 +495,9 @@ export const meetingRecordService = {
         // If no participants left, end the meeting
         if (activeParticipants === 0) {
             console.log(`[meetingRecordService] No participants left, ending meeting: ${meeting.id}`)
+            // processMeetingEnded looks the active meeting up by room name
             await this.processMeetingEnded({
-                meetingId: meeting.id,
+                meetingId: roomName,
                 endedAt: new Date().toISOString(),
                 duration: meeting.startedAt
                     ? Math.floor((Date.now() - meeting.startedAt.getTime()) / 1000)
@@ -414,4 +414,39 @@ export const participantRecordService = {
             },
         })
     },
-}
\ No newline at end of file
+    /**
+     * Get the user's role in a meeting
+     * The meeting host is HOST even without a participant row; null if not in the meeting
+     * Participant rows claiming HOST count as PARTICIPANT: clients report their own role,
+     * so only Meeting.hostId makes a host
+     */
+    async getUserMeetingRole(meetingId: string, userId: string): Promise<ParticipantRole | null> {
+        const meeting = await prisma.meeting.findUnique({
+            where: { id: meetingId },
+            select: {
+                hostId: true,
+                participants: {
+                    where: { userId },
+                    select: { role: true },
+                },
+            },
+        })
+
+        if (!meeting) return null
+        if (meeting.hostId === userId) return ParticipantRole.HOST
+
+        if (meeting.participants.length === 0) return null
+
+        return meeting.participants.some((p) => p.role === ParticipantRole.CO_HOST)
+            ? ParticipantRole.CO_HOST
+            : ParticipantRole.PARTICIPANT
+    },
+
+    /**
+     * Whether the user is host or co-host of a meeting
+     */
+    async isHostOrCoHost(meetingId: string, userId: string): Promise<boolean> {
+        const role = await this.getUserMeetingRole(meetingId, userId)
+        return role === ParticipantRole.HOST || role === ParticipantRole.CO_HOST
+    },
+}
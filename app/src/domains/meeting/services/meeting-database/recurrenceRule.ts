@@ -0,0 +1,472 @@
+/**
+ * recurrenceRule
+ *
+ * The RRULE subset used by meeting series (RFC 5545):
+ * - FREQ=DAILY | WEEKLY | MONTHLY, INTERVAL
+ * - BYDAY: weekdays (MO,TU,...) for daily/weekly rules, optionally with an
+ *   ordinal for monthly rules (2TU = second Tuesday, -1FR = last Friday)
+ * - BYMONTHDAY (monthly, single day)
+ * - UNTIL or COUNT
+ *
+ * Occurrences are expanded in the series' IANA time zone, so a 09:00 standup
+ * stays at 09:00 local time across DST changes. Exceptions (EXDATE) are passed
+ * to expandOccurrences as start instants to skip; like RFC 5545, they still
+ * count towards COUNT.
+ *
+ * NOTE: This file must stay client-safe (no Prisma imports) -
+ * the scheduling form builds and describes rules with it.
+ */
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number]
+
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+    MO: 'Mon',
+    TU: 'Tue',
+    WE: 'Wed',
+    TH: 'Thu',
+    FR: 'Fri',
+    SA: 'Sat',
+    SU: 'Sun',
+}
+
+export const MAX_RECURRENCE_INTERVAL = 12
+export const MAX_RECURRENCE_COUNT = 365
+
+export interface RecurrenceDay {
+    day: Weekday
+    ordinal?: number // Monthly only: 1-4 or -1 (last)
+}
+
+export interface RecurrenceRule {
+    freq: RecurrenceFrequency
+    interval: number
+    byDay?: RecurrenceDay[]
+    byMonthDay?: number
+    until?: Date
+    count?: number
+}
+
+export type ParseRecurrenceResult =
+    | { success: true; rule: RecurrenceRule }
+    | { success: false; error: string }
+
+export interface ExpandOccurrencesOptions {
+    startsAt: Date // DTSTART: first occurrence, defines the local time of day
+    timeZone: string
+    exdates?: Date[]
+    from?: Date // Only return occurrences at or after this instant
+    to: Date // Stop at this instant (inclusive)
+    limit?: number
+}
+
+const ORDINAL_LABELS: Record<number, string> = {
+    1: 'first',
+    2: 'second',
+    3: 'third',
+    4: 'fourth',
+    [-1]: 'last',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_EXPANSION_STEPS = 5000
+
+// ============================================================================
+// Time zones
+// ============================================================================
+
+interface ZonedParts {
+    year: number
+    month: number // 0-11
+    day: number
+    hour: number
+    minute: number
+}
+
+/**
+ * Whether a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    if (!timeZone) return false
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone })
+        return true
+    } catch {
+        return false
+    }
+}
+
+function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+    }).formatToParts(instant)
+
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+        Number(parts.find((part) => part.type === type)?.value ?? 0)
+
+    return {
+        year: get('year'),
+        month: get('month') - 1,
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+    }
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getZoneOffset(instant: number, timeZone: string): number {
+    const parts = getZonedParts(new Date(instant), timeZone)
+    const asUtc = Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute)
+    return asUtc - (instant - (instant % (60 * 1000)))
+}
+
+/**
+ * The instant a local wall-clock time occurs in a time zone
+ */
+function zonedTimeToInstant(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    timeZone: string
+): Date {
+    const wallClock = Date.UTC(year, month, day, hour, minute)
+    const firstOffset = getZoneOffset(wallClock, timeZone)
+    const instant = wallClock - firstOffset
+    const secondOffset = getZoneOffset(instant, timeZone)
+    return new Date(secondOffset === firstOffset ? instant : wallClock - secondOffset)
+}
+
+// ============================================================================
+// Parsing and formatting
+// ============================================================================
+
+function parseRRuleDate(value: string): Date | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value)
+    if (!match) return null
+    const [, year, month, day, hour = '23', minute = '59', second = '59'] = match
+    const date = new Date(
+        Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+    )
+    return isNaN(date.getTime()) ? null : date
+}
+
+function formatRRuleDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ */
+export function parseRecurrenceRule(value: string): ParseRecurrenceResult {
+    if (typeof value !== 'string' || !value.trim()) {
+        return { success: false, error: 'Recurrence rule is required' }
+    }
+
+    const fields = new Map<string, string>()
+    for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+        if (!part) continue
+        const [key, fieldValue] = part.split('=')
+        if (!key || fieldValue === undefined) {
+            return { success: false, error: `Invalid recurrence rule part: ${part}` }
+        }
+        fields.set(key.toUpperCase(), fieldValue.toUpperCase())
+    }
+
+    const supported = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'COUNT', 'WKST'])
+    for (const key of fields.keys()) {
+        if (!supported.has(key)) {
+            return { success: false, error: `Unsupported recurrence rule part: ${key}` }
+        }
+    }
+
+    const freq = fields.get('FREQ') as RecurrenceFrequency | undefined
+    if (!freq || !RECURRENCE_FREQUENCIES.includes(freq)) {
+        return { success: false, error: 'FREQ must be DAILY, WEEKLY or MONTHLY' }
+    }
+
+    const rule: RecurrenceRule = { freq, interval: 1 }
+
+    if (fields.has('INTERVAL')) {
+        const interval = Number(fields.get('INTERVAL'))
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_RECURRENCE_INTERVAL) {
+            return {
+                success: false,
+                error: `INTERVAL must be between 1 and ${MAX_RECURRENCE_INTERVAL}`,
+            }
+        }
+        rule.interval = interval
+    }
+
+    if (fields.has('BYDAY')) {
+        const days: RecurrenceDay[] = []
+        for (const entry of fields.get('BYDAY')!.split(',')) {
+            const match = /^(-1|[1-4])?(MO|TU|WE|TH|FR|SA|SU)$/.exec(entry)
+            if (!match) {
+                return { success: false, error: `Invalid BYDAY value: ${entry}` }
+            }
+            if (match[1] && freq !== 'MONTHLY') {
+                return {
+                    success: false,
+                    error: 'BYDAY ordinals are only supported for monthly rules',
+                }
+            }
+            days.push({
+                day: match[2] as Weekday,
+                ...(match[1] && { ordinal: Number(match[1]) }),
+            })
+        }
+        if (freq === 'MONTHLY' && days.some((day) => day.ordinal === undefined)) {
+            return {
+                success: false,
+                error: 'Monthly BYDAY values need an ordinal (e.g. 2TU or -1FR)',
+            }
+        }
+        rule.byDay = days
+    }
+
+    if (fields.has('BYMONTHDAY')) {
+        const monthDay = Number(fields.get('BYMONTHDAY'))
+        if (freq !== 'MONTHLY' || !Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31) {
+            return {
+                success: false,
+                error: 'BYMONTHDAY must be a single day (1-31) of a monthly rule',
+            }
+        }
+        if (rule.byDay) {
+            return { success: false, error: 'Use either BYDAY or BYMONTHDAY, not both' }
+        }
+        rule.byMonthDay = monthDay
+    }
+
+    if (fields.has('UNTIL') && fields.has('COUNT')) {
+        return { success: false, error: 'Use either UNTIL or COUNT, not both' }
+    }
+
+    if (fields.has('UNTIL')) {
+        const until = parseRRuleDate(fields.get('UNTIL')!)
+        if (!until) {
+            return { success: false, error: 'UNTIL must be a date (YYYYMMDD or YYYYMMDDTHHMMSSZ)' }
+        }
+        rule.until = until
+    }
+
+    if (fields.has('COUNT')) {
+        const count = Number(fields.get('COUNT'))
+        if (!Number.isInteger(count) || count < 1 || count > MAX_RECURRENCE_COUNT) {
+            return {
+                success: false,
+                error: `COUNT must be between 1 and ${MAX_RECURRENCE_COUNT}`,
+            }
+        }
+        rule.count = count
+    }
+
+    return { success: true, rule }
+}
+
+/**
+ * Serialize a rule back to an RRULE string (without the "RRULE:" prefix)
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`]
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+    if (rule.byDay?.length) {
+        parts.push(
+            `BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${day.day}`).join(',')}`
+        )
+    }
+    if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+    if (rule.until) parts.push(`UNTIL=${formatRRuleDate(rule.until)}`)
+    if (rule.count) parts.push(`COUNT=${rule.count}`)
+    return parts.join(';')
+}
+
+/**
+ * Human-readable rule, e.g. "Every weekday" or "Monthly on the last Friday"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+    const every = (unit: string) =>
+        rule.interval === 1 ? unit : `Every ${rule.interval} ${unit.toLowerCase()}s`
+
+    const days = rule.byDay?.map((day) => day.day) ?? []
+    const isWeekdays =
+        days.length === 5 && ['MO', 'TU', 'WE', 'TH', 'FR'].every((day) => days.includes(day as Weekday))
+
+    let text: string
+    if (rule.freq === 'DAILY') {
+        text = isWeekdays && rule.interval === 1
+            ? 'Every weekday'
+            : `${rule.interval === 1 ? 'Daily' : every('Day')}${
+                  days.length ? ` on ${days.map((day) => WEEKDAY_LABELS[day]).join(', ')}` : ''
+              }`
+    } else if (rule.freq === 'WEEKLY') {
+        text = isWeekdays && rule.interval === 1
+            ? 'Every weekday'
+            : `${rule.interval === 1 ? 'Weekly' : every('Week')}${
+                  days.length ? ` on ${days.map((day) => WEEKDAY_LABELS[day]).join(', ')}` : ''
+              }`
+    } else {
+        const on = rule.byDay?.length
+            ? ` on the ${rule.byDay
+                  .map((day) => `${ORDINAL_LABELS[day.ordinal ?? 1]} ${WEEKDAY_LABELS[day.day]}`)
+                  .join(', ')}`
+            : rule.byMonthDay
+              ? ` on day ${rule.byMonthDay}`
+              : ''
+        text = `${rule.interval === 1 ? 'Monthly' : every('Month')}${on}`
+    }
+
+    if (rule.count) {
+        text += `, ${rule.count} time${rule.count !== 1 ? 's' : ''}`
+    } else if (rule.until) {
+        text += `, until ${rule.until.toISOString().slice(0, 10)}`
+    }
+
+    return text
+}
+
+// ============================================================================
+// Expansion
+// ============================================================================
+
+/**
+ * Weekday of a calendar date (0 = Monday)
+ */
+function weekdayIndex(year: number, month: number, day: number): number {
+    return (new Date(Date.UTC(year, month, day)).getUTCDay() + 6) % 7
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+/**
+ * Candidate calendar dates of one period (day, week or month), in order
+ */
+function periodDates(
+    rule: RecurrenceRule,
+    start: ZonedParts,
+    periodIndex: number
+): { year: number; month: number; day: number }[] {
+    const startDate = Date.UTC(start.year, start.month, start.day)
+    const toParts = (utc: number) => {
+        const date = new Date(utc)
+        return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() }
+    }
+
+    if (rule.freq === 'DAILY') {
+        const date = toParts(startDate + periodIndex * rule.interval * DAY_MS)
+        if (rule.byDay?.length) {
+            const weekday = WEEKDAYS[weekdayIndex(date.year, date.month, date.day)]
+            if (!rule.byDay.some((day) => day.day === weekday)) return []
+        }
+        return [date]
+    }
+
+    if (rule.freq === 'WEEKLY') {
+        const weekStart =
+            startDate -
+            weekdayIndex(start.year, start.month, start.day) * DAY_MS +
+            periodIndex * rule.interval * 7 * DAY_MS
+        const days = rule.byDay?.length
+            ? rule.byDay.map((day) => WEEKDAYS.indexOf(day.day))
+            : [weekdayIndex(start.year, start.month, start.day)]
+        return [...new Set(days)]
+            .sort((a, b) => a - b)
+            .map((offset) => toParts(weekStart + offset * DAY_MS))
+    }
+
+    const monthIndex = start.month + periodIndex * rule.interval
+    const year = start.year + Math.floor(monthIndex / 12)
+    const month = ((monthIndex % 12) + 12) % 12
+    const lastDay = daysInMonth(year, month)
+
+    if (rule.byDay?.length) {
+        const days = rule.byDay.map(({ day, ordinal = 1 }) => {
+            const target = WEEKDAYS.indexOf(day)
+            if (ordinal > 0) {
+                const first = (target - weekdayIndex(year, month, 1) + 7) % 7 + 1
+                return first + (ordinal - 1) * 7
+            }
+            return lastDay - ((weekdayIndex(year, month, lastDay) - target + 7) % 7)
+        })
+        return [...new Set(days)]
+            .filter((day) => day >= 1 && day <= lastDay)
+            .sort((a, b) => a - b)
+            .map((day) => ({ year, month, day }))
+    }
+
+    const day = rule.byMonthDay ?? start.day
+    return day <= lastDay ? [{ year, month, day }] : []
+}
+
+/**
+ * Occurrence start instants of a rule, in order
+ */
+export function expandOccurrences(
+    rule: RecurrenceRule,
+    options: ExpandOccurrencesOptions
+): Date[] {
+    const { startsAt, timeZone, exdates = [], from, to, limit = MAX_RECURRENCE_COUNT } = options
+    const start = getZonedParts(startsAt, timeZone)
+    const excluded = new Set(exdates.map((date) => date.getTime()))
+    const occurrences: Date[] = []
+    let generated = 0
+
+    for (let period = 0; period < MAX_EXPANSION_STEPS; period++) {
+        for (const date of periodDates(rule, start, period)) {
+            const instant = zonedTimeToInstant(
+                date.year,
+                date.month,
+                date.day,
+                start.hour,
+                start.minute,
+                timeZone
+            )
+
+            // Dates of the first period before DTSTART are not occurrences
+            if (instant.getTime() < startsAt.getTime() - 60 * 1000) continue
+            if (rule.until && instant > rule.until) return occurrences
+            if (instant > to) return occurrences
+
+            generated++
+            if (rule.count && generated > rule.count) return occurrences
+
+            if (!excluded.has(instant.getTime()) && (!from || instant >= from)) {
+                occurrences.push(instant)
+                if (occurrences.length >= limit) return occurrences
+            }
+        }
+    }
+
+    return occurrences
+}
+
+/**
+ * Number of occurrences a rule produces before an instant, exdates included
+ */
+export function countOccurrencesBefore(
+    rule: RecurrenceRule,
+    startsAt: Date,
+    timeZone: string,
+    before: Date
+): number {
+    return expandOccurrences(rule, {
+        startsAt,
+        timeZone,
+        to: new Date(before.getTime() - 1),
+    }).length
+}
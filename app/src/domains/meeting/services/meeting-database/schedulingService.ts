@@ -0,0 +1,514 @@
+/**
+ * schedulingService
+ *
+ * Scheduling of future meetings by signed-in hosts: create, reschedule and
+ * cancel, with an invitee list kept as MeetingInvitee rows.
+ *
+ * Each scheduled meeting gets its own generated roomName, which makes the join
+ * link (/jitsi-meeting/{roomName}) stable: when the first participant joins,
+ * meetingRecordService.processMeetingStarted activates the SCHEDULED meeting
+ * with that roomName instead of creating a new one.
+ */
+
+import prisma from '../../../../lib/prisma'
+import { MeetingStatus } from '../../../../app/generated/prisma'
+import { meetingRecordService } from './meetingRecordService'
+
+export const MAX_MEETING_TITLE_LENGTH = 200
+export const MAX_MEETING_DESCRIPTION_LENGTH = 5000
+export const MIN_MEETING_DURATION = 5 // minutes
+export const MAX_MEETING_DURATION = 24 * 60 // minutes
+export const DEFAULT_MEETING_DURATION = 30 // minutes
+export const MAX_INVITEES = 100
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Error codes for scheduling operations
+ */
+export const SchedulingErrorCodes = {
+    MEETING_NOT_FOUND: 'MEETING_NOT_FOUND',
+    NOT_HOST: 'NOT_HOST',
+    NOT_SCHEDULED: 'NOT_SCHEDULED',
+    INVALID_TITLE: 'INVALID_TITLE',
+    INVALID_DESCRIPTION: 'INVALID_DESCRIPTION',
+    INVALID_TIME: 'INVALID_TIME',
+    INVALID_DURATION: 'INVALID_DURATION',
+    INVALID_INVITEES: 'INVALID_INVITEES',
+    INVALID_RECURRENCE: 'INVALID_RECURRENCE',
+    NOT_RECURRING: 'NOT_RECURRING',
+} as const
+
+export type SchedulingErrorCode =
+    (typeof SchedulingErrorCodes)[keyof typeof SchedulingErrorCodes]
+
+export interface InviteeInput {
+    email: string
+    name?: string | null
+}
+
+export interface ScheduleMeetingDTO {
+    title: string
+    description?: string | null
+    scheduledAt: string // ISO date string
+    durationMinutes?: number
+    invitees?: InviteeInput[]
+    summaryTemplate?: string
+}
+
+export type UpdateScheduledMeetingDTO = Partial<ScheduleMeetingDTO>
+
+export interface ScheduledMeetingInvitee {
+    email: string
+    name: string | null
+    userId: string | null
+}
+
+export interface ScheduledMeetingSeries {
+    id: string
+    rrule: string
+    timeZone: string
+}
+
+export interface ScheduledMeeting {
+    id: string
+    roomName: string
+    joinPath: string
+    title: string
+    description: string | null
+    status: MeetingStatus
+    scheduledAt: Date | null
+    durationMinutes: number | null
+    summaryTemplate: string | null
+    host: { id: string; name: string; email: string } | null
+    invitees: ScheduledMeetingInvitee[]
+    isHost: boolean
+    series: ScheduledMeetingSeries | null
+}
+
+export interface SchedulingResult {
+    success: boolean
+    meeting?: ScheduledMeeting
+    error?: string
+    errorCode?: SchedulingErrorCode
+}
+
+const SCHEDULED_MEETING_SELECT = {
+    id: true,
+    roomName: true,
+    title: true,
+    description: true,
+    status: true,
+    scheduledAt: true,
+    plannedDuration: true,
+    summaryTemplate: true,
+    hostId: true,
+    host: { select: { id: true, name: true, email: true } },
+    invitees: {
+        select: { email: true, name: true, userId: true },
+        orderBy: { createdAt: 'asc' as const },
+    },
+    series: { select: { id: true, rrule: true, timeZone: true } },
+} as const
+
+type ScheduledMeetingRow = {
+    id: string
+    roomName: string
+    title: string
+    description: string | null
+    status: MeetingStatus
+    scheduledAt: Date | null
+    plannedDuration: number | null
+    summaryTemplate: string | null
+    hostId: string | null
+    host: { id: string; name: string; email: string } | null
+    invitees: ScheduledMeetingInvitee[]
+    series: ScheduledMeetingSeries | null
+}
+
+/**
+ * Join link path of a meeting room
+ */
+export function getJoinPath(roomName: string): string {
+    return `/jitsi-meeting/${encodeURIComponent(roomName)}`
+}
+
+function toScheduledMeeting(row: ScheduledMeetingRow, viewerUserId: string): ScheduledMeeting {
+    return {
+        id: row.id,
+        roomName: row.roomName,
+        joinPath: getJoinPath(row.roomName),
+        title: row.title,
+        description: row.description,
+        status: row.status,
+        scheduledAt: row.scheduledAt,
+        durationMinutes: row.plannedDuration,
+        summaryTemplate: row.summaryTemplate,
+        host: row.host,
+        invitees: row.invitees,
+        isHost: row.hostId === viewerUserId,
+        series: row.series,
+    }
+}
+
+export function failure(errorCode: SchedulingErrorCode, error: string): SchedulingResult {
+    return { success: false, error, errorCode }
+}
+
+/**
+ * Validate the fields present in a create/update body
+ * Returns an error result, or null when valid
+ */
+export function validateScheduleFields(
+    dto: UpdateScheduledMeetingDTO,
+    requireAll: boolean
+): SchedulingResult | null {
+    if (requireAll || dto.title !== undefined) {
+        const title = typeof dto.title === 'string' ? dto.title.trim() : ''
+        if (!title || title.length > MAX_MEETING_TITLE_LENGTH) {
+            return failure(
+                SchedulingErrorCodes.INVALID_TITLE,
+                `Title is required (max ${MAX_MEETING_TITLE_LENGTH} characters)`
+            )
+        }
+    }
+
+    if (dto.description !== undefined && dto.description !== null) {
+        if (
+            typeof dto.description !== 'string' ||
+            dto.description.length > MAX_MEETING_DESCRIPTION_LENGTH
+        ) {
+            return failure(
+                SchedulingErrorCodes.INVALID_DESCRIPTION,
+                `Description must be at most ${MAX_MEETING_DESCRIPTION_LENGTH} characters`
+            )
+        }
+    }
+
+    if (requireAll || dto.scheduledAt !== undefined) {
+        const scheduledAt =
+            typeof dto.scheduledAt === 'string' ? new Date(dto.scheduledAt) : null
+        if (!scheduledAt || isNaN(scheduledAt.getTime())) {
+            return failure(SchedulingErrorCodes.INVALID_TIME, 'Invalid meeting time')
+        }
+        if (scheduledAt.getTime() < Date.now() - 60 * 1000) {
+            return failure(
+                SchedulingErrorCodes.INVALID_TIME,
+                'Meeting time must be in the future'
+            )
+        }
+    }
+
+    if (dto.durationMinutes !== undefined) {
+        if (
+            !Number.isInteger(dto.durationMinutes) ||
+            dto.durationMinutes < MIN_MEETING_DURATION ||
+            dto.durationMinutes > MAX_MEETING_DURATION
+        ) {
+            return failure(
+                SchedulingErrorCodes.INVALID_DURATION,
+                `Duration must be between ${MIN_MEETING_DURATION} and ${MAX_MEETING_DURATION} minutes`
+            )
+        }
+    }
+
+    if (dto.invitees !== undefined) {
+        if (!Array.isArray(dto.invitees) || dto.invitees.length > MAX_INVITEES) {
+            return failure(
+                SchedulingErrorCodes.INVALID_INVITEES,
+                `Invitees must be a list of at most ${MAX_INVITEES} people`
+            )
+        }
+        const invalidIndex = dto.invitees.findIndex(
+            (invitee) =>
+                typeof invitee?.email !== 'string' ||
+                !EMAIL_PATTERN.test(invitee.email.trim())
+        )
+        if (invalidIndex !== -1) {
+            return failure(
+                SchedulingErrorCodes.INVALID_INVITEES,
+                `Invalid invitee email: ${String(dto.invitees[invalidIndex]?.email ?? '')}`
+            )
+        }
+    }
+
+    return null
+}
+
+/**
+ * Lowercase and de-duplicate invitee emails, dropping the host
+ */
+export function normalizeInvitees(invitees: InviteeInput[], hostEmail?: string): InviteeInput[] {
+    const byEmail = new Map<string, InviteeInput>()
+    for (const invitee of invitees) {
+        const email = invitee.email.trim().toLowerCase()
+        if (email === hostEmail?.toLowerCase() || byEmail.has(email)) continue
+        const name = typeof invitee.name === 'string' ? invitee.name.trim() : ''
+        byEmail.set(email, { email, name: name || null })
+    }
+    return Array.from(byEmail.values())
+}
+
+/**
+ * Room name for a new scheduled meeting: a slug of the title plus a random suffix
+ */
+function generateRoomName(title: string): string {
+    const slug = title
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 40)
+        .replace(/-+$/, '')
+
+    const suffix = crypto.randomUUID().replace(/-/g, '').slice(0, 10)
+    return slug ? `${slug}-${suffix}` : `meeting-${suffix}`
+}
+
+export const schedulingService = {
+    /**
+     * Schedule a new meeting hosted by the user
+     */
+    async scheduleMeeting(hostId: string, dto: ScheduleMeetingDTO): Promise<SchedulingResult> {
+        const invalid = validateScheduleFields(dto, true)
+        if (invalid) return invalid
+
+        const host = await prisma.user.findUnique({
+            where: { id: hostId },
+            select: { email: true },
+        })
+
+        const roomName = await this.createRoomName(dto.title)
+        const meetingId = crypto.randomUUID()
+
+        await meetingRecordService.processMeetingScheduled({
+            meetingId,
+            roomName,
+            hostUserId: hostId,
+            title: dto.title.trim(),
+            description: dto.description?.trim() || undefined,
+            summaryTemplate: dto.summaryTemplate,
+            scheduledAt: new Date(dto.scheduledAt).toISOString(),
+        })
+
+        await prisma.meeting.update({
+            where: { id: meetingId },
+            data: { plannedDuration: dto.durationMinutes ?? DEFAULT_MEETING_DURATION },
+        })
+
+        await this.replaceInvitees(meetingId, normalizeInvitees(dto.invitees ?? [], host?.email))
+
+        console.log(`[schedulingService] Scheduled meeting ${meetingId} (room: ${roomName})`)
+
+        return { success: true, meeting: (await this.getScheduledMeeting(meetingId, hostId))! }
+    },
+
+    /**
+     * Change a scheduled meeting (host only, while it has not started)
+     * A provided invitee list replaces the current one
+     */
+    async updateScheduledMeeting(
+        meetingId: string,
+        userId: string,
+        dto: UpdateScheduledMeetingDTO
+    ): Promise<SchedulingResult> {
+        const denied = await this.checkEditable(meetingId, userId)
+        if (denied) return denied
+
+        const invalid = validateScheduleFields(dto, false)
+        if (invalid) return invalid
+
+        await prisma.meeting.update({
+            where: { id: meetingId },
+            data: {
+                ...(dto.title !== undefined && { title: dto.title.trim() }),
+                ...(dto.description !== undefined && {
+                    description: dto.description?.trim() || null,
+                }),
+                ...(dto.scheduledAt !== undefined && {
+                    scheduledAt: new Date(dto.scheduledAt),
+                }),
+                ...(dto.durationMinutes !== undefined && {
+                    plannedDuration: dto.durationMinutes,
+                }),
+                // Calendar clients only apply invites with a higher SEQUENCE
+                icsSequence: { increment: 1 },
+            },
+        })
+
+        if (dto.invitees !== undefined) {
+            const host = await prisma.user.findUnique({
+                where: { id: userId },
+                select: { email: true },
+            })
+            await this.replaceInvitees(meetingId, normalizeInvitees(dto.invitees, host?.email))
+        }
+
+        return { success: true, meeting: (await this.getScheduledMeeting(meetingId, userId))! }
+    },
+
+    /**
+     * Cancel a scheduled meeting (host only, while it has not started)
+     */
+    async cancelScheduledMeeting(
+        meetingId: string,
+        userId: string,
+        reason?: string
+    ): Promise<SchedulingResult> {
+        const denied = await this.checkEditable(meetingId, userId)
+        if (denied) return denied
+
+        await meetingRecordService.processMeetingCancelled({
+            meetingId,
+            cancelledAt: new Date().toISOString(),
+            reason,
+        })
+
+        console.log(`[schedulingService] Cancelled meeting ${meetingId}`)
+
+        return { success: true, meeting: (await this.getScheduledMeeting(meetingId, userId))! }
+    },
+
+    /**
+     * Whether the user may change a meeting; returns an error result, or null when allowed
+     */
+    async checkEditable(meetingId: string, userId: string): Promise<SchedulingResult | null> {
+        const meeting = await prisma.meeting.findUnique({
+            where: { id: meetingId },
+            select: { hostId: true, status: true },
+        })
+
+        if (!meeting) {
+            return failure(SchedulingErrorCodes.MEETING_NOT_FOUND, 'Meeting not found')
+        }
+        if (meeting.hostId !== userId) {
+            return failure(
+                SchedulingErrorCodes.NOT_HOST,
+                'Only the host can change a scheduled meeting'
+            )
+        }
+        if (meeting.status !== MeetingStatus.SCHEDULED) {
+            return failure(
+                SchedulingErrorCodes.NOT_SCHEDULED,
+                `Meeting is ${meeting.status.toLowerCase()} and can no longer be changed`
+            )
+        }
+
+        return null
+    },
+
+    /**
+     * A meeting with its scheduling details, or null when the user is neither
+     * its host, an invitee nor a participant
+     */
+    async getScheduledMeeting(meetingId: string, userId: string): Promise<ScheduledMeeting | null> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true },
+        })
+
+        const meeting = await prisma.meeting.findFirst({
+            where: {
+                id: meetingId,
+                OR: [
+                    { hostId: userId },
+                    { participants: { some: { userId } } },
+                    { invitees: { some: { userId } } },
+                    ...(user ? [{ invitees: { some: { email: user.email.toLowerCase() } } }] : []),
+                ],
+            },
+            select: SCHEDULED_MEETING_SELECT,
+        })
+
+        return meeting ? toScheduledMeeting(meeting, userId) : null
+    },
+
+    /**
+     * Scheduled meetings the user hosts or is invited to, soonest first
+     * Meetings stay listed until their planned end, so late joiners still see the link;
+     * a recurring series is listed once, by its next occurrence
+     */
+    async getUpcomingMeetings(userId: string, limit = 20): Promise<ScheduledMeeting[]> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true },
+        })
+
+        const meetings = await prisma.meeting.findMany({
+            where: {
+                status: MeetingStatus.SCHEDULED,
+                scheduledAt: { gte: new Date(Date.now() - MAX_MEETING_DURATION * 60 * 1000) },
+                OR: [
+                    { hostId: userId },
+                    { invitees: { some: { userId } } },
+                    ...(user ? [{ invitees: { some: { email: user.email.toLowerCase() } } }] : []),
+                ],
+            },
+            orderBy: { scheduledAt: 'asc' },
+            select: SCHEDULED_MEETING_SELECT,
+        })
+
+        const now = Date.now()
+        const listedSeries = new Set<string>()
+        return meetings
+            .filter((meeting) => {
+                const minutes = meeting.plannedDuration ?? DEFAULT_MEETING_DURATION
+                if (meeting.scheduledAt!.getTime() + minutes * 60 * 1000 < now) return false
+                if (!meeting.series) return true
+                if (listedSeries.has(meeting.series.id)) return false
+                listedSeries.add(meeting.series.id)
+                return true
+            })
+            .slice(0, limit)
+            .map((meeting) => toScheduledMeeting(meeting, userId))
+    },
+
+    /**
+     * Room name not used by any meeting or series yet
+     */
+    async createRoomName(title: string): Promise<string> {
+        for (;;) {
+            const roomName = generateRoomName(title)
+            const [meeting, series] = await Promise.all([
+                prisma.meeting.findFirst({ where: { roomName }, select: { id: true } }),
+                prisma.meetingSeries.findFirst({ where: { roomName }, select: { id: true } }),
+            ])
+            if (!meeting && !series) return roomName
+        }
+    },
+
+    /**
+     * User IDs of registered users by (lowercased) email
+     */
+    async resolveInviteeUserIds(emails: string[]): Promise<Map<string, string>> {
+        const users = emails.length
+            ? await prisma.user.findMany({
+                  where: { email: { in: emails, mode: 'insensitive' } },
+                  select: { id: true, email: true },
+              })
+            : []
+        return new Map(users.map((user) => [user.email.toLowerCase(), user.id]))
+    },
+
+    /**
+     * Replace a meeting's invitees, linking emails of registered users
+     */
+    async replaceInvitees(meetingId: string, invitees: InviteeInput[]): Promise<void> {
+        const userIdByEmail = await this.resolveInviteeUserIds(
+            invitees.map((invitee) => invitee.email)
+        )
+
+        await prisma.$transaction([
+            prisma.meetingInvitee.deleteMany({ where: { meetingId } }),
+            prisma.meetingInvitee.createMany({
+                data: invitees.map((invitee) => ({
+                    meetingId,
+                    email: invitee.email,
+                    name: invitee.name || null,
+                    userId: userIdByEmail.get(invitee.email) ?? null,
+                })),
+            }),
+        ])
+    },
+}
@@ -0,0 +1,376 @@
+/**
+ * searchService
+ *
+ * Full-text search over transcripts (Transcript.fullText and final
+ * TranscriptSegment.text) and summaries, limited to meetings the user
+ * hosted or participated in.
+ *
+ * Uses Postgres full-text search with the text search configuration matching
+ * the transcript language (e.g. "english" for en-US). Vietnamese, the default
+ * vi-VN, uses the "vietnamese" configuration (simple + unaccent, created by the
+ * search_text_indexes migration) so queries match with or without diacritics.
+ * Other languages without a built-in configuration use "simple", which matches
+ * whole words without stemming.
+ * Summaries are searched with the config of their meeting's transcript.
+ *
+ * Meetings are searched one config at a time with the config as a literal,
+ * so the GIN expression indexes of that migration can be used.
+ *
+ * Matches are returned grouped by meeting, with segment-level timestamps.
+ */
+
+import prisma from '../../../../lib/prisma'
+import { Prisma } from '../../../../app/generated/prisma'
+
+// BCP 47 primary language → built-in Postgres text search configuration
+const TEXT_SEARCH_CONFIGS: Record<string, string> = {
+    ar: 'arabic',
+    da: 'danish',
+    de: 'german',
+    el: 'greek',
+    en: 'english',
+    es: 'spanish',
+    fi: 'finnish',
+    fr: 'french',
+    hu: 'hungarian',
+    id: 'indonesian',
+    it: 'italian',
+    nl: 'dutch',
+    no: 'norwegian',
+    pt: 'portuguese',
+    ro: 'romanian',
+    ru: 'russian',
+    sv: 'swedish',
+    tr: 'turkish',
+}
+
+// Created by a migration; "simple" is used until it exists (e.g. after db push)
+const VIETNAMESE_TEXT_SEARCH_CONFIG = 'vietnamese'
+
+const FALLBACK_TEXT_SEARCH_CONFIG = 'simple'
+
+// Cached lookup of the migration-created config
+let vietnameseConfigAvailable: Promise<boolean> | null = null
+
+/**
+ * Language → config map, including Vietnamese when its config exists
+ */
+async function getTextSearchConfigs(): Promise<Record<string, string>> {
+    vietnameseConfigAvailable ??= prisma
+        .$queryRaw<{ exists: boolean }[]>`
+            SELECT EXISTS (
+                SELECT 1 FROM pg_ts_config WHERE cfgname = ${VIETNAMESE_TEXT_SEARCH_CONFIG}
+            ) AS "exists"
+        `
+        .then(([row]) => row?.exists ?? false)
+        .catch((error) => {
+            vietnameseConfigAvailable = null
+            throw error
+        })
+
+    return (await vietnameseConfigAvailable)
+        ? { ...TEXT_SEARCH_CONFIGS, vi: VIETNAMESE_TEXT_SEARCH_CONFIG }
+        : TEXT_SEARCH_CONFIGS
+}
+
+// Built from the constant maps above only, never from user input
+function configByLanguageSql(configs: Record<string, string>): Prisma.Sql {
+    return Prisma.raw(
+        `CASE split_part(lower(coalesce(t."language", '')), '-', 1) ` +
+            Object.entries(configs)
+                .map(([language, config]) => `WHEN '${language}' THEN '${config}' `)
+                .join('') +
+            `ELSE '${FALLBACK_TEXT_SEARCH_CONFIG}' END`
+    )
+}
+
+// Summary document searched with config `cfg` (must stay in sync with the
+// Summary expression index of the search_text_indexes migration)
+function summaryDocumentSql(cfg: Prisma.Sql): Prisma.Sql {
+    return Prisma.sql`(
+        setweight(to_tsvector(${cfg}, su."title"), 'A') ||
+        setweight(to_tsvector(${cfg}, su."overview"), 'B') ||
+        setweight(to_tsvector(${cfg}, su."keyPoints"::text || ' ' || su."decisions"::text || ' ' ||
+                  su."actionItems"::text || ' ' || coalesce(su."content"::text, '')), 'C')
+    )`
+}
+
+// Highlighted terms are wrapped in these markers (safe to render as text)
+export const SEARCH_HIGHLIGHT_START = '<<'
+export const SEARCH_HIGHLIGHT_END = '>>'
+
+const HEADLINE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2`
+
+// Matching rows read per source before grouping by meeting
+const MAX_ROWS_PER_SOURCE = 500
+const MAX_SEGMENT_HITS_PER_MEETING = 5
+
+// Summaries are curated, so a summary match outranks a transcript match
+const SUMMARY_RANK_WEIGHT = 2
+
+export const MAX_SEARCH_QUERY_LENGTH = 200
+
+export interface SearchOptions {
+    limit?: number
+    offset?: number
+}
+
+export interface SegmentSearchHit {
+    segmentId: string
+    speakerName: string
+    startTime: number | null // Seconds from Transcript.startedAt
+    endTime: number | null
+    receivedAt: Date
+    snippet: string
+    rank: number
+}
+
+export interface MeetingSearchResult {
+    meeting: {
+        id: string
+        title: string
+        roomName: string
+        status: string
+        startedAt: Date | null
+        endedAt: Date | null
+    }
+    score: number
+    summarySnippet: string | null
+    transcriptSnippet: string | null // When no single segment matches every term
+    segmentHits: SegmentSearchHit[]
+    totalSegmentHits: number
+}
+
+export interface SearchResults {
+    query: string
+    total: number // Matching meetings
+    results: MeetingSearchResult[]
+}
+
+interface AccessibleMeetingRow {
+    id: string
+    title: string
+    roomName: string
+    status: string
+    startedAt: Date | null
+    endedAt: Date | null
+}
+
+interface DocumentMatchRow {
+    meetingId: string
+    snippet: string
+    rank: number
+}
+
+interface SegmentMatchRow extends DocumentMatchRow {
+    segmentId: string
+    speakerId: number
+    speakerName: string | null
+    startTime: number | null
+    endTime: number | null
+    receivedAt: Date
+}
+
+export const searchService = {
+    /**
+     * Search transcripts and summaries of the user's meetings
+     */
+    async search(
+        userId: string,
+        query: string,
+        options: SearchOptions = {}
+    ): Promise<SearchResults> {
+        const { limit = 20, offset = 0 } = options
+        const term = query.trim().slice(0, MAX_SEARCH_QUERY_LENGTH)
+
+        if (!term) {
+            return { query: term, total: 0, results: [] }
+        }
+
+        const configs = await getTextSearchConfigs()
+        const knownConfigs = new Set([
+            ...Object.values(configs),
+            FALLBACK_TEXT_SEARCH_CONFIG,
+        ])
+
+        // Accessible meetings with the text search config of their transcript
+        const scope = Prisma.sql`
+            WITH scope AS (
+                SELECT m."id", ${configByLanguageSql(configs)} AS cfg
+                FROM "Meeting" m
+                LEFT JOIN "Transcript" t ON t."meetingId" = m."id"
+                WHERE m."hostId" = ${userId}
+                   OR EXISTS (
+                        SELECT 1 FROM "MeetingParticipant" p
+                        WHERE p."meetingId" = m."id" AND p."userId" = ${userId}
+                   )
+            )
+        `
+
+        const configRows = await prisma.$queryRaw<{ cfg: string }[]>`
+            ${scope}
+            SELECT DISTINCT cfg FROM scope
+        `
+
+        const perConfig = await Promise.all(
+            configRows
+                .map((row) => row.cfg)
+                .filter((cfg) => knownConfigs.has(cfg))
+                .map((cfg) => this.searchWithConfig(scope, cfg, term))
+        )
+
+        const byRank = (a: { rank: number }, b: { rank: number }) => b.rank - a.rank
+        const segmentRows = perConfig
+            .flatMap((rows) => rows.segmentRows)
+            .sort(byRank)
+            .slice(0, MAX_ROWS_PER_SOURCE)
+        const transcriptRows = perConfig
+            .flatMap((rows) => rows.transcriptRows)
+            .sort(byRank)
+            .slice(0, MAX_ROWS_PER_SOURCE)
+        const summaryRows = perConfig
+            .flatMap((rows) => rows.summaryRows)
+            .sort(byRank)
+            .slice(0, MAX_ROWS_PER_SOURCE)
+
+        // Group matches by meeting
+        const byMeeting = new Map<
+            string,
+            Omit<MeetingSearchResult, 'meeting'>
+        >()
+        const entry = (meetingId: string) => {
+            let result = byMeeting.get(meetingId)
+            if (!result) {
+                result = {
+                    score: 0,
+                    summarySnippet: null,
+                    transcriptSnippet: null,
+                    segmentHits: [],
+                    totalSegmentHits: 0,
+                }
+                byMeeting.set(meetingId, result)
+            }
+            return result
+        }
+
+        for (const row of summaryRows) {
+            const result = entry(row.meetingId)
+            result.summarySnippet = row.snippet
+            result.score = Math.max(result.score, row.rank * SUMMARY_RANK_WEIGHT)
+        }
+
+        for (const row of transcriptRows) {
+            const result = entry(row.meetingId)
+            result.transcriptSnippet = row.snippet
+            result.score = Math.max(result.score, row.rank)
+        }
+
+        for (const row of segmentRows) {
+            const result = entry(row.meetingId)
+            result.totalSegmentHits++
+            result.score = Math.max(result.score, row.rank)
+            if (result.segmentHits.length < MAX_SEGMENT_HITS_PER_MEETING) {
+                result.segmentHits.push({
+                    segmentId: row.segmentId,
+                    speakerName: row.speakerName || `Speaker ${row.speakerId}`,
+                    startTime: row.startTime,
+                    endTime: row.endTime,
+                    receivedAt: row.receivedAt,
+                    snippet: row.snippet,
+                    rank: row.rank,
+                })
+            }
+        }
+
+        const ranked = [...byMeeting.entries()].sort(([, a], [, b]) => b.score - a.score)
+        const page = ranked.slice(offset, offset + limit)
+
+        const meetings = await prisma.meeting.findMany({
+            where: { id: { in: page.map(([meetingId]) => meetingId) } },
+            select: {
+                id: true,
+                title: true,
+                roomName: true,
+                status: true,
+                startedAt: true,
+                endedAt: true,
+            },
+        })
+        const meetingsById = new Map<string, AccessibleMeetingRow>(
+            meetings.map((meeting) => [meeting.id, meeting])
+        )
+
+        const results = page.flatMap(([meetingId, result]) => {
+            const meeting = meetingsById.get(meetingId)
+            if (!meeting) return []
+
+            // Segment hits in transcript order
+            result.segmentHits.sort(
+                (a, b) =>
+                    (a.startTime ?? 0) - (b.startTime ?? 0) ||
+                    a.receivedAt.getTime() - b.receivedAt.getTime()
+            )
+
+            return [{ meeting, ...result }]
+        })
+
+        return { query: term, total: ranked.length, results }
+    },
+
+    /**
+     * Match segments, transcripts and summaries of the scoped meetings that
+     * use one text search config (`cfg` is one of the known config names)
+     */
+    async searchWithConfig(scope: Prisma.Sql, cfg: string, term: string) {
+        const cfgSql = Prisma.raw(`'${cfg}'::regconfig`)
+        const query = Prisma.sql`websearch_to_tsquery(${cfgSql}, ${term})`
+        const document = summaryDocumentSql(cfgSql)
+
+        const [segmentRows, transcriptRows, summaryRows] = await Promise.all([
+            prisma.$queryRaw<SegmentMatchRow[]>`
+                ${scope}
+                SELECT s."id" AS "segmentId", scope."id" AS "meetingId",
+                       s."speakerId", s."speakerName", s."startTime", s."endTime", s."receivedAt",
+                       ts_headline(${cfgSql}, s."text", ${query}, ${HEADLINE_OPTIONS}) AS snippet,
+                       ts_rank(to_tsvector(${cfgSql}, s."text"), ${query})::float8 AS rank
+                FROM scope
+                JOIN "Transcript" t ON t."meetingId" = scope."id"
+                JOIN "TranscriptSegment" s ON s."transcriptId" = t."id"
+                WHERE scope.cfg = ${cfg} AND s."isFinal"
+                  AND to_tsvector(${cfgSql}, s."text") @@ ${query}
+                ORDER BY rank DESC
+                LIMIT ${MAX_ROWS_PER_SOURCE}
+            `,
+            prisma.$queryRaw<DocumentMatchRow[]>`
+                ${scope}
+                SELECT scope."id" AS "meetingId",
+                       ts_headline(${cfgSql}, t."fullText", ${query}, ${HEADLINE_OPTIONS}) AS snippet,
+                       ts_rank(to_tsvector(${cfgSql}, t."fullText"), ${query})::float8 AS rank
+                FROM scope
+                JOIN "Transcript" t ON t."meetingId" = scope."id"
+                WHERE scope.cfg = ${cfg} AND t."fullText" IS NOT NULL
+                  AND to_tsvector(${cfgSql}, t."fullText") @@ ${query}
+                ORDER BY rank DESC
+                LIMIT ${MAX_ROWS_PER_SOURCE}
+            `,
+            prisma.$queryRaw<DocumentMatchRow[]>`
+                ${scope}
+                SELECT scope."id" AS "meetingId",
+                       ts_headline(${cfgSql},
+                                   concat_ws(' ', su."title", su."overview", su."keyPoints"::text,
+                                             su."decisions"::text, su."actionItems"::text,
+                                             su."content"::text),
+                                   ${query}, ${HEADLINE_OPTIONS}) AS snippet,
+                       ts_rank(${document}, ${query})::float8 AS rank
+                FROM scope
+                JOIN "Summary" su ON su."meetingId" = scope."id"
+                WHERE scope.cfg = ${cfg} AND su."status" = 'COMPLETED'
+                  AND ${document} @@ ${query}
+                ORDER BY rank DESC
+                LIMIT ${MAX_ROWS_PER_SOURCE}
+            `,
+        ])
+
+        return { segmentRows, transcriptRows, summaryRows }
+    },
+}
@@ -0,0 +1,709 @@
+/**
+ * seriesService
+ *
+ * Recurring meetings. A MeetingSeries holds a recurrence rule (see
+ * recurrenceRule) and materializes one SCHEDULED Meeting per occurrence,
+ * GENERATION_HORIZON_DAYS ahead. All occurrences share the series' roomName,
+ * so the join link never changes; processMeetingStarted activates the
+ * occurrence closest to the start time.
+ *
+ * Changes and cancellations take a scope:
+ * - this: only the given occurrence (a skipped occurrence becomes an EXDATE)
+ * - following: the series is split - the old one ends before the occurrence,
+ *   a new series (same room) takes over from it
+ * - all: the series itself; upcoming occurrences are regenerated, which
+ *   overrides earlier single-occurrence changes
+ */
+
+import prisma from '../../../../lib/prisma'
+import { MeetingStatus, SummaryStatus, Prisma } from '../../../../app/generated/prisma'
+import type { MeetingSeries } from '../../../../app/generated/prisma'
+import { meetingRecordService } from './meetingRecordService'
+import {
+    schedulingService,
+    validateScheduleFields,
+    normalizeInvitees,
+    failure,
+    getJoinPath,
+    SchedulingErrorCodes,
+    DEFAULT_MEETING_DURATION,
+    type InviteeInput,
+    type ScheduleMeetingDTO,
+    type UpdateScheduledMeetingDTO,
+    type SchedulingResult,
+} from './schedulingService'
+import {
+    parseRecurrenceRule,
+    formatRecurrenceRule,
+    expandOccurrences,
+    countOccurrencesBefore,
+    isValidTimeZone,
+    type RecurrenceRule,
+} from './recurrenceRule'
+
+export const GENERATION_HORIZON_DAYS = 90
+export const MAX_GENERATED_OCCURRENCES = 100
+export const MAX_SERIES_HISTORY = 50
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const OCCURRENCE_SCOPES = ['this', 'following', 'all'] as const
+export type OccurrenceScope = (typeof OCCURRENCE_SCOPES)[number]
+
+export function isOccurrenceScope(value: unknown): value is OccurrenceScope {
+    return typeof value === 'string' && OCCURRENCE_SCOPES.includes(value as OccurrenceScope)
+}
+
+export interface ScheduleSeriesDTO extends ScheduleMeetingDTO {
+    recurrence: string // RRULE
+    timeZone: string // IANA zone, e.g. "Europe/Berlin"
+}
+
+export interface UpdateOccurrencesDTO extends UpdateScheduledMeetingDTO {
+    recurrence?: string // Only for the "following" and "all" scopes
+}
+
+export interface SeriesOccurrence {
+    id: string
+    status: MeetingStatus
+    scheduledAt: Date | null
+    occurrenceAt: Date | null
+    startedAt: Date | null
+    endedAt: Date | null
+    duration: number | null
+    summary: {
+        title: string
+        overview: string
+        keyPoints: unknown
+        actionItems: unknown
+        decisions: unknown
+        nextSteps: unknown
+        content: unknown
+        templateId: string
+    } | null
+}
+
+export interface SeriesDetails {
+    id: string
+    roomName: string
+    joinPath: string
+    title: string
+    description: string | null
+    rrule: string
+    startsAt: Date
+    timeZone: string
+    durationMinutes: number
+    exdates: Date[]
+    cancelledAt: Date | null
+    host: { id: string; name: string; email: string } | null
+    isHost: boolean
+    past: SeriesOccurrence[] // Newest first
+    upcoming: SeriesOccurrence[] // Soonest first
+}
+
+function parseRule(rrule: string): RecurrenceRule {
+    const parsed = parseRecurrenceRule(rrule)
+    if (!parsed.success) {
+        throw new Error(`Invalid stored recurrence rule "${rrule}": ${parsed.error}`)
+    }
+    return parsed.rule
+}
+
+function seriesInvitees(series: MeetingSeries): InviteeInput[] {
+    return Array.isArray(series.invitees) ? (series.invitees as unknown as InviteeInput[]) : []
+}
+
+export const seriesService = {
+    /**
+     * Create a recurring meeting hosted by the user and generate its first occurrences
+     */
+    async createSeries(hostId: string, dto: ScheduleSeriesDTO): Promise<SchedulingResult> {
+        const invalid = validateScheduleFields(dto, true)
+        if (invalid) return invalid
+
+        const parsed = parseRecurrenceRule(dto.recurrence)
+        if (!parsed.success) {
+            return failure(SchedulingErrorCodes.INVALID_RECURRENCE, parsed.error)
+        }
+        if (!isValidTimeZone(dto.timeZone)) {
+            return failure(SchedulingErrorCodes.INVALID_RECURRENCE, `Unknown time zone: ${dto.timeZone}`)
+        }
+
+        const startsAt = new Date(dto.scheduledAt)
+        const first = expandOccurrences(parsed.rule, {
+            startsAt,
+            timeZone: dto.timeZone,
+            to: new Date(startsAt.getTime() + 366 * DAY_MS),
+            limit: 1,
+        })
+        if (first.length === 0) {
+            return failure(
+                SchedulingErrorCodes.INVALID_RECURRENCE,
+                'The recurrence rule produces no meetings'
+            )
+        }
+
+        const host = await prisma.user.findUnique({
+            where: { id: hostId },
+            select: { email: true },
+        })
+
+        const series = await prisma.meetingSeries.create({
+            data: {
+                roomName: await schedulingService.createRoomName(dto.title),
+                title: dto.title.trim(),
+                description: dto.description?.trim() || null,
+                hostId,
+                rrule: formatRecurrenceRule(parsed.rule),
+                startsAt,
+                timeZone: dto.timeZone,
+                durationMinutes: dto.durationMinutes ?? DEFAULT_MEETING_DURATION,
+                invitees: normalizeInvitees(dto.invitees ?? [], host?.email) as unknown as Prisma.InputJsonValue,
+                summaryTemplate: dto.summaryTemplate,
+            },
+        })
+
+        await this.syncOccurrences(series.id, startsAt)
+
+        console.log(`[seriesService] Created series ${series.id} (${series.rrule}, room: ${series.roomName})`)
+
+        return this.nextOccurrenceResult(series.id, hostId, startsAt)
+    },
+
+    /**
+     * Make the series' occurrences from `from` up to the horizon match its rule
+     *
+     * Missing occurrences are created, existing ones get the series' fields and
+     * their rule time back, and upcoming ones the rule no longer produces are cancelled.
+     */
+    async syncOccurrences(seriesId: string, from: Date): Promise<void> {
+        const series = await prisma.meetingSeries.findUnique({ where: { id: seriesId } })
+        if (!series || series.cancelledAt) return
+
+        const rule = parseRule(series.rrule)
+        const horizon = new Date(Date.now() + GENERATION_HORIZON_DAYS * DAY_MS)
+        const desired = expandOccurrences(rule, {
+            startsAt: series.startsAt,
+            timeZone: series.timeZone,
+            exdates: series.exdates,
+            from,
+            to: horizon,
+            limit: MAX_GENERATED_OCCURRENCES,
+        })
+        const desiredTimes = new Set(desired.map((date) => date.getTime()))
+
+        const existing = await prisma.meeting.findMany({
+            where: {
+                seriesId,
+                occurrenceAt: { gte: from },
+                status: { in: [MeetingStatus.SCHEDULED, MeetingStatus.CANCELLED] },
+            },
+            select: { id: true, status: true, occurrenceAt: true, scheduledAt: true },
+        })
+
+        const invitees = seriesInvitees(series)
+        const userIdByEmail = await schedulingService.resolveInviteeUserIds(
+            invitees.map((invitee) => invitee.email)
+        )
+        const inviteeRows = (meetingId: string) =>
+            invitees.map((invitee) => ({
+                meetingId,
+                email: invitee.email,
+                name: invitee.name || null,
+                userId: userIdByEmail.get(invitee.email) ?? null,
+            }))
+
+        const kept = existing.filter((meeting) => desiredTimes.has(meeting.occurrenceAt!.getTime()))
+        const dropped = existing.filter(
+            (meeting) =>
+                meeting.status === MeetingStatus.SCHEDULED &&
+                !desiredTimes.has(meeting.occurrenceAt!.getTime())
+        )
+
+        if (kept.length > 0) {
+            const keptIds = kept.map((meeting) => meeting.id)
+            await prisma.$transaction([
+                prisma.meeting.updateMany({
+                    where: { id: { in: keptIds } },
+                    data: {
+                        title: series.title,
+                        description: series.description,
+                        hostId: series.hostId,
+                        plannedDuration: series.durationMinutes,
+                        summaryTemplate: series.summaryTemplate,
+                        accessPolicy: series.accessPolicy,
+                        passwordHash: series.passwordHash,
+                        lobbyEnabled: series.lobbyEnabled,
+                        status: MeetingStatus.SCHEDULED,
+                        icsSequence: { increment: 1 },
+                    },
+                }),
+                ...kept
+                    .filter((meeting) => meeting.scheduledAt?.getTime() !== meeting.occurrenceAt!.getTime())
+                    .map((meeting) =>
+                        prisma.meeting.update({
+                            where: { id: meeting.id },
+                            data: { scheduledAt: meeting.occurrenceAt },
+                        })
+                    ),
+                prisma.meetingInvitee.deleteMany({ where: { meetingId: { in: keptIds } } }),
+                prisma.meetingInvitee.createMany({
+                    data: keptIds.flatMap((meetingId) => inviteeRows(meetingId)),
+                }),
+            ])
+        }
+
+        for (const meeting of dropped) {
+            await meetingRecordService.processMeetingCancelled({
+                meetingId: meeting.id,
+                cancelledAt: new Date().toISOString(),
+                reason: 'Removed from the series',
+            })
+        }
+
+        const existingTimes = new Set(existing.map((meeting) => meeting.occurrenceAt!.getTime()))
+        for (const occurrenceAt of desired) {
+            if (existingTimes.has(occurrenceAt.getTime())) continue
+
+            const meetingId = crypto.randomUUID()
+            try {
+                await prisma.meeting.create({
+                    data: {
+                        id: meetingId,
+                        roomName: series.roomName,
+                        title: series.title,
+                        description: series.description,
+                        hostId: series.hostId,
+                        scheduledAt: occurrenceAt,
+                        occurrenceAt,
+                        plannedDuration: series.durationMinutes,
+                        status: MeetingStatus.SCHEDULED,
+                        summaryTemplate: series.summaryTemplate,
+                        accessPolicy: series.accessPolicy,
+                        passwordHash: series.passwordHash,
+                        lobbyEnabled: series.lobbyEnabled,
+                        seriesId,
+                        invitees: {
+                            create: invitees.map((invitee) => ({
+                                email: invitee.email,
+                                name: invitee.name || null,
+                                userId: userIdByEmail.get(invitee.email) ?? null,
+                            })),
+                        },
+                    },
+                })
+            } catch (error: unknown) {
+                const prismaError = error as { code?: string }
+                // Created concurrently (unique seriesId + occurrenceAt)
+                if (prismaError?.code !== 'P2002') throw error
+            }
+        }
+
+        await prisma.meetingSeries.update({
+            where: { id: seriesId },
+            data: {
+                generatedUntil:
+                    desired.length === MAX_GENERATED_OCCURRENCES ? desired[desired.length - 1] : horizon,
+            },
+        })
+    },
+
+    /**
+     * Generate occurrences of open-ended series whose generated range runs short
+     * Cheap enough to call before listing upcoming meetings
+     */
+    async ensureOccurrences(limit = 20): Promise<void> {
+        const threshold = new Date(Date.now() + (GENERATION_HORIZON_DAYS - 7) * DAY_MS)
+        const series = await prisma.meetingSeries.findMany({
+            where: {
+                cancelledAt: null,
+                OR: [{ generatedUntil: null }, { generatedUntil: { lt: threshold } }],
+            },
+            select: { id: true, startsAt: true, generatedUntil: true },
+            take: limit,
+        })
+
+        for (const item of series) {
+            try {
+                const from = item.generatedUntil
+                    ? new Date(item.generatedUntil.getTime() + 1)
+                    : item.startsAt
+                await this.syncOccurrences(item.id, from)
+            } catch (error) {
+                console.error(`[seriesService] Failed to extend series ${item.id}:`, error)
+            }
+        }
+    },
+
+    /**
+     * Change one occurrence, it and the following ones, or the whole series
+     */
+    async updateOccurrences(
+        meetingId: string,
+        userId: string,
+        dto: UpdateOccurrencesDTO,
+        scope: OccurrenceScope
+    ): Promise<SchedulingResult> {
+        const denied = await schedulingService.checkEditable(meetingId, userId)
+        if (denied) return denied
+
+        const occurrence = await prisma.meeting.findUnique({
+            where: { id: meetingId },
+            select: { seriesId: true, occurrenceAt: true, series: true },
+        })
+
+        if (scope === 'this' || !occurrence?.series) {
+            if (scope !== 'this') {
+                return failure(SchedulingErrorCodes.NOT_RECURRING, 'Meeting is not part of a series')
+            }
+            if (dto.recurrence !== undefined) {
+                return failure(
+                    SchedulingErrorCodes.INVALID_RECURRENCE,
+                    'The recurrence can only be changed for following or all meetings of a series'
+                )
+            }
+            return schedulingService.updateScheduledMeeting(meetingId, userId, dto)
+        }
+
+        const invalid = validateScheduleFields(dto, false)
+        if (invalid) return invalid
+
+        let newRule: RecurrenceRule | undefined
+        if (dto.recurrence !== undefined) {
+            const parsed = parseRecurrenceRule(dto.recurrence)
+            if (!parsed.success) {
+                return failure(SchedulingErrorCodes.INVALID_RECURRENCE, parsed.error)
+            }
+            newRule = parsed.rule
+        }
+
+        const series = occurrence.series
+        const occurrenceAt = occurrence.occurrenceAt!
+        const host = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true },
+        })
+
+        const fields = {
+            ...(dto.title !== undefined && { title: dto.title.trim() }),
+            ...(dto.description !== undefined && { description: dto.description?.trim() || null }),
+            ...(dto.durationMinutes !== undefined && { durationMinutes: dto.durationMinutes }),
+            ...(dto.invitees !== undefined && {
+                invitees: normalizeInvitees(dto.invitees, host?.email) as unknown as Prisma.InputJsonValue,
+            }),
+        }
+
+        const rule = parseRule(series.rrule)
+        const isFirst =
+            countOccurrencesBefore(rule, series.startsAt, series.timeZone, occurrenceAt) === 0
+
+        if (scope === 'all' || isFirst) {
+            // Moving one occurrence moves the series by the same amount
+            const startsAt = dto.scheduledAt
+                ? new Date(
+                      series.startsAt.getTime() +
+                          (new Date(dto.scheduledAt).getTime() - occurrenceAt.getTime())
+                  )
+                : series.startsAt
+
+            await prisma.meetingSeries.update({
+                where: { id: series.id },
+                data: {
+                    ...fields,
+                    startsAt,
+                    ...(newRule && { rrule: formatRecurrenceRule(newRule) }),
+                },
+            })
+
+            // Resync from the earlier of the old and new start so moved
+            // occurrences are replaced, but never recreate past ones
+            const from = new Date(
+                Math.max(Date.now(), Math.min(series.startsAt.getTime(), startsAt.getTime()))
+            )
+            await this.syncOccurrences(series.id, from)
+            return this.nextOccurrenceResult(series.id, userId, from)
+        }
+
+        // "following": end the current series before this occurrence ...
+        const startsAt = dto.scheduledAt ? new Date(dto.scheduledAt) : occurrenceAt
+        const followingRule: RecurrenceRule = newRule ?? {
+            ...rule,
+            ...(rule.count && {
+                count: rule.count - countOccurrencesBefore(rule, series.startsAt, series.timeZone, occurrenceAt),
+            }),
+        }
+
+        await prisma.meetingSeries.update({
+            where: { id: series.id },
+            data: {
+                rrule: formatRecurrenceRule({
+                    ...rule,
+                    count: undefined,
+                    until: new Date(occurrenceAt.getTime() - 1000),
+                }),
+            },
+        })
+
+        // ... and continue with a new series in the same room
+        const following = await prisma.meetingSeries.create({
+            data: {
+                roomName: series.roomName,
+                title: series.title,
+                description: series.description,
+                hostId: series.hostId,
+                rrule: formatRecurrenceRule(followingRule),
+                startsAt,
+                timeZone: series.timeZone,
+                durationMinutes: series.durationMinutes,
+                exdates: series.exdates.filter((date) => date >= occurrenceAt),
+                invitees: series.invitees ?? Prisma.JsonNull,
+                summaryTemplate: series.summaryTemplate,
+                accessPolicy: series.accessPolicy,
+                passwordHash: series.passwordHash,
+                lobbyEnabled: series.lobbyEnabled,
+                ...fields,
+            },
+        })
+
+        await prisma.meeting.updateMany({
+            where: {
+                seriesId: series.id,
+                occurrenceAt: { gte: occurrenceAt },
+                status: { in: [MeetingStatus.SCHEDULED, MeetingStatus.CANCELLED] },
+            },
+            data: { seriesId: following.id },
+        })
+
+        const from = new Date(
+            Math.max(Date.now(), Math.min(occurrenceAt.getTime(), startsAt.getTime()))
+        )
+        await this.syncOccurrences(following.id, from)
+
+        console.log(`[seriesService] Split series ${series.id} at ${occurrenceAt.toISOString()} into ${following.id}`)
+
+        return this.nextOccurrenceResult(following.id, userId, from)
+    },
+
+    /**
+     * Cancel one occurrence, it and the following ones, or the whole series
+     */
+    async cancelOccurrences(
+        meetingId: string,
+        userId: string,
+        scope: OccurrenceScope,
+        reason?: string
+    ): Promise<SchedulingResult> {
+        const denied = await schedulingService.checkEditable(meetingId, userId)
+        if (denied) return denied
+
+        const occurrence = await prisma.meeting.findUnique({
+            where: { id: meetingId },
+            select: { occurrenceAt: true, series: true },
+        })
+
+        if (!occurrence?.series) {
+            if (scope !== 'this') {
+                return failure(SchedulingErrorCodes.NOT_RECURRING, 'Meeting is not part of a series')
+            }
+            return schedulingService.cancelScheduledMeeting(meetingId, userId, reason)
+        }
+
+        const series = occurrence.series
+        const occurrenceAt = occurrence.occurrenceAt!
+        const rule = parseRule(series.rrule)
+        const isFirst =
+            countOccurrencesBefore(rule, series.startsAt, series.timeZone, occurrenceAt) === 0
+
+        if (scope === 'this') {
+            await prisma.meetingSeries.update({
+                where: { id: series.id },
+                data: { exdates: { push: occurrenceAt } },
+            })
+            return schedulingService.cancelScheduledMeeting(meetingId, userId, reason)
+        }
+
+        if (scope === 'all' || isFirst) {
+            await prisma.meetingSeries.update({
+                where: { id: series.id },
+                data: { cancelledAt: new Date() },
+            })
+        } else {
+            await prisma.meetingSeries.update({
+                where: { id: series.id },
+                data: {
+                    rrule: formatRecurrenceRule({
+                        ...rule,
+                        count: undefined,
+                        until: new Date(occurrenceAt.getTime() - 1000),
+                    }),
+                },
+            })
+        }
+
+        const cancelled = await prisma.meeting.findMany({
+            where: {
+                seriesId: series.id,
+                status: MeetingStatus.SCHEDULED,
+                ...(scope === 'following' && !isFirst && { occurrenceAt: { gte: occurrenceAt } }),
+            },
+            select: { id: true },
+        })
+
+        for (const meeting of cancelled) {
+            await meetingRecordService.processMeetingCancelled({
+                meetingId: meeting.id,
+                cancelledAt: new Date().toISOString(),
+                reason,
+            })
+        }
+
+        console.log(`[seriesService] Cancelled ${cancelled.length} occurrences of series ${series.id} (${scope})`)
+
+        const meeting = await schedulingService.getScheduledMeeting(meetingId, userId)
+        return { success: true, meeting: meeting! }
+    },
+
+    /**
+     * A series with its held occurrences (and their summaries) and upcoming ones
+     * Returns null when the user is neither its host nor invited to / part of an occurrence
+     */
+    async getSeries(seriesId: string, userId: string): Promise<SeriesDetails | null> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { email: true },
+        })
+
+        const series = await prisma.meetingSeries.findFirst({
+            where: {
+                id: seriesId,
+                OR: [
+                    { hostId: userId },
+                    {
+                        occurrences: {
+                            some: {
+                                OR: [
+                                    { participants: { some: { userId } } },
+                                    { invitees: { some: { userId } } },
+                                    ...(user ? [{ invitees: { some: { email: user.email.toLowerCase() } } }] : []),
+                                ],
+                            },
+                        },
+                    },
+                ],
+            },
+            include: { host: { select: { id: true, name: true, email: true } } },
+        })
+
+        if (!series) return null
+
+        const occurrenceSelect = {
+            id: true,
+            status: true,
+            scheduledAt: true,
+            occurrenceAt: true,
+            startedAt: true,
+            endedAt: true,
+            duration: true,
+            summary: {
+                select: {
+                    status: true,
+                    title: true,
+                    overview: true,
+                    keyPoints: true,
+                    actionItems: true,
+                    decisions: true,
+                    nextSteps: true,
+                    content: true,
+                    templateId: true,
+                },
+            },
+        } as const
+
+        // Held occurrences of every series sharing the room (splits included)
+        const [past, upcoming] = await Promise.all([
+            prisma.meeting.findMany({
+                where: {
+                    roomName: series.roomName,
+                    seriesId: { not: null },
+                    status: { in: [MeetingStatus.ACTIVE, MeetingStatus.ENDED] },
+                },
+                orderBy: { startedAt: 'desc' },
+                take: MAX_SERIES_HISTORY,
+                select: occurrenceSelect,
+            }),
+            prisma.meeting.findMany({
+                where: {
+                    seriesId,
+                    status: MeetingStatus.SCHEDULED,
+                    scheduledAt: { gte: new Date(Date.now() - series.durationMinutes * 60 * 1000) },
+                },
+                orderBy: { scheduledAt: 'asc' },
+                take: 10,
+                select: occurrenceSelect,
+            }),
+        ])
+
+        const toOccurrence = (meeting: (typeof past)[number]): SeriesOccurrence => {
+            const { summary, ...rest } = meeting
+            return {
+                ...rest,
+                summary:
+                    summary && summary.status === SummaryStatus.COMPLETED
+                        ? {
+                              title: summary.title,
+                              overview: summary.overview,
+                              keyPoints: summary.keyPoints,
+                              actionItems: summary.actionItems,
+                              decisions: summary.decisions,
+                              nextSteps: summary.nextSteps,
+                              content: summary.content,
+                              templateId: summary.templateId,
+                          }
+                        : null,
+            }
+        }
+
+        return {
+            id: series.id,
+            roomName: series.roomName,
+            joinPath: getJoinPath(series.roomName),
+            title: series.title,
+            description: series.description,
+            rrule: series.rrule,
+            startsAt: series.startsAt,
+            timeZone: series.timeZone,
+            durationMinutes: series.durationMinutes,
+            exdates: series.exdates,
+            cancelledAt: series.cancelledAt,
+            host: series.host,
+            isHost: series.hostId === userId,
+            past: past.map(toOccurrence),
+            upcoming: upcoming.map(toOccurrence),
+        }
+    },
+
+    /**
+     * Result with the first scheduled occurrence of a series from an instant
+     */
+    async nextOccurrenceResult(seriesId: string, userId: string, from: Date): Promise<SchedulingResult> {
+        const next = await prisma.meeting.findFirst({
+            where: {
+                seriesId,
+                status: MeetingStatus.SCHEDULED,
+                occurrenceAt: { gte: from },
+            },
+            orderBy: { occurrenceAt: 'asc' },
+            select: { id: true },
+        })
+
+        const meeting = next ? await schedulingService.getScheduledMeeting(next.id, userId) : null
+        if (!meeting) {
+            return failure(
+                SchedulingErrorCodes.INVALID_RECURRENCE,
+                'The series has no upcoming meetings'
+            )
+        }
+
+        return { success: true, meeting }
+    },
+}
@@ -0,0 +1,329 @@
+/**
+ * speakerMappingService
+ *
+ * Corrects who a transcript speaker is. Speakers are identified by the Jitsi
+ * participant that sent the audio (TranscriptSegment.jitsiParticipantId), so
+ * a shared conference-room mic can be remapped to the participant actually
+ * speaking, or to a named person who never joined.
+ *
+ * A mapping rewrites the speaker name (and user) of all the speaker's
+ * segments, is kept as a SpeakerMapping so chunks arriving later get the same
+ * name, and links MeetingParticipant.speakerId back to the speaker. fullText
+ * is rebuilt, so exports, search and later summary runs use the new name;
+ * an existing summary is flagged as stale.
+ */
+
+import prisma from '../../../../lib/prisma'
+import { transcriptRecordService } from './transcriptRecordService'
+import { summaryService } from './summaryService'
+
+export const MAX_SPEAKER_NAME_LENGTH = 100
+
+/**
+ * Error codes for speaker mapping
+ */
+export const SpeakerMappingErrorCodes = {
+    TRANSCRIPT_NOT_FOUND: 'TRANSCRIPT_NOT_FOUND',
+    SPEAKER_NOT_FOUND: 'SPEAKER_NOT_FOUND',
+    PARTICIPANT_NOT_FOUND: 'PARTICIPANT_NOT_FOUND',
+    INVALID_TARGET: 'INVALID_TARGET',
+} as const
+
+export type SpeakerMappingErrorCode =
+    (typeof SpeakerMappingErrorCodes)[keyof typeof SpeakerMappingErrorCodes]
+
+/**
+ * Target of a mapping: a meeting participant, a name, or both
+ * (the name overrides the participant's display name)
+ */
+export interface MapSpeakerDTO {
+    participantId?: string | null
+    displayName?: string | null
+}
+
+export interface TranscriptSpeaker {
+    jitsiParticipantId: string
+    speakerId: number
+    speakerName: string // Current name on the segments
+    segmentCount: number
+    mapping: {
+        participantId: string | null
+        displayName: string
+        originalName: string | null
+        mappedById: string | null
+        updatedAt: Date
+    } | null
+}
+
+export interface SpeakerMappingResult {
+    success: boolean
+    speaker?: TranscriptSpeaker
+    updatedSegments?: number
+    error?: string
+    errorCode?: SpeakerMappingErrorCode
+}
+
+export const speakerMappingService = {
+    /**
+     * Distinct speakers of a meeting's transcript, with any mapping applied
+     */
+    async listSpeakers(meetingId: string): Promise<TranscriptSpeaker[] | null> {
+        const transcript = await prisma.transcript.findUnique({
+            where: { meetingId },
+            select: {
+                segments: {
+                    where: { jitsiParticipantId: { not: null } },
+                    orderBy: { receivedAt: 'asc' },
+                    select: {
+                        jitsiParticipantId: true,
+                        speakerId: true,
+                        speakerName: true,
+                    },
+                },
+                speakerMappings: true,
+            },
+        })
+
+        if (!transcript) return null
+
+        const mappings = new Map(
+            transcript.speakerMappings.map((mapping) => [mapping.jitsiParticipantId, mapping])
+        )
+        const speakers = new Map<string, TranscriptSpeaker>()
+
+        for (const segment of transcript.segments) {
+            const key = segment.jitsiParticipantId!
+            const name = segment.speakerName || `Speaker ${segment.speakerId}`
+            const speaker = speakers.get(key)
+
+            if (speaker) {
+                speaker.segmentCount++
+                speaker.speakerName = name // Latest name wins
+                continue
+            }
+
+            const mapping = mappings.get(key)
+            speakers.set(key, {
+                jitsiParticipantId: key,
+                speakerId: segment.speakerId,
+                speakerName: name,
+                segmentCount: 1,
+                mapping: mapping
+                    ? {
+                        participantId: mapping.participantId,
+                        displayName: mapping.displayName,
+                        originalName: mapping.originalName,
+                        mappedById: mapping.mappedById,
+                        updatedAt: mapping.updatedAt,
+                    }
+                    : null,
+            })
+        }
+
+        return [...speakers.values()]
+    },
+
+    /**
+     * Remap a speaker to a participant and/or name across all their segments
+     */
+    async mapSpeaker(
+        meetingId: string,
+        jitsiParticipantId: string,
+        dto: MapSpeakerDTO,
+        mappedById: string
+    ): Promise<SpeakerMappingResult> {
+        const name = dto.displayName?.trim() || null
+        if (!dto.participantId && !name) {
+            return {
+                success: false,
+                error: 'A participant or a name is required',
+                errorCode: SpeakerMappingErrorCodes.INVALID_TARGET,
+            }
+        }
+
+        const transcript = await prisma.transcript.findUnique({
+            where: { meetingId },
+            select: { id: true },
+        })
+        if (!transcript) {
+            return {
+                success: false,
+                error: 'Transcript not found',
+                errorCode: SpeakerMappingErrorCodes.TRANSCRIPT_NOT_FOUND,
+            }
+        }
+
+        const [latestSegment, existing] = await Promise.all([
+            prisma.transcriptSegment.findFirst({
+                where: { transcriptId: transcript.id, jitsiParticipantId },
+                orderBy: { receivedAt: 'desc' },
+                select: { speakerId: true, speakerName: true, speakerUserId: true },
+            }),
+            prisma.speakerMapping.findUnique({
+                where: {
+                    transcriptId_jitsiParticipantId: {
+                        transcriptId: transcript.id,
+                        jitsiParticipantId,
+                    },
+                },
+            }),
+        ])
+        if (!latestSegment) {
+            return {
+                success: false,
+                error: 'Speaker not found in this transcript',
+                errorCode: SpeakerMappingErrorCodes.SPEAKER_NOT_FOUND,
+            }
+        }
+
+        const participant = dto.participantId
+            ? await prisma.meetingParticipant.findFirst({
+                where: { id: dto.participantId, meetingId },
+                select: { id: true, userId: true, displayName: true },
+            })
+            : null
+        if (dto.participantId && !participant) {
+            return {
+                success: false,
+                error: 'Participant not found in this meeting',
+                errorCode: SpeakerMappingErrorCodes.PARTICIPANT_NOT_FOUND,
+            }
+        }
+
+        const displayName = name ?? participant!.displayName
+        const previousParticipantId = existing?.participantId ?? null
+
+        const [, segments] = await prisma.$transaction([
+            prisma.speakerMapping.upsert({
+                where: {
+                    transcriptId_jitsiParticipantId: {
+                        transcriptId: transcript.id,
+                        jitsiParticipantId,
+                    },
+                },
+                create: {
+                    transcriptId: transcript.id,
+                    jitsiParticipantId,
+                    participantId: participant?.id ?? null,
+                    displayName,
+                    originalName: latestSegment.speakerName,
+                    originalUserId: latestSegment.speakerUserId,
+                    mappedById,
+                },
+                update: {
+                    participantId: participant?.id ?? null,
+                    displayName,
+                    mappedById,
+                },
+            }),
+            prisma.transcriptSegment.updateMany({
+                where: { transcriptId: transcript.id, jitsiParticipantId },
+                data: {
+                    speakerName: displayName,
+                    speakerUserId: participant?.userId ?? null,
+                },
+            }),
+            // Unlink the participant this speaker was mapped to before
+            ...(previousParticipantId && previousParticipantId !== participant?.id
+                ? [
+                    prisma.meetingParticipant.updateMany({
+                        where: { id: previousParticipantId, speakerId: latestSegment.speakerId },
+                        data: { speakerId: null },
+                    }),
+                ]
+                : []),
+            ...(participant
+                ? [
+                    prisma.meetingParticipant.update({
+                        where: { id: participant.id },
+                        data: { speakerId: latestSegment.speakerId },
+                    }),
+                ]
+                : []),
+        ])
+
+        await transcriptRecordService.rebuildFullText(meetingId)
+        await summaryService.markTranscriptStale(meetingId)
+
+        console.log(
+            `[speakerMappingService] Mapped speaker ${jitsiParticipantId} to "${displayName}" ` +
+            `(${segments.count} segments) in meeting ${meetingId}`
+        )
+
+        const speakers = await this.listSpeakers(meetingId)
+        return {
+            success: true,
+            speaker: speakers?.find((speaker) => speaker.jitsiParticipantId === jitsiParticipantId),
+            updatedSegments: segments.count,
+        }
+    },
+
+    /**
+     * Undo a mapping, restoring the speaker the segments had before it
+     */
+    async resetSpeaker(
+        meetingId: string,
+        jitsiParticipantId: string
+    ): Promise<SpeakerMappingResult> {
+        const transcript = await prisma.transcript.findUnique({
+            where: { meetingId },
+            select: { id: true },
+        })
+        if (!transcript) {
+            return {
+                success: false,
+                error: 'Transcript not found',
+                errorCode: SpeakerMappingErrorCodes.TRANSCRIPT_NOT_FOUND,
+            }
+        }
+
+        const mapping = await prisma.speakerMapping.findUnique({
+            where: {
+                transcriptId_jitsiParticipantId: {
+                    transcriptId: transcript.id,
+                    jitsiParticipantId,
+                },
+            },
+        })
+        if (!mapping) {
+            return {
+                success: false,
+                error: 'Speaker is not remapped',
+                errorCode: SpeakerMappingErrorCodes.SPEAKER_NOT_FOUND,
+            }
+        }
+
+        const [segments] = await prisma.$transaction([
+            prisma.transcriptSegment.updateMany({
+                where: { transcriptId: transcript.id, jitsiParticipantId },
+                data: {
+                    speakerName: mapping.originalName,
+                    speakerUserId: mapping.originalUserId,
+                },
+            }),
+            ...(mapping.participantId
+                ? [
+                    prisma.meetingParticipant.updateMany({
+                        where: { id: mapping.participantId },
+                        data: { speakerId: null },
+                    }),
+                ]
+                : []),
+            prisma.speakerMapping.delete({ where: { id: mapping.id } }),
+        ])
+
+        await transcriptRecordService.rebuildFullText(meetingId)
+        await summaryService.markTranscriptStale(meetingId)
+
+        console.log(
+            `[speakerMappingService] Reset speaker ${jitsiParticipantId} in meeting ${meetingId}`
+        )
+
+        const speakers = await this.listSpeakers(meetingId)
+        return {
+            success: true,
+            speaker: speakers?.find((speaker) => speaker.jitsiParticipantId === jitsiParticipantId),
+            updatedSegments: segments.count,
+        }
+    },
+}
@@ -0,0 +1,178 @@
+/**
+ * summaryDiff
+ *
+ * Compares two summary revisions section by section, for reviewing a
+ * regenerated summary against an earlier one before accepting it.
+ *
+ * NOTE: This file must stay client-safe (no Prisma imports) -
+ * the diff is computed in the summary UI.
+ */
+
+import {
+    getContentSections,
+    getSummaryTemplate,
+    type SummaryTemplateSection,
+} from './summaryTemplates'
+
+/**
+ * The parts of a Summary / SummaryRevision that are compared
+ */
+export interface SummarySnapshot {
+    title: string
+    overview: string
+    keyPoints?: unknown
+    actionItems?: unknown
+    decisions?: unknown
+    nextSteps?: unknown
+    content?: Record<string, unknown> | null
+    templateId?: string
+}
+
+export interface SectionDiff {
+    key: string
+    label: string
+    added: string[]
+    removed: string[]
+    unchanged: string[]
+}
+
+export interface SummaryDiff {
+    title: { before: string; after: string; changed: boolean }
+    overview: { before: string; after: string; changed: boolean }
+    templateChanged: boolean
+    sections: SectionDiff[]
+    hasChanges: boolean
+}
+
+const ACTION_ITEMS_SECTION: SummaryTemplateSection = {
+    key: 'actionItems',
+    label: 'Action Items',
+    kind: 'list',
+}
+
+/**
+ * Flatten a section value into comparable lines
+ */
+function sectionLines(value: unknown, section: SummaryTemplateSection): string[] {
+    if (!Array.isArray(value)) return []
+
+    if (section.key === 'actionItems') {
+        return value.map((item) => {
+            const { task, assignee, dueDate } = item as {
+                task: string
+                assignee?: string
+                dueDate?: string
+            }
+            const details = [assignee, dueDate && `due ${dueDate}`].filter(Boolean)
+            return details.length > 0 ? `${task} (${details.join(', ')})` : task
+        })
+    }
+
+    if (section.kind === 'standupUpdates') {
+        return value.flatMap((update) => {
+            const { person, yesterday, today, blockers } = update as {
+                person: string
+                yesterday?: string[]
+                today?: string[]
+                blockers?: string[]
+            }
+            return [
+                ...(yesterday ?? []).map((item) => `${person} - Yesterday: ${item}`),
+                ...(today ?? []).map((item) => `${person} - Today: ${item}`),
+                ...(blockers ?? []).map((item) => `${person} - Blocker: ${item}`),
+            ]
+        })
+    }
+
+    if (section.kind === 'resources') {
+        return value.map((item) => {
+            const { url, description } = item as { url: string; description: string }
+            return description ? `${description} (${url})` : url
+        })
+    }
+
+    return value.map((item) => String(item))
+}
+
+/**
+ * Diff two lists by normalized text, keeping the original wording
+ */
+function diffLines(before: string[], after: string[]) {
+    const normalize = (line: string) => line.trim().toLowerCase()
+    const beforeSet = new Set(before.map(normalize))
+    const afterSet = new Set(after.map(normalize))
+
+    return {
+        added: after.filter((line) => !beforeSet.has(normalize(line))),
+        removed: before.filter((line) => !afterSet.has(normalize(line))),
+        unchanged: after.filter((line) => beforeSet.has(normalize(line))),
+    }
+}
+
+/**
+ * Compare two summaries; sections come from both revisions' templates
+ * Legacy revisions without content are read from their columns
+ */
+export function diffSummaries(
+    before: SummarySnapshot,
+    after: SummarySnapshot
+): SummaryDiff {
+    const beforeTemplate = getSummaryTemplate(before.templateId)
+    const afterTemplate = getSummaryTemplate(after.templateId)
+    const beforeSource = (before.content ?? before) as Record<string, unknown>
+    const afterSource = (after.content ?? after) as Record<string, unknown>
+
+    // Section order: after template first, then sections only the old template had
+    const sections: SummaryTemplateSection[] = getContentSections(
+        afterTemplate,
+        afterSource
+    )
+    for (const section of getContentSections(beforeTemplate, beforeSource)) {
+        if (!sections.some((s) => s.key === section.key)) {
+            sections.push(section)
+        }
+    }
+    sections.splice(1, 0, ACTION_ITEMS_SECTION)
+
+    const sectionDiffs = sections
+        .map((section) => ({
+            key: section.key,
+            label: section.label,
+            ...diffLines(
+                sectionLines(beforeSource[section.key], section),
+                sectionLines(afterSource[section.key], section)
+            ),
+        }))
+        .filter(
+            (diff) =>
+                diff.added.length > 0 ||
+                diff.removed.length > 0 ||
+                diff.unchanged.length > 0
+        )
+
+    const title = {
+        before: before.title,
+        after: after.title,
+        changed: before.title.trim() !== after.title.trim(),
+    }
+    const overview = {
+        before: before.overview,
+        after: after.overview,
+        changed: before.overview.trim() !== after.overview.trim(),
+    }
+    const templateChanged = beforeTemplate.id !== afterTemplate.id
+
+    return {
+        title,
+        overview,
+        templateChanged,
+        sections: sectionDiffs,
+        hasChanges:
+            title.changed ||
+            overview.changed ||
+            templateChanged ||
+            sectionDiffs.some(
+                (diff) => diff.added.length > 0 || diff.removed.length > 0
+            ),
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * summaryPolicyService
+ *
+ * Per-host policy for generating summaries automatically once a meeting
+ * has ended and its transcript has been compiled.
+ * Hosts without a SummaryPolicy row (and meetings without a host) use the
+ * deployment defaults: SUMMARY_AUTO_ENABLED and SUMMARY_AUTO_MIN_WORDS.
+ */
+
+import prisma from '../../../../lib/prisma'
+import {
+    MeetingStatus,
+    SummaryStatus,
+    TranscriptStatus,
+} from '../../../../app/generated/prisma'
+import { llmProviderService } from './llmProviderService'
+import { summaryService } from './summaryService'
+import { jobQueueService } from './jobQueueService'
+import { jobWorker } from './jobWorker'
+import { isSummaryTemplateId, type SummaryTemplateId } from './summaryTemplates'
+
+const DEFAULT_AUTO_SUMMARIZE = process.env.SUMMARY_AUTO_ENABLED === 'true'
+const DEFAULT_MIN_TRANSCRIPT_WORDS = parseInt(
+    process.env.SUMMARY_AUTO_MIN_WORDS || '150',
+    10
+)
+
+export interface SummaryPolicy {
+    autoSummarize: boolean
+    minTranscriptWords: number
+    templateId: SummaryTemplateId | null // null = use the meeting's template
+    isDefault: boolean // true when the host has not saved a policy
+}
+
+export interface UpdateSummaryPolicyDTO {
+    autoSummarize?: boolean
+    minTranscriptWords?: number
+    templateId?: SummaryTemplateId | null
+}
+
+export type AutoSummarizeSkipReason =
+    | 'meeting-not-ended'
+    | 'transcript-not-ready'
+    | 'transcript-too-short'
+    | 'summary-exists'
+    | 'policy-disabled'
+    | 'llm-not-configured'
+
+export interface AutoSummarizeResult {
+    enqueued: boolean
+    jobId?: string
+    reason?: AutoSummarizeSkipReason
+}
+
+export const summaryPolicyService = {
+    /**
+     * Deployment-wide policy used when a host has not saved one
+     */
+    getDefaultPolicy(): SummaryPolicy {
+        return {
+            autoSummarize: DEFAULT_AUTO_SUMMARIZE,
+            minTranscriptWords: DEFAULT_MIN_TRANSCRIPT_WORDS,
+            templateId: null,
+            isDefault: true,
+        }
+    },
+
+    /**
+     * Get the effective policy of a host
+     */
+    async getPolicy(userId: string | null): Promise<SummaryPolicy> {
+        if (!userId) return this.getDefaultPolicy()
+
+        const policy = await prisma.summaryPolicy.findUnique({
+            where: { userId },
+        })
+
+        if (!policy) return this.getDefaultPolicy()
+
+        return {
+            autoSummarize: policy.autoSummarize,
+            minTranscriptWords: policy.minTranscriptWords,
+            templateId: isSummaryTemplateId(policy.templateId)
+                ? policy.templateId
+                : null,
+            isDefault: false,
+        }
+    },
+
+    /**
+     * Save a host's policy; unset fields keep their current effective value
+     */
+    async updatePolicy(
+        userId: string,
+        dto: UpdateSummaryPolicyDTO
+    ): Promise<SummaryPolicy> {
+        const current = await this.getPolicy(userId)
+        const data = {
+            autoSummarize: dto.autoSummarize ?? current.autoSummarize,
+            minTranscriptWords:
+                dto.minTranscriptWords ?? current.minTranscriptWords,
+            templateId:
+                dto.templateId !== undefined ? dto.templateId : current.templateId,
+        }
+
+        await prisma.summaryPolicy.upsert({
+            where: { userId },
+            create: { userId, ...data },
+            update: data,
+        })
+
+        console.log(`[summaryPolicyService] Updated policy for user ${userId}`)
+
+        return { ...data, isDefault: false }
+    },
+
+    /**
+     * Queue summary generation for an ended meeting if its host's policy allows it
+     * Called after the meeting ends and after its transcript is compiled, since
+     * either can happen last. Never regenerates an existing summary.
+     */
+    async maybeAutoSummarize(meetingId: string): Promise<AutoSummarizeResult> {
+        const meeting = await prisma.meeting.findUnique({
+            where: { id: meetingId },
+            select: {
+                status: true,
+                hostId: true,
+                transcript: { select: { status: true, wordCount: true } },
+                summary: { select: { status: true } },
+            },
+        })
+
+        if (!meeting || meeting.status !== MeetingStatus.ENDED) {
+            return { enqueued: false, reason: 'meeting-not-ended' }
+        }
+
+        if (meeting.transcript?.status !== TranscriptStatus.COMPLETED) {
+            return { enqueued: false, reason: 'transcript-not-ready' }
+        }
+
+        if (
+            meeting.summary &&
+            meeting.summary.status !== SummaryStatus.FAILED
+        ) {
+            return { enqueued: false, reason: 'summary-exists' }
+        }
+
+        const activeJob = await jobQueueService.getActiveJob(
+            summaryService.getJobKey(meetingId)
+        )
+        if (activeJob) {
+            return { enqueued: false, reason: 'summary-exists' }
+        }
+
+        const policy = await this.getPolicy(meeting.hostId)
+
+        if (!policy.autoSummarize) {
+            return { enqueued: false, reason: 'policy-disabled' }
+        }
+
+        const wordCount = meeting.transcript.wordCount ?? 0
+        if (wordCount < policy.minTranscriptWords) {
+            console.log(
+                `[summaryPolicyService] Skipping auto-summary for ${meetingId}: ` +
+                    `${wordCount} words < ${policy.minTranscriptWords}`
+            )
+            return { enqueued: false, reason: 'transcript-too-short' }
+        }
+
+        try {
+            llmProviderService.resolve()
+        } catch {
+            console.warn(
+                `[summaryPolicyService] Skipping auto-summary for ${meetingId}: no LLM provider configured`
+            )
+            return { enqueued: false, reason: 'llm-not-configured' }
+        }
+
+        const { job } = await summaryService.enqueueGeneration(meetingId, {
+            ...(policy.templateId && { template: policy.templateId }),
+        })
+        jobWorker.poke()
+
+        console.log(
+            `[summaryPolicyService] Queued auto-summary job ${job.id} for meeting ${meetingId}`
+        )
+
+        return { enqueued: true, jobId: job.id }
+    },
+}
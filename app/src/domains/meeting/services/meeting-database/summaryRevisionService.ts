@@ -0,0 +1,231 @@
+/**
+ * summaryRevisionService
+ *
+ * Keeps the history of a meeting's summary. Every generation (and manual edit)
+ * is stored as a SummaryRevision; the Summary row holds the accepted revision.
+ * Regenerations are stored as pending revisions until accepted; accepting a
+ * revision copies it onto the Summary row.
+ */
+
+import prisma from '../../../../lib/prisma'
+import { Prisma, SummaryRevisionSource, SummaryStatus } from '../../../../app/generated/prisma'
+import type { Summary } from '../../../../app/generated/prisma'
+import { actionItemService } from './actionItemService'
+import type { SummaryActionItem } from './summaryTemplates'
+
+export interface RecordRevisionOptions {
+    source?: SummaryRevisionSource
+    editedById?: string
+    editedFields?: string[]
+}
+
+// Attempts when a concurrent writer takes the same revision number
+const MAX_RECORD_ATTEMPTS = 3
+
+export type RevisionSnapshot = ReturnType<typeof snapshotOf>
+
+/**
+ * Copy the content fields of a summary (or revision) for a new row
+ */
+function snapshotOf(summary: Summary) {
+    return {
+        title: summary.title,
+        overview: summary.overview,
+        keyPoints: summary.keyPoints ?? [],
+        actionItems: summary.actionItems ?? [],
+        decisions: summary.decisions ?? [],
+        nextSteps: summary.nextSteps ?? [],
+        content: summary.content ?? undefined,
+        model: summary.model,
+        templateId: summary.templateId,
+        promptVersion: summary.promptVersion,
+        tokensUsed: summary.tokensUsed,
+    }
+}
+
+export const summaryRevisionService = {
+    /**
+     * Store the current content of a summary as its next revision
+     * and mark it as the current revision
+     */
+    async recordRevision(summary: Summary, options: RecordRevisionOptions = {}) {
+        return this.insertRevision(summary, snapshotOf(summary), options, true)
+    },
+
+    /**
+     * Store generated content as the next revision without touching the
+     * Summary row; it becomes the summary once accepted
+     */
+    async recordPendingRevision(
+        summary: Summary,
+        snapshot: RevisionSnapshot,
+        options: RecordRevisionOptions = {}
+    ) {
+        return this.insertRevision(summary, snapshot, options, false)
+    },
+
+    /**
+     * Insert a revision numbered after the latest one
+     * Numbering and insert share a transaction; a concurrent writer taking the
+     * same number fails the unique (summaryId, revision) and is retried
+     */
+    async insertRevision(
+        summary: Summary,
+        snapshot: RevisionSnapshot,
+        options: RecordRevisionOptions,
+        makeCurrent: boolean
+    ) {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const created = await prisma.$transaction(async (tx) => {
+                    const latest = await tx.summaryRevision.findFirst({
+                        where: { summaryId: summary.id },
+                        orderBy: { revision: 'desc' },
+                        select: { revision: true },
+                    })
+                    const revision = (latest?.revision ?? 0) + 1
+
+                    const row = await tx.summaryRevision.create({
+                        data: {
+                            summaryId: summary.id,
+                            meetingId: summary.meetingId,
+                            revision,
+                            ...snapshot,
+                            source: options.source ?? SummaryRevisionSource.GENERATED,
+                            editedById: options.editedById,
+                            editedFields: options.editedFields ?? [],
+                        },
+                    })
+
+                    if (makeCurrent) {
+                        await tx.summary.update({
+                            where: { id: summary.id },
+                            data: { currentRevision: revision },
+                        })
+                    }
+
+                    return row
+                })
+
+                console.log(
+                    `[summaryRevisionService] Recorded ${makeCurrent ? '' : 'pending '}revision ${created.revision} of summary ${summary.id}`
+                )
+
+                return created
+            } catch (error: unknown) {
+                const prismaError = error as { code?: string }
+                if (prismaError?.code !== 'P2002' || attempt >= MAX_RECORD_ATTEMPTS) {
+                    throw error
+                }
+            }
+        }
+    },
+
+    /**
+     * Snapshot a completed summary that predates revision history,
+     * so regenerating it does not lose the existing content
+     */
+    async ensureBaseline(summary: Summary) {
+        if (summary.status !== SummaryStatus.COMPLETED) return
+
+        const count = await prisma.summaryRevision.count({
+            where: { summaryId: summary.id },
+        })
+
+        if (count === 0) {
+            await this.recordRevision(summary)
+        }
+    },
+
+    /**
+     * List revisions of a meeting's summary (metadata only), newest first
+     */
+    async listRevisions(meetingId: string) {
+        return prisma.summaryRevision.findMany({
+            where: { meetingId },
+            select: {
+                id: true,
+                revision: true,
+                title: true,
+                model: true,
+                templateId: true,
+                promptVersion: true,
+                tokensUsed: true,
+                source: true,
+                editedFields: true,
+                editedBy: {
+                    select: { id: true, name: true, email: true },
+                },
+                createdAt: true,
+            },
+            orderBy: { revision: 'desc' },
+        })
+    },
+
+    /**
+     * Get a single revision with its full content
+     */
+    async getRevision(meetingId: string, revisionId: string) {
+        return prisma.summaryRevision.findFirst({
+            where: { id: revisionId, meetingId },
+            include: {
+                editedBy: {
+                    select: { id: true, name: true, email: true },
+                },
+            },
+        })
+    },
+
+    /**
+     * Make a revision the current summary content
+     * Action items are re-synced; completion state is kept for unchanged tasks
+     */
+    async acceptRevision(meetingId: string, revisionId: string) {
+        const revision = await prisma.summaryRevision.findFirst({
+            where: { id: revisionId, meetingId },
+        })
+
+        if (!revision) {
+            return null
+        }
+
+        const summary = await prisma.summary.update({
+            where: { id: revision.summaryId },
+            data: {
+                title: revision.title,
+                overview: revision.overview,
+                keyPoints: revision.keyPoints ?? [],
+                actionItems: revision.actionItems ?? [],
+                decisions: revision.decisions ?? [],
+                nextSteps: revision.nextSteps ?? [],
+                content: revision.content ?? Prisma.DbNull,
+                model: revision.model,
+                templateId: revision.templateId,
+                promptVersion: revision.promptVersion,
+                tokensUsed: revision.tokensUsed,
+                currentRevision: revision.revision,
+                // Provenance follows the accepted revision
+                humanEdited: revision.source === SummaryRevisionSource.MANUAL_EDIT,
+                editedAt:
+                    revision.source === SummaryRevisionSource.MANUAL_EDIT
+                        ? revision.createdAt
+                        : null,
+                editedById: revision.editedById,
+                status: SummaryStatus.COMPLETED,
+                error: null,
+            },
+        })
+
+        await actionItemService.syncFromSummary(
+            summary.id,
+            meetingId,
+            (revision.actionItems ?? []) as SummaryActionItem[]
+        )
+
+        console.log(
+            `[summaryRevisionService] Accepted revision ${revision.revision} for meeting ${meetingId}`
+        )
+
+        return summary
+    },
+}
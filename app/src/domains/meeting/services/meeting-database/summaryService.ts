@@ -2,96 +2,177 @@
  * summaryService
  *
  * Generates AI-powered meeting summaries using the transcript data.
- * Uses Google Gemini via the AI SDK for structured object generation.
+ * The language model is resolved through llmProviderService (Gemini,
+ * OpenAI-compatible endpoints, Anthropic) and used for structured object generation.
+ *
+ * Long transcripts are summarized map-reduce style: the transcript is split into
+ * time-windowed chunks, each chunk is summarized, then the partial summaries are
+ * merged into the final summary. Progress is tracked on the Summary row.
+ *
+ * Public chat messages are interleaved with the transcript by time, since
+ * decisions are often typed rather than spoken; links shared in chat become
+ * the summary's resources.
+ *
+ * Each completed generation is also stored as a SummaryRevision
+ * (see summaryRevisionService) so earlier versions can be compared and restored.
  */
 
-import { createGoogleGenerativeAI } from '@ai-sdk/google'
 import { generateObject } from 'ai'
-import { z } from 'zod'
 import prisma from '@/lib/prisma'
-import { SummaryStatus } from '@/app/generated/prisma'
+import { SummaryRevisionSource, SummaryStatus } from '@/app/generated/prisma'
+import type { ChatMessage, TranscriptSegment } from '@/app/generated/prisma'
+import { llmProviderService, type LlmSelection } from './llmProviderService'
+import { actionItemService, type ActionItemInput } from './actionItemService'
+import { summaryRevisionService } from './summaryRevisionService'
+import { jobQueueService, type JobType } from './jobQueueService'
+import {
+    getColumnSectionKey,
+    getSummaryTemplate,
+    type SummaryActionItem,
+    type SummaryResource,
+    type SummaryTemplateContent,
+    type SummaryTemplateId,
+} from './summaryTemplates'
+
+// Chunking configuration (map-reduce for long transcripts)
+const CHUNK_WINDOW_MS =
+    parseInt(process.env.SUMMARY_CHUNK_MINUTES || '15', 10) * 60 * 1000
+const CHUNK_MAX_CHARS = parseInt(
+    process.env.SUMMARY_CHUNK_MAX_CHARS || '24000',
+    10
+)
+
+// Background job limits for one generation run
+const SUMMARY_JOB_TIMEOUT_MS = parseInt(
+    process.env.SUMMARY_JOB_TIMEOUT_MS || '600000',
+    10
+)
+
+export const SUMMARY_JOB_TYPE: JobType = 'summary.generate'
+
+/**
+ * Error codes for summary generation
+ * Only GENERATION_FAILED is worth retrying
+ */
+export const SummaryErrorCodes = {
+    MEETING_NOT_FOUND: 'MEETING_NOT_FOUND',
+    NO_TRANSCRIPT: 'NO_TRANSCRIPT',
+    LLM_NOT_CONFIGURED: 'LLM_NOT_CONFIGURED',
+    GENERATION_FAILED: 'GENERATION_FAILED',
+} as const
+
+export type SummaryErrorCode =
+    (typeof SummaryErrorCodes)[keyof typeof SummaryErrorCodes]
+
+/**
+ * Options for a summary generation run
+ * template defaults to Meeting.summaryTemplate, then to the general template
+ */
+export interface SummaryGenerationOptions extends LlmSelection {
+    template?: SummaryTemplateId
+    abortSignal?: AbortSignal // Set by the job worker to enforce its timeout
+}
+
+/**
+ * Payload of a summary.generate job
+ */
+export interface SummaryJobPayload extends LlmSelection {
+    meetingId: string
+    template?: SummaryTemplateId
+}
+
+/**
+ * Fields a host can edit by hand
+ */
+export interface SummaryEditDTO {
+    title?: string
+    overview?: string
+    keyPoints?: string[]
+    decisions?: string[]
+    actionItems?: ActionItemInput[] // id: the tracked row an item was edited from
+}
+
+export type SummaryEditField = keyof SummaryEditDTO
 
-// Initialize Google Generative AI with the API key
-const google = createGoogleGenerativeAI({
-    apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
-})
+export interface SummaryEditResult {
+    success: boolean
+    editedFields?: SummaryEditField[]
+    error?: string
+}
 
 export interface SummaryGenerationResult {
     success: boolean
     summaryId?: string
+    pendingRevisionId?: string // Set when a regeneration awaits acceptance
     error?: string
+    errorCode?: SummaryErrorCode
+}
+
+/**
+ * A timestamped line of the meeting: a transcript segment or a chat message
+ */
+export interface TranscriptLine {
+    at: Date
+    text: string
+}
+
+/**
+ * A time window of the transcript summarized in one map step
+ */
+export interface TranscriptChunk {
+    startOffsetMs: number // Offset of the first line from the transcript start
+    endOffsetMs: number // Offset of the last line from the transcript start
+    text: string
 }
 
 export interface GeneratedSummary {
     title: string
     overview: string
     keyPoints: string[]
-    actionItems: Array<{
-        task: string
-        assignee?: string
-        dueDate?: string
-        completed: boolean
-    }>
+    actionItems: SummaryActionItem[]
     decisions: string[]
     nextSteps: string[]
 }
 
-// Zod schema for structured output
-const summarySchema = z.object({
-    title: z
-        .string()
-        .describe(
-            'A concise, descriptive title for the meeting (max 100 characters)'
-        ),
-    overview: z
-        .string()
-        .describe(
-            'A brief 2-3 sentence overview of what was discussed in the meeting'
-        ),
-    keyPoints: z
-        .array(z.string())
-        .describe('Array of 3-7 key discussion points from the meeting'),
-    actionItems: z
-        .array(
-            z.object({
-                task: z.string().describe('Description of the action item'),
-                assignee: z
-                    .string()
-                    .optional()
-                    .describe('Name of person responsible (if mentioned)'),
-                dueDate: z
-                    .string()
-                    .optional()
-                    .describe('Due date if mentioned (ISO format)'),
-                completed: z
-                    .boolean()
-                    .describe('Whether the action item is completed'),
-            })
-        )
-        .describe('Array of action items extracted from the meeting'),
-    decisions: z
-        .array(z.string())
-        .describe('Array of decisions that were made during the meeting'),
-    nextSteps: z
-        .array(z.string())
-        .describe('Array of next steps or follow-up items'),
-})
-
-const SUMMARY_SYSTEM_PROMPT = `You are an expert meeting summarizer. Analyze the provided meeting transcript and generate a comprehensive summary.
-
-Rules:
-1. Be concise but comprehensive
-2. Extract specific action items with assignees when mentioned
-3. Identify clear decisions that were made
-4. List concrete next steps
-5. If no action items, decisions, or next steps were discussed, use empty arrays
-6. The title should be descriptive and under 100 characters`
+// Appended to the template prompt when the meeting has chat messages
+const CHAT_INSTRUCTIONS = `Lines starting with [chat] are messages typed in the meeting chat, in time order with the spoken transcript. Treat them as part of the discussion: decisions, action items and answers are often typed rather than spoken. List links shared in chat as resources.`
+
+// Matches http(s) URLs in chat text; trailing punctuation is trimmed separately
+const URL_PATTERN = /https?:\/\/[^\s<>"'`]+/gi
+
+// Appended to the template prompt for the map step
+const CHUNK_INSTRUCTIONS = `You are given ONE PART of a longer meeting transcript. Summarize only this part; it will later be merged with the summaries of the other parts. Keep every concrete fact, name, number and date.`
+
+// Appended to the template prompt for the reduce step
+const REDUCE_INSTRUCTIONS = `Instead of a transcript, you are given partial summaries of consecutive parts of ONE meeting, in chronological order. Merge them into a single summary of the whole meeting:
+- Write the title and overview for the meeting as a whole
+- Merge duplicate items
+- When parts disagree, prefer the later part (it reflects the latest state of discussion)
+- Keep assignees and due dates from the partial summaries`
 
 export const summaryService = {
     /**
      * Generate a summary for a meeting using its transcript
      */
-    async generateSummary(meetingId: string): Promise<SummaryGenerationResult> {
+    async generateSummary(
+        meetingId: string,
+        options: SummaryGenerationOptions = {}
+    ): Promise<SummaryGenerationResult> {
+        // Resolve the model first so misconfiguration never leaves a PROCESSING row
+        let llm: ReturnType<typeof llmProviderService.resolve>
+        try {
+            llm = llmProviderService.resolve(options)
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                errorCode: SummaryErrorCodes.LLM_NOT_CONFIGURED,
+            }
+        }
+
+        // Set once a summary with content is being regenerated
+        let hasExistingContent = false
+
         try {
             // Check if meeting exists
             const meeting = await prisma.meeting.findUnique({
@@ -105,6 +186,11 @@ export const summaryService = {
                             },
                         },
                     },
+                    // Private messages never reach the summary
+                    chatMessages: {
+                        where: { isPrivate: false },
+                        orderBy: { sentAt: 'asc' },
+                    },
                     summary: true,
                 },
             })
@@ -113,6 +199,7 @@ export const summaryService = {
                 return {
                     success: false,
                     error: 'Meeting not found',
+                    errorCode: SummaryErrorCodes.MEETING_NOT_FOUND,
                 }
             }
 
@@ -120,6 +207,7 @@ export const summaryService = {
                 return {
                     success: false,
                     error: 'No transcript available for this meeting',
+                    errorCode: SummaryErrorCodes.NO_TRANSCRIPT,
                 }
             }
 
@@ -127,25 +215,49 @@ export const summaryService = {
                 return {
                     success: false,
                     error: 'Transcript has no segments',
+                    errorCode: SummaryErrorCodes.NO_TRANSCRIPT,
                 }
             }
 
-            // Build transcript text from segments
-            const transcriptText = meeting.transcript.segments
-                .map((segment) => {
-                    const speaker =
-                        segment.speakerName || `Speaker ${segment.speakerId}`
-                    return `${speaker}: ${segment.text}`
-                })
-                .join('\n')
+            const template = getSummaryTemplate(
+                options.template ?? meeting.summaryTemplate
+            )
+            const chunks = this.chunkTranscript(
+                this.buildTranscriptLines(
+                    meeting.transcript.segments,
+                    meeting.chatMessages
+                )
+            )
+            const systemPrompt =
+                meeting.chatMessages.length > 0
+                    ? `${template.systemPrompt}\n\n${CHAT_INSTRUCTIONS}`
+                    : template.systemPrompt
+            const chunksTotal = chunks.length > 1 ? chunks.length : null
+
+            // A summary that already has content stays as it is; the new
+            // generation is stored as a pending revision for review
+            const existingSummary =
+                meeting.summary &&
+                (meeting.summary.status === SummaryStatus.COMPLETED ||
+                    meeting.summary.currentRevision !== null)
+                    ? meeting.summary
+                    : null
+            hasExistingContent = existingSummary !== null
 
             // Check if summary already exists
             if (meeting.summary) {
-                // Update status to processing
+                // Keep the existing content in the revision history before regenerating
+                await summaryRevisionService.ensureBaseline(meeting.summary)
+
+                // Update status to processing (model/template are replaced on
+                // completion so a failed run never mislabels the previous content)
                 await prisma.summary.update({
                     where: { id: meeting.summary.id },
                     data: {
                         status: SummaryStatus.PROCESSING,
+                        chunksTotal,
+                        chunksProcessed: 0,
+                        error: null,
                     },
                 })
             } else {
@@ -159,37 +271,140 @@ export const summaryService = {
                         actionItems: [],
                         decisions: [],
                         nextSteps: [],
-                        model: 'gemini-2.5-flash',
+                        model: llm.label,
+                        templateId: template.id,
+                        promptVersion: template.version,
+                        chunksTotal,
                         status: SummaryStatus.PROCESSING,
                     },
                 })
             }
 
-            // Generate summary using Google Gemini with structured output
-            const { object: generatedSummary, usage } = await generateObject({
-                model: google('gemini-2.5-flash'),
-                schema: summarySchema,
-                system: SUMMARY_SYSTEM_PROMPT,
-                prompt: `Meeting Transcript:\n${transcriptText}`,
-            })
+            let content: SummaryTemplateContent
+            let tokensUsed = 0
+
+            if (chunks.length === 1) {
+                // Short transcript - single pass
+                const { object, usage } = await generateObject({
+                    model: llm.model,
+                    abortSignal: options.abortSignal,
+                    schema: template.schema,
+                    system: systemPrompt,
+                    prompt: `Meeting Transcript:\n${chunks[0].text}`,
+                })
+                content = object
+                tokensUsed = usage?.totalTokens || 0
+            } else {
+                // Map: summarize each chunk in order, recording progress
+                const partials: SummaryTemplateContent[] = []
+                for (const [index, chunk] of chunks.entries()) {
+                    const { object, usage } = await generateObject({
+                        model: llm.model,
+                        abortSignal: options.abortSignal,
+                        schema: template.schema,
+                        system: `${systemPrompt}\n\n${CHUNK_INSTRUCTIONS}`,
+                        prompt:
+                            `Part ${index + 1} of ${chunks.length} ` +
+                            `(${this.formatOffset(chunk.startOffsetMs)}-${this.formatOffset(chunk.endOffsetMs)})\n\n` +
+                            `Meeting Transcript:\n${chunk.text}`,
+                    })
+                    partials.push(object)
+                    tokensUsed += usage?.totalTokens || 0
+
+                    await prisma.summary.update({
+                        where: { meetingId },
+                        data: { chunksProcessed: index + 1 },
+                    })
+                }
+
+                // Reduce: merge partial summaries into the final shape
+                const { object, usage } = await generateObject({
+                    model: llm.model,
+                    abortSignal: options.abortSignal,
+                    schema: template.schema,
+                    system: `${systemPrompt}\n\n${REDUCE_INSTRUCTIONS}`,
+                    prompt: partials
+                        .map(
+                            (partial, index) =>
+                                `Part ${index + 1} of ${partials.length}:\n${JSON.stringify(partial)}`
+                        )
+                        .join('\n\n'),
+                })
+                content = object
+                tokensUsed += usage?.totalTokens || 0
+            }
+
+            // Only links actually shared in chat, including any the model left out
+            content.resources = this.mergeResources(
+                content.resources,
+                this.extractSharedLinks(meeting.chatMessages)
+            )
+
+            // Fixed columns keep a common shape across templates;
+            // the full template output is kept in content for rendering
+            const columns = template.toColumns(content)
+
+            const generated = {
+                title: content.title,
+                overview: content.overview,
+                keyPoints: columns.keyPoints,
+                actionItems: content.actionItems,
+                decisions: columns.decisions,
+                nextSteps: columns.nextSteps,
+                content: JSON.parse(JSON.stringify(content)),
+                model: llm.label,
+                templateId: template.id,
+                promptVersion: template.version,
+                tokensUsed: tokensUsed || null,
+            }
+
+            if (existingSummary) {
+                const revision =
+                    await summaryRevisionService.recordPendingRevision(
+                        existingSummary,
+                        generated
+                    )
+
+                // Only the processing state changes; content and action
+                // items follow once the revision is accepted
+                await prisma.summary.update({
+                    where: { meetingId },
+                    data: {
+                        status: SummaryStatus.COMPLETED,
+                        error: null,
+                    },
+                })
+
+                return {
+                    success: true,
+                    summaryId: existingSummary.id,
+                    pendingRevisionId: revision.id,
+                }
+            }
 
-            // Update the summary with generated content
+            // First generation: the summary takes the generated content
             const updatedSummary = await prisma.summary.update({
                 where: { meetingId },
                 data: {
-                    title: generatedSummary.title,
-                    overview: generatedSummary.overview,
-                    keyPoints: generatedSummary.keyPoints,
-                    actionItems: generatedSummary.actionItems,
-                    decisions: generatedSummary.decisions,
-                    nextSteps: generatedSummary.nextSteps || [],
-                    model: 'gemini-2.5-flash',
-                    tokensUsed: usage?.totalTokens || null,
+                    ...generated,
+                    humanEdited: false,
+                    editedAt: null,
+                    editedById: null,
+                    transcriptStale: false,
                     status: SummaryStatus.COMPLETED,
                     error: null,
                 },
             })
 
+            await summaryRevisionService.recordRevision(updatedSummary)
+
+            // Track action items as rows (keeps completion state across regenerations)
+            await actionItemService.syncFromSummary(
+                updatedSummary.id,
+                meetingId,
+                content.actionItems
+            )
+
             return {
                 success: true,
                 summaryId: updatedSummary.id,
@@ -197,17 +412,22 @@ export const summaryService = {
         } catch (error) {
             console.error('[summaryService] Error generating summary:', error)
 
-            // Try to update the summary status to FAILED
+            // Try to update the summary status to FAILED. A failed
+            // regeneration restores existing content to COMPLETED instead so
+            // it stays readable, editable and searchable; the error reaches
+            // the caller (or the job) only
             try {
                 await prisma.summary.update({
                     where: { meetingId },
-                    data: {
-                        status: SummaryStatus.FAILED,
-                        error:
-                            error instanceof Error
-                                ? error.message
-                                : 'Unknown error',
-                    },
+                    data: hasExistingContent
+                        ? { status: SummaryStatus.COMPLETED, error: null }
+                        : {
+                              status: SummaryStatus.FAILED,
+                              error:
+                                  error instanceof Error
+                                      ? error.message
+                                      : 'Unknown error',
+                          },
                 })
             } catch {
                 // Summary might not exist yet
@@ -216,16 +436,331 @@ export const summaryService = {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
+                errorCode: SummaryErrorCodes.GENERATION_FAILED,
+            }
+        }
+    },
+
+    /**
+     * Queue summary generation as a background job (see jobWorker)
+     * Returns the already active job if the meeting has one
+     */
+    async enqueueGeneration(
+        meetingId: string,
+        options: Omit<SummaryGenerationOptions, 'abortSignal'> = {}
+    ) {
+        const payload: SummaryJobPayload = {
+            meetingId,
+            ...(options.provider && { provider: options.provider }),
+            ...(options.model && { model: options.model }),
+            ...(options.template && { template: options.template }),
+        }
+
+        return jobQueueService.enqueue({
+            type: SUMMARY_JOB_TYPE,
+            payload: { ...payload },
+            meetingId,
+            dedupeKey: this.getJobKey(meetingId),
+            timeoutMs: SUMMARY_JOB_TIMEOUT_MS,
+        })
+    },
+
+    /**
+     * dedupeKey of a meeting's summary jobs
+     */
+    getJobKey(meetingId: string): string {
+        return `summary:${meetingId}`
+    },
+
+    /**
+     * Mark a summary left in PROCESSING as FAILED
+     * Used when its job gave up or its worker died mid-generation
+     */
+    async markFailed(meetingId: string, error: string) {
+        await prisma.summary.updateMany({
+            where: { meetingId, status: SummaryStatus.PROCESSING },
+            data: { status: SummaryStatus.FAILED, error },
+        })
+    },
+
+    /**
+     * Apply a manual edit to a completed summary
+     * Marks the summary as human-edited and stores the edit as a revision
+     * recording the editor and the changed fields. Fields also present in the
+     * template content (e.g. keyPoints of the general template) are kept in sync.
+     */
+    async updateSummary(
+        meetingId: string,
+        edits: SummaryEditDTO,
+        editedById: string
+    ): Promise<SummaryEditResult> {
+        const summary = await prisma.summary.findUnique({
+            where: { meetingId },
+        })
+
+        if (!summary) {
+            return { success: false, error: 'Summary not found' }
+        }
+
+        if (summary.status !== SummaryStatus.COMPLETED) {
+            return {
+                success: false,
+                error: 'Only completed summaries can be edited',
+            }
+        }
+
+        // Row ids are for matching tracked items only, not part of the summary
+        const trackedActionItems = edits.actionItems
+        if (trackedActionItems) {
+            edits = {
+                ...edits,
+                actionItems: trackedActionItems.map(
+                    ({ task, assignee, dueDate, completed }) => ({
+                        task,
+                        ...(assignee && { assignee }),
+                        ...(dueDate && { dueDate }),
+                        completed,
+                    })
+                ),
+            }
+        }
+
+        const editedFields = (Object.keys(edits) as SummaryEditField[]).filter(
+            (field) =>
+                edits[field] !== undefined &&
+                JSON.stringify(edits[field]) !== JSON.stringify(summary[field])
+        )
+
+        if (editedFields.length === 0) {
+            return { success: true, editedFields: [] }
+        }
+
+        // Keep the pre-edit content of summaries that predate revision history
+        await summaryRevisionService.ensureBaseline(summary)
+
+        const changes = Object.fromEntries(
+            editedFields.map((field) => [field, edits[field]])
+        )
+
+        // The UI renders content - column edits go to the template section
+        // the column is derived from (e.g. keyPoints -> customerNeeds)
+        const template = getSummaryTemplate(summary.templateId)
+        const content =
+            summary.content &&
+            typeof summary.content === 'object' &&
+            !Array.isArray(summary.content)
+                ? {
+                      ...summary.content,
+                      ...Object.fromEntries(
+                          editedFields.map((field) => [
+                              field === 'keyPoints' || field === 'decisions'
+                                  ? getColumnSectionKey(template, field)
+                                  : field,
+                              edits[field],
+                          ])
+                      ),
+                  }
+                : undefined
+
+        const updatedSummary = await prisma.summary.update({
+            where: { id: summary.id },
+            data: {
+                ...changes,
+                ...(content && { content: JSON.parse(JSON.stringify(content)) }),
+                humanEdited: true,
+                editedAt: new Date(),
+                editedById,
+            },
+        })
+
+        await summaryRevisionService.recordRevision(updatedSummary, {
+            source: SummaryRevisionSource.MANUAL_EDIT,
+            editedById,
+            editedFields,
+        })
+
+        if (trackedActionItems && editedFields.includes('actionItems')) {
+            await actionItemService.syncFromSummary(
+                summary.id,
+                meetingId,
+                trackedActionItems,
+                { editedById }
+            )
+        }
+
+        console.log(
+            `[summaryService] Summary for meeting ${meetingId} edited by ${editedById}: ${editedFields.join(', ')}`
+        )
+
+        return { success: true, editedFields }
+    },
+
+    /**
+     * Speaker-labelled transcript lines and [chat] lines, in time order
+     */
+    buildTranscriptLines(
+        segments: TranscriptSegment[],
+        chatMessages: ChatMessage[]
+    ): TranscriptLine[] {
+        const lines: TranscriptLine[] = [
+            ...segments.map((segment) => ({
+                at: segment.receivedAt,
+                text: `${segment.speakerName || `Speaker ${segment.speakerId}`}: ${segment.text}`,
+            })),
+            ...chatMessages.map((message) => ({
+                at: message.sentAt,
+                text: `[chat] ${message.senderName}: ${message.text.replace(/\s+/g, ' ')}`,
+            })),
+        ]
+
+        // Stable sort keeps a segment before a chat message sent at the same time
+        return lines.sort((a, b) => a.at.getTime() - b.at.getTime())
+    },
+
+    /**
+     * Split lines into time-windowed chunks
+     * Windows are SUMMARY_CHUNK_MINUTES long and capped at SUMMARY_CHUNK_MAX_CHARS
+     */
+    chunkTranscript(transcriptLines: TranscriptLine[]): TranscriptChunk[] {
+        if (transcriptLines.length === 0) return []
+
+        const transcriptStart = transcriptLines[0].at.getTime()
+        const chunks: TranscriptChunk[] = []
+        let windowStart = 0
+        let lines: string[] = []
+        let chars = 0
+
+        for (const { at, text: line } of transcriptLines) {
+            const offset = at.getTime() - transcriptStart
+
+            const windowElapsed = offset - windowStart >= CHUNK_WINDOW_MS
+            const chunkFull = chars + line.length > CHUNK_MAX_CHARS
+
+            if (lines.length > 0 && (windowElapsed || chunkFull)) {
+                chunks[chunks.length - 1].text = lines.join('\n')
+                lines = []
+                chars = 0
+                windowStart = offset - (offset % CHUNK_WINDOW_MS)
+            }
+
+            if (lines.length === 0) {
+                chunks.push({ startOffsetMs: offset, endOffsetMs: offset, text: '' })
+            }
+
+            lines.push(line)
+            chars += line.length + 1
+            chunks[chunks.length - 1].endOffsetMs = offset
+        }
+
+        chunks[chunks.length - 1].text = lines.join('\n')
+
+        return chunks
+    },
+
+    /**
+     * Links shared in chat, first share of each URL
+     * The message text around the link is kept as its description
+     */
+    extractSharedLinks(chatMessages: ChatMessage[]): SummaryResource[] {
+        const links = new Map<string, SummaryResource>()
+
+        for (const message of chatMessages) {
+            for (const match of message.text.match(URL_PATTERN) ?? []) {
+                const url = match.replace(/[.,;:!?)\]]+$/, '')
+                if (links.has(url)) continue
+
+                links.set(url, {
+                    url,
+                    description: message.text
+                        .replace(match, '')
+                        .replace(/\s+/g, ' ')
+                        .trim()
+                        .slice(0, 200),
+                    sharedBy: message.senderName,
+                })
+            }
+        }
+
+        return [...links.values()]
+    },
+
+    /**
+     * Keep the model's resources that were really shared, then add the
+     * shared links it left out
+     */
+    mergeResources(
+        generated: SummaryResource[] | undefined,
+        shared: SummaryResource[]
+    ): SummaryResource[] {
+        const sharedByUrl = new Map(shared.map((link) => [link.url, link]))
+        const resources: SummaryResource[] = []
+
+        for (const resource of generated ?? []) {
+            const link = sharedByUrl.get(resource.url)
+            if (!link || resources.some((r) => r.url === link.url)) continue
+            resources.push({
+                url: link.url,
+                description: resource.description || link.description,
+                sharedBy: link.sharedBy,
+            })
+        }
+
+        for (const link of shared) {
+            if (!resources.some((r) => r.url === link.url)) {
+                resources.push(link)
             }
         }
+
+        return resources
     },
 
     /**
-     * Get the summary for a meeting
+     * Format an offset in ms as HH:MM:SS
+     */
+    formatOffset(offsetMs: number): string {
+        const totalSeconds = Math.max(0, Math.floor(offsetMs / 1000))
+        const hours = Math.floor(totalSeconds / 3600)
+        const minutes = Math.floor((totalSeconds % 3600) / 60)
+        const seconds = totalSeconds % 60
+        return [hours, minutes, seconds]
+            .map((part) => String(part).padStart(2, '0'))
+            .join(':')
+    },
+
+    /**
+     * Flag a generated summary as out of date after the transcript was corrected
+     */
+    async markTranscriptStale(meetingId: string) {
+        return prisma.summary.updateMany({
+            where: { meetingId, status: SummaryStatus.COMPLETED },
+            data: { transcriptStale: true },
+        })
+    },
+
+    /**
+     * Get the summary for a meeting with its tracked action items
      */
     async getSummary(meetingId: string) {
         return prisma.summary.findUnique({
             where: { meetingId },
+            include: {
+                editedBy: {
+                    select: { id: true, name: true, email: true },
+                },
+                trackedActionItems: {
+                    include: {
+                        assignee: {
+                            select: {
+                                id: true,
+                                name: true,
+                                email: true,
+                                image: true,
+                            },
+                        },
+                    },
+                    orderBy: { position: 'asc' },
+                },
+            },
         })
     },
 }
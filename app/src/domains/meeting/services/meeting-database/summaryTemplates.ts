@@ -0,0 +1,452 @@
+/**
+ * summaryTemplates
+ *
+ * Versioned summary templates (schema + prompt per meeting type).
+ * The template version is stored in Summary.promptVersion and the full
+ * structured output in Summary.content, so summaries generated with an
+ * older template keep rendering after prompts change.
+ *
+ * NOTE: This file must stay client-safe (zod and plain data only) -
+ * the summary UI uses the section descriptors to render stored content.
+ */
+
+import { z } from 'zod'
+
+export const SUMMARY_TEMPLATE_IDS = [
+    'general',
+    'standup',
+    'retrospective',
+    'one-on-one',
+    'customer-call',
+] as const
+
+export type SummaryTemplateId = (typeof SUMMARY_TEMPLATE_IDS)[number]
+
+export const DEFAULT_SUMMARY_TEMPLATE: SummaryTemplateId = 'general'
+
+// Type alias (not interface) so values stay assignable to Prisma Json fields
+export type SummaryActionItem = {
+    task: string
+    assignee?: string
+    dueDate?: string
+    completed: boolean
+}
+
+// A link shared in the meeting chat
+export type SummaryResource = {
+    url: string
+    description: string
+    sharedBy?: string
+}
+
+/**
+ * Fields every template produces
+ * resources is missing from summaries generated before chat was included
+ */
+export type SummaryTemplateContent = {
+    title: string
+    overview: string
+    actionItems: SummaryActionItem[]
+    resources?: SummaryResource[]
+    [key: string]: unknown
+}
+
+/**
+ * How a template-specific field of Summary.content is rendered
+ */
+export interface SummaryTemplateSection {
+    key: string
+    label: string
+    kind: 'list' | 'standupUpdates' | 'resources'
+}
+
+/**
+ * Values for the fixed Summary columns (keyPoints, decisions, nextSteps)
+ */
+export interface SummaryColumns {
+    keyPoints: string[]
+    decisions: string[]
+    nextSteps: string[]
+}
+
+export interface SummaryTemplate {
+    id: SummaryTemplateId
+    version: string // Stored in Summary.promptVersion
+    name: string
+    description: string
+    schema: z.ZodType<SummaryTemplateContent>
+    systemPrompt: string
+    sections: SummaryTemplateSection[]
+    toColumns: (content: SummaryTemplateContent) => SummaryColumns
+    // Section each column is copied from unchanged - edits to the column are
+    // written back there; columns without one are stored under their own key
+    columnSections: Partial<Record<keyof SummaryColumns, string>>
+}
+
+/**
+ * Typed helper so toColumns sees the template's own schema output
+ */
+function defineTemplate<S extends z.ZodType<SummaryTemplateContent>>(
+    template: Omit<SummaryTemplate, 'schema' | 'toColumns'> & {
+        schema: S
+        toColumns: (content: z.infer<S>) => SummaryColumns
+    }
+): SummaryTemplate {
+    return template as unknown as SummaryTemplate
+}
+
+// ============================================================================
+// Shared schema parts
+// ============================================================================
+
+const titleSchema = z
+    .string()
+    .describe('A concise, descriptive title for the meeting (max 100 characters)')
+
+const overviewSchema = z
+    .string()
+    .describe('A brief 2-3 sentence overview of what was discussed in the meeting')
+
+const actionItemsSchema = z
+    .array(
+        z.object({
+            task: z.string().describe('Description of the action item'),
+            assignee: z
+                .string()
+                .optional()
+                .describe('Name of person responsible (if mentioned)'),
+            dueDate: z
+                .string()
+                .optional()
+                .describe('Due date if mentioned (ISO format)'),
+            completed: z
+                .boolean()
+                .describe('Whether the action item is completed'),
+        })
+    )
+    .describe('Array of action items extracted from the meeting')
+
+const resourcesSchema = z
+    .array(
+        z.object({
+            url: z.string().describe('The URL exactly as it was shared'),
+            description: z
+                .string()
+                .describe('What the link is, or what it was shared for'),
+            sharedBy: z
+                .string()
+                .optional()
+                .describe('Name of the person who shared it'),
+        })
+    )
+    .describe('Links shared in the meeting chat; only URLs that appear in [chat] lines')
+
+// Rendered for edited columns the template has no section for
+const COLUMN_SECTIONS: Record<keyof SummaryColumns, SummaryTemplateSection> = {
+    keyPoints: { key: 'keyPoints', label: 'Key Points', kind: 'list' },
+    decisions: { key: 'decisions', label: 'Decisions Made', kind: 'list' },
+    nextSteps: { key: 'nextSteps', label: 'Next Steps', kind: 'list' },
+}
+
+const RESOURCES_SECTION: SummaryTemplateSection = {
+    key: 'resources',
+    label: 'Resources',
+    kind: 'resources',
+}
+
+const COMMON_RULES = `- Be concise but comprehensive
+- Extract specific action items with assignees when mentioned
+- If a section was not discussed, use an empty array
+- The title should be descriptive and under 100 characters`
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+const generalTemplate = defineTemplate({
+    id: 'general',
+    version: 'summary-v2',
+    name: 'General meeting',
+    description: 'Key points, decisions, action items and next steps',
+    schema: z.object({
+        title: titleSchema,
+        overview: overviewSchema,
+        keyPoints: z
+            .array(z.string())
+            .describe('Array of 3-7 key discussion points from the meeting'),
+        actionItems: actionItemsSchema,
+        resources: resourcesSchema,
+        decisions: z
+            .array(z.string())
+            .describe('Array of decisions that were made during the meeting'),
+        nextSteps: z
+            .array(z.string())
+            .describe('Array of next steps or follow-up items'),
+    }),
+    systemPrompt: `You are an expert meeting summarizer. Analyze the provided meeting transcript and generate a comprehensive summary.
+
+Rules:
+1. Be concise but comprehensive
+2. Extract specific action items with assignees when mentioned
+3. Identify clear decisions that were made
+4. List concrete next steps
+5. If no action items, decisions, or next steps were discussed, use empty arrays
+6. The title should be descriptive and under 100 characters`,
+    sections: [
+        { key: 'keyPoints', label: 'Key Points', kind: 'list' },
+        { key: 'decisions', label: 'Decisions Made', kind: 'list' },
+        { key: 'nextSteps', label: 'Next Steps', kind: 'list' },
+        RESOURCES_SECTION,
+    ],
+    toColumns: (content) => ({
+        keyPoints: content.keyPoints,
+        decisions: content.decisions,
+        nextSteps: content.nextSteps,
+    }),
+    columnSections: {
+        keyPoints: 'keyPoints',
+        decisions: 'decisions',
+        nextSteps: 'nextSteps',
+    },
+})
+
+const standupTemplate = defineTemplate({
+    id: 'standup',
+    version: 'standup-v2',
+    name: 'Daily standup',
+    description: 'Yesterday, today and blockers for each person',
+    schema: z.object({
+        title: titleSchema,
+        overview: overviewSchema,
+        updates: z
+            .array(
+                z.object({
+                    person: z.string().describe('Name of the person giving the update'),
+                    yesterday: z
+                        .array(z.string())
+                        .describe('What the person worked on since the last standup'),
+                    today: z
+                        .array(z.string())
+                        .describe('What the person plans to work on today'),
+                    blockers: z
+                        .array(z.string())
+                        .describe('Anything blocking the person'),
+                })
+            )
+            .describe('One entry per person who gave an update'),
+        actionItems: actionItemsSchema,
+        resources: resourcesSchema,
+    }),
+    systemPrompt: `You are summarizing a daily standup meeting. For every person who spoke, capture what they did since the last standup, what they plan to do today, and any blockers.
+
+Rules:
+${COMMON_RULES}
+- Use the speaker names from the transcript for "person"
+- Follow-ups to unblock someone are action items`,
+    sections: [
+        { key: 'updates', label: 'Updates', kind: 'standupUpdates' },
+        RESOURCES_SECTION,
+    ],
+    toColumns: (content) => ({
+        keyPoints: content.updates.flatMap((update) =>
+            update.blockers.map((blocker) => `${update.person} blocked: ${blocker}`)
+        ),
+        decisions: [],
+        nextSteps: content.updates.flatMap((update) =>
+            update.today.map((item) => `${update.person}: ${item}`)
+        ),
+    }),
+    columnSections: {},
+})
+
+const retrospectiveTemplate = defineTemplate({
+    id: 'retrospective',
+    version: 'retrospective-v2',
+    name: 'Retrospective',
+    description: 'What went well, what to improve, and actions',
+    schema: z.object({
+        title: titleSchema,
+        overview: overviewSchema,
+        wentWell: z
+            .array(z.string())
+            .describe('Things the team said went well'),
+        toImprove: z
+            .array(z.string())
+            .describe('Things the team said should be improved'),
+        decisions: z
+            .array(z.string())
+            .describe('Process changes the team agreed on'),
+        actionItems: actionItemsSchema,
+        resources: resourcesSchema,
+    }),
+    systemPrompt: `You are summarizing a team retrospective. Capture what went well, what should be improved, agreed process changes, and the concrete actions the team committed to.
+
+Rules:
+${COMMON_RULES}
+- Merge repeated points raised by different people into one item`,
+    sections: [
+        { key: 'wentWell', label: 'Went Well', kind: 'list' },
+        { key: 'toImprove', label: 'To Improve', kind: 'list' },
+        { key: 'decisions', label: 'Agreed Changes', kind: 'list' },
+        RESOURCES_SECTION,
+    ],
+    toColumns: (content) => ({
+        keyPoints: [...content.wentWell, ...content.toImprove],
+        decisions: content.decisions,
+        nextSteps: [],
+    }),
+    columnSections: { decisions: 'decisions' },
+})
+
+const oneOnOneTemplate = defineTemplate({
+    id: 'one-on-one',
+    version: 'one-on-one-v2',
+    name: '1:1',
+    description: 'Topics, feedback, goals and follow-ups',
+    schema: z.object({
+        title: titleSchema,
+        overview: overviewSchema,
+        topics: z
+            .array(z.string())
+            .describe('Topics that were discussed'),
+        feedback: z
+            .array(z.string())
+            .describe('Feedback given in either direction'),
+        goals: z
+            .array(z.string())
+            .describe('Goals or growth areas that were discussed'),
+        actionItems: actionItemsSchema,
+        resources: resourcesSchema,
+    }),
+    systemPrompt: `You are summarizing a 1:1 meeting between two people. Capture the topics discussed, feedback given in either direction, goals or growth areas, and follow-ups.
+
+Rules:
+${COMMON_RULES}
+- Keep a neutral, factual tone; do not speculate about performance`,
+    sections: [
+        { key: 'topics', label: 'Topics', kind: 'list' },
+        { key: 'feedback', label: 'Feedback', kind: 'list' },
+        { key: 'goals', label: 'Goals', kind: 'list' },
+        RESOURCES_SECTION,
+    ],
+    toColumns: (content) => ({
+        keyPoints: content.topics,
+        decisions: [],
+        nextSteps: content.goals,
+    }),
+    columnSections: { keyPoints: 'topics', nextSteps: 'goals' },
+})
+
+const customerCallTemplate = defineTemplate({
+    id: 'customer-call',
+    version: 'customer-call-v2',
+    name: 'Customer call',
+    description: 'Customer needs, objections, commitments and next steps',
+    schema: z.object({
+        title: titleSchema,
+        overview: overviewSchema,
+        customerNeeds: z
+            .array(z.string())
+            .describe('Needs, goals and pain points the customer described'),
+        objections: z
+            .array(z.string())
+            .describe('Concerns or objections the customer raised'),
+        commitments: z
+            .array(z.string())
+            .describe('Commitments made by either side'),
+        nextSteps: z
+            .array(z.string())
+            .describe('Agreed next steps with the customer'),
+        actionItems: actionItemsSchema,
+        resources: resourcesSchema,
+    }),
+    systemPrompt: `You are summarizing a call with a customer. Capture the customer's needs and pain points, their concerns or objections, commitments made by either side, and the agreed next steps.
+
+Rules:
+${COMMON_RULES}
+- Quote figures (budget, seats, dates) exactly as stated`,
+    sections: [
+        { key: 'customerNeeds', label: 'Customer Needs', kind: 'list' },
+        { key: 'objections', label: 'Objections', kind: 'list' },
+        { key: 'commitments', label: 'Commitments', kind: 'list' },
+        { key: 'nextSteps', label: 'Next Steps', kind: 'list' },
+        RESOURCES_SECTION,
+    ],
+    toColumns: (content) => ({
+        keyPoints: content.customerNeeds,
+        decisions: content.commitments,
+        nextSteps: content.nextSteps,
+    }),
+    columnSections: {
+        keyPoints: 'customerNeeds',
+        decisions: 'commitments',
+        nextSteps: 'nextSteps',
+    },
+})
+
+export const SUMMARY_TEMPLATES: Record<SummaryTemplateId, SummaryTemplate> = {
+    general: generalTemplate,
+    standup: standupTemplate,
+    retrospective: retrospectiveTemplate,
+    'one-on-one': oneOnOneTemplate,
+    'customer-call': customerCallTemplate,
+}
+
+/**
+ * Type guard for template ids coming from requests or the database
+ */
+export function isSummaryTemplateId(value: unknown): value is SummaryTemplateId {
+    return (
+        typeof value === 'string' &&
+        SUMMARY_TEMPLATE_IDS.includes(value as SummaryTemplateId)
+    )
+}
+
+/**
+ * Get a template by id, falling back to the general template
+ */
+export function getSummaryTemplate(id?: string | null): SummaryTemplate {
+    return isSummaryTemplateId(id)
+        ? SUMMARY_TEMPLATES[id]
+        : SUMMARY_TEMPLATES[DEFAULT_SUMMARY_TEMPLATE]
+}
+
+/**
+ * Content key that edits to a summary column are stored under
+ */
+export function getColumnSectionKey(
+    template: SummaryTemplate,
+    column: keyof SummaryColumns
+): string {
+    return template.columnSections[column] ?? column
+}
+
+/**
+ * Label of the section a summary column is edited through
+ */
+export function getColumnLabel(
+    template: SummaryTemplate,
+    column: keyof SummaryColumns
+): string {
+    const key = getColumnSectionKey(template, column)
+    return (
+        template.sections.find((section) => section.key === key)?.label ??
+        COLUMN_SECTIONS[column].label
+    )
+}
+
+/**
+ * Sections to render for stored content: the template's own sections,
+ * then edited columns the template has no section for
+ */
+export function getContentSections(
+    template: SummaryTemplate,
+    content: Record<string, unknown>
+): SummaryTemplateSection[] {
+    const columnSections = Object.values(COLUMN_SECTIONS).filter(
+        (section) =>
+            !template.sections.some((s) => s.key === section.key) &&
+            Array.isArray(content[section.key])
+    )
+    return [...template.sections, ...columnSections]
+}
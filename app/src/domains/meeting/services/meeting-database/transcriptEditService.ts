@@ -0,0 +1,158 @@
+/**
+ * transcriptEditService
+ *
+ * Manual corrections of transcript segment text (Vosk/Kaldi often garbles
+ * mixed Vietnamese/English speech). Each correction is kept as a
+ * TranscriptSegmentEdit (who/when, before/after) and the machine output is
+ * preserved in TranscriptSegment.originalText.
+ *
+ * After an edit the transcript's fullText and wordCount are recompiled and
+ * a summary generated from the old text is flagged as stale.
+ *
+ * Only final segments can be edited: interim segments are still being
+ * replaced by the transcriber.
+ */
+
+import prisma from '../../../../lib/prisma'
+import { transcriptRecordService } from './transcriptRecordService'
+import { summaryService } from './summaryService'
+
+export const MAX_SEGMENT_TEXT_LENGTH = 5000
+
+/**
+ * Error codes for segment edits
+ */
+export const SegmentEditErrorCodes = {
+    SEGMENT_NOT_FOUND: 'SEGMENT_NOT_FOUND',
+    SEGMENT_NOT_FINAL: 'SEGMENT_NOT_FINAL',
+    INVALID_TEXT: 'INVALID_TEXT',
+    UNCHANGED: 'UNCHANGED',
+} as const
+
+export type SegmentEditErrorCode =
+    (typeof SegmentEditErrorCodes)[keyof typeof SegmentEditErrorCodes]
+
+export interface EditedSegment {
+    id: string
+    text: string
+    originalText: string | null
+    editedAt: Date | null
+    editedById: string | null
+}
+
+export interface SegmentEditResult {
+    success: boolean
+    segment?: EditedSegment
+    error?: string
+    errorCode?: SegmentEditErrorCode
+}
+
+const EDITED_SEGMENT_SELECT = {
+    id: true,
+    text: true,
+    originalText: true,
+    editedAt: true,
+    editedById: true,
+} as const
+
+export const transcriptEditService = {
+    /**
+     * Find a segment of a meeting's transcript
+     */
+    async getSegment(meetingId: string, segmentId: string) {
+        return prisma.transcriptSegment.findFirst({
+            where: { id: segmentId, transcript: { meetingId } },
+        })
+    },
+
+    /**
+     * Replace a segment's text, recording the edit
+     */
+    async editSegment(
+        meetingId: string,
+        segmentId: string,
+        text: string,
+        editedById: string
+    ): Promise<SegmentEditResult> {
+        const newText = text.trim()
+        if (!newText || newText.length > MAX_SEGMENT_TEXT_LENGTH) {
+            return {
+                success: false,
+                error: `Text must be 1-${MAX_SEGMENT_TEXT_LENGTH} characters`,
+                errorCode: SegmentEditErrorCodes.INVALID_TEXT,
+            }
+        }
+
+        const segment = await this.getSegment(meetingId, segmentId)
+        if (!segment) {
+            return {
+                success: false,
+                error: 'Segment not found',
+                errorCode: SegmentEditErrorCodes.SEGMENT_NOT_FOUND,
+            }
+        }
+
+        if (!segment.isFinal) {
+            return {
+                success: false,
+                error: 'Only final segments can be corrected',
+                errorCode: SegmentEditErrorCodes.SEGMENT_NOT_FINAL,
+            }
+        }
+
+        if (newText === segment.text) {
+            return {
+                success: false,
+                error: 'Text is unchanged',
+                errorCode: SegmentEditErrorCodes.UNCHANGED,
+            }
+        }
+
+        const editedAt = new Date()
+        const [, updated] = await prisma.$transaction([
+            prisma.transcriptSegmentEdit.create({
+                data: {
+                    segmentId,
+                    previousText: segment.text,
+                    newText,
+                    editedById,
+                    createdAt: editedAt,
+                },
+            }),
+            prisma.transcriptSegment.update({
+                where: { id: segmentId },
+                data: {
+                    text: newText,
+                    originalText: segment.originalText ?? segment.text,
+                    editedAt,
+                    editedById,
+                },
+                select: EDITED_SEGMENT_SELECT,
+            }),
+        ])
+
+        await transcriptRecordService.rebuildFullText(meetingId)
+        await summaryService.markTranscriptStale(meetingId)
+
+        console.log(
+            `[transcriptEditService] Segment ${segmentId} of meeting ${meetingId} edited by ${editedById}`
+        )
+
+        return { success: true, segment: updated }
+    },
+
+    /**
+     * Edit history of a segment, newest first
+     */
+    async getHistory(segmentId: string) {
+        return prisma.transcriptSegmentEdit.findMany({
+            where: { segmentId },
+            orderBy: { createdAt: 'desc' },
+            include: {
+                editedBy: {
+                    select: { id: true, name: true, email: true },
+                },
+            },
+        })
+    },
+}
@@ -0,0 +1,314 @@
+/**
+ * transcriptExport
+ *
+ * Renders a meeting transcript as SRT, WebVTT, Markdown, plain text or
+ * versioned JSON for download.
+ *
+ * Segment times come from TranscriptSegment.startTime/endTime (seconds from
+ * Transcript.startedAt). Segments stored before timing was recorded fall back
+ * to receivedAt (when the first chunk arrived) relative to the same origin,
+ * with the end estimated from the text length.
+ *
+ * NOTE: This file must stay client-safe (no Prisma imports).
+ */
+
+export const TRANSCRIPT_EXPORT_FORMATS = ['srt', 'vtt', 'md', 'txt', 'json'] as const
+
+export type TranscriptExportFormat = (typeof TRANSCRIPT_EXPORT_FORMATS)[number]
+
+export const TRANSCRIPT_EXPORT_FORMAT_LABELS: Record<TranscriptExportFormat, string> = {
+    srt: 'Subtitles (SRT)',
+    vtt: 'Subtitles (WebVTT)',
+    md: 'Markdown',
+    txt: 'Plain text',
+    json: 'JSON',
+}
+
+// Bump when the JSON export shape changes in a breaking way
+export const TRANSCRIPT_EXPORT_SCHEMA_VERSION = 1
+
+// Used to estimate how long an utterance lasted when timing is missing
+const SECONDS_PER_WORD = 0.4
+const MIN_CUE_SECONDS = 1
+
+/**
+ * Minimal inputs needed to build an export (Prisma rows fit these shapes)
+ */
+export interface TranscriptExportSource {
+    meeting: {
+        id: string
+        title: string
+        roomName: string
+        startedAt: Date | null
+        endedAt: Date | null
+        duration: number | null
+    }
+    transcript: {
+        status: string
+        language: string
+        wordCount: number | null
+        startedAt: Date | null
+    }
+    segments: {
+        id: string
+        speakerId: number
+        speakerName: string | null
+        speakerUserId: string | null
+        startTime: number | null
+        endTime: number | null
+        text: string
+        confidence: number | null
+        receivedAt: Date
+    }[]
+}
+
+/**
+ * One segment of the JSON export
+ * Times are seconds from the start of the transcript
+ */
+export interface TranscriptExportSegment {
+    id: string
+    index: number
+    speaker: {
+        id: number
+        name: string
+        userId: string | null
+    }
+    start: number
+    end: number
+    timing: 'recorded' | 'estimated'
+    text: string
+    confidence: number | null
+}
+
+/**
+ * Stable JSON export schema
+ */
+export interface TranscriptExport {
+    schemaVersion: number
+    exportedAt: string
+    meeting: {
+        id: string
+        title: string
+        roomName: string
+        startedAt: string | null
+        endedAt: string | null
+        duration: number | null
+    }
+    transcript: {
+        status: string
+        language: string
+        wordCount: number | null
+    }
+    segments: TranscriptExportSegment[]
+}
+
+export interface RenderedTranscriptExport {
+    body: string
+    contentType: string
+    extension: string
+}
+
+export function isTranscriptExportFormat(value: unknown): value is TranscriptExportFormat {
+    return (
+        typeof value === 'string' &&
+        (TRANSCRIPT_EXPORT_FORMATS as readonly string[]).includes(value)
+    )
+}
+
+function round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000
+}
+
+function estimateDuration(text: string): number {
+    const words = text.split(/\s+/).filter(Boolean).length
+    return Math.max(MIN_CUE_SECONDS, words * SECONDS_PER_WORD)
+}
+
+/**
+ * Build the JSON export, resolving a start/end time for every segment
+ */
+export function buildTranscriptExport(source: TranscriptExportSource): TranscriptExport {
+    const { meeting, transcript, segments } = source
+    const origin = (
+        transcript.startedAt ??
+        meeting.startedAt ??
+        segments[0]?.receivedAt ??
+        new Date()
+    ).getTime()
+
+    return {
+        schemaVersion: TRANSCRIPT_EXPORT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        meeting: {
+            id: meeting.id,
+            title: meeting.title,
+            roomName: meeting.roomName,
+            startedAt: meeting.startedAt?.toISOString() ?? null,
+            endedAt: meeting.endedAt?.toISOString() ?? null,
+            duration: meeting.duration,
+        },
+        transcript: {
+            status: transcript.status,
+            language: transcript.language,
+            wordCount: transcript.wordCount,
+        },
+        segments: segments.map((segment, index) => {
+            const estimated = estimateDuration(segment.text)
+            const received = Math.max(0, (segment.receivedAt.getTime() - origin) / 1000)
+
+            const start = segment.startTime ?? received
+            const end = segment.endTime ?? start + estimated
+
+            return {
+                id: segment.id,
+                index: index + 1,
+                speaker: {
+                    id: segment.speakerId,
+                    name: segment.speakerName || `Speaker ${segment.speakerId}`,
+                    userId: segment.speakerUserId,
+                },
+                start: round(start),
+                end: round(Math.max(end, start + MIN_CUE_SECONDS / 2)),
+                timing: segment.startTime !== null ? 'recorded' : 'estimated',
+                text: segment.text.trim(),
+                confidence: segment.confidence,
+            }
+        }),
+    }
+}
+
+/**
+ * Format seconds as HH:MM:SS plus milliseconds after the given separator
+ */
+function formatTimestamp(seconds: number, msSeparator: ',' | '.'): string {
+    const totalMs = Math.round(seconds * 1000)
+    const hours = Math.floor(totalMs / 3600000)
+    const minutes = Math.floor((totalMs % 3600000) / 60000)
+    const secs = Math.floor((totalMs % 60000) / 1000)
+    const ms = totalMs % 1000
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${msSeparator}${pad(ms, 3)}`
+}
+
+/**
+ * Format seconds as HH:MM:SS for text transcripts
+ */
+function formatClock(seconds: number): string {
+    return formatTimestamp(seconds, '.').slice(0, 8)
+}
+
+function escapeVtt(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function toSrt(data: TranscriptExport): string {
+    return data.segments
+        .map(
+            (segment) =>
+                `${segment.index}\n` +
+                `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n` +
+                `${segment.speaker.name}: ${segment.text}\n`
+        )
+        .join('\n')
+}
+
+export function toWebVtt(data: TranscriptExport): string {
+    const cues = data.segments.map(
+        (segment) =>
+            `${segment.index}\n` +
+            `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n` +
+            `<v ${escapeVtt(segment.speaker.name)}>${escapeVtt(segment.text)}\n`
+    )
+
+    return ['WEBVTT\n', ...cues].join('\n')
+}
+
+/**
+ * Merge consecutive segments of the same speaker into paragraphs
+ */
+function speakerTurns(data: TranscriptExport) {
+    const turns: { speaker: string; start: number; text: string[] }[] = []
+
+    for (const segment of data.segments) {
+        const last = turns[turns.length - 1]
+        if (last && last.speaker === segment.speaker.name) {
+            last.text.push(segment.text)
+        } else {
+            turns.push({
+                speaker: segment.speaker.name,
+                start: segment.start,
+                text: [segment.text],
+            })
+        }
+    }
+
+    return turns
+}
+
+export function toMarkdown(data: TranscriptExport): string {
+    const header = [`# ${data.meeting.title}`, '']
+    if (data.meeting.startedAt) {
+        header.push(`- Date: ${data.meeting.startedAt}`)
+    }
+    header.push(`- Language: ${data.transcript.language}`, '')
+
+    const body = speakerTurns(data).map(
+        (turn) => `**${turn.speaker}** _[${formatClock(turn.start)}]_\n\n${turn.text.join(' ')}\n`
+    )
+
+    return [...header, ...body].join('\n')
+}
+
+export function toPlainText(data: TranscriptExport): string {
+    const body = speakerTurns(data).map(
+        (turn) => `[${formatClock(turn.start)}] ${turn.speaker}: ${turn.text.join(' ')}`
+    )
+
+    return [data.meeting.title, '', ...body, ''].join('\n')
+}
+
+/**
+ * Render an export in the requested format
+ */
+export function renderTranscriptExport(
+    data: TranscriptExport,
+    format: TranscriptExportFormat
+): RenderedTranscriptExport {
+    switch (format) {
+        case 'srt':
+            return { body: toSrt(data), contentType: 'application/x-subrip', extension: 'srt' }
+        case 'vtt':
+            return { body: toWebVtt(data), contentType: 'text/vtt', extension: 'vtt' }
+        case 'md':
+            return { body: toMarkdown(data), contentType: 'text/markdown', extension: 'md' }
+        case 'txt':
+            return { body: toPlainText(data), contentType: 'text/plain', extension: 'txt' }
+        case 'json':
+            return {
+                body: JSON.stringify(data, null, 2),
+                contentType: 'application/json',
+                extension: 'json',
+            }
+    }
+}
+
+/**
+ * Download file name for an export, e.g. "weekly-sync-transcript.srt"
+ */
+export function getTranscriptExportFilename(
+    data: TranscriptExport,
+    format: TranscriptExportFormat
+): string {
+    const slug =
+        data.meeting.title
+            .toLowerCase()
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .slice(0, 60) || `meeting-${data.meeting.id.slice(0, 8)}`
+
+    return `${slug}-transcript.${format}`
+}
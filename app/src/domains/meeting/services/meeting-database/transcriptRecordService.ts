@@ -6,7 +6,10 @@
  *
  * Features:
  * - Idempotent chunk processing via messageId
- * - Speaker mapping to userId when available
+ * - Speaker mapping to userId when available; manual SpeakerMappings
+ *   (speakerMappingService) override the name of later chunks too
+ * - Segment timing (seconds from Transcript.startedAt) from chunk timestamps;
+ *   a segment ends when the same speaker's next segment starts
  * - Automatic fullText compilation on transcription end
  * - State machine: PENDING → ACTIVE → COMPLETED | FAILED
  * - Queues events when meeting not found (PendingTranscriptionEvent)
@@ -20,6 +23,12 @@ import type {
   TranscribingStatusChangedPayload,
   TranscriptionChunkReceivedPayload,
 } from './types'
+import { summaryPolicyService } from './summaryPolicyService'
+import { embeddingIndexService } from './embeddingIndexService'
+import {
+  transcriptStreamService,
+  TRANSCRIPT_STREAM_SEGMENT_SELECT,
+} from './transcriptStreamService'
 
 /**
  * Error codes for transcript processing
@@ -57,6 +66,29 @@ export function isTranscriptionEvent(event: SerializableEvent): boolean {
   return TRANSCRIPT_EVENT_TYPES.includes(event.type as TranscriptEventType)
 }
 
+// Segment timing: longest utterance assumed when inferring an end time,
+// and speaking rate used to estimate the end of a speaker's last segment
+const MAX_SEGMENT_SECONDS = 30
+const SECONDS_PER_WORD = 0.4
+
+/**
+ * Time of an event from its ISO payload timestamp, else the emitter's epoch ms
+ * Replayed (queued) events keep the time they actually happened
+ */
+function getEventTime(payloadTimestamp: string | undefined, event: SerializableEvent): Date {
+  const parsed = payloadTimestamp ? new Date(payloadTimestamp) : null
+  if (parsed && !isNaN(parsed.getTime())) return parsed
+  return event.timestamp ? new Date(event.timestamp) : new Date()
+}
+
+/**
+ * Transcriber confidence clamped to 0-1, or null when not supplied
+ */
+function normalizeConfidence(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null
+  return Math.min(1, Math.max(0, value))
+}
+
 export const transcriptRecordService = {
   /**
    * Handle transcription-related events
@@ -91,6 +123,7 @@ export const transcriptRecordService = {
   ): Promise<EventProcessingResult> {
     const payload = event.payload as TranscribingStatusChangedPayload
     const { meetingId, on } = payload
+    const eventTime = getEventTime(payload.timestamp, event)
 
     try {
       // Resolve actual database meetingId from roomName
@@ -112,20 +145,29 @@ export const transcriptRecordService = {
 
       if (on) {
         // Transcription started - create or update transcript record
+        // A restart keeps the original startedAt so earlier segment times stay valid
+        const existing = await prisma.transcript.findUnique({
+          where: { meetingId: actualMeetingId },
+          select: { startedAt: true },
+        })
+
         await prisma.transcript.upsert({
           where: { meetingId: actualMeetingId },
           create: {
             meetingId: actualMeetingId,
             status: TranscriptStatus.PROCESSING,
             language: 'vi-VN', // Default to Vietnamese (Vosk model)
-            startedAt: new Date(),
+            startedAt: eventTime,
           },
           update: {
             status: TranscriptStatus.PROCESSING,
-            startedAt: new Date(),
+            endedAt: null, // Set again when this run is compiled
+            ...(!existing?.startedAt && { startedAt: eventTime }),
           },
         })
 
+        transcriptStreamService.publishStatus(actualMeetingId, TranscriptStatus.PROCESSING)
+
         console.log(
           `[transcriptRecordService] Transcription started for meeting: ${actualMeetingId}`
         )
@@ -136,6 +178,13 @@ export const transcriptRecordService = {
         console.log(
           `[transcriptRecordService] Transcription completed for meeting: ${actualMeetingId}`
         )
+
+        // Transcripts often finish after meeting.ended - queue the summary now
+        try {
+          await summaryPolicyService.maybeAutoSummarize(actualMeetingId)
+        } catch (error) {
+          console.error('[transcriptRecordService] Auto-summary check failed:', error)
+        }
       }
 
       return {
@@ -165,6 +214,8 @@ export const transcriptRecordService = {
   ): Promise<EventProcessingResult> {
     const payload = event.payload as TranscriptionChunkReceivedPayload
     const { meetingId, language, messageID, participant, final, stable } = payload
+    const eventTime = getEventTime(payload.timestamp, event)
+    const confidence = normalizeConfidence(payload.confidence)
 
     // Only process if there's actual text content
     const text = final || stable
@@ -201,7 +252,7 @@ export const transcriptRecordService = {
           meetingId: actualMeetingId,
           status: TranscriptStatus.PROCESSING,
           language: language || 'vi-VN',
-          startedAt: new Date(),
+          startedAt: eventTime,
         },
         update: {
           language: language || undefined,
@@ -211,13 +262,33 @@ export const transcriptRecordService = {
       // Guard: validate participant exists
       const participantData = participant ?? { id: 'SYSTEM', displayName: 'System' }
 
+      // A manual speaker correction wins over what Jitsi reports
+      const mapping = await prisma.speakerMapping.findUnique({
+        where: {
+          transcriptId_jitsiParticipantId: {
+            transcriptId: transcript.id,
+            jitsiParticipantId: participantData.id,
+          },
+        },
+        select: {
+          displayName: true,
+          participant: { select: { userId: true } },
+        },
+      })
+
       // Use userId from payload if available (only local authenticated participants have this)
       // Falls back to trying to resolve from MeetingParticipant records
-      const speakerUserId = (participant as { userId?: string })?.userId
-        || await this.resolveUserIdFromParticipant(actualMeetingId, participantData.id)
+      const speakerUserId = mapping
+        ? mapping.participant?.userId ?? null
+        : (participant as { userId?: string })?.userId
+          || await this.resolveUserIdFromParticipant(actualMeetingId, participantData.id)
+      const speakerName = mapping?.displayName ?? participantData.displayName
+
+      // The first chunk of a message marks when the utterance started
+      const startTime = this.getOffsetSeconds(transcript.startedAt, eventTime)
 
       // Create or update segment (use messageId for upsert)
-      await prisma.transcriptSegment.upsert({
+      const segment = await prisma.transcriptSegment.upsert({
         where: {
           transcriptId_messageId: {
             transcriptId: transcript.id,
@@ -228,26 +299,34 @@ export const transcriptRecordService = {
           transcriptId: transcript.id,
           messageId: messageID,
           jitsiParticipantId: participantData.id,
-          speakerName: participantData.displayName,
+          speakerName,
           speakerUserId,
           speakerId: this.hashParticipantId(participantData.id),
+          startTime,
           text: text.trim(),
           isFinal: !!final,
-          confidence: final ? 1.0 : 0.8,
+          confidence,
         },
         update: {
           // Only upgrade stable → final, never downgrade
           ...(final && {
             text: final.trim(),
             isFinal: true,
-            confidence: 1.0,
+            ...(confidence !== null && { confidence }),
           }),
           // Update speaker name and userId if changed
-          speakerName: participantData.displayName,
-          ...(speakerUserId && { speakerUserId }),
+          speakerName,
+          ...((speakerUserId || mapping) && { speakerUserId }),
         },
+        select: TRANSCRIPT_STREAM_SEGMENT_SELECT,
       })
 
+      transcriptStreamService.publishSegment(actualMeetingId, segment)
+
+      if (segment.startTime !== null) {
+        await this.closePreviousSegments(transcript.id, participantData.id, segment.startTime)
+      }
+
       return {
         success: true,
         eventId: event.eventId,
@@ -266,7 +345,8 @@ export const transcriptRecordService = {
 
   /**
    * Compile all final segments into full text
-   * Called when transcription ends or meeting ends
+   * Called when transcription ends or meeting ends, and again after
+   * corrections (the original endedAt is kept)
    */
   async compileFullText(meetingId: string): Promise<void> {
     const transcript = await prisma.transcript.findUnique({
@@ -290,18 +370,16 @@ export const transcriptRecordService = {
         where: { id: transcript.id },
         data: {
           status: TranscriptStatus.COMPLETED,
-          endedAt: new Date(),
+          endedAt: transcript.endedAt ?? new Date(),
         },
       })
+      transcriptStreamService.publishStatus(meetingId, TranscriptStatus.COMPLETED)
       return
     }
 
-    // Compile full text from segments
-    const fullText = transcript.segments
-      .map((seg) => `[${seg.speakerName || `Speaker ${seg.speakerId}`}]: ${seg.text}`)
-      .join('\n')
+    await this.fillMissingEndTimes(transcript.segments)
 
-    const wordCount = fullText.split(/\s+/).filter(Boolean).length
+    const { fullText, wordCount } = this.formatFullText(transcript.segments)
 
     await prisma.transcript.update({
       where: { id: transcript.id },
@@ -309,13 +387,116 @@ export const transcriptRecordService = {
         fullText,
         wordCount,
         status: TranscriptStatus.COMPLETED,
-        endedAt: new Date(),
+        endedAt: transcript.endedAt ?? new Date(),
       },
     })
 
     console.log(
       `[transcriptRecordService] Compiled transcript: ${transcript.segments.length} segments, ${wordCount} words`
     )
+
+    transcriptStreamService.publishStatus(meetingId, TranscriptStatus.COMPLETED)
+
+    // Index for semantic search / Q&A in the background
+    try {
+      await embeddingIndexService.enqueueIndexing(meetingId)
+    } catch (error) {
+      console.error('[transcriptRecordService] Failed to queue embedding job:', error)
+    }
+  },
+
+  /**
+   * Recompile fullText of a completed transcript after its segments changed
+   * (speaker remapped, text corrected); the embedding index is refreshed too
+   * Transcripts still in progress are compiled when they end
+   */
+  async rebuildFullText(meetingId: string): Promise<void> {
+    const transcript = await prisma.transcript.findUnique({
+      where: { meetingId },
+      select: { status: true },
+    })
+
+    if (transcript?.status !== TranscriptStatus.COMPLETED) return
+
+    await this.compileFullText(meetingId)
+  },
+
+  /**
+   * "[Speaker]: text" lines of final segments, with their word count
+   */
+  formatFullText(
+    segments: { speakerId: number; speakerName: string | null; text: string }[]
+  ): { fullText: string; wordCount: number } {
+    const fullText = segments
+      .map((seg) => `[${seg.speakerName || `Speaker ${seg.speakerId}`}]: ${seg.text}`)
+      .join('\n')
+
+    return {
+      fullText,
+      wordCount: fullText.split(/\s+/).filter(Boolean).length,
+    }
+  },
+
+  /**
+   * Seconds between the transcript start and a moment (never negative)
+   */
+  getOffsetSeconds(startedAt: Date | null, at: Date): number | null {
+    if (!startedAt) return null
+    return Math.max(0, (at.getTime() - startedAt.getTime()) / 1000)
+  },
+
+  /**
+   * End a speaker's open segments where their next segment starts
+   * Capped so a long silence is not counted as speech
+   */
+  async closePreviousSegments(
+    transcriptId: string,
+    jitsiParticipantId: string,
+    nextStartTime: number
+  ): Promise<void> {
+    const open = await prisma.transcriptSegment.findMany({
+      where: {
+        transcriptId,
+        jitsiParticipantId,
+        endTime: null,
+        startTime: { lt: nextStartTime },
+      },
+      select: { id: true, startTime: true },
+    })
+
+    for (const segment of open) {
+      await prisma.transcriptSegment.update({
+        where: { id: segment.id },
+        data: {
+          endTime: Math.min(nextStartTime, segment.startTime! + MAX_SEGMENT_SECONDS),
+        },
+      })
+    }
+  },
+
+  /**
+   * End each speaker's last segment (no later segment to infer it from)
+   * using an estimate from its length
+   */
+  async fillMissingEndTimes(
+    segments: { id: string; startTime: number | null; endTime: number | null; text: string }[]
+  ): Promise<void> {
+    const open = segments.filter(
+      (segment) => segment.startTime !== null && segment.endTime === null
+    )
+
+    for (const segment of open) {
+      const words = segment.text.split(/\s+/).filter(Boolean).length
+      const duration = Math.min(
+        MAX_SEGMENT_SECONDS,
+        Math.max(1, words * SECONDS_PER_WORD)
+      )
+
+      await prisma.transcriptSegment.update({
+        where: { id: segment.id },
+        data: { endTime: segment.startTime! + duration },
+      })
+    }
   },
 
   /**
@@ -327,13 +508,25 @@ export const transcriptRecordService = {
   async resolveMeetingId(roomName: string): Promise<string | null> {
     if (!roomName) return null
 
+    // Occurrences of a recurring series share a roomName:
+    // prefer the running one, then the one that started last
+    const active = await prisma.meeting.findFirst({
+      where: { roomName, status: 'ACTIVE' },
+      select: { id: true },
+      orderBy: { createdAt: 'desc' },
+    })
+    if (active) return active.id
+
     const meeting = await prisma.meeting.findFirst({
       where: {
         roomName,
-        status: { in: ['ACTIVE', 'SCHEDULED', 'ENDED'] },
+        status: { in: ['SCHEDULED', 'ENDED'] },
       },
       select: { id: true },
-      orderBy: { createdAt: 'desc' },
+      orderBy: [
+        { startedAt: { sort: 'desc', nulls: 'last' } },
+        { createdAt: 'desc' },
+      ],
     })
 
     return meeting?.id || null
@@ -0,0 +1,126 @@
+/**
+ * transcriptStreamService
+ *
+ * In-process pub/sub for live transcripts. transcriptRecordService
+ * publishes segments as it persists them and transcript status changes;
+ * the SSE route (/api/meetings/[meetingId]/transcript/stream) subscribes
+ * per meeting so observers can follow along without joining the call.
+ *
+ * Subscribers only see events persisted by the same server process, so a
+ * multi-instance deployment needs sticky routing for event ingestion and
+ * streams (or a shared broker behind this interface).
+ */
+
+import { EventEmitter } from 'events'
+import prisma from '../../../../lib/prisma'
+import type { TranscriptStatus } from '../../../../app/generated/prisma'
+
+/**
+ * Segment fields sent to observers (same shape as the transcript API)
+ */
+export interface TranscriptStreamSegment {
+    id: string
+    messageId: string
+    speakerId: number
+    speakerName: string | null
+    jitsiParticipantId: string | null
+    startTime: number | null
+    endTime: number | null
+    text: string
+    confidence: number | null
+    isFinal: boolean
+    receivedAt: Date
+}
+
+export type TranscriptStreamEvent =
+    | { type: 'segment'; segment: TranscriptStreamSegment }
+    | { type: 'status'; status: TranscriptStatus }
+
+export interface TranscriptStreamSnapshot {
+    status: TranscriptStatus | null
+    segments: TranscriptStreamSegment[]
+}
+
+export type TranscriptStreamListener = (event: TranscriptStreamEvent) => void
+
+export const TRANSCRIPT_STREAM_SEGMENT_SELECT = {
+    id: true,
+    messageId: true,
+    speakerId: true,
+    speakerName: true,
+    jitsiParticipantId: true,
+    startTime: true,
+    endTime: true,
+    text: true,
+    confidence: true,
+    isFinal: true,
+    receivedAt: true,
+} as const
+
+// One emitter per process, kept across hot reloads like the Prisma client
+const globalForStream = global as unknown as {
+    transcriptStream?: EventEmitter
+}
+
+const emitter = globalForStream.transcriptStream || new EventEmitter()
+emitter.setMaxListeners(0) // One listener per open stream
+
+if (process.env.NODE_ENV !== 'production') globalForStream.transcriptStream = emitter
+
+export const transcriptStreamService = {
+    /**
+     * Publish a persisted segment to the meeting's observers
+     */
+    publishSegment(meetingId: string, segment: TranscriptStreamSegment): void {
+        this.publish(meetingId, { type: 'segment', segment })
+    },
+
+    /**
+     * Publish a transcript status change to the meeting's observers
+     */
+    publishStatus(meetingId: string, status: TranscriptStatus): void {
+        this.publish(meetingId, { type: 'status', status })
+    },
+
+    /**
+     * Deliver an event; a failing listener must not break persistence
+     */
+    publish(meetingId: string, event: TranscriptStreamEvent): void {
+        try {
+            emitter.emit(meetingId, event)
+        } catch (error) {
+            console.error('[transcriptStreamService] Listener failed:', error)
+        }
+    },
+
+    /**
+     * Listen to a meeting's live transcript; returns an unsubscribe function
+     */
+    subscribe(meetingId: string, listener: TranscriptStreamListener): () => void {
+        emitter.on(meetingId, listener)
+        return () => {
+            emitter.off(meetingId, listener)
+        }
+    },
+
+    /**
+     * Current transcript state, sent to observers when they connect
+     */
+    async getSnapshot(meetingId: string): Promise<TranscriptStreamSnapshot> {
+        const transcript = await prisma.transcript.findUnique({
+            where: { meetingId },
+            select: {
+                status: true,
+                segments: {
+                    orderBy: { receivedAt: 'asc' },
+                    select: TRANSCRIPT_STREAM_SEGMENT_SELECT,
+                },
+            },
+        })
+
+        return {
+            status: transcript?.status ?? null,
+            segments: transcript?.segments ?? [],
+        }
+    },
+}
@@ -41,6 +41,7 @@ export interface MeetingStartedPayload {
     hostUserId: string
     title?: string
     description?: string
+    summaryTemplate?: string // Default summary template id (e.g. "standup")
     startedAt: string // ISO date string
 }
 
@@ -56,6 +57,7 @@ export interface MeetingScheduledPayload {
     hostUserId: string
     title: string
     description?: string
+    summaryTemplate?: string // Default summary template id (e.g. "standup")
     scheduledAt: string // ISO date string
 }
 
@@ -186,6 +188,23 @@ export interface TranscriptionChunkReceivedPayload {
     final: string
     stable: string
     unstable: string
+    confidence?: number      // 0-1, only when the transcriber reports it
+    timestamp: string        // When the client received the chunk
+}
+
+export interface ChatMessageSentPayload {
+    meetingId: string
+    messageId: string        // Client-generated, unique per meeting
+    sender: {
+        id: string           // Jitsi participant ID
+        displayName: string
+        userId?: string      // Better Auth userId (nullable for guests)
+    }
+    recipient?: {            // Set for private messages only
+        id: string
+        displayName: string
+    }
+    text: string
     timestamp: string
 }
 
@@ -220,7 +239,10 @@ export type MediaEvent =
     | SerializableEvent<'transcription.status.changed', TranscribingStatusChangedPayload>
     | SerializableEvent<'transcription.chunk.received', TranscriptionChunkReceivedPayload>
 
-export type MeetingDatabaseEvent = MeetingEvent | ParticipantEvent | TrackEvent | MediaEvent
+export type ChatEvent =
+    | SerializableEvent<'chat.message.sent', ChatMessageSentPayload>
+
+export type MeetingDatabaseEvent = MeetingEvent | ParticipantEvent | TrackEvent | MediaEvent | ChatEvent
 
 // ============================================================================
 // DTOs for Prisma Mapping
@@ -238,6 +260,7 @@ export interface CreateMeetingDTO {
     scheduledAt?: Date
     startedAt?: Date
     status: MeetingStatus
+    summaryTemplate?: string
 }
 
 /**
@@ -346,6 +369,13 @@ export function isMediaEvent(event: SerializableEvent): event is MediaEvent {
     )
 }
 
+/**
+ * Type guard for ChatEvent
+ */
+export function isChatEvent(event: SerializableEvent): event is ChatEvent {
+    return event.type.startsWith('chat.')
+}
+
 /**
  * Validate required fields exist in payload
  */
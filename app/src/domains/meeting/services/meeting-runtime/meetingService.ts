@@ -13,7 +13,7 @@
 
 import { getJitsiMeetJS } from './jitsiLoader'
 import { meetingEventEmitter } from '../meetingEventEmitter'
-import { MeetingConfig, Participant } from '../../types/meeting'
+import { Caption, ChatMessage, MeetingConfig, Participant } from '../../types/meeting'
 
 // Event handlers type
 interface MeetingEventHandlers {
@@ -32,6 +32,8 @@ interface MeetingEventHandlers {
     onDisplayNameChanged?: (participantId: string, displayName: string) => void
     onConnectionModeChanged?: (mode: 'p2p' | 'jvb', participantCount: number) => void
     onReconcileRequired?: () => void
+    onTranscriptionChunk?: (caption: Omit<Caption, 'receivedAt'>) => void
+    onChatMessage?: (message: ChatMessage) => void
 }
 
 // Store connection and conference instances (not serializable, kept outside Redux)
@@ -79,6 +81,20 @@ function extractParticipantData(
     }
 }
 
+/**
+ * Generates an id for a chat message (Jitsi does not return one on send)
+ */
+function generateChatMessageId(): string {
+    return `chat-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+/**
+ * Display name of a remote participant, for messages sent without one
+ */
+function getParticipantName(conf: any, id: string): string {
+    return conf.getParticipantById?.(id)?.getDisplayName?.() || 'Guest'
+}
+
 /**
  * Sets up conference event listeners
  */
@@ -209,8 +225,21 @@ function setupConferenceEvents(conf: any, JitsiMeetJS: any): void {
     // Transcription chunks received
     if (events.TRANSCRIPTION_CHUNK_RECEIVED) {
         conf.on(events.TRANSCRIPTION_CHUNK_RECEIVED, (data: any) => {
+            const participant = data.participant || {}
+
+            // Live captions: a final chunk carries the whole utterance
+            eventHandlers.onTranscriptionChunk?.({
+                messageId: data.messageID || '',
+                participantId: participant.id || 'unknown',
+                displayName: participant.displayName || 'Unknown',
+                language: data.language || 'en',
+                stableText: data.final || data.stable || '',
+                unstableText: data.final ? '' : data.unstable || '',
+                isFinal: !!data.final,
+                updatedAt: Date.now(),
+            })
+
             if (currentMeetingId) {
-                const participant = data.participant || {}
                 meetingEventEmitter.emitTranscriptionChunkReceived(
                     currentMeetingId,
                     data.language || 'en',
@@ -221,12 +250,50 @@ function setupConferenceEvents(conf: any, JitsiMeetJS: any): void {
                     },
                     data.final || '',
                     data.stable || '',
-                    data.unstable || ''
+                    data.unstable || '',
+                    typeof data.confidence === 'number' ? data.confidence : undefined
                 )
             }
         })
     }
 
+    // Public chat messages (the MUC echoes our own messages back; those were
+    // already surfaced by sendChatMessage)
+    conf.on(
+        events.MESSAGE_RECEIVED,
+        (id: string, text: string, ts: number, displayName: string, isVisitor: boolean, messageId: string) => {
+            if (id === conf.myUserId()) return
+
+            eventHandlers.onChatMessage?.({
+                id: messageId || generateChatMessageId(),
+                senderId: id,
+                senderName: displayName || getParticipantName(conf, id),
+                text,
+                isPrivate: false,
+                isLocal: false,
+                timestamp: ts || Date.now(),
+            })
+        }
+    )
+
+    // Private chat messages
+    conf.on(
+        events.PRIVATE_MESSAGE_RECEIVED,
+        (id: string, text: string, ts: number, messageId: string, displayName: string) => {
+            eventHandlers.onChatMessage?.({
+                id: messageId || generateChatMessageId(),
+                senderId: id,
+                senderName: displayName || getParticipantName(conf, id),
+                recipientId: conf.myUserId(),
+                recipientName: localDisplayName,
+                text,
+                isPrivate: true,
+                isLocal: false,
+                timestamp: ts || Date.now(),
+            })
+        }
+    )
+
     // P2P status change detection for mode transitions
     conf.on(events.P2P_STATUS, (isP2P: boolean) => {
         const newMode = isP2P ? 'p2p' : 'jvb'
@@ -579,6 +646,38 @@ async function replaceTrack(oldTrack: any, newTrack: any): Promise<void> {
     }
 }
 
+/**
+ * Sends a chat message to everyone, or privately to one participant
+ * Returns the message as shown locally, or null when not in a conference
+ */
+function sendChatMessage(text: string, recipientId?: string): ChatMessage | null {
+    const message = text.trim()
+    if (!conference || !message) return null
+
+    if (recipientId) {
+        conference.sendPrivateTextMessage(recipientId, message)
+    } else {
+        conference.sendTextMessage(message)
+    }
+
+    const chatMessage: ChatMessage = {
+        id: generateChatMessageId(),
+        senderId: conference.myUserId(),
+        senderName: localDisplayName,
+        ...(recipientId && {
+            recipientId,
+            recipientName: getParticipantName(conference, recipientId),
+        }),
+        text: message,
+        isPrivate: !!recipientId,
+        isLocal: true,
+        timestamp: Date.now(),
+    }
+
+    eventHandlers.onChatMessage?.(chatMessage)
+    return chatMessage
+}
+
 /**
  * Gets the local participant from the conference
  */
@@ -679,6 +778,7 @@ export const meetingService = {
     addTrack,
     removeTrack,
     replaceTrack,
+    sendChatMessage,
     getLocalParticipant,
     getConference,
     getConnection,
@@ -8,7 +8,7 @@
  * import { integratedMeetingService } from '@/domains/meeting/services/meeting-runtime/meetingServiceIntegration'
  *
  * // In component or hook:
- * await integratedMeetingService.connect(config, meetingId, userId, title, description)
+ * await integratedMeetingService.connect(config, meetingId, userId, title, description, isModerator)
  * await integratedMeetingService.joinConference(roomName, displayName)
  * // Events automatically emitted to meetingEventEmitter
  * ```
@@ -25,6 +25,14 @@ type ParticipantRole = 'HOST' | 'CO_HOST' | 'PARTICIPANT'
 // Track meeting metadata for event emission
 let currentMeetingId: string | null = null
 let currentUserId: string | null = null
+let currentIsModerator = false
+
+/**
+ * The local user's account id, or undefined for guests ('anonymous')
+ */
+function getAccountId(): string | undefined {
+    return currentUserId && currentUserId !== 'anonymous' ? currentUserId : undefined
+}
 
 /**
  * Wrapper around meetingService that emits events for persistence
@@ -38,11 +46,13 @@ export const integratedMeetingService = {
         meetingId: string,
         userId: string,
         title?: string,
-        description?: string
+        description?: string,
+        isModerator = false
     ): Promise<void> {
         const startTime = Date.now()
         currentMeetingId = meetingId
         currentUserId = userId
+        currentIsModerator = isModerator
 
         // Set the current meeting ID in meetingService for event emission
         setCurrentMeetingId(meetingId)
@@ -65,6 +75,7 @@ export const integratedMeetingService = {
         } catch (error) {
             currentMeetingId = null
             currentUserId = null
+            currentIsModerator = false
             setCurrentMeetingId('')
             console.error(
                 `[integratedMeetingService] Connection failed after ${Date.now() - startTime}ms:`,
@@ -83,13 +94,15 @@ export const integratedMeetingService = {
 
             await meetingService.disconnect()
 
-            // Emit meeting ended event if we had a meeting ID
-            if (finalMeetingId) {
+            // Emit meeting ended event if we had a meeting ID (moderators only;
+            // the server refuses it from other participants)
+            if (finalMeetingId && currentIsModerator) {
                 meetingEventEmitter.emitMeetingEnded(finalMeetingId)
             }
 
             currentMeetingId = null
             currentUserId = null
+            currentIsModerator = false
             console.log('[integratedMeetingService] Disconnected')
         } catch (error) {
             console.error('[integratedMeetingService] Disconnect error:', error)
@@ -110,7 +123,7 @@ export const integratedMeetingService = {
                 meetingEventEmitter.emitParticipantJoined({
                     meetingId: currentMeetingId,
                     participantId: localParticipant.id,
-                    userId: currentUserId || undefined,
+                    userId: getAccountId(),
                     displayName: localParticipant.displayName,
                     role: (localParticipant.role === 'moderator' ? 'HOST' : 'PARTICIPANT') as ParticipantRole,
                 })
@@ -119,7 +132,7 @@ export const integratedMeetingService = {
             // Setup event forwarding for this conference
             const conference = meetingService.getConference()
             if (conference && currentMeetingId) {
-                setupConferenceEventForwarding(conference, currentMeetingId, currentUserId || undefined)
+                setupConferenceEventForwarding(conference, currentMeetingId)
             }
 
             console.log(`[integratedMeetingService] Joined conference ${roomName}`)
@@ -143,7 +156,7 @@ export const integratedMeetingService = {
                 meetingEventEmitter.emitParticipantLeft(
                     currentMeetingId,
                     localParticipant.id,
-                    currentUserId || undefined
+                    getAccountId()
                 )
             }
 
@@ -206,6 +219,35 @@ export const integratedMeetingService = {
         }
     },
 
+    /**
+     * Send a chat message with event emission (the sender persists it)
+     */
+    sendChatMessage(text: string, recipientId?: string) {
+        const message = meetingService.sendChatMessage(text, recipientId)
+
+        if (message && currentMeetingId) {
+            meetingEventEmitter.emitChatMessageSent({
+                meetingId: currentMeetingId,
+                messageId: message.id,
+                sender: {
+                    id: message.senderId,
+                    displayName: message.senderName,
+                    userId: getAccountId(),
+                },
+                ...(message.recipientId && {
+                    recipient: {
+                        id: message.recipientId,
+                        displayName: message.recipientName || 'Guest',
+                    },
+                }),
+                text: message.text,
+                timestamp: new Date(message.timestamp).toISOString(),
+            })
+        }
+
+        return message
+    },
+
     /**
      * Pass-through methods that don't require event emission
      */
@@ -226,7 +268,7 @@ export const integratedMeetingService = {
  * Setup event forwarding for conference events
  * Forwards Jitsi conference events to meetingEventEmitter
  */
-function setupConferenceEventForwarding(conference: any, meetingId: string, userId?: string): void {
+function setupConferenceEventForwarding(conference: any, meetingId: string): void {
     if (!conference) {
         return
     }
@@ -238,8 +280,7 @@ function setupConferenceEventForwarding(conference: any, meetingId: string, user
 
         meetingEventEmitter.emitParticipantJoined({
             meetingId,
-            participantId: id,
-            userId: userId,
+            participantId: id, // Remote accounts are unknown to this client
             displayName,
             role: role as ParticipantRole,
         })
@@ -247,7 +288,7 @@ function setupConferenceEventForwarding(conference: any, meetingId: string, user
 
     // Forward participant left events
     conference.on?.('user_left', (id: string) => {
-        meetingEventEmitter.emitParticipantLeft(meetingId, id, userId)
+        meetingEventEmitter.emitParticipantLeft(meetingId, id)
     })
 
     // Forward display name changed events (update participant info)
@@ -27,6 +27,7 @@ import type {
     RecordingStatusChangedPayload,
     TranscribingStatusChangedPayload,
     TranscriptionChunkReceivedPayload,
+    ChatMessageSentPayload,
 } from './meeting-database/types'
 
 type EventListener = (event: SerializableEvent) => void
@@ -465,7 +466,8 @@ class MeetingEventEmitter {
         participant: { id: string; displayName: string; userId?: string },
         final: string,
         stable: string,
-        unstable: string
+        unstable: string,
+        confidence?: number
     ): void {
         const event: SerializableEvent = {
             eventId: this.generateEventId(),
@@ -480,12 +482,34 @@ class MeetingEventEmitter {
                 final,
                 stable,
                 unstable,
+                ...(confidence !== undefined && { confidence }),
                 timestamp: new Date().toISOString(),
             } as TranscriptionChunkReceivedPayload,
         }
         this.emit(event)
     }
 
+    // ========================================================================
+    // Chat Events
+    // ========================================================================
+
+    /**
+     * Emit when the local participant sends a chat message
+     */
+    emitChatMessageSent(payload: Omit<ChatMessageSentPayload, 'timestamp'> & { timestamp?: string }): void {
+        const event: SerializableEvent = {
+            eventId: this.generateEventId(),
+            type: 'chat.message.sent',
+            timestamp: Date.now(),
+            meetingId: payload.meetingId,
+            payload: {
+                ...payload,
+                timestamp: payload.timestamp || new Date().toISOString(),
+            } as ChatMessageSentPayload,
+        }
+        this.emit(event)
+    }
+
     /**
      * Get the event queue (for testing)
      */
@@ -2,7 +2,8 @@
  * meetingStore
  *
  * Redux slice for meeting state.
- * Manages participant list, meeting status, and connection state.
+ * Manages participant list, meeting status, connection state, live captions
+ * and chat.
  * Stores serializable payloads only - no SDK objects.
  *
  * @see JitsiAPI/5-JitsiParticipant for participant model reference
@@ -15,8 +16,15 @@ import {
     ConnectionStatus,
     ConferenceStatus,
     MeetingError,
+    Caption,
+    ChatMessage,
 } from '../types/meeting'
 
+// Captions kept for the live transcript panel
+const MAX_CAPTIONS = 200
+// Chat messages kept in memory; older ones remain in meeting history
+const MAX_CHAT_MESSAGES = 500
+
 const initialState: MeetingState = {
     connectionStatus: 'disconnected',
     conferenceStatus: 'idle',
@@ -25,6 +33,8 @@ const initialState: MeetingState = {
     participants: {},
     error: null,
     dominantSpeakerId: null,
+    captions: [],
+    chatMessages: [],
 }
 
 export const meetingSlice = createSlice({
@@ -46,6 +56,8 @@ export const meetingSlice = createSlice({
                 state.roomName = null
                 state.participants = {}
                 state.dominantSpeakerId = null
+                state.captions = []
+                state.chatMessages = []
             }
         },
 
@@ -113,6 +125,48 @@ export const meetingSlice = createSlice({
             }
         },
 
+        // Captions
+        upsertCaption: (
+            state,
+            action: PayloadAction<Omit<Caption, 'receivedAt'>>
+        ) => {
+            const existing = state.captions.find(
+                (c) => c.messageId === action.payload.messageId
+            )
+            if (existing) {
+                // A late interim chunk must not reopen a final caption
+                if (existing.isFinal && !action.payload.isFinal) return
+                Object.assign(existing, action.payload)
+                return
+            }
+
+            state.captions.push({
+                ...action.payload,
+                receivedAt: action.payload.updatedAt,
+            })
+            if (state.captions.length > MAX_CAPTIONS) {
+                state.captions.splice(0, state.captions.length - MAX_CAPTIONS)
+            }
+        },
+
+        clearCaptions: (state) => {
+            state.captions = []
+        },
+
+        // Chat
+        addChatMessage: (state, action: PayloadAction<ChatMessage>) => {
+            if (state.chatMessages.some((m) => m.id === action.payload.id)) {
+                return
+            }
+            state.chatMessages.push(action.payload)
+            if (state.chatMessages.length > MAX_CHAT_MESSAGES) {
+                state.chatMessages.splice(
+                    0,
+                    state.chatMessages.length - MAX_CHAT_MESSAGES
+                )
+            }
+        },
+
         // Error handling
         setError: (state, action: PayloadAction<MeetingError | null>) => {
             state.error = action.payload
@@ -133,6 +187,9 @@ export const {
     removeParticipant,
     clearParticipants,
     setDominantSpeaker,
+    upsertCaption,
+    clearCaptions,
+    addChatMessage,
     setError,
     resetMeetingState,
 } = meetingSlice.actions
@@ -43,6 +43,38 @@ export interface Participant {
     imageUrl?: string
 }
 
+/**
+ * A live caption, built from the transcription chunks of one utterance
+ * (one Jitsi messageID). Each chunk replaces the previous text; the
+ * unstable tail may still change until the utterance is final.
+ */
+export interface Caption {
+    messageId: string
+    participantId: string
+    displayName: string // Name sent with the chunk; the store's participant name is preferred
+    language: string
+    stableText: string
+    unstableText: string
+    isFinal: boolean
+    receivedAt: number
+    updatedAt: number
+}
+
+/**
+ * A chat message sent over the conference
+ */
+export interface ChatMessage {
+    id: string
+    senderId: string // Jitsi participant ID
+    senderName: string
+    recipientId?: string // Set for private messages
+    recipientName?: string
+    text: string
+    isPrivate: boolean
+    isLocal: boolean // Sent by the local participant
+    timestamp: number
+}
+
 /**
  * Meeting configuration options
  */
@@ -83,4 +115,9 @@ export interface MeetingState {
 
     // UI state
     dominantSpeakerId: string | null
+
+    // Live captions, oldest first
+    captions: Caption[]
+    // Chat messages, oldest first
+    chatMessages: ChatMessage[]
 }
@@ -0,0 +1,19 @@
+/**
+ * Next.js instrumentation hook - runs once when a server process starts
+ *
+ * Starts the background job worker (summary generation, ...) in the Node.js
+ * runtime. Set JOB_WORKER_ENABLED=false on instances that should only serve
+ * requests; jobs are then picked up by the instances that run the worker.
+ */
+
+export async function register() {
+    if (
+        process.env.NEXT_RUNTIME === 'nodejs' &&
+        process.env.JOB_WORKER_ENABLED !== 'false'
+    ) {
+        const { jobWorker } = await import(
+            '@/domains/meeting/services/meeting-database/jobWorker'
+        )
+        jobWorker.start()
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Authorization for the meetings API
+ *
+ * Every /api/meetings/[meetingId]/* route goes through authorizeMeeting:
+ * 1. the Better Auth session is required (401 without one)
+ * 2. the user must be a member of the meeting: its host (Meeting.hostId) or
+ *    one of its participants (MeetingParticipant.userId); 403 otherwise
+ * 3. the member's role must grant the permission of the action (403 otherwise)
+ *
+ * Roles come from participantRecordService.getUserMeetingRole, which only
+ * trusts Meeting.hostId for HOST. Non-members get 403 whether or not the
+ * meeting exists, so ids cannot be probed.
+ */
+
+import { NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { auth } from './auth'
+import { participantRecordService } from '@/domains/meeting/services/meeting-database'
+import { ParticipantRole } from '@/app/generated/prisma'
+
+/**
+ * What a route does to a meeting
+ */
+export const MeetingPermissions = {
+    VIEW: 'VIEW', // Details, participants, transcript, summary, chat, recordings
+    EDIT_TRANSCRIPT: 'EDIT_TRANSCRIPT', // Correct transcript segments
+    MAP_SPEAKERS: 'MAP_SPEAKERS', // Reassign transcript speakers
+    GENERATE_SUMMARY: 'GENERATE_SUMMARY', // Queue AI summary generation
+    EDIT_SUMMARY: 'EDIT_SUMMARY', // Edit the summary, accept revisions
+    EDIT_ACTION_ITEMS: 'EDIT_ACTION_ITEMS', // Update or complete action items
+    UPLOAD_RECORDING: 'UPLOAD_RECORDING',
+    CONTROL_MEETING: 'CONTROL_MEETING', // End or cancel the meeting
+} as const
+
+export type MeetingPermission =
+    (typeof MeetingPermissions)[keyof typeof MeetingPermissions]
+
+const MEMBER_PERMISSIONS: MeetingPermission[] = [
+    MeetingPermissions.VIEW,
+    MeetingPermissions.EDIT_TRANSCRIPT,
+    MeetingPermissions.GENERATE_SUMMARY,
+    MeetingPermissions.EDIT_ACTION_ITEMS,
+    MeetingPermissions.UPLOAD_RECORDING,
+]
+
+const ROLE_PERMISSIONS: Record<ParticipantRole, readonly MeetingPermission[]> = {
+    [ParticipantRole.HOST]: Object.values(MeetingPermissions),
+    [ParticipantRole.CO_HOST]: Object.values(MeetingPermissions),
+    [ParticipantRole.PARTICIPANT]: MEMBER_PERMISSIONS,
+}
+
+export interface MeetingCaller {
+    userId: string
+    role: ParticipantRole | null // Null for signed-in users outside the meeting
+}
+
+/**
+ * Whether a meeting role grants a permission (non-members have none)
+ */
+export function hasMeetingPermission(
+    role: ParticipantRole | null,
+    permission: MeetingPermission
+): boolean {
+    return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function unauthorizedResponse() {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+export function forbiddenResponse(
+    message = 'You do not have access to this meeting'
+) {
+    return NextResponse.json({ error: message }, { status: 403 })
+}
+
+/**
+ * The signed-in user and their role in the meeting, or a 401 response
+ * For routes with exceptions to the role matrix (e.g. action item assignees)
+ */
+export async function getMeetingCaller(
+    meetingId: string
+): Promise<MeetingCaller | NextResponse> {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    })
+
+    if (!session?.user?.id) {
+        return unauthorizedResponse()
+    }
+
+    const role = await participantRecordService.getUserMeetingRole(
+        meetingId,
+        session.user.id
+    )
+
+    return { userId: session.user.id, role }
+}
+
+/**
+ * Require a signed-in member whose role grants the permission
+ * @param deniedMessage - 403 message for members whose role falls short
+ * @returns The caller, or the 401/403 response to return
+ */
+export async function authorizeMeeting(
+    meetingId: string,
+    permission: MeetingPermission,
+    deniedMessage?: string
+): Promise<(MeetingCaller & { role: ParticipantRole }) | NextResponse> {
+    const caller = await getMeetingCaller(meetingId)
+    if (caller instanceof NextResponse) return caller
+
+    if (!caller.role) {
+        return forbiddenResponse()
+    }
+
+    if (!hasMeetingPermission(caller.role, permission)) {
+        return forbiddenResponse(deniedMessage)
+    }
+
+    return { userId: caller.userId, role: caller.role }
+}
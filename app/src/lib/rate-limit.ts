@@ -0,0 +1,99 @@
+/**
+ * In-memory fixed-window rate limiting
+ *
+ * Counts are kept per server process, so with several instances each one
+ * enforces the limit on its own share of the traffic.
+ */
+
+import type { NextRequest } from 'next/server'
+
+export interface RateLimitResult {
+    allowed: boolean
+    remaining: number
+    retryAfterSeconds: number // Until the window resets; 0 when allowed
+}
+
+export interface RateLimiter {
+    /**
+     * Count `cost` units for a key in the current window
+     */
+    consume(key: string, cost?: number): RateLimitResult
+}
+
+export function createRateLimiter(options: {
+    limit: number
+    windowMs: number
+}): RateLimiter {
+    const { limit, windowMs } = options
+    const windows = new Map<string, { count: number; resetAt: number }>()
+
+    return {
+        consume(key, cost = 1) {
+            const now = Date.now()
+
+            // Drop finished windows so idle keys do not pile up
+            if (windows.size > 10000) {
+                for (const [k, w] of windows) {
+                    if (w.resetAt <= now) windows.delete(k)
+                }
+            }
+
+            let window = windows.get(key)
+            if (!window || window.resetAt <= now) {
+                window = { count: 0, resetAt: now + windowMs }
+                windows.set(key, window)
+            }
+
+            if (window.count + cost > limit) {
+                return {
+                    allowed: false,
+                    remaining: Math.max(0, limit - window.count),
+                    retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+                }
+            }
+
+            window.count += cost
+            return {
+                allowed: true,
+                remaining: limit - window.count,
+                retryAfterSeconds: 0,
+            }
+        },
+    }
+}
+
+/**
+ * Positive integer limit from an environment variable
+ * Missing, non-numeric or non-positive values use the fallback (never NaN,
+ * which would let every request through)
+ */
+export function getLimitFromEnv(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] ?? '', 10)
+    return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/**
+ * Client address as reported by the trusted reverse proxies
+ *
+ * Forwarding headers are client-controlled unless a proxy we run sets them,
+ * so they are only read with TRUSTED_PROXY_COUNT set. Each trusted proxy
+ * appends the address it saw to X-Forwarded-For; the client is the entry
+ * that many hops from the right - anything further left may be spoofed.
+ * Without trusted proxies (the socket address is not available to route
+ * handlers) all callers share the 'unknown' key.
+ */
+export function getClientIp(request: NextRequest): string {
+    const trustedProxies = parseInt(process.env.TRUSTED_PROXY_COUNT ?? '', 10)
+    if (!(trustedProxies > 0)) return 'unknown'
+
+    const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+
+    if (forwarded.length > 0) {
+        return forwarded[Math.max(0, forwarded.length - trustedProxies)]
+    }
+
+    return request.headers.get('x-real-ip')?.trim() || 'unknown'
+}
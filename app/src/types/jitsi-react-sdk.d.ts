@@ -100,3 +100,8 @@ export interface IncomingMessageEvent {
   message: string
   stamp: string
 }
+
+export interface OutgoingMessageEvent {
+  message: string
+  privateMessage: boolean
+}